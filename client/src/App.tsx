@@ -8,6 +8,10 @@ import { AuthProvider } from '@/hooks/use-auth';
 import Dashboard from "@/pages/dashboard";
 import AccLogPage from "@/pages/acclog";
 import AccountsPage from "@/pages/accounts";
+import BuyersPage from "@/pages/buyers";
+import UsersPage from "@/pages/users";
+import AuditPage from "@/pages/audit";
+import ImportHistoryPage from "@/pages/import-history";
 import LoginPage from "@/pages/login";
 import ProtectedRoute from '@/components/protected-route';
 import NotFound from "@/pages/not-found";
@@ -26,6 +30,10 @@ function App() {
                 <Route path="/" element={<Dashboard />} />
                 <Route path="/accounts" element={<AccountsPage />} />
                 <Route path="/acclogs" element={<AccLogPage />} />
+                <Route path="/buyers" element={<BuyersPage />} />
+                <Route path="/users" element={<UsersPage />} />
+                <Route path="/audit" element={<AuditPage />} />
+                <Route path="/imports" element={<ImportHistoryPage />} />
               </Route>
               <Route path="*" element={<NotFound />} />
             </Routes>
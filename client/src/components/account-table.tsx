@@ -1,13 +1,147 @@
-﻿import { Copy, Key, Check, Power, Trash2, Search, Users, Download, Settings2 } from "lucide-react";
+﻿import { Copy, Key, Check, Power, Trash2, Search, Users, Download, Settings2, DollarSign, ArrowUpCircle } from "lucide-react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
-import type { Account, AccLog } from "@shared/schema";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ACCOUNT_STATES, ACCOUNT_STATE_TRANSITIONS, type Account, type AccountState, type AccountTagRef, type AccountWithTags, type AccLog, type ListSortField } from "@shared/schema";
 
-type AccountLike = Account | AccLog;
+type AccountLike = Account | AccountWithTags | AccLog;
+
+function tagsOf(account: AccountLike): AccountTagRef[] {
+  return "tags" in account ? account.tags : [];
+}
+
+function TagChips({ tags }: { tags: AccountTagRef[] }) {
+  if (tags.length === 0) {
+    return <span className="text-xs font-semibold text-muted-foreground">Chưa gắn</span>;
+  }
+  return (
+    <span className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <span
+          key={tag.id}
+          className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[11px] font-semibold text-card-foreground"
+          style={{ borderColor: tag.color }}
+        >
+          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+          {tag.name}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+export type ListSortValue = `${ListSortField}:${"asc" | "desc"}`;
+
+const SORT_OPTIONS: Array<{ value: ListSortValue; label: string }> = [
+  { value: "updatedAt:desc", label: "Mới cập nhật" },
+  { value: "updatedAt:asc", label: "Cập nhật cũ nhất" },
+  { value: "username:asc", label: "Username A-Z" },
+  { value: "username:desc", label: "Username Z-A" },
+  { value: "lv:desc", label: "LV cao nhất" },
+  { value: "lv:asc", label: "LV thấp nhất" },
+];
+
+export const ACCOUNT_STATE_LABELS: Record<AccountState, string> = {
+  available: "Sẵn sàng",
+  reserved: "Đang giữ",
+  sold: "Đã bán",
+  banned: "Bị khoá",
+  returned: "Bị trả lại",
+};
+
+const ACCOUNT_STATE_CLASSES: Record<AccountState, string> = {
+  available: "bg-emerald-500/15 text-emerald-600",
+  reserved: "bg-sky-500/15 text-sky-600",
+  sold: "bg-rose-500/15 text-rose-600",
+  banned: "bg-zinc-500/20 text-zinc-600 dark:text-zinc-300",
+  returned: "bg-amber-500/15 text-amber-600",
+};
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
+
+function HoldCountdown({ account }: { account: Account }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  if (!account.heldUntil) {
+    return null;
+  }
+  const remaining = new Date(account.heldUntil).getTime() - now;
+  return (
+    <span className="text-xs text-muted-foreground" data-testid={`hold-${account.id}`}>
+      Giữ bởi <span className="font-medium text-foreground">{account.heldBy ?? "--"}</span>
+      {" · "}
+      <span className={remaining <= 60_000 ? "font-semibold text-rose-600" : "font-mono"}>
+        {remaining > 0 ? formatRemaining(remaining) : "Hết hạn"}
+      </span>
+    </span>
+  );
+}
+
+interface AccountStateBadgeProps {
+  account: Account;
+  onChangeState?: (account: Account, state: AccountState) => void;
+  className?: string;
+}
+
+function AccountStateBadge({ account, onChangeState, className = "" }: AccountStateBadgeProps) {
+  const badge = (
+    <Badge
+      data-testid={`status-${account.id}`}
+      className={`inline-flex h-8 items-center gap-2 rounded-full border-0 px-3 text-xs font-semibold ${ACCOUNT_STATE_CLASSES[account.state]} ${onChangeState ? "cursor-pointer" : ""} ${className}`}
+    >
+      <span className="h-2 w-2 rounded-full bg-current" />
+      {ACCOUNT_STATE_LABELS[account.state]}
+    </Badge>
+  );
+  const control = !onChangeState ? badge : (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{badge}</DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-44">
+        <DropdownMenuLabel>Chuyển trạng thái</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {account.state === "reserved" ? (
+          <DropdownMenuItem onClick={() => onChangeState(account, "reserved")}>Gia hạn giữ</DropdownMenuItem>
+        ) : null}
+        {ACCOUNT_STATE_TRANSITIONS[account.state].map((next) => (
+          <DropdownMenuItem key={next} onClick={() => onChangeState(account, next)}>
+            {next === "available" && account.state === "reserved" ? "Bỏ giữ" : ACCOUNT_STATE_LABELS[next]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+  if (account.state !== "reserved") {
+    return control;
+  }
+  return (
+    <div className="flex flex-col items-start gap-1">
+      {control}
+      <HoldCountdown account={account} />
+    </div>
+  );
+}
 
 interface AccountTableProps {
   accounts: AccountLike[];
@@ -18,9 +152,11 @@ interface AccountTableProps {
   onSearchChange: (value: string) => void;
   onStatusFilterChange: (value: "all" | "on" | "off") => void;
   onCopyUsername: (username: string, accountId: number) => void;
-  onCopyPassword: (password: string, accountId: number) => void;
-  onToggleStatus: (account: AccountLike) => void;
-  onDeleteClick: (account: AccountLike) => void;
+  // List data only carries a masked password, so the handler fetches the real one
+  onCopyPassword: (accountId: number) => void;
+  // Row actions are hidden when their handler is left out, e.g. for a role that may not use them
+  onToggleStatus?: (account: AccountLike) => void;
+  onDeleteClick?: (account: AccountLike) => void;
   onSelectedAccountsChange: (selectedIds: number[]) => void;
   onDeleteSelected: () => void;
   onExportSelected: () => void;
@@ -43,6 +179,14 @@ interface AccountTableProps {
   levelOptions?: number[];
   onLevelFilterChange?: (value: string) => void;
   onEditTag?: (account: AccountLike) => void;
+  onEditPrice?: (account: AccountLike) => void;
+  onPromote?: (account: AccountLike) => void;
+  promotingIds?: Set<number>;
+  stateFilter?: "all" | AccountState;
+  onStateFilterChange?: (value: "all" | AccountState) => void;
+  onChangeState?: (account: Account, state: AccountState) => void;
+  sort?: ListSortValue;
+  onSortChange?: (value: ListSortValue) => void;
   updatingStatusIds?: Set<number>;
   activeCopyButtons?: Set<string>;
 }
@@ -92,6 +236,14 @@ export default function AccountTable({
   levelOptions = [],
   onLevelFilterChange,
   onEditTag,
+  onEditPrice,
+  onPromote,
+  promotingIds = new Set(),
+  stateFilter = "all",
+  onStateFilterChange,
+  onChangeState,
+  sort,
+  onSortChange,
   updatingStatusIds = new Set(),
   activeCopyButtons = new Set(),
 }: AccountTableProps) {
@@ -124,6 +276,12 @@ export default function AccountTable({
   const selectedCount = selectedAccounts.length;
   const hasSelection = selectedCount > 0;
   const canEditTag = showTagColumn && typeof onEditTag === "function";
+  const canEditPrice = typeof onEditPrice === "function";
+  const canPromote = typeof onPromote === "function";
+  const canToggleStatus = typeof onToggleStatus === "function";
+  const canDelete = typeof onDeleteClick === "function";
+  const getPriceOverride = (account: AccountLike) =>
+    "priceOverride" in account ? ((account as Account).priceOverride ?? null) : null;
   const levelOptionValues = Array.isArray(levelOptions) ? levelOptions : [];
   const hasLevelFilter = typeof onLevelFilterChange === "function" && levelOptionValues.length > 0;
   const normalizedLevelFilter = levelFilter ?? "all";
@@ -183,6 +341,21 @@ export default function AccountTable({
                   <SelectItem value="off">Tạm dừng</SelectItem>
                 </SelectContent>
               </Select>
+              {onStateFilterChange ? (
+                <Select value={stateFilter} onValueChange={(value) => onStateFilterChange(value as "all" | AccountState)}>
+                  <SelectTrigger className="h-10 w-full rounded-2xl border-border/70 text-sm sm:w-[160px]" data-testid="select-state-filter">
+                    <SelectValue placeholder="Vòng đời" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Mọi trạng thái</SelectItem>
+                    {ACCOUNT_STATES.map((state) => (
+                      <SelectItem key={state} value={state}>
+                        {ACCOUNT_STATE_LABELS[state]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : null}
               {hasLevelFilter ? (
                 <Select value={normalizedLevelFilter} onValueChange={(value) => onLevelFilterChange?.(value)}>
                   <SelectTrigger className="h-10 w-full rounded-2xl border-border/70 text-sm sm:w-[160px]">
@@ -198,6 +371,20 @@ export default function AccountTable({
                   </SelectContent>
                 </Select>
               ) : null}
+              {onSortChange ? (
+                <Select value={sort} onValueChange={(value) => onSortChange(value as ListSortValue)}>
+                  <SelectTrigger className="h-10 w-full rounded-2xl border-border/70 text-sm sm:w-[170px]" data-testid="select-sort">
+                    <SelectValue placeholder="Sắp xếp" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_OPTIONS.filter((option) => showLevelColumn || !option.value.startsWith("lv:")).map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : null}
             </div>
 
 
@@ -236,10 +423,7 @@ export default function AccountTable({
                     ? "bg-emerald-500/15 text-emerald-600"
                     : "bg-rose-500/15 text-rose-600";
                   const levelDisplay = typeof account.lv === "number" ? account.lv : "--";
-                  const tagValue =
-                    showTagColumn && "tag" in account ? ((account as Account).tag ?? null) : null;
-                  const hasTag = !!(tagValue && tagValue.length > 0);
-                  const tagLabel = hasTag ? tagValue : "Chưa gắn";
+                  const accountTags = showTagColumn ? tagsOf(account) : [];
 
                   return (
                     <tr key={account.id} className="transition-colors hover:bg-muted/40" data-testid={`row-account-${account.id}`}>
@@ -272,30 +456,32 @@ export default function AccountTable({
                             <Button
                               size="sm"
                               variant="outline"
-                              className="inline-flex h-10 items-center gap-2 rounded-full border-dashed border-border/60 px-3 text-xs"
+                              className="inline-flex h-auto min-h-10 items-center gap-2 rounded-2xl border-dashed border-border/60 px-3 py-1.5 text-xs"
                               onClick={() => onEditTag?.(account)}
                             >
                               <Settings2 className="h-3.5 w-3.5" />
                               <span className="flex flex-col text-left leading-tight">
                                 <span className="text-[10px] uppercase tracking-wide text-muted-foreground">Chỉnh sửa tag</span>
-                                <span className="text-xs font-semibold text-card-foreground">{tagLabel}</span>
+                                <TagChips tags={accountTags} />
                               </span>
                             </Button>
                           ) : (
-                            <Badge className="inline-flex h-8 items-center gap-2 rounded-full border-0 px-3 text-xs font-semibold text-muted-foreground">
-                              {tagLabel}
-                            </Badge>
+                            <TagChips tags={accountTags} />
                           )}
                         </td>
                       ) : null}
                       <td className="px-4 py-4">
-                        <Badge
-                          data-testid={`status-${account.id}`}
-                          className={`inline-flex h-8 items-center gap-2 rounded-full border-0 px-3 text-xs font-semibold ${statusClasses}`}
-                        >
-                          <span className="h-2 w-2 rounded-full bg-current" />
-                          {account.status ? "ON" : "OFF"}
-                        </Badge>
+                        {"state" in account ? (
+                          <AccountStateBadge account={account as Account} onChangeState={onChangeState} />
+                        ) : (
+                          <Badge
+                            data-testid={`status-${account.id}`}
+                            className={`inline-flex h-8 items-center gap-2 rounded-full border-0 px-3 text-xs font-semibold ${statusClasses}`}
+                          >
+                            <span className="h-2 w-2 rounded-full bg-current" />
+                            {account.status ? "ON" : "OFF"}
+                          </Badge>
+                        )}
                       </td>
                       <td className="px-4 py-4 text-sm text-muted-foreground">
                         {formatUpdatedAt(account.updatedAt)}
@@ -321,37 +507,72 @@ export default function AccountTable({
                                 ? "border-primary text-primary bg-primary/20 shadow-md border-2 font-bold"
                                 : "border-primary/40 text-primary/70 hover:bg-primary/10 hover:border-primary/60 hover:text-primary"
                               }`}
-                            onClick={() => onCopyPassword(account.password, account.id)}
+                            onClick={() => onCopyPassword(account.id)}
                             data-testid={`button-copy-password-${account.id}`}
                           >
                             <Key className={`h-4 w-4 ${activeCopyButtons.has(`password-${account.id}`) ? "scale-110" : ""}`} />
                           </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className={`h-9 w-9 rounded-full transition-all duration-200 ${updatingStatusIds.has(account.id)
-                                ? account.status
-                                  ? "border-emerald-600 text-emerald-700 bg-emerald-500/30 shadow-md border-2 font-bold"
-                                  : "border-amber-600 text-amber-700 bg-amber-500/30 shadow-md border-2 font-bold"
-                                : account.status
-                                  ? "border-emerald-500/40 text-emerald-600/70 hover:bg-emerald-500/10 hover:border-emerald-500/60 hover:text-emerald-600"
-                                  : "border-amber-500/40 text-amber-600/70 hover:bg-amber-500/10 hover:border-amber-500/60 hover:text-amber-600"
-                              }`}
-                            onClick={() => onToggleStatus(account)}
-                            disabled={updatingStatusIds.has(account.id)}
-                            data-testid={`button-toggle-status-${account.id}`}
-                          >
-                            {account.status ? <Check className={`h-4 w-4 ${updatingStatusIds.has(account.id) ? "scale-110" : ""}`} /> : <Power className={`h-4 w-4 ${updatingStatusIds.has(account.id) ? "scale-110" : ""}`} />}
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="h-9 w-9 rounded-full border-rose-500/40 text-rose-600 hover:bg-rose-500/10"
-                            onClick={() => onDeleteClick(account)}
-                            data-testid={`button-delete-${account.id}`}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {canToggleStatus ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className={`h-9 w-9 rounded-full transition-all duration-200 ${updatingStatusIds.has(account.id)
+                                  ? account.status
+                                    ? "border-emerald-600 text-emerald-700 bg-emerald-500/30 shadow-md border-2 font-bold"
+                                    : "border-amber-600 text-amber-700 bg-amber-500/30 shadow-md border-2 font-bold"
+                                  : account.status
+                                    ? "border-emerald-500/40 text-emerald-600/70 hover:bg-emerald-500/10 hover:border-emerald-500/60 hover:text-emerald-600"
+                                    : "border-amber-500/40 text-amber-600/70 hover:bg-amber-500/10 hover:border-amber-500/60 hover:text-amber-600"
+                                }`}
+                              onClick={() => onToggleStatus?.(account)}
+                              disabled={updatingStatusIds.has(account.id)}
+                              data-testid={`button-toggle-status-${account.id}`}
+                            >
+                              {account.status ? <Check className={`h-4 w-4 ${updatingStatusIds.has(account.id) ? "scale-110" : ""}`} /> : <Power className={`h-4 w-4 ${updatingStatusIds.has(account.id) ? "scale-110" : ""}`} />}
+                            </Button>
+                          ) : null}
+                          {canEditPrice ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className={`h-9 rounded-full px-3 text-xs ${getPriceOverride(account) !== null
+                                  ? "border-primary/60 text-primary"
+                                  : "border-border/60 text-muted-foreground"
+                                }`}
+                              onClick={() => onEditPrice?.(account)}
+                              title="Giá riêng của account"
+                              data-testid={`button-edit-price-${account.id}`}
+                            >
+                              <DollarSign className="h-4 w-4" />
+                              {getPriceOverride(account) !== null ? (
+                                <span className="ml-1">{getPriceOverride(account)!.toLocaleString("vi-VN")}đ</span>
+                              ) : null}
+                            </Button>
+                          ) : null}
+                          {canPromote ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-9 w-9 rounded-full border-primary/40 text-primary hover:bg-primary/10"
+                              onClick={() => onPromote?.(account)}
+                              disabled={promotingIds.has(account.id)}
+                              title="Chuyển sang kho Csuc"
+                              data-testid={`button-promote-${account.id}`}
+                            >
+                              <ArrowUpCircle className="h-4 w-4" />
+                            </Button>
+                          ) : null}
+                          {canDelete ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-9 w-9 rounded-full border-rose-500/40 text-rose-600 hover:bg-rose-500/10"
+                              onClick={() => onDeleteClick?.(account)}
+                              data-testid={`button-delete-${account.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          ) : null}
                         </div>
                       </td>
                     </tr>
@@ -373,10 +594,7 @@ export default function AccountTable({
                 ? "bg-emerald-500/15 text-emerald-600"
                 : "bg-rose-500/15 text-rose-600";
               const levelDisplay = typeof account.lv === "number" ? account.lv : "--";
-              const mobileTagValue =
-                showTagColumn && "tag" in account ? ((account as Account).tag ?? null) : null;
-              const mobileHasTag = !!(mobileTagValue && mobileTagValue.length > 0);
-              const mobileTagLabel = mobileHasTag ? mobileTagValue : "Chưa gắn";
+              const mobileTags = showTagColumn ? tagsOf(account) : [];
 
               return (
                 <div key={account.id} className="rounded-3xl border border-border/70 bg-card p-4 shadow-sm">
@@ -390,28 +608,32 @@ export default function AccountTable({
                       {showLevelColumn ? (
                         <div className="text-xs text-muted-foreground">Cấp độ: <span className="font-semibold text-card-foreground">{levelDisplay}</span></div>
                       ) : null}
-                      <Badge className={`mt-2 inline-flex items-center gap-2 rounded-full border-0 px-3 py-1 text-xs font-semibold ${statusClasses}`} data-testid={`status-${account.id}`}>
-                        <span className="h-2 w-2 rounded-full bg-current" />
-                        {account.status ? "ON" : "OFF"}
-                      </Badge>
+                      {"state" in account ? (
+                        <AccountStateBadge account={account as Account} onChangeState={onChangeState} className="mt-2" />
+                      ) : (
+                        <Badge className={`mt-2 inline-flex items-center gap-2 rounded-full border-0 px-3 py-1 text-xs font-semibold ${statusClasses}`} data-testid={`status-${account.id}`}>
+                          <span className="h-2 w-2 rounded-full bg-current" />
+                          {account.status ? "ON" : "OFF"}
+                        </Badge>
+                      )}
                       {showTagColumn ? (
                         canEditTag ? (
                           <Button
                             variant="outline"
                             size="sm"
-                            className="mt-2 inline-flex h-10 items-center gap-2 rounded-full border-dashed border-border/60 px-3 text-xs"
+                            className="mt-2 inline-flex h-auto min-h-10 items-center gap-2 rounded-2xl border-dashed border-border/60 px-3 py-1.5 text-xs"
                             onClick={() => onEditTag?.(account)}
                           >
                             <Settings2 className="h-3.5 w-3.5" />
                             <span className="flex flex-col text-left leading-tight">
                               <span className="text-[10px] uppercase tracking-wide text-muted-foreground">Chỉnh sửa tag</span>
-                              <span className="text-xs font-semibold text-card-foreground">{mobileTagLabel}</span>
+                              <TagChips tags={mobileTags} />
                             </span>
                           </Button>
                         ) : (
-                          <Badge className="mt-2 inline-flex items-center gap-2 rounded-full border-0 px-3 py-1 text-xs font-semibold text-muted-foreground">
-                            {mobileTagLabel}
-                          </Badge>
+                          <div className="mt-2">
+                            <TagChips tags={mobileTags} />
+                          </div>
                         )
                       ) : null}
                     </div>
@@ -443,39 +665,70 @@ export default function AccountTable({
                           ? "border-primary text-primary bg-primary/20 shadow-md border-2"
                           : "border-primary/40 text-primary/70 hover:bg-primary/10 hover:border-primary/60 hover:text-primary"
                         }`}
-                      onClick={() => onCopyPassword(account.password, account.id)}
+                      onClick={() => onCopyPassword(account.id)}
                       data-testid={`button-copy-password-${account.id}`}
                     >
                       <Key className={`mr-2 h-4 w-4 ${activeCopyButtons.has(`password-${account.id}`) ? "scale-110" : ""}`} />
                       Copy pass
                     </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className={`h-10 rounded-2xl text-sm font-medium transition-all duration-200 ${updatingStatusIds.has(account.id)
-                          ? account.status
-                            ? "border-emerald-600 text-emerald-700 bg-emerald-500/30 shadow-md border-2"
-                            : "border-amber-600 text-amber-700 bg-amber-500/30 shadow-md border-2"
-                          : account.status
-                            ? "border-emerald-500/40 text-emerald-600/70 hover:bg-emerald-500/10 hover:border-emerald-500/60 hover:text-emerald-600"
-                            : "border-amber-500/40 text-amber-600/70 hover:bg-amber-500/10 hover:border-amber-500/60 hover:text-amber-600"
-                        }`}
-                      onClick={() => onToggleStatus(account)}
-                      disabled={updatingStatusIds.has(account.id)}
-                      data-testid={`button-toggle-status-${account.id}`}
-                    >
-                      {updatingStatusIds.has(account.id) ? "Đang cập nhật..." : (account.status ? "OFF tài khoản" : "ON tài khoản")}
-                    </Button>
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      className="h-10 rounded-2xl text-sm"
-                      onClick={() => onDeleteClick(account)}
-                      data-testid={`button-delete-${account.id}`}
-                    >
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      Xóa tài khoản
-                    </Button>
+                    {canToggleStatus ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={`h-10 rounded-2xl text-sm font-medium transition-all duration-200 ${updatingStatusIds.has(account.id)
+                            ? account.status
+                              ? "border-emerald-600 text-emerald-700 bg-emerald-500/30 shadow-md border-2"
+                              : "border-amber-600 text-amber-700 bg-amber-500/30 shadow-md border-2"
+                            : account.status
+                              ? "border-emerald-500/40 text-emerald-600/70 hover:bg-emerald-500/10 hover:border-emerald-500/60 hover:text-emerald-600"
+                              : "border-amber-500/40 text-amber-600/70 hover:bg-amber-500/10 hover:border-amber-500/60 hover:text-amber-600"
+                          }`}
+                        onClick={() => onToggleStatus?.(account)}
+                        disabled={updatingStatusIds.has(account.id)}
+                        data-testid={`button-toggle-status-${account.id}`}
+                      >
+                        {updatingStatusIds.has(account.id) ? "Đang cập nhật..." : (account.status ? "OFF tài khoản" : "ON tài khoản")}
+                      </Button>
+                    ) : null}
+                    {canEditPrice ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-10 rounded-2xl text-sm"
+                        onClick={() => onEditPrice?.(account)}
+                        data-testid={`button-edit-price-${account.id}`}
+                      >
+                        <DollarSign className="mr-2 h-4 w-4" />
+                        {getPriceOverride(account) !== null
+                          ? `Giá riêng: ${getPriceOverride(account)!.toLocaleString("vi-VN")}đ`
+                          : "Đặt giá riêng"}
+                      </Button>
+                    ) : null}
+                    {canPromote ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-10 rounded-2xl text-sm"
+                        onClick={() => onPromote?.(account)}
+                        disabled={promotingIds.has(account.id)}
+                        data-testid={`button-promote-${account.id}`}
+                      >
+                        <ArrowUpCircle className="mr-2 h-4 w-4" />
+                        {promotingIds.has(account.id) ? "Đang chuyển..." : "Chuyển sang kho Csuc"}
+                      </Button>
+                    ) : null}
+                    {canDelete ? (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="h-10 rounded-2xl text-sm"
+                        onClick={() => onDeleteClick?.(account)}
+                        data-testid={`button-delete-${account.id}`}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Xóa tài khoản
+                      </Button>
+                    ) : null}
                   </div>
                 </div>
               );
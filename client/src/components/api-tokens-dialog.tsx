@@ -0,0 +1,193 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { ApiTokenInfo, CreateApiToken, CreatedApiToken, Permission } from "@shared/schema";
+
+import { useToast } from "@/hooks/use-toast";
+import { PERMISSION_LABELS, useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const TOKENS_KEY = "/api/auth/tokens";
+const EXPIRY_OPTIONS = [7, 30, 90, 365];
+
+interface ApiTokensDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString("vi-VN") : "Chưa dùng");
+
+const isExpired = (token: ApiTokenInfo) => new Date(token.expiresAt).getTime() <= Date.now();
+
+export default function ApiTokensDialog({ open, onOpenChange }: ApiTokensDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Permission[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenInfo[]>({
+    queryKey: [TOKENS_KEY],
+    queryFn: () => apiRequest<ApiTokenInfo[]>("GET", TOKENS_KEY),
+    enabled: open,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setScopes([]);
+      setExpiresInDays(90);
+      setCreatedToken(null);
+    }
+  }, [open]);
+
+  const createMutation = useMutation({
+    mutationFn: async (payload: CreateApiToken) => apiRequest<CreatedApiToken>("POST", TOKENS_KEY, payload),
+    onSuccess: (data) => {
+      setCreatedToken(data);
+      setName("");
+      setScopes([]);
+      queryClient.invalidateQueries({ queryKey: [TOKENS_KEY] });
+    },
+    onError: (err: unknown) => {
+      toast({ title: "Không thể tạo token", description: err instanceof Error ? err.message : "Thử lại sau", variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `${TOKENS_KEY}/${id}`),
+    onSuccess: () => {
+      toast({ title: "Đã thu hồi token" });
+      queryClient.invalidateQueries({ queryKey: [TOKENS_KEY] });
+    },
+    onError: (err: unknown) => {
+      toast({ title: "Không thể thu hồi token", description: err instanceof Error ? err.message : "Thử lại sau", variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: Permission, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((item) => item !== scope)));
+  };
+
+  const handleCreate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!createMutation.isPending && name.trim() && scopes.length > 0) {
+      createMutation.mutate({ name: name.trim(), scopes, expiresInDays });
+    }
+  };
+
+  const copyToken = () => {
+    if (!createdToken) return;
+    navigator.clipboard
+      .writeText(createdToken.token)
+      .then(() => toast({ title: "Đã sao chép token" }))
+      .catch(() => toast({ title: "Không thể sao chép", variant: "destructive" }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>API token</DialogTitle>
+          <DialogDescription>
+            Cho script và bot gọi API bằng header <code>Authorization: Bearer &lt;token&gt;</code>. Token chỉ làm được những gì bạn chọn.
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdToken ? (
+          <div className="space-y-2 rounded-lg border p-3">
+            <p className="text-sm font-medium">Token "{createdToken.name}" vừa tạo</p>
+            <p className="text-xs text-muted-foreground">Hãy sao chép ngay: token sẽ không hiện lại.</p>
+            <p className="break-all rounded-lg bg-muted p-2 font-mono text-xs">{createdToken.token}</p>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={copyToken}>Sao chép</Button>
+              <Button size="sm" onClick={() => setCreatedToken(null)}>Đã lưu</Button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleCreate} className="space-y-3 rounded-lg border p-3">
+            <div className="grid gap-3 sm:grid-cols-[1fr_160px]">
+              <div className="space-y-2">
+                <Label htmlFor="api-token-name">Tên</Label>
+                <Input id="api-token-name" value={name} onChange={(event) => setName(event.target.value)} maxLength={64} placeholder="vd. script nhập acc" />
+              </div>
+              <div className="space-y-2">
+                <Label>Hết hạn sau</Label>
+                <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((days) => (
+                      <SelectItem key={days} value={String(days)}>{days} ngày</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Quyền</Label>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {(user?.permissions ?? []).map((permission) => (
+                  <label key={permission} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={scopes.includes(permission)} onCheckedChange={(checked) => toggleScope(permission, checked === true)} />
+                    {PERMISSION_LABELS[permission]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" size="sm" disabled={createMutation.isPending || !name.trim() || scopes.length === 0}>
+                {createMutation.isPending ? "Đang tạo..." : "Tạo token"}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Đang tải...</p>
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Chưa có token nào</p>
+          ) : (
+            tokens.map((token) => (
+              <div key={token.id} className="flex items-start justify-between gap-3 rounded-lg border p-3 text-sm">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{token.name}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</span>
+                    {isExpired(token) ? <Badge variant="destructive">Hết hạn</Badge> : null}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map((scope) => (
+                      <Badge key={scope} variant="outline" className="text-xs">{PERMISSION_LABELS[scope]}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Hết hạn {new Date(token.expiresAt).toLocaleDateString("vi-VN")} · Dùng lần cuối {formatTime(token.lastUsedAt)}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => revokeMutation.mutate(token.id)} disabled={revokeMutation.isPending}>
+                  Thu hồi
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Đóng</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
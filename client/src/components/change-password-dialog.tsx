@@ -0,0 +1,123 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ChangePasswordDialog({ open, onOpenChange }: ChangePasswordDialogProps) {
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      setError(null);
+    }
+  }, [open]);
+
+  const changeMutation = useMutation({
+    mutationFn: async (data: { currentPassword: string; newPassword: string }) =>
+      apiRequest("POST", "/api/auth/password", data),
+    onSuccess: () => {
+      toast({ title: "Đã đổi mật khẩu" });
+      onOpenChange(false);
+    },
+    onError: (err: unknown) => {
+      setError(err instanceof Error ? err.message : "Không thể đổi mật khẩu");
+    },
+  });
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (changeMutation.isPending) {
+      return;
+    }
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Mật khẩu mới tối thiểu ${MIN_PASSWORD_LENGTH} ký tự`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Mật khẩu nhập lại không khớp");
+      return;
+    }
+    changeMutation.mutate({ currentPassword, newPassword });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !changeMutation.isPending && onOpenChange(nextOpen)}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Đổi mật khẩu</DialogTitle>
+            <DialogDescription>Mật khẩu mới áp dụng từ lần đăng nhập tiếp theo.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Mật khẩu hiện tại</Label>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(event) => setCurrentPassword(event.target.value)}
+                disabled={changeMutation.isPending}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">Mật khẩu mới</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(event) => setNewPassword(event.target.value)}
+                maxLength={128}
+                disabled={changeMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Nhập lại mật khẩu mới</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(event) => setConfirmPassword(event.target.value)}
+                maxLength={128}
+                disabled={changeMutation.isPending}
+              />
+            </div>
+            {error ? <p className="text-xs text-destructive">{error}</p> : null}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)} disabled={changeMutation.isPending}>
+              Hủy
+            </Button>
+            <Button type="submit" disabled={changeMutation.isPending || !currentPassword}>
+              {changeMutation.isPending ? "Đang lưu..." : "Đổi mật khẩu"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
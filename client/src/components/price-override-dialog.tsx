@@ -0,0 +1,121 @@
+import { FormEvent, useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface PriceOverrideDialogProps {
+  open: boolean;
+  subject?: string;
+  currentValue: number | null;
+  isProcessing: boolean;
+  onClose: () => void;
+  onSave: (price: number | null) => void;
+}
+
+export default function PriceOverrideDialog({
+  open,
+  subject,
+  currentValue,
+  isProcessing,
+  onClose,
+  onSave,
+}: PriceOverrideDialogProps) {
+  const [value, setValue] = useState(currentValue === null ? "" : String(currentValue));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setValue(currentValue === null ? "" : String(currentValue));
+      setError(null);
+    }
+  }, [currentValue, open]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isProcessing) {
+      return;
+    }
+
+    const trimmed = value.trim();
+    if (trimmed.length === 0) {
+      onSave(null);
+      return;
+    }
+    const price = parseInt(trimmed, 10);
+    if (isNaN(price) || price < 0) {
+      setError("Vui lòng nhập giá hợp lệ (số nguyên >= 0)");
+      return;
+    }
+    onSave(price);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && !isProcessing) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Giá riêng của account</DialogTitle>
+            <DialogDescription>
+              {subject ? `Giá bán cố định cho tài khoản ${subject}.` : "Giá bán cố định cho tài khoản."}{" "}
+              Giá riêng được ưu tiên hơn rule và giá của buổi live.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="price-override">Giá (VNĐ)</Label>
+            <Input
+              id="price-override"
+              type="number"
+              min="0"
+              value={value}
+              onChange={(event) => {
+                setValue(event.target.value);
+                setError(null);
+              }}
+              placeholder="Để trống để dùng giá của buổi live"
+              disabled={isProcessing}
+              autoFocus
+            />
+            {error ? <p className="text-xs text-destructive">{error}</p> : null}
+          </div>
+
+          <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-end">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => {
+                if (!isProcessing) {
+                  onClose();
+                }
+              }}
+              disabled={isProcessing}
+            >
+              Hủy
+            </Button>
+            <div className="flex w-full flex-col gap-2 sm:w-auto sm:flex-row">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onSave(null)}
+                disabled={isProcessing || currentValue === null}
+              >
+                Xóa giá riêng
+              </Button>
+              <Button type="submit" disabled={isProcessing}>
+                {isProcessing ? "Đang lưu..." : "Lưu giá"}
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
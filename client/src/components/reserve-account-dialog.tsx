@@ -0,0 +1,124 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { HOLD_DEFAULT_MINUTES, HOLD_MAX_MINUTES, type Buyer, type ReserveAccount } from "@shared/schema";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const NO_BUYER = "none";
+
+interface ReserveAccountDialogProps {
+  open: boolean;
+  subject?: string;
+  isExtending: boolean;
+  isProcessing: boolean;
+  onClose: () => void;
+  onConfirm: (hold: ReserveAccount) => void;
+}
+
+export default function ReserveAccountDialog({
+  open,
+  subject,
+  isExtending,
+  isProcessing,
+  onClose,
+  onConfirm,
+}: ReserveAccountDialogProps) {
+  const [minutes, setMinutes] = useState(String(HOLD_DEFAULT_MINUTES));
+  const [buyerChoice, setBuyerChoice] = useState<string>(NO_BUYER);
+  const [error, setError] = useState<string | null>(null);
+
+  const buyersQuery = useQuery<Buyer[]>({ queryKey: ["/api/buyers"], enabled: open });
+
+  useEffect(() => {
+    if (open) {
+      setMinutes(String(HOLD_DEFAULT_MINUTES));
+      setBuyerChoice(NO_BUYER);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isProcessing) {
+      return;
+    }
+
+    const value = parseInt(minutes, 10);
+    if (isNaN(value) || value < 1 || value > HOLD_MAX_MINUTES) {
+      setError(`Thời gian giữ từ 1 đến ${HOLD_MAX_MINUTES} phút`);
+      return;
+    }
+    onConfirm({ minutes: value, buyerId: buyerChoice === NO_BUYER ? undefined : Number(buyerChoice) });
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && !isProcessing) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>{isExtending ? "Gia hạn giữ account" : "Giữ account"}</DialogTitle>
+            <DialogDescription>
+              {subject ? `Giữ tài khoản ${subject} trong lúc người mua thanh toán.` : "Giữ tài khoản trong lúc người mua thanh toán."}{" "}
+              Hết thời gian, account tự động trở lại trạng thái sẵn sàng.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="hold-minutes">Thời gian giữ (phút)</Label>
+              <Input
+                id="hold-minutes"
+                type="number"
+                min="1"
+                max={HOLD_MAX_MINUTES}
+                value={minutes}
+                onChange={(event) => {
+                  setMinutes(event.target.value);
+                  setError(null);
+                }}
+                disabled={isProcessing}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Người mua</Label>
+              <Select value={buyerChoice} onValueChange={setBuyerChoice} disabled={isProcessing}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Chọn người mua" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_BUYER}>Chưa chọn</SelectItem>
+                  {(buyersQuery.data ?? []).map((buyer) => (
+                    <SelectItem key={buyer.id} value={String(buyer.id)}>
+                      {buyer.name}{buyer.contact ? ` (${buyer.contact})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {error ? <p className="text-xs text-destructive">{error}</p> : null}
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={onClose} disabled={isProcessing}>
+              Hủy
+            </Button>
+            <Button type="submit" disabled={isProcessing}>
+              {isProcessing ? "Đang lưu..." : isExtending ? "Gia hạn" : "Giữ account"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Buyer, OrderBuyerInput } from "@shared/schema";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const NEW_BUYER = "new";
+
+interface SellToBuyerDialogProps {
+  open: boolean;
+  itemCount: number;
+  isProcessing: boolean;
+  onClose: () => void;
+  onConfirm: (buyer: OrderBuyerInput) => void;
+}
+
+export default function SellToBuyerDialog({
+  open,
+  itemCount,
+  isProcessing,
+  onClose,
+  onConfirm,
+}: SellToBuyerDialogProps) {
+  const [buyerChoice, setBuyerChoice] = useState<string>(NEW_BUYER);
+  const [name, setName] = useState("");
+  const [contact, setContact] = useState("");
+  const [note, setNote] = useState("");
+
+  const buyersQuery = useQuery<Buyer[]>({ queryKey: ["/api/buyers"], enabled: open });
+
+  useEffect(() => {
+    if (open) {
+      setBuyerChoice(NEW_BUYER);
+      setName("");
+      setContact("");
+      setNote("");
+    }
+  }, [open]);
+
+  const isNewBuyer = buyerChoice === NEW_BUYER;
+  const canSubmit = isNewBuyer ? name.trim().length > 0 : true;
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isProcessing || !canSubmit) {
+      return;
+    }
+
+    const orderNote = note.trim() || undefined;
+    if (isNewBuyer) {
+      onConfirm({ name: name.trim(), contact: contact.trim() || undefined, note: orderNote });
+    } else {
+      onConfirm({ buyerId: Number(buyerChoice), note: orderNote });
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && !isProcessing) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Bán cho người mua</DialogTitle>
+            <DialogDescription>
+              Tắt {itemCount} tài khoản đang chọn và gom vào một đơn hàng của người mua.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Người mua</Label>
+            <Select value={buyerChoice} onValueChange={setBuyerChoice} disabled={isProcessing}>
+              <SelectTrigger>
+                <SelectValue placeholder="Chọn người mua" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_BUYER}>+ Người mua mới</SelectItem>
+                {(buyersQuery.data ?? []).map((buyer) => (
+                  <SelectItem key={buyer.id} value={String(buyer.id)}>
+                    {buyer.name}{buyer.contact ? ` (${buyer.contact})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isNewBuyer ? (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="buyer-name">Tên người mua</Label>
+                <Input
+                  id="buyer-name"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                  maxLength={120}
+                  disabled={isProcessing}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="buyer-contact">Liên hệ</Label>
+                <Input
+                  id="buyer-contact"
+                  value={contact}
+                  onChange={(event) => setContact(event.target.value)}
+                  placeholder="SĐT / Zalo / Facebook"
+                  maxLength={160}
+                  disabled={isProcessing}
+                />
+              </div>
+            </div>
+          ) : null}
+
+          <div className="space-y-2">
+            <Label htmlFor="order-note">Ghi chú đơn hàng</Label>
+            <Input
+              id="order-note"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              maxLength={500}
+              disabled={isProcessing}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={onClose} disabled={isProcessing}>
+              Hủy
+            </Button>
+            <Button type="submit" disabled={isProcessing || !canSubmit}>
+              {isProcessing ? "Đang lưu..." : "Xác nhận bán"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { SessionInfo } from "@shared/schema";
+
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+const SESSIONS_KEY = "/api/auth/sessions";
+
+interface SessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type RevokeResponse = { revoked: number };
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString("vi-VN") : "—");
+
+export default function SessionsDialog({ open, onOpenChange }: SessionsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<SessionInfo[]>({
+    queryKey: [SESSIONS_KEY],
+    queryFn: () => apiRequest<SessionInfo[]>("GET", SESSIONS_KEY),
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const onError = (err: unknown) =>
+    toast({ title: "Không thể đăng xuất phiên", description: err instanceof Error ? err.message : "Thử lại sau", variant: "destructive" });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest<RevokeResponse>("DELETE", `${SESSIONS_KEY}/${id}`),
+    onSuccess: () => {
+      toast({ title: "Đã đăng xuất phiên" });
+      queryClient.invalidateQueries({ queryKey: [SESSIONS_KEY] });
+    },
+    onError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => apiRequest<RevokeResponse>("DELETE", SESSIONS_KEY),
+    onSuccess: (data) => {
+      toast({ title: "Đã đăng xuất các phiên khác", description: `${data.revoked} phiên` });
+      queryClient.invalidateQueries({ queryKey: [SESSIONS_KEY] });
+    },
+    onError,
+  });
+
+  const isPending = revokeMutation.isPending || revokeOthersMutation.isPending;
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Phiên đăng nhập</DialogTitle>
+          <DialogDescription>Các thiết bị đang đăng nhập bằng tài khoản của bạn. Đăng xuất những phiên bạn không nhận ra.</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Đang tải...</p>
+          ) : (
+            sessions.map((session) => (
+              <div key={session.id} className="flex items-start justify-between gap-3 rounded-lg border p-3 text-sm">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{session.ip ?? "IP không rõ"}</span>
+                    {session.current ? <Badge variant="secondary">Phiên này</Badge> : null}
+                  </div>
+                  <p className="truncate text-xs text-muted-foreground" title={session.userAgent ?? undefined}>
+                    {session.userAgent ?? "Trình duyệt không rõ"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Đăng nhập {formatTime(session.createdAt)} · Hoạt động {formatTime(session.lastSeenAt)}
+                  </p>
+                </div>
+                {session.current ? null : (
+                  <Button size="sm" variant="outline" onClick={() => revokeMutation.mutate(session.id)} disabled={isPending}>
+                    Đăng xuất
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="destructive" onClick={() => revokeOthersMutation.mutate()} disabled={isPending || !hasOthers}>
+            {revokeOthersMutation.isPending ? "Đang đăng xuất..." : "Đăng xuất mọi phiên khác"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
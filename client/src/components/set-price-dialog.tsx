@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { DollarSign } from "lucide-react";
+import { DollarSign, Plus, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
@@ -14,6 +14,22 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 
+interface PricingRuleDraft {
+  name: string;
+  minLevel: string;
+  maxLevel: string;
+  tag: string;
+  minSkins: string;
+  price: string;
+}
+
+const EMPTY_RULE: PricingRuleDraft = { name: "", minLevel: "", maxLevel: "", tag: "", minSkins: "", price: "" };
+
+const toOptionalInt = (value: string) => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
 interface SetPriceDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -24,9 +40,26 @@ export default function SetPriceDialog({ open, onOpenChange }: SetPriceDialogPro
   const queryClient = useQueryClient();
   const [sessionName, setSessionName] = useState("");
   const [pricePerAccount, setPricePerAccount] = useState("");
+  const [rules, setRules] = useState<PricingRuleDraft[]>([]);
+
+  const updateRule = (index: number, patch: Partial<PricingRuleDraft>) => {
+    setRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
 
   const setPriceMutation = useMutation({
-    mutationFn: async (data: { sessionName: string; pricePerAccount: number }) => {
+    mutationFn: async (data: {
+      sessionName: string;
+      pricePerAccount: number;
+      rules: Array<{
+        name: string;
+        minLevel: number | null;
+        maxLevel: number | null;
+        tag: string | null;
+        minSkins: number | null;
+        price: number;
+        priority: number;
+      }>;
+    }) => {
       return apiRequest("POST", "/api/revenue/set-price", data);
     },
     onSuccess: () => {
@@ -45,6 +78,7 @@ export default function SetPriceDialog({ open, onOpenChange }: SetPriceDialogPro
       });
       setSessionName("");
       setPricePerAccount("");
+      setRules([]);
       onOpenChange(false);
     },
     onError: (error: unknown) => {
@@ -76,19 +110,46 @@ export default function SetPriceDialog({ open, onOpenChange }: SetPriceDialogPro
       });
       return;
     }
-    setPriceMutation.mutate({ sessionName: sessionName.trim(), pricePerAccount: price });
+    // Rules higher in the list take precedence
+    const payloadRules = [];
+    for (let index = 0; index < rules.length; index += 1) {
+      const rule = rules[index];
+      const rulePrice = parseInt(rule.price, 10);
+      const minLevel = toOptionalInt(rule.minLevel);
+      const maxLevel = toOptionalInt(rule.maxLevel);
+      const minSkins = toOptionalInt(rule.minSkins);
+      const tag = rule.tag.trim() || null;
+      if (isNaN(rulePrice) || rulePrice < 0 || (minLevel === null && maxLevel === null && minSkins === null && !tag)) {
+        toast({
+          title: "Rule giá không hợp lệ",
+          description: `Rule #${index + 1} cần giá hợp lệ và ít nhất một điều kiện (cấp độ, tag hoặc số skin)`,
+          variant: "destructive",
+        });
+        return;
+      }
+      payloadRules.push({
+        name: rule.name.trim() || `Rule #${index + 1}`,
+        minLevel,
+        maxLevel,
+        tag,
+        minSkins,
+        price: rulePrice,
+        priority: rules.length - index,
+      });
+    }
+    setPriceMutation.mutate({ sessionName: sessionName.trim(), pricePerAccount: price, rules: payloadRules });
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md border border-border/60 bg-[#EEEEEE] text-gray-900 shadow-lg backdrop-blur dark:bg-neutral-900 dark:text-gray-100">
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto border border-border/60 bg-[#EEEEEE] text-gray-900 shadow-lg backdrop-blur dark:bg-neutral-900 dark:text-gray-100">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <DollarSign className="h-5 w-5 text-primary" />
             Set giá cho buổi live
           </DialogTitle>
           <DialogDescription>
-            Nhập tên buổi live và giá mỗi account. Khi account chuyển từ OFF sang ON sẽ tự động tính doanh thu.
+            Nhập tên buổi live và giá mỗi account. Khi account chuyển từ OFF sang ON sẽ tự động tính doanh thu. Buổi live đang mở (nếu có) sẽ được kết thúc.
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -114,6 +175,86 @@ export default function SetPriceDialog({ open, onOpenChange }: SetPriceDialogPro
               min="0"
             />
           </div>
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Rule giá (tuỳ chọn)</Label>
+                <p className="text-xs text-muted-foreground">
+                  Rule phía trên được ưu tiên. Giá riêng của account luôn được ưu tiên hơn rule.
+                </p>
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setRules((prev) => [...prev, { ...EMPTY_RULE }])}
+                disabled={setPriceMutation.isPending || rules.length >= 50}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Thêm rule
+              </Button>
+            </div>
+            {rules.map((rule, index) => (
+              <div key={index} className="grid grid-cols-2 gap-2 rounded-md border border-border/60 p-3 sm:grid-cols-6">
+                <Input
+                  className="col-span-2"
+                  placeholder="Tên rule"
+                  value={rule.name}
+                  onChange={(e) => updateRule(index, { name: e.target.value })}
+                  disabled={setPriceMutation.isPending}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Lv từ"
+                  value={rule.minLevel}
+                  onChange={(e) => updateRule(index, { minLevel: e.target.value })}
+                  disabled={setPriceMutation.isPending}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Lv đến"
+                  value={rule.maxLevel}
+                  onChange={(e) => updateRule(index, { maxLevel: e.target.value })}
+                  disabled={setPriceMutation.isPending}
+                />
+                <Input
+                  placeholder="Tag"
+                  maxLength={64}
+                  value={rule.tag}
+                  onChange={(e) => updateRule(index, { tag: e.target.value })}
+                  disabled={setPriceMutation.isPending}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Skin ≥"
+                  value={rule.minSkins}
+                  onChange={(e) => updateRule(index, { minSkins: e.target.value })}
+                  disabled={setPriceMutation.isPending}
+                />
+                <Input
+                  className="col-span-1 sm:col-span-5"
+                  type="number"
+                  min="0"
+                  placeholder="Giá áp dụng (VNĐ)"
+                  value={rule.price}
+                  onChange={(e) => updateRule(index, { price: e.target.value })}
+                  disabled={setPriceMutation.isPending}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+                  disabled={setPriceMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
           <div className="flex justify-end gap-2">
             <Button
               type="button"
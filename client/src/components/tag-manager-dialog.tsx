@@ -0,0 +1,315 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { GitMerge, Pencil, Plus, Trash2 } from "lucide-react";
+import { DEFAULT_TAG_COLOR, type Tag, type TagWithCount, type UpdateTag } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const TAGS_KEY = "/api/tags";
+const NO_REASSIGN = "none";
+
+type PendingAction =
+  | { kind: "edit"; tag: TagWithCount; name: string; color: string; description: string }
+  | { kind: "merge"; tag: TagWithCount; targetId: string }
+  | { kind: "delete"; tag: TagWithCount; reassignTo: string };
+
+interface TagManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function TagManagerDialog({ open, onOpenChange }: TagManagerDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(DEFAULT_TAG_COLOR);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+
+  const tagsQuery = useQuery<TagWithCount[]>({ queryKey: [TAGS_KEY], enabled: open });
+  const tags = tagsQuery.data ?? [];
+
+  useEffect(() => {
+    if (open) {
+      setNewName("");
+      setNewColor(DEFAULT_TAG_COLOR);
+      setPending(null);
+    }
+  }, [open]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [TAGS_KEY] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+  };
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Vui lòng thử lại",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { name: string; color: string }) => apiRequest<Tag>("POST", TAGS_KEY, data),
+    onSuccess: (tag) => {
+      invalidate();
+      setNewName("");
+      toast({ title: "Đã tạo tag", description: tag.name });
+    },
+    onError: onError("Tạo tag thất bại"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: number; updates: UpdateTag }) =>
+      apiRequest<Tag>("PATCH", `${TAGS_KEY}/${id}`, updates),
+    onSuccess: (tag) => {
+      invalidate();
+      setPending(null);
+      toast({ title: "Đã cập nhật tag", description: tag.name });
+    },
+    onError: onError("Cập nhật tag thất bại"),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (data: { sourceIds: number[]; targetId: number }) =>
+      apiRequest<{ merged: number; retagged: number }>("POST", `${TAGS_KEY}/merge`, data),
+    onSuccess: (result) => {
+      invalidate();
+      setPending(null);
+      toast({ title: "Đã gộp tag", description: `${result.retagged} tài khoản được chuyển sang tag mới` });
+    },
+    onError: onError("Gộp tag thất bại"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ id, reassignTo }: { id: number; reassignTo?: number }) =>
+      apiRequest("DELETE", reassignTo ? `${TAGS_KEY}/${id}?reassignTo=${reassignTo}` : `${TAGS_KEY}/${id}`),
+    onSuccess: () => {
+      invalidate();
+      setPending(null);
+      toast({ title: "Đã xóa tag" });
+    },
+    onError: onError("Xóa tag thất bại"),
+  });
+
+  const isBusy = createMutation.isPending || updateMutation.isPending || mergeMutation.isPending || deleteMutation.isPending;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name || isBusy) {
+      return;
+    }
+    createMutation.mutate({ name, color: newColor });
+  };
+
+  const handleConfirm = () => {
+    if (!pending || isBusy) {
+      return;
+    }
+    if (pending.kind === "edit") {
+      const name = pending.name.trim();
+      if (!name) {
+        toast({ title: "Thiếu tên tag", variant: "destructive" });
+        return;
+      }
+      updateMutation.mutate({
+        id: pending.tag.id,
+        updates: { name, color: pending.color, description: pending.description.trim() || null },
+      });
+    } else if (pending.kind === "merge") {
+      const targetId = parseInt(pending.targetId, 10);
+      if (Number.isNaN(targetId)) {
+        toast({ title: "Chưa chọn tag đích", variant: "destructive" });
+        return;
+      }
+      mergeMutation.mutate({ sourceIds: [pending.tag.id], targetId });
+    } else {
+      const reassignTo = pending.reassignTo === NO_REASSIGN ? undefined : parseInt(pending.reassignTo, 10);
+      deleteMutation.mutate({ id: pending.tag.id, reassignTo });
+    }
+  };
+
+  const otherTags = pending ? tags.filter((tag) => tag.id !== pending.tag.id) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isBusy && onOpenChange(nextOpen)}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Quản lý tag</DialogTitle>
+          <DialogDescription>Tạo, đổi tên, gộp hoặc xóa tag dùng cho clone csuc.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="tag-manager-name">Tag mới</Label>
+            <Input
+              id="tag-manager-name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Nhập tên tag..."
+              maxLength={64}
+              disabled={isBusy}
+            />
+          </div>
+          <Input
+            type="color"
+            aria-label="Màu tag mới"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            className="h-10 w-12 p-1"
+            disabled={isBusy}
+          />
+          <Button type="submit" className="gap-1" disabled={isBusy || newName.trim().length === 0}>
+            <Plus className="h-4 w-4" />
+            Tạo
+          </Button>
+        </form>
+
+        <div className="max-h-72 space-y-1 overflow-y-auto rounded-2xl border border-border/70 p-2">
+          {tagsQuery.isLoading ? (
+            <p className="px-2 py-3 text-sm text-muted-foreground">Đang tải...</p>
+          ) : tags.length === 0 ? (
+            <p className="px-2 py-3 text-sm text-muted-foreground">Chưa có tag nào</p>
+          ) : (
+            tags.map((tag) => (
+              <div key={tag.id} className="flex items-center gap-3 rounded-xl px-2 py-1.5 hover:bg-muted/50">
+                <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: tag.color }} />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{tag.name}</p>
+                  {tag.description ? <p className="truncate text-xs text-muted-foreground">{tag.description}</p> : null}
+                </div>
+                <span className="text-xs text-muted-foreground">{tag.accountCount} acc</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Sửa"
+                  disabled={isBusy}
+                  onClick={() => setPending({ kind: "edit", tag, name: tag.name, color: tag.color, description: tag.description ?? "" })}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Gộp vào tag khác"
+                  disabled={isBusy || tags.length < 2}
+                  onClick={() => setPending({ kind: "merge", tag, targetId: "" })}
+                >
+                  <GitMerge className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  title="Xóa"
+                  disabled={isBusy}
+                  onClick={() => setPending({ kind: "delete", tag, reassignTo: NO_REASSIGN })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {pending ? (
+          <div className="space-y-3 rounded-2xl border border-border/70 p-3">
+            {pending.kind === "edit" ? (
+              <>
+                <p className="text-sm font-semibold">Sửa tag "{pending.tag.name}"</p>
+                <div className="flex gap-2">
+                  <Input
+                    value={pending.name}
+                    onChange={(e) => setPending({ ...pending, name: e.target.value })}
+                    maxLength={64}
+                    disabled={isBusy}
+                  />
+                  <Input
+                    type="color"
+                    aria-label="Màu tag"
+                    value={pending.color}
+                    onChange={(e) => setPending({ ...pending, color: e.target.value })}
+                    className="h-10 w-12 p-1"
+                    disabled={isBusy}
+                  />
+                </div>
+                <Input
+                  value={pending.description}
+                  onChange={(e) => setPending({ ...pending, description: e.target.value })}
+                  placeholder="Mô tả (không bắt buộc)"
+                  maxLength={200}
+                  disabled={isBusy}
+                />
+              </>
+            ) : pending.kind === "merge" ? (
+              <>
+                <p className="text-sm font-semibold">
+                  Gộp "{pending.tag.name}" ({pending.tag.accountCount} acc) vào tag
+                </p>
+                <Select value={pending.targetId} onValueChange={(value) => setPending({ ...pending, targetId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Chọn tag đích" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherTags.map((tag) => (
+                      <SelectItem key={tag.id} value={String(tag.id)}>
+                        {tag.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Tag "{pending.tag.name}" sẽ bị xóa sau khi gộp.</p>
+              </>
+            ) : (
+              <>
+                <p className="text-sm font-semibold">
+                  Xóa tag "{pending.tag.name}" ({pending.tag.accountCount} acc)
+                </p>
+                <Select value={pending.reassignTo} onValueChange={(value) => setPending({ ...pending, reassignTo: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_REASSIGN}>Chỉ gỡ tag khỏi tài khoản</SelectItem>
+                    {otherTags.map((tag) => (
+                      <SelectItem key={tag.id} value={String(tag.id)}>
+                        Chuyển sang "{tag.name}"
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setPending(null)} disabled={isBusy}>
+                Hủy
+              </Button>
+              <Button
+                size="sm"
+                variant={pending.kind === "delete" ? "destructive" : "default"}
+                onClick={handleConfirm}
+                disabled={isBusy}
+              >
+                {isBusy ? "Đang xử lý..." : pending.kind === "edit" ? "Lưu" : pending.kind === "merge" ? "Gộp" : "Xóa"}
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
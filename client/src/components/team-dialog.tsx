@@ -1,20 +1,29 @@
 import { FormEvent, useEffect, useState } from "react";
+import type { Tag } from "@shared/schema";
 
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
+type TagChoice = boolean | "indeterminate";
+
 interface TagDialogProps {
   open: boolean;
   mode: "single" | "bulk";
   subject?: string;
   itemCount: number;
-  currentValue: string;
+  tags: Tag[];
+  // Tags carried by every / only some of the accounts being edited
+  initialTagIds: number[];
+  partialTagIds: number[];
   isProcessing: boolean;
+  isCreatingTag: boolean;
+  onCreateTag: (name: string) => Promise<Tag>;
   onClose: () => void;
-  onSave: (tag: string | null) => void;
+  onSave: (changes: { add: number[]; remove: number[] }) => void;
 }
 
 export default function TagDialog({
@@ -22,37 +31,68 @@ export default function TagDialog({
   mode,
   subject,
   itemCount,
-  currentValue,
+  tags,
+  initialTagIds,
+  partialTagIds,
   isProcessing,
+  isCreatingTag,
+  onCreateTag,
   onClose,
   onSave,
 }: TagDialogProps) {
-  const [value, setValue] = useState(currentValue);
+  const [choices, setChoices] = useState<Record<number, TagChoice>>({});
+  // Only tags the user clicked are sent, so tags of unloaded accounts are never touched
+  const [touched, setTouched] = useState<Set<number>>(new Set());
+  const [newTagName, setNewTagName] = useState("");
   const isBulk = mode === "bulk";
 
   useEffect(() => {
     if (open) {
-      setValue(currentValue);
+      const initial: Record<number, TagChoice> = {};
+      partialTagIds.forEach((id) => {
+        initial[id] = "indeterminate";
+      });
+      initialTagIds.forEach((id) => {
+        initial[id] = true;
+      });
+      setChoices(initial);
+      setTouched(new Set());
+      setNewTagName("");
     }
-  }, [currentValue, open]);
+    // Reset only when the dialog opens
+  }, [open]);
 
-  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    if (isProcessing) {
+  const toggle = (id: number) => {
+    setChoices((prev) => ({ ...prev, [id]: prev[id] !== true }));
+    setTouched((prev) => new Set(prev).add(id));
+  };
+
+  const handleCreateTag = async () => {
+    const name = newTagName.trim();
+    if (!name || isCreatingTag) {
       return;
     }
-
-    const trimmed = value.trim();
-    onSave(trimmed.length > 0 ? trimmed : null);
+    try {
+      const tag = await onCreateTag(name);
+      setChoices((prev) => ({ ...prev, [tag.id]: true }));
+      setTouched((prev) => new Set(prev).add(tag.id));
+      setNewTagName("");
+    } catch {
+      // The caller reports the error
+    }
   };
 
-  const handleClear = () => {
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
     if (isProcessing) {
       return;
     }
 
-    setValue("");
-    onSave(null);
+    const touchedIds = Array.from(touched);
+    onSave({
+      add: touchedIds.filter((id) => choices[id] === true),
+      remove: touchedIds.filter((id) => choices[id] === false),
+    });
   };
 
   const handleOpenChange = (nextOpen: boolean) => {
@@ -61,21 +101,18 @@ export default function TagDialog({
     }
   };
 
-  const trimmed = value.trim();
-  const canClear = trimmed.length === 0;
-
   const description = isBulk
-    ? `Áp dụng tag cho ${itemCount} tài khoản đang chọn.`
+    ? `Thêm hoặc gỡ tag cho ${itemCount} tài khoản đang chọn.`
     : subject
-      ? `Cap nhat tag cho tài khoản ${subject}.`
-      : "Cap nhat tag cho tài khoản.";
+      ? `Chọn tag cho tài khoản ${subject}.`
+      : "Chọn tag cho tài khoản.";
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-md">
         <form onSubmit={handleSubmit} className="space-y-6">
           <DialogHeader>
-            <DialogTitle>{isBulk ? "Gắn tag hàng loạt" : "Cap nhat tag"}</DialogTitle>
+            <DialogTitle>{isBulk ? "Gắn tag hàng loạt" : "Cập nhật tag"}</DialogTitle>
             <DialogDescription>{description}</DialogDescription>
           </DialogHeader>
 
@@ -87,33 +124,62 @@ export default function TagDialog({
                 </Badge>
                 <span>Tài khoản được áp dụng</span>
               </div>
-            ) : subject ? (
-              <div className="text-muted-foreground">
-                <span className="font-medium text-card-foreground">{subject}</span>
-                {currentValue ? (
-                  <span className="ml-2 text-xs text-muted-foreground">
-                    (Tag hien tai: <span className="font-medium">{currentValue}</span>)
-                  </span>
-                ) : null}
-              </div>
             ) : null}
-            <p className="text-xs text-muted-foreground">Tối đa 64 ký tự. Để trống để xóa tag.</p>
+            <p className="text-xs text-muted-foreground">
+              {isBulk ? "Ô gạch ngang: chỉ một số tài khoản có tag này. Tag không bấm vào sẽ giữ nguyên." : "Bỏ chọn để gỡ tag."}
+            </p>
+          </div>
+
+          <div className="max-h-64 space-y-1 overflow-y-auto rounded-2xl border border-border/70 p-2">
+            {tags.length === 0 ? (
+              <p className="px-2 py-3 text-sm text-muted-foreground">Chưa có tag nào</p>
+            ) : (
+              tags.map((tag) => (
+                <label
+                  key={tag.id}
+                  className="flex cursor-pointer items-center gap-3 rounded-xl px-2 py-1.5 hover:bg-muted/50"
+                >
+                  <Checkbox
+                    checked={choices[tag.id] ?? false}
+                    onCheckedChange={() => toggle(tag.id)}
+                    disabled={isProcessing}
+                  />
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                  <span className="text-sm font-medium">{tag.name}</span>
+                </label>
+              ))
+            )}
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="tag-name">Tên tag</Label>
-            <Input
-              id="tag-name"
-              value={value}
-              onChange={(event) => setValue(event.target.value)}
-              placeholder="Nhap ten tag..."
-              maxLength={64}
-              disabled={isProcessing}
-              autoFocus
-            />
+            <Label htmlFor="new-tag-name">Tạo tag mới</Label>
+            <div className="flex gap-2">
+              <Input
+                id="new-tag-name"
+                value={newTagName}
+                onChange={(event) => setNewTagName(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") {
+                    event.preventDefault();
+                    handleCreateTag();
+                  }
+                }}
+                placeholder="Nhập tên tag..."
+                maxLength={64}
+                disabled={isProcessing || isCreatingTag}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleCreateTag}
+                disabled={isProcessing || isCreatingTag || newTagName.trim().length === 0}
+              >
+                Tạo
+              </Button>
+            </div>
           </div>
 
-          <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-end">
+          <DialogFooter>
             <Button
               type="button"
               variant="ghost"
@@ -126,19 +192,9 @@ export default function TagDialog({
             >
               Hủy
             </Button>
-            <div className="flex w-full flex-col gap-2 sm:w-auto sm:flex-row">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={handleClear}
-                disabled={isProcessing || canClear}
-              >
-                Xóa tag
-              </Button>
-              <Button type="submit" disabled={isProcessing}>
-                {isProcessing ? "Đang lưu..." : "Lưu tag"}
-              </Button>
-            </div>
+            <Button type="submit" disabled={isProcessing || touched.size === 0}>
+              {isProcessing ? "Đang lưu..." : "Lưu tag"}
+            </Button>
           </DialogFooter>
         </form>
       </DialogContent>
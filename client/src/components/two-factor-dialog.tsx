@@ -0,0 +1,267 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { TotpSetup, TotpStatus } from "@shared/schema";
+
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const TOTP_STATUS_KEY = "/api/auth/totp";
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type RecoveryCodesResponse = { recoveryCodes: string[] };
+
+// Groups of four, the way authenticator apps show keys typed in by hand
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+
+export default function TwoFactorDialog({ open, onOpenChange }: TwoFactorDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: status, isLoading } = useQuery<TotpStatus>({
+    queryKey: [TOTP_STATUS_KEY],
+    queryFn: () => apiRequest<TotpStatus>("GET", TOTP_STATUS_KEY),
+    enabled: open,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setCurrentPassword("");
+      setCode("");
+      setSetup(null);
+      setRecoveryCodes(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const onError = (err: unknown) => setError(err instanceof Error ? err.message : "Không thể lưu thay đổi");
+
+  const showRecoveryCodes = (data: RecoveryCodesResponse) => {
+    setRecoveryCodes(data.recoveryCodes);
+    setCurrentPassword("");
+    setCode("");
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: [TOTP_STATUS_KEY] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => apiRequest<TotpSetup>("POST", `${TOTP_STATUS_KEY}/setup`, { currentPassword }),
+    onSuccess: (data) => {
+      setSetup(data);
+      setCurrentPassword("");
+      setError(null);
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => apiRequest<RecoveryCodesResponse>("POST", `${TOTP_STATUS_KEY}/enable`, { code: code.trim() }),
+    onSuccess: (data) => {
+      toast({ title: "Đã bật xác thực hai lớp" });
+      showRecoveryCodes(data);
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest<RecoveryCodesResponse>("POST", `${TOTP_STATUS_KEY}/recovery-codes`, { currentPassword, code: code.trim() }),
+    onSuccess: (data) => {
+      toast({ title: "Đã tạo mã khôi phục mới" });
+      showRecoveryCodes(data);
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `${TOTP_STATUS_KEY}/disable`, { currentPassword, code: code.trim() }),
+    onSuccess: () => {
+      toast({ title: "Đã tắt xác thực hai lớp" });
+      queryClient.invalidateQueries({ queryKey: [TOTP_STATUS_KEY] });
+      onOpenChange(false);
+    },
+    onError,
+  });
+
+  const isPending = setupMutation.isPending || enableMutation.isPending || regenerateMutation.isPending || disableMutation.isPending;
+
+  const handleSetup = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!isPending && currentPassword) {
+      setupMutation.mutate();
+    }
+  };
+
+  const handleEnable = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!isPending && code.trim()) {
+      enableMutation.mutate();
+    }
+  };
+
+  const copyRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard
+      .writeText(recoveryCodes.join("\n"))
+      .then(() => toast({ title: "Đã sao chép mã khôi phục" }))
+      .catch(() => toast({ title: "Không thể sao chép", variant: "destructive" }));
+  };
+
+  const passwordField = (
+    <div className="space-y-2">
+      <Label htmlFor="totp-current-password">Mật khẩu hiện tại</Label>
+      <Input
+        id="totp-current-password"
+        type="password"
+        autoComplete="current-password"
+        value={currentPassword}
+        onChange={(event) => setCurrentPassword(event.target.value)}
+        disabled={isPending}
+        autoFocus
+      />
+    </div>
+  );
+
+  const errorMessage = error ? <p className="text-xs text-destructive">{error}</p> : null;
+
+  const renderBody = () => {
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Mỗi mã dùng được một lần thay cho mã trong ứng dụng. Hãy lưu ở nơi an toàn: các mã này sẽ không hiện lại.
+          </p>
+          <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted p-3 font-mono text-sm">
+            {recoveryCodes.map((item) => (
+              <span key={item}>{item}</span>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={copyRecoveryCodes}>Sao chép</Button>
+            <Button type="button" onClick={() => onOpenChange(false)}>Đã lưu</Button>
+          </DialogFooter>
+        </div>
+      );
+    }
+
+    if (isLoading || !status) {
+      return <p className="text-sm text-muted-foreground">Đang tải...</p>;
+    }
+
+    if (!status.enabled && !setup) {
+      return (
+        <form onSubmit={handleSetup} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Sau khi bật, mỗi lần đăng nhập cần thêm mã 6 số từ ứng dụng xác thực (Google Authenticator, Authy...).
+          </p>
+          {passwordField}
+          {errorMessage}
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)} disabled={isPending}>Hủy</Button>
+            <Button type="submit" disabled={isPending || !currentPassword}>
+              {setupMutation.isPending ? "Đang tạo..." : "Tiếp tục"}
+            </Button>
+          </DialogFooter>
+        </form>
+      );
+    }
+
+    if (!status.enabled && setup) {
+      return (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <div className="space-y-2 text-sm">
+            <p className="text-muted-foreground">Thêm khóa sau vào ứng dụng xác thực, rồi nhập mã 6 số ứng dụng hiển thị.</p>
+            <p className="break-all rounded-lg bg-muted p-3 text-center font-mono text-base tracking-wider">{formatSecret(setup.secret)}</p>
+            <a href={setup.otpauthUrl} className="text-xs text-primary underline-offset-4 hover:underline">
+              Mở trong ứng dụng xác thực trên thiết bị này
+            </a>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="totp-enable-code">Mã xác thực</Label>
+            <Input
+              id="totp-enable-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(event) => setCode(event.target.value.replace(/\D/g, ""))}
+              disabled={isPending}
+              autoFocus
+            />
+          </div>
+          {errorMessage}
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)} disabled={isPending}>Hủy</Button>
+            <Button type="submit" disabled={isPending || code.length !== 6}>
+              {enableMutation.isPending ? "Đang bật..." : "Bật xác thực hai lớp"}
+            </Button>
+          </DialogFooter>
+        </form>
+      );
+    }
+
+    return (
+      <form onSubmit={(event) => event.preventDefault()} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Xác thực hai lớp đang bật. Còn {status.recoveryCodesRemaining} mã khôi phục chưa dùng.
+        </p>
+        {passwordField}
+        <div className="space-y-2">
+          <Label htmlFor="totp-confirm-code">Mã xác thực hoặc mã khôi phục</Label>
+          <Input
+            id="totp-confirm-code"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            maxLength={32}
+            disabled={isPending}
+          />
+        </div>
+        {errorMessage}
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => regenerateMutation.mutate()}
+            disabled={isPending || !currentPassword || !code.trim()}
+          >
+            {regenerateMutation.isPending ? "Đang tạo..." : "Tạo mã khôi phục mới"}
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={() => disableMutation.mutate()}
+            disabled={isPending || !currentPassword || !code.trim()}
+          >
+            {disableMutation.isPending ? "Đang tắt..." : "Tắt xác thực hai lớp"}
+          </Button>
+        </DialogFooter>
+      </form>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isPending && onOpenChange(nextOpen)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Xác thực hai lớp</DialogTitle>
+          <DialogDescription>Bảo vệ tài khoản bằng mã một lần từ điện thoại.</DialogDescription>
+        </DialogHeader>
+        {renderBody()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,17 +1,46 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import type { AuthUser, Permission, TotpChallenge, UserRole } from '@shared/schema';
 import { apiRequest } from '@/lib/queryClient';
 
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Chủ kho',
+  moderator: 'Điều hành live',
+  leveller: 'Cày level',
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'accounts:read': 'Xem tài khoản',
+  'accounts:status': 'Đổi trạng thái tài khoản',
+  'accounts:write': 'Sửa tài khoản',
+  'accounts:delete': 'Xóa tài khoản',
+  'acclogs:read': 'Xem acc log',
+  'acclogs:write': 'Sửa acc log',
+  'acclogs:delete': 'Xóa acc log',
+  'revenue:read': 'Xem doanh thu',
+  'revenue:manage': 'Quản lý doanh thu',
+  'settings:manage': 'Cài đặt',
+  'users:manage': 'Quản lý người dùng',
+  'audit:read': 'Xem nhật ký',
+};
+
 interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
   isAuthenticating: boolean;
+  user: AuthUser | null;
+  can: (permission: Permission) => boolean;
   login: (username: string, password: string) => Promise<void>;
+  // Set after a correct password when the user has 2FA; finish with verifyTotp
+  isTotpRequired: boolean;
+  verifyTotp: (code: string) => Promise<void>;
+  cancelTotp: () => void;
   logout: () => Promise<void>;
   error: string | null;
 }
 
 interface AuthStatusResponse {
   loggedIn: boolean;
+  user?: AuthUser;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -21,14 +50,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [isAuthenticating, setIsAuthenticating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isTotpRequired, setIsTotpRequired] = useState(false);
 
   useEffect(() => {
     const checkAuthStatus = async () => {
       try {
         const data = await apiRequest<AuthStatusResponse>('GET', '/api/auth/status');
         setIsAuthenticated(data.loggedIn);
+        setUser(data.user ?? null);
       } catch (e) {
         setIsAuthenticated(false);
+        setUser(null);
       } finally {
         setIsLoading(false);
       }
@@ -43,29 +76,58 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       // If the apiRequest promise resolves, it means the login was successful (status 2xx).
       // The function throws an error for non-2xx statuses, which is caught below.
-      await apiRequest('POST', '/api/login', { username, password });
+      const result = await apiRequest<AuthUser | TotpChallenge>('POST', '/api/login', { username, password });
+      if ('totpRequired' in result) {
+        setIsTotpRequired(true);
+        return;
+      }
       console.log('Login request successful. Setting authenticated state.');
+      setUser(result);
       setIsAuthenticated(true);
     } catch (e: any) {
       console.error('Login failed with error:', e);
       setError(e.message || 'Đăng nhập thất bại');
       setIsAuthenticated(false);
+      setUser(null);
     } finally {
       setIsAuthenticating(false);
     }
   };
 
+  const verifyTotp = async (code: string) => {
+    setError(null);
+    setIsAuthenticating(true);
+    try {
+      const loggedInUser = await apiRequest<AuthUser>('POST', '/api/login/totp', { code });
+      setIsTotpRequired(false);
+      setUser(loggedInUser);
+      setIsAuthenticated(true);
+    } catch (e: any) {
+      setError(e.message || 'Xác thực thất bại');
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  const cancelTotp = () => {
+    setIsTotpRequired(false);
+    setError(null);
+  };
+
   const logout = async () => {
     try {
       await apiRequest('POST', '/api/logout');
       setIsAuthenticated(false);
+      setUser(null);
     } catch (e) {
       console.error('Đăng xuất thất bại', e);
     }
   };
 
+  const can = (permission: Permission) => user?.permissions.includes(permission) ?? false;
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, isLoading, isAuthenticating, login, logout, error }}>
+    <AuthContext.Provider value={{ isAuthenticated, isLoading, isAuthenticating, user, can, login, isTotpRequired, verifyTotp, cancelTotp, logout, error }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,18 +1,49 @@
 import { useEffect, useRef } from "react";
 import { io, Socket } from "socket.io-client";
-import { useQueryClient } from "@tanstack/react-query";
-import type { Account, AccLog } from "@shared/schema";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { isImportJobFinished, type Account, type AccountHold, type AccountState, type AccLog, type ImportJobDetail, type ImportJobUpdate, type ListPage } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
 
 interface AccountStatusUpdateEvent {
   entityType: "accounts" | "acclogs";
   accountIds: number[];
   status: boolean;
+  state?: AccountState;
   timestamp: string;
 }
 
+interface AccountHoldUpdateEvent {
+  reason: "held" | "released" | "expired";
+  holds: Array<{ accountId: number } & AccountHold>;
+  timestamp: string;
+}
+
+type CachedList<T> = T[] | ListPage<T> | undefined;
+
+// Patch every cached page of a list, whatever filters it was loaded with.
+// Sibling keys such as ["/api/accounts", "tags"] hold other data and are skipped.
+function updateCachedLists<T extends Account | AccLog>(
+  queryClient: QueryClient,
+  listKey: string,
+  update: (item: T) => T,
+) {
+  queryClient.setQueriesData<CachedList<T>>(
+    { queryKey: [listKey], predicate: (query) => typeof query.queryKey[1] !== "string" },
+    (oldData) => {
+      if (!oldData) {
+        return oldData;
+      }
+      return Array.isArray(oldData) ? oldData.map(update) : { ...oldData, items: oldData.items.map(update) };
+    },
+  );
+}
+
 export function useSocket() {
   const socketRef = useRef<Socket | null>(null);
   const queryClient = useQueryClient();
+  const { can } = useAuth();
+  // Lists whose live updates this user may receive; the server checks the same permissions
+  const entities = [can("accounts:read") && "accounts", can("acclogs:read") && "acclogs"].filter(Boolean).join(",");
 
   useEffect(() => {
     // Use API base URL from env (for Render backend) or current origin
@@ -32,6 +63,8 @@ export function useSocket() {
       reconnectionDelayMax: 5000,
       path: "/socket.io/",
       autoConnect: true,
+      // Send the session cookie with the handshake when the API is on another origin
+      withCredentials: true,
       // For production with reverse proxy
       ...(isProduction && {
         upgrade: true,
@@ -43,12 +76,19 @@ export function useSocket() {
 
     socketRef.current = socket;
 
+    // Rooms are lost with the connection, so subscribe again after every (re)connect
     socket.on("connect", () => {
       console.log("[Socket.IO] ✅ Connected to server, socket ID:", socket.id);
+      socket.emit("subscribe", entities ? entities.split(",") : []);
     });
 
     socket.on("disconnect", (reason) => {
       console.log("[Socket.IO] ❌ Disconnected from server, reason:", reason);
+      // The server drops sockets whose access changed (role change, revoked login); connect
+      // again so the handshake picks up the current permissions or refuses a dead session
+      if (reason === "io server disconnect") {
+        socket.connect();
+      }
     });
 
     socket.on("connect_error", (error) => {
@@ -75,7 +115,7 @@ export function useSocket() {
     socket.on("account-status-updated", (data: AccountStatusUpdateEvent) => {
       console.log("[Socket.IO] ✅ Received account-status-updated event:", data);
 
-      const { entityType, accountIds, status } = data;
+      const { entityType, accountIds, status, state } = data;
 
       // Update React Query cache for the affected entity
       const listKey = entityType === "accounts" ? "/api/accounts" : "/api/acclogs";
@@ -84,31 +124,55 @@ export function useSocket() {
       console.log(`[Socket.IO] Updating cache for ${entityType}, accountIds:`, accountIds, "status:", status);
 
       // Update the accounts/acclogs list in cache
-      queryClient.setQueryData<Account[] | AccLog[]>(listKey, (oldData) => {
-        if (!oldData) {
-          console.warn(`[Socket.IO] No cache data found for ${listKey}, invalidating to refetch`);
-          queryClient.invalidateQueries({ queryKey: [listKey] });
-          return oldData;
-        }
-
-        const updatedTimestamp = new Date(data.timestamp);
-        const updated = oldData.map((item) => {
-          if (accountIds.includes(item.id)) {
-            console.log(`[Socket.IO] Updating account ${item.id} status from ${item.status} to ${status}`);
-            return { ...item, status, updatedAt: updatedTimestamp };
-          }
+      const updatedTimestamp = data.timestamp;
+      updateCachedLists<Account | AccLog>(queryClient, listKey, (item) => {
+        if (!accountIds.includes(item.id)) {
           return item;
-        });
-
-        console.log(`[Socket.IO] Cache updated successfully for ${listKey}`);
-        return updated;
+        }
+        console.log(`[Socket.IO] Updating account ${item.id} status from ${item.status} to ${status}`);
+        return state
+          ? { ...item, status, state, updatedAt: updatedTimestamp }
+          : { ...item, status, updatedAt: updatedTimestamp };
       });
+      console.log(`[Socket.IO] Cache updated successfully for ${listKey}`);
 
       // Invalidate stats to refetch updated statistics
       queryClient.invalidateQueries({ queryKey: [statsKey] });
       console.log(`[Socket.IO] Invalidated stats query: ${statsKey}`);
     });
 
+    // Listen for holds being placed, released or expired
+    socket.on("account-hold-updated", (data: AccountHoldUpdateEvent) => {
+      const holds = new Map(data.holds.map((hold) => [hold.accountId, hold]));
+      updateCachedLists<Account>(queryClient, "/api/accounts", (item) => {
+        const hold = holds.get(item.id);
+        return hold
+          ? { ...item, heldBy: hold.heldBy, heldForBuyerId: hold.heldForBuyerId, heldUntil: hold.heldUntil }
+          : item;
+      });
+    });
+
+    // Promoted logs leave "Cần up" and appear in stock, so both tabs refetch
+    socket.on("acclogs-promoted", () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/acclogs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/acclogs/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts/stats"] });
+    });
+
+    // Import job progress, kept in the query cache where the dashboard waits for it
+    socket.on("import-job-updated", ({ job, errors }: ImportJobUpdate) => {
+      queryClient.setQueryData<ImportJobDetail>(["/api/import-jobs", job.id], (old) => ({
+        ...job,
+        errors: [...(old?.errors ?? []), ...errors],
+      }));
+      if (isImportJobFinished(job)) {
+        const listKey = job.entity === "accounts" ? "/api/accounts" : "/api/acclogs";
+        queryClient.invalidateQueries({ queryKey: [listKey] });
+        queryClient.invalidateQueries({ queryKey: [`${listKey}/stats`] });
+      }
+    });
+
     // Cleanup on unmount
     return () => {
       if (socketRef.current) {
@@ -116,7 +180,7 @@ export function useSocket() {
         socketRef.current = null;
       }
     };
-  }, [queryClient]);
+  }, [queryClient, entities]);
 
   return socketRef.current;
 }
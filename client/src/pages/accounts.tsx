@@ -1,6 +1,6 @@
 import { useMemo, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import type { CloneReg } from "@shared/schema";
+import type { CloneReg, RevealedPassword } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -47,7 +47,7 @@ export default function AccountsPage() {
     if (!term) return accounts;
     return accounts.filter((a) => {
       const champs = Array.isArray((a as any).champions) ? ((a as any).champions as string[]).join(" ") : (a.champion ?? "");
-      const haystack = `${a.username} ${a.password} ${champs} ${(a.skins ?? []).join(" ")}`.toLowerCase();
+      const haystack = `${a.username} ${champs} ${(a.skins ?? []).join(" ")}`.toLowerCase();
       return haystack.includes(term);
     });
   }, [accounts, search]);
@@ -178,7 +178,8 @@ export default function AccountsPage() {
   const openEdit = (acc: CloneReg) => {
     setForm({
       username: acc.username,
-      password: acc.password,
+      // The list only has the masked password; left empty, the stored one is kept
+      password: "",
       championsText: listToTextarea((acc as any).champions ?? (acc.champion ? [acc.champion] : [])),
       skinsText: listToTextarea(acc.skins ?? []),
     });
@@ -197,14 +198,18 @@ export default function AccountsPage() {
     } else {
       const champions = parseListInput(form.championsText);
       const skins = parseListInput(form.skinsText);
-      updateMutation.mutate({ id: edit.account.id, data: { username, password, champions, skins } });
+      updateMutation.mutate({ id: edit.account.id, data: { username, ...(password ? { password } : {}), champions, skins } });
     }
   };
 
-  const copy = (value: string) => {
-    navigator.clipboard.writeText(value).then(() => {
+  const copyPassword = async (id: number) => {
+    try {
+      const { password } = await apiRequest<RevealedPassword>("POST", `/api/cloneregs/${id}/reveal`);
+      await navigator.clipboard.writeText(password);
       toast({ title: "Đã sao chép", description: "Đã lưu vào clipboard" });
-    });
+    } catch (err: any) {
+      toast({ title: "Không thể sao chép", description: err?.message ?? "Thử lại sau", variant: "destructive" });
+    }
   };
 
   return (
@@ -250,7 +255,7 @@ export default function AccountsPage() {
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <span className="truncate max-w-[140px]">••••••••</span>
-                          <Button variant="ghost" size="icon" onClick={() => copy(acc.password)} title="Copy mật khẩu">
+                          <Button variant="ghost" size="icon" onClick={() => copyPassword(acc.id)} title="Copy mật khẩu">
                             <Copy className="h-4 w-4" />
                           </Button>
                         </div>
@@ -308,7 +313,11 @@ export default function AccountsPage() {
             </div>
             <div className="grid gap-2">
               <label className="text-sm font-medium">Mật khẩu</label>
-              <Input value={form.password} onChange={(e) => setForm((f) => ({ ...f, password: e.target.value }))} placeholder="password" />
+              <Input
+                value={form.password}
+                onChange={(e) => setForm((f) => ({ ...f, password: e.target.value }))}
+                placeholder={edit.mode === "create" ? "password" : "Để trống để giữ mật khẩu cũ"}
+              />
             </div>
             <div className="grid gap-2">
               <label className="text-sm font-medium">Tên tướng (mỗi dòng một tướng)</label>
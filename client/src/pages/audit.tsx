@@ -0,0 +1,278 @@
+import { useMemo, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { AUDIT_ENTITIES, type AuditEntity, type AuditEvent, type ListPage, type PublicUser } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, ChevronLeft, ChevronRight } from "lucide-react";
+
+const AUDIT_KEY = "/api/audit-events";
+const PAGE_SIZE = 50;
+const ALL = "all";
+const SYSTEM_ACTOR_LABEL = "Hệ thống";
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+  account: "Tài khoản",
+  acclog: "Acc log",
+  tag: "Tag",
+  clonereg: "Clone reg",
+  buyer: "Người mua",
+  live_session: "Buổi live",
+  pricing_rule: "Quy tắc giá",
+  setting: "Cài đặt",
+  user: "Người dùng",
+};
+
+type AuditFilters = {
+  entity: AuditEntity | typeof ALL;
+  actorId: string;
+  action: string;
+  entityId: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: AuditFilters = { entity: ALL, actorId: ALL, action: "", entityId: "", from: "", to: "" };
+
+function buildAuditParams(filters: AuditFilters, page: number): Record<string, string> {
+  const params: Record<string, string> = { page: String(page), pageSize: String(PAGE_SIZE) };
+  if (filters.entity !== ALL) params.entity = filters.entity;
+  if (filters.actorId !== ALL) params.actorId = filters.actorId;
+  if (filters.action.trim()) params.action = filters.action.trim();
+  if (filters.entityId.trim()) params.entityId = filters.entityId.trim();
+  // Date inputs are local days; "to" covers the whole day
+  if (filters.from) params.from = new Date(`${filters.from}T00:00:00`).toISOString();
+  if (filters.to) params.to = new Date(`${filters.to}T23:59:59.999`).toISOString();
+  return params;
+}
+
+const formatTime = (value: string) => new Date(value).toLocaleString("vi-VN");
+
+const formatValue = (value: unknown) => (value === undefined ? "—" : JSON.stringify(value));
+
+function summarizeChanges(event: AuditEvent): string {
+  const fields = new Set<string>();
+  event.changes.forEach((change) => {
+    Object.keys(change.after ?? change.before ?? {}).forEach((field) => fields.add(field));
+  });
+  if (fields.size === 0) {
+    return event.metadata ? Object.keys(event.metadata).join(", ") : "—";
+  }
+  return Array.from(fields).join(", ");
+}
+
+export default function AuditPage() {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<AuditEvent | null>(null);
+
+  const canRead = can("audit:read");
+  const params = useMemo(() => buildAuditParams(filters, page), [filters, page]);
+  const eventsQuery = useQuery<ListPage<AuditEvent>>({
+    queryKey: [AUDIT_KEY, params],
+    queryFn: () => apiRequest<ListPage<AuditEvent>>("GET", `${AUDIT_KEY}?${new URLSearchParams(params).toString()}`),
+    placeholderData: keepPreviousData,
+    enabled: canRead,
+  });
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+    enabled: can("users:manage"),
+  });
+
+  const events = eventsQuery.data?.items ?? [];
+  const total = eventsQuery.data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  if (!canRead) {
+    return (
+      <div className="mx-auto w-full max-w-6xl p-4 sm:p-6">
+        <p className="text-sm text-muted-foreground">Bạn không có quyền xem nhật ký thao tác.</p>
+        <Button variant="link" className="px-0" onClick={() => navigate("/")}>Quay lại</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-6xl p-4 sm:p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} title="Quay lại">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-xl font-semibold">Nhật ký thao tác</h1>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => { setFilters(EMPTY_FILTERS); setPage(1); }}>
+          Xóa bộ lọc
+        </Button>
+      </div>
+
+      <Card className="mb-4">
+        <CardContent className="grid gap-3 pt-6 sm:grid-cols-3 lg:grid-cols-6">
+          <Select value={filters.entity} onValueChange={(value) => updateFilter("entity", value as AuditFilters["entity"])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Tất cả đối tượng</SelectItem>
+              {AUDIT_ENTITIES.map((entity) => (
+                <SelectItem key={entity} value={entity}>
+                  {ENTITY_LABELS[entity]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.actorId} onValueChange={(value) => updateFilter("actorId", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Tất cả người dùng</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Thao tác (vd. account.state)"
+            value={filters.action}
+            onChange={(e) => updateFilter("action", e.target.value)}
+          />
+          <Input
+            placeholder="ID bản ghi"
+            value={filters.entityId}
+            onChange={(e) => updateFilter("entityId", e.target.value)}
+          />
+          <Input type="date" aria-label="Từ ngày" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} />
+          <Input type="date" aria-label="Đến ngày" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Thao tác gần đây</CardTitle>
+          <CardDescription>{total.toLocaleString("vi-VN")} thao tác khớp bộ lọc. Mật khẩu không được lưu trong nhật ký.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Thời gian</TableHead>
+                  <TableHead>Người thực hiện</TableHead>
+                  <TableHead>Thao tác</TableHead>
+                  <TableHead>Bản ghi</TableHead>
+                  <TableHead>Thay đổi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {eventsQuery.isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5}>Đang tải...</TableCell>
+                  </TableRow>
+                ) : events.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-muted-foreground">Không có thao tác nào</TableCell>
+                  </TableRow>
+                ) : (
+                  events.map((event) => (
+                    <TableRow key={event.id} className="cursor-pointer" onClick={() => setSelected(event)}>
+                      <TableCell className="whitespace-nowrap">{formatTime(event.createdAt)}</TableCell>
+                      <TableCell>{event.actorUsername ?? (event.actorId ? event.actorId : SYSTEM_ACTOR_LABEL)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="font-mono text-xs">{event.action}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate">
+                        {ENTITY_LABELS[event.entity]} · {event.entityIds.length > 3
+                          ? `${event.entityIds.slice(0, 3).join(", ")} +${event.entityIds.length - 3}`
+                          : event.entityIds.join(", ")}
+                      </TableCell>
+                      <TableCell className="max-w-[240px] truncate text-muted-foreground">{summarizeChanges(event)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="mt-3 flex items-center justify-end gap-2 text-sm">
+            <span className="text-muted-foreground">Trang {page} / {totalPages}</span>
+            <Button variant="outline" size="icon" onClick={() => setPage((p) => Math.max(1, p - 1))} disabled={page <= 1} title="Trang trước">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setPage((p) => Math.min(totalPages, p + 1))} disabled={page >= totalPages} title="Trang sau">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selected?.action}</DialogTitle>
+          </DialogHeader>
+          {selected ? (
+            <div className="space-y-4 text-sm">
+              <p className="text-muted-foreground">
+                {formatTime(selected.createdAt)} · {selected.actorUsername ?? SYSTEM_ACTOR_LABEL}
+              </p>
+              {selected.metadata ? (
+                <pre className="overflow-x-auto rounded-lg bg-muted p-3 text-xs">{JSON.stringify(selected.metadata, null, 2)}</pre>
+              ) : null}
+              {selected.changes.length > 0 ? (
+                <div className="rounded-lg border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>ID</TableHead>
+                        <TableHead>Trường</TableHead>
+                        <TableHead>Trước</TableHead>
+                        <TableHead>Sau</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selected.changes.flatMap((change) => {
+                        const fields = Array.from(new Set([...Object.keys(change.before ?? {}), ...Object.keys(change.after ?? {})]));
+                        return fields.map((field) => (
+                          <TableRow key={`${change.id}-${field}`}>
+                            <TableCell>{change.id}</TableCell>
+                            <TableCell className="font-mono text-xs">{field}</TableCell>
+                            <TableCell className="max-w-[220px] break-all">{change.before ? formatValue(change.before[field]) : "—"}</TableCell>
+                            <TableCell className="max-w-[220px] break-all">{change.after ? formatValue(change.after[field]) : "—"}</TableCell>
+                          </TableRow>
+                        ));
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className="text-muted-foreground">Bản ghi: {selected.entityIds.join(", ")}</p>
+              )}
+            </div>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
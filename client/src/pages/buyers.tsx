@@ -0,0 +1,267 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import type { Buyer, Order } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, Plus, Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type BuyerOrder = Order & {
+  sessionName: string | null;
+  total: number;
+  items: Array<{
+    revenueRecordId: number;
+    accountId: number;
+    accountUsername: string | null;
+    price: number;
+    voidedAt: string | null;
+  }>;
+};
+
+type BuyerHistory = { buyer: Buyer; orders: BuyerOrder[] };
+
+type ResendResponse = {
+  buyerId: number;
+  contact: string | null;
+  message: string;
+  credentials: Array<{ username: string; password: string }>;
+};
+
+const formatMoney = (value: number) => `${value.toLocaleString("vi-VN")}đ`;
+
+export default function BuyersPage() {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const navigate = useNavigate();
+  const [search, setSearch] = useState("");
+  const [selectedBuyerId, setSelectedBuyerId] = useState<number | null>(null);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [form, setForm] = useState({ name: "", contact: "", note: "" });
+
+  const { data: buyers = [], isLoading } = useQuery<Buyer[]>({
+    queryKey: ["/api/buyers"],
+  });
+
+  const historyQuery = useQuery<BuyerHistory>({
+    queryKey: [`/api/buyers/${selectedBuyerId}/orders`],
+    enabled: selectedBuyerId !== null,
+  });
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return buyers;
+    return buyers.filter((b) => `${b.name} ${b.contact ?? ""} ${b.note ?? ""}`.toLowerCase().includes(term));
+  }, [buyers, search]);
+
+  const createMutation = useMutation({
+    mutationFn: async (payload: { name: string; contact: string | null; note: string | null }) =>
+      apiRequest<Buyer>("POST", "/api/buyers", payload),
+    onSuccess: (buyer) => {
+      qc.invalidateQueries({ queryKey: ["/api/buyers"] });
+      toast({ title: "Thành công", description: `Đã thêm người mua ${buyer.name}` });
+      setCreateOpen(false);
+      setSelectedBuyerId(buyer.id);
+    },
+    onError: (err: any) => {
+      toast({ title: "Không thể thêm", description: err?.message ?? "Thử lại sau", variant: "destructive" });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async ({ buyerId, orderId }: { buyerId: number; orderId?: number }) =>
+      apiRequest<ResendResponse>("POST", `/api/buyers/${buyerId}/resend-credentials`, orderId ? { orderId } : {}),
+    onSuccess: async (data) => {
+      await navigator.clipboard.writeText(data.message);
+      toast({
+        title: "Đã sao chép thông tin account",
+        description: data.contact
+          ? `${data.credentials.length} account · gửi lại cho ${data.contact}`
+          : `${data.credentials.length} account đã được sao chép vào clipboard`,
+      });
+    },
+    onError: (err: any) => {
+      toast({ title: "Không thể gửi lại", description: err?.message ?? "Thử lại sau", variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setForm({ name: "", contact: "", note: "" });
+    setCreateOpen(true);
+  };
+
+  const onSubmit = () => {
+    const name = form.name.trim();
+    if (!name) {
+      toast({ title: "Thiếu thông tin", description: "Vui lòng nhập tên người mua", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({ name, contact: form.contact.trim() || null, note: form.note.trim() || null });
+  };
+
+  const history = historyQuery.data;
+  const totalSpent = (history?.orders ?? []).reduce((sum, order) => sum + order.total, 0);
+
+  return (
+    <div className="mx-auto w-full max-w-6xl p-4 sm:p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} title="Quay lại">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-xl font-semibold">Người mua</h1>
+        </div>
+        <Button onClick={openCreate} size="sm"><Plus className="mr-2 h-4 w-4" /> Thêm người mua</Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[2fr_3fr]">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Danh sách người mua</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="mb-3 flex gap-2">
+              <Input placeholder="Tìm kiếm tên / liên hệ" value={search} onChange={(e) => setSearch(e.target.value)} />
+            </div>
+
+            <div className="rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tên</TableHead>
+                    <TableHead>Liên hệ</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={2}>Đang tải...</TableCell>
+                    </TableRow>
+                  ) : filtered.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={2}>Chưa có người mua</TableCell>
+                    </TableRow>
+                  ) : (
+                    filtered.map((buyer) => (
+                      <TableRow
+                        key={buyer.id}
+                        className={`cursor-pointer ${selectedBuyerId === buyer.id ? "bg-muted/60" : ""}`}
+                        onClick={() => setSelectedBuyerId(buyer.id)}
+                      >
+                        <TableCell className="font-medium">{buyer.name}</TableCell>
+                        <TableCell className="text-muted-foreground">{buyer.contact ?? "--"}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+            <div>
+              <CardTitle className="text-base">Lịch sử mua</CardTitle>
+              <CardDescription>
+                {history
+                  ? `${history.buyer.name} · ${history.orders.length} đơn · ${formatMoney(totalSpent)}`
+                  : "Chọn một người mua để xem lịch sử"}
+              </CardDescription>
+            </div>
+            {history && history.orders.length > 0 ? (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => resendMutation.mutate({ buyerId: history.buyer.id })}
+                disabled={resendMutation.isPending}
+              >
+                <Send className="mr-2 h-4 w-4" /> Gửi lại tất cả
+              </Button>
+            ) : null}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {selectedBuyerId === null ? null : historyQuery.isLoading ? (
+              <p className="text-sm text-muted-foreground">Đang tải...</p>
+            ) : !history || history.orders.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Người mua chưa có đơn hàng nào</p>
+            ) : (
+              history.orders.map((order) => (
+                <div key={order.id} className="rounded-lg border p-3">
+                  <div className="mb-2 flex items-center justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-semibold">
+                        Đơn #{order.id} · {formatMoney(order.total)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {order.sessionName ?? "Không có buổi live"} · {new Date(order.createdAt).toLocaleString("vi-VN", { hour12: false })}
+                        {order.note ? ` · ${order.note}` : ""}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => resendMutation.mutate({ buyerId: order.buyerId, orderId: order.id })}
+                      disabled={resendMutation.isPending}
+                      title="Gửi lại thông tin account của đơn này"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {order.items.map((item) => (
+                      <Badge
+                        key={item.revenueRecordId}
+                        variant={item.voidedAt ? "outline" : "secondary"}
+                        className={item.voidedAt ? "line-through text-muted-foreground" : undefined}
+                      >
+                        {item.accountUsername ?? `#${item.accountId}`} · {formatMoney(item.price)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={createOpen} onOpenChange={(open) => !open && setCreateOpen(false)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Thêm người mua</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Tên người mua</label>
+              <Input value={form.name} onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} maxLength={120} />
+            </div>
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Liên hệ</label>
+              <Input value={form.contact} onChange={(e) => setForm((f) => ({ ...f, contact: e.target.value }))} placeholder="SĐT / Zalo / Facebook" maxLength={160} />
+            </div>
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Ghi chú</label>
+              <Input value={form.note} onChange={(e) => setForm((f) => ({ ...f, note: e.target.value }))} maxLength={500} />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => setCreateOpen(false)}>Hủy</Button>
+              <Button onClick={onSubmit} disabled={createMutation.isPending}>Thêm</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 ﻿
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { eachDayOfInterval, format, isAfter, startOfDay, subDays } from "date-fns";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { eachDayOfInterval, format, startOfDay, subDays } from "date-fns";
 import {
   Activity,
   AlertCircle,
@@ -12,22 +12,37 @@ import {
   Download,
   Filter,
   FileText,
+  KeyRound,
   LineChart,
   LogOut,
+  MonitorSmartphone,
+  RefreshCw,
   Settings2,
+  ShieldCheck,
+  Tags,
+  Terminal,
   UploadCloud,
   Users,
 } from "lucide-react";
-import type { Account, AccLog } from "@shared/schema";
+import { MAX_REVEAL_IDS, TAG_FILTER_UNASSIGNED, isImportJobFinished, type Account, type AccountState, type AccountWithTags, type Tag, type TagMatchMode, type TagWithCount, type UpdateAccountTags, type AccLog, type AutoPromoteSetting, type ListPage, type LiveSession, type ReserveAccount, type LiveSessionStatus, type OrderBuyerInput, type RevealedPassword, type RevenueRecord, type ImportJob, type ImportJobDetail, type ImportExistingAction, type ImportRowAction, type ImportValidationResult, type ImportValidationRow, IMPORT_EXISTING_ACTIONS } from "@shared/schema";
 import ThemeToggle from "@/components/theme-toggle";
-import AccountTable from "@/components/account-table";
+import AccountTable, { ACCOUNT_STATE_LABELS, type ListSortValue } from "@/components/account-table";
 import DeleteModal from "@/components/delete-modal";
 import DeleteMultipleModal from "@/components/delete-multiple-modal";
-import TeamDialog from "@/components/team-dialog";
+import TagDialog from "@/components/team-dialog";
+import TagManagerDialog from "@/components/tag-manager-dialog";
+import ChangePasswordDialog from "@/components/change-password-dialog";
+import TwoFactorDialog from "@/components/two-factor-dialog";
+import SessionsDialog from "@/components/sessions-dialog";
+import ApiTokensDialog from "@/components/api-tokens-dialog";
 import SetPriceDialog from "@/components/set-price-dialog";
-import { useAuth } from "@/hooks/use-auth";
+import PriceOverrideDialog from "@/components/price-override-dialog";
+import ReserveAccountDialog from "@/components/reserve-account-dialog";
+import SellToBuyerDialog from "@/components/sell-to-buyer-dialog";
+import { USER_ROLE_LABELS, useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { useLocalStorage } from "@/hooks/use-local-storage";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import { useSocket } from "@/hooks/use-socket";
 import { apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
@@ -40,6 +55,7 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -76,7 +92,7 @@ const PREVIEW_PAGE_SIZE = 10;
 
 type EntityKey = "accounts" | "logs";
 type DateFilterKey = "all" | "today" | "7d" | "30d";
-type SummaryStats = { total: number; active: number; inactive: number };
+type SummaryStats = { total: number; active: number; inactive: number; lastUpdatedAt: string | null };
 type EntityRecord = Account | AccLog;
 
 type ColumnMapping = {
@@ -111,11 +127,19 @@ interface EntityConfig {
   statusSelectedPath: string;
   deletePath: (id: number) => string;
   bulkDeletePath: string;
+  revealPath: (id: number) => string;
+  bulkRevealPath: string;
   importPath: string;
+  // Background import with progress over the socket
+  importJobPath: string;
+  // Dry run of an import, for the assistant's preview
+  importValidatePath: string;
   exportPrefix: string;
   emptyMessage: string;
 }
 
+const TAGS_KEY = "/api/tags";
+
 const ENTITY_CONFIG: Record<EntityKey, EntityConfig> = {
   accounts: {
     label: "Tài khoản",
@@ -127,7 +151,11 @@ const ENTITY_CONFIG: Record<EntityKey, EntityConfig> = {
     statusSelectedPath: "/api/accounts/status",
     deletePath: (id) => `/api/accounts/${id}`,
     bulkDeletePath: "/api/accounts",
+    revealPath: (id) => `/api/accounts/${id}/reveal`,
+    bulkRevealPath: "/api/accounts/reveal",
     importPath: "/api/accounts/import-batch",
+    importJobPath: "/api/accounts/import-jobs",
+    importValidatePath: "/api/accounts/import/validate",
     exportPrefix: "accounts",
     emptyMessage: "Không có clone csuc phù hợp",
   },
@@ -141,7 +169,11 @@ const ENTITY_CONFIG: Record<EntityKey, EntityConfig> = {
     statusSelectedPath: "/api/acclogs/status",
     deletePath: (id) => `/api/acclogs/${id}`,
     bulkDeletePath: "/api/acclogs",
+    revealPath: (id) => `/api/acclogs/${id}/reveal`,
+    bulkRevealPath: "/api/acclogs/reveal",
     importPath: "/api/acclogs/import-batch",
+    importJobPath: "/api/acclogs/import-jobs",
+    importValidatePath: "/api/acclogs/import/validate",
     exportPrefix: "acclogs",
     emptyMessage: "Không có clone csuc cần up phù hợp",
   },
@@ -163,13 +195,36 @@ const DEFAULT_WIDGET_STATE = {
 
 type WidgetKey = keyof typeof DEFAULT_WIDGET_STATE;
 
-const TAG_FILTER_UNASSIGNED = "__unassigned__";
+// Selected tag ids combined with HOẶC/VÀ, or only accounts without any tag
+type TagFilterValue = { tagIds: number[]; match: TagMatchMode; unassigned: boolean };
+
+const ALL_TAGS_FILTER: TagFilterValue = { tagIds: [], match: "any", unassigned: false };
+
+const TAG_MATCH_OPTIONS: Array<{ value: TagMatchMode; label: string }> = [
+  { value: "any", label: "HOẶC" },
+  { value: "all", label: "VÀ" },
+];
+
+function isTagFilterActive(filter: TagFilterValue) {
+  return filter.unassigned || filter.tagIds.length > 0;
+}
 
-type TagFilterValue = "all" | typeof TAG_FILTER_UNASSIGNED | string;
+function describeTagFilter(filter: TagFilterValue, tags: Pick<Tag, "id" | "name">[]): string | null {
+  if (filter.unassigned) {
+    return "Chưa gắn tag";
+  }
+  if (filter.tagIds.length === 0) {
+    return null;
+  }
+  const names = filter.tagIds.map((id) => tags.find((tag) => tag.id === id)?.name ?? `#${id}`);
+  return `Tag ${names.join(filter.match === "all" ? " + " : " / ")}`;
+}
 
 type EntityUiState = {
   searchTerm: string;
   statusFilter: "all" | "on" | "off";
+  stateFilter: "all" | AccountState;
+  sort: ListSortValue;
   selectedIds: number[];
   page: number;
   pageSize: number;
@@ -178,6 +233,7 @@ type EntityUiState = {
 type ImportSummary = {
   entity: EntityKey;
   imported: number;
+  updated: number;
   errors: number;
   sourceName: string;
   timestamp: string;
@@ -186,22 +242,45 @@ type ImportSummary = {
 type ImportFeedback = {
   entity: EntityKey;
   imported: number;
+  updated: number;
   errors: number;
   errorDetails: Array<{ account: unknown; error: string }>;
   sourceName: string;
 };
 
 type TagModalState =
-  | { mode: "single"; ids: [number]; initialTag: string; accountName: string }
-  | { mode: "bulk"; ids: number[]; initialTag: string };
+  | { mode: "single"; ids: [number]; initialTagIds: number[]; accountName: string }
+  | { mode: "bulk"; ids: number[]; initialTagIds: number[]; partialTagIds: number[] };
 
 type ImportPayload = {
   records: Array<{ username: string; password: string; lv: number }>;
   sourceName: string;
+  onExisting: ImportExistingAction;
+};
+
+type LiveSessionAction = "pause" | "resume" | "end" | "reopen";
+
+type CurrentSessionRevenue = {
+  session: Pick<LiveSession, "id" | "sessionName" | "pricePerAccount" | "status" | "startedAt" | "endedAt" | "createdAt" | "updatedAt"> | null;
+  revenue: { totalRevenue: number; accountCount: number };
+};
+
+const IMPORT_EXISTING_ACTION_LABELS: Record<ImportExistingAction, string> = {
+  skip: "Bỏ qua, giữ nguyên bản cũ",
+  overwrite_password: "Ghi đè mật khẩu",
+  update_level: "Chỉ cập nhật cấp độ",
+  merge: "Gộp toàn bộ (mật khẩu, cấp độ)",
+};
+
+const LIVE_SESSION_STATUS_LABELS: Record<LiveSessionStatus, string> = {
+  active: "Đang live",
+  paused: "Tạm dừng",
+  ended: "Đã kết thúc",
 };
 
 type ImportApiResponse = {
   imported: number;
+  updated: number;
   errors: number;
   errorDetails: Array<{ account: unknown; error: string }>;
 };
@@ -211,52 +290,111 @@ function formatNumber(value: number) {
   return value.toLocaleString("vi-VN");
 }
 
-function passesDateFilter(date: Date, filter: DateFilterKey) {
+function describeImportCounts(imported: number, updated: number, label: string) {
+  return updated > 0
+    ? `Đã thêm ${imported}, cập nhật ${updated} ${label.toLowerCase()}`
+    : `Đã thêm ${imported} ${label.toLowerCase()}`;
+}
+
+const IMPORT_JOBS_KEY = "/api/import-jobs";
+// Fallback for a dropped socket; normally progress arrives as "import-job-updated" events
+const IMPORT_JOB_POLL_MS = 5000;
+
+// Resolve with the finished job. use-socket writes every update into the query cache, so
+// this watches the cache and polls only as a fallback.
+function waitForImportJob(
+  queryClient: ReturnType<typeof useQueryClient>,
+  jobId: string,
+  onProgress: (job: ImportJob) => void,
+): Promise<ImportJobDetail> {
+  const queryKey = [IMPORT_JOBS_KEY, jobId];
+  const fetchJob = () => queryClient.fetchQuery({
+    queryKey,
+    queryFn: () => apiRequest<ImportJobDetail>("GET", `${IMPORT_JOBS_KEY}/${jobId}`),
+    staleTime: 0,
+  });
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const settle = (finish: () => void) => {
+      settled = true;
+      unsubscribe();
+      clearInterval(timer);
+      finish();
+    };
+    const check = () => {
+      const job = queryClient.getQueryData<ImportJobDetail>(queryKey);
+      if (!job || settled) return;
+      onProgress(job);
+      if (isImportJobFinished(job)) {
+        // Read it back once so no failed row is missing from the result
+        settle(() => fetchJob().then(resolve, () => resolve(job)));
+      }
+    };
+    const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+      if (event.query.queryKey[0] === IMPORT_JOBS_KEY && event.query.queryKey[1] === jobId) {
+        check();
+      }
+    });
+    const timer = setInterval(() => {
+      fetchJob().catch((error) => settle(() => reject(error)));
+    }, IMPORT_JOB_POLL_MS);
+    check();
+  });
+}
+
+// Start of the "updated since" window for a date filter, or undefined for no limit
+function dateFilterStart(filter: DateFilterKey): Date | undefined {
   switch (filter) {
     case "today":
-      return isAfter(date, startOfDay(new Date()));
+      return startOfDay(new Date());
     case "7d":
-      return isAfter(date, subDays(new Date(), 7));
+      return subDays(new Date(), 7);
     case "30d":
-      return isAfter(date, subDays(new Date(), 30));
+      return subDays(new Date(), 30);
     default:
-      return true;
+      return undefined;
   }
 }
 
-function filterRecords(
-  records: EntityRecord[],
-  dateFilter: DateFilterKey,
-  state: EntityUiState,
-  entity: EntityKey,
-) {
-  const search = state.searchTerm.trim().toLowerCase();
+type ListFilters = {
+  ui: EntityUiState;
+  search: string;
+  updatedFrom?: string;
+  tagFilter?: TagFilterValue;
+  levelFilter?: string;
+};
 
-  return records.filter((record) => {
-    const updatedAt = new Date(record.updatedAt);
-    if (!passesDateFilter(updatedAt, dateFilter)) {
-      return false;
-    }
-    if (state.statusFilter === "on" && !record.status) {
-      return false;
-    }
-    if (state.statusFilter === "off" && record.status) {
-      return false;
-    }
-    if (entity === "accounts") {
-      // Tag filtering is applied after this step to keep UI concerns separated
-    }
-    if (search) {
-      const haystack = `${record.username} ${record.password}`.toLowerCase();
-      if (!haystack.includes(search)) {
-        return false;
-      }
+// Query string for GET /api/accounts and /api/acclogs; paging is left out for exports
+function buildListParams(entity: EntityKey, filters: ListFilters, paged: boolean): Record<string, string> {
+  const { ui, search, updatedFrom, tagFilter, levelFilter } = filters;
+  const [sort, order] = ui.sort.split(":");
+  const params: Record<string, string> = { sort, order };
+  if (search) params.search = search;
+  if (ui.statusFilter !== "all") params.status = ui.statusFilter;
+  if (updatedFrom) params.updatedFrom = updatedFrom;
+  if (entity === "accounts") {
+    if (ui.stateFilter !== "all") params.state = ui.stateFilter;
+    if (tagFilter?.unassigned) {
+      params.tags = TAG_FILTER_UNASSIGNED;
+    } else if (tagFilter && tagFilter.tagIds.length > 0) {
+      params.tags = tagFilter.tagIds.join(",");
+      params.tagMatch = tagFilter.match;
     }
-    return true;
-  });
+  } else if (levelFilter && levelFilter !== "all") {
+    params.minLv = levelFilter;
+    params.maxLv = levelFilter;
+  }
+  if (paged) {
+    params.page = String(ui.page);
+    params.pageSize = String(ui.pageSize);
+  }
+  return params;
 }
 
-
+function listUrl(entity: EntityKey, params: Record<string, string>) {
+  return `${ENTITY_CONFIG[entity].listKey}?${new URLSearchParams(params).toString()}`;
+}
 
 type ActivityPoint = {
   key: string;
@@ -265,57 +403,35 @@ type ActivityPoint = {
   logs: number;
 };
 
-function buildActivitySeries(accounts: Account[], logs: AccLog[], days = 14): {
+const ACTIVITY_DAYS = 14;
+
+type ActivityDay = { date: string; accounts: number; logs: number };
+
+function buildActivitySeries(activity: ActivityDay[], days = ACTIVITY_DAYS): {
   data: ActivityPoint[];
   hasActivity: boolean;
 } {
   const end = new Date();
   const start = subDays(end, days - 1);
   const calendar = eachDayOfInterval({ start, end });
+  // Server days are UTC dates
+  const byDate = new Map(activity.map((day) => [day.date, day]));
 
-  const base: ActivityPoint[] = calendar.map((day) => ({
-    key: format(day, "yyyy-MM-dd"),
-    label: format(day, "dd/MM"),
-    accounts: 0,
-    logs: 0,
-  }));
-
-  const index = new Map<string, ActivityPoint>();
-  base.forEach((item) => index.set(item.key, item));
-
-  accounts.forEach((record) => {
-    const key = format(new Date(record.updatedAt), "yyyy-MM-dd");
-    const target = index.get(key);
-    if (target) {
-      target.accounts += 1;
-    }
-  });
-
-  logs.forEach((record) => {
-    const key = format(new Date(record.updatedAt), "yyyy-MM-dd");
-    const target = index.get(key);
-    if (target) {
-      target.logs += 1;
-    }
+  const base: ActivityPoint[] = calendar.map((day) => {
+    const key = format(day, "yyyy-MM-dd");
+    const counts = byDate.get(key);
+    return {
+      key,
+      label: format(day, "dd/MM"),
+      accounts: counts?.accounts ?? 0,
+      logs: counts?.logs ?? 0,
+    };
   });
 
   const hasActivity = base.some((item) => item.accounts > 0 || item.logs > 0);
   return { data: base, hasActivity };
 }
 
-function getLatestUpdated(records: EntityRecord[]) {
-  if (records.length === 0) {
-    return null;
-  }
-  return records.reduce<Date | null>((latest, record) => {
-    const updatedAt = new Date(record.updatedAt);
-    if (!latest || updatedAt > latest) {
-      return updatedAt;
-    }
-    return latest;
-  }, null);
-}
-
 function collectHeaders(rows: Record<string, any>[]) {
   const headers = new Set<string>();
   rows.forEach((row) => {
@@ -591,6 +707,20 @@ function copyToClipboard(
     });
 }
 
+// Lists only carry masked passwords; fetch the real ones for an export, in batches the
+// reveal endpoint accepts. Records deleted in the meantime are dropped.
+async function revealPasswords(entity: EntityKey, records: EntityRecord[]): Promise<EntityRecord[]> {
+  const passwords = new Map<number, string>();
+  for (let start = 0; start < records.length; start += MAX_REVEAL_IDS) {
+    const ids = records.slice(start, start + MAX_REVEAL_IDS).map((record) => record.id);
+    const revealed = await apiRequest<RevealedPassword[]>("POST", ENTITY_CONFIG[entity].bulkRevealPath, { ids });
+    revealed.forEach(({ id, password }) => passwords.set(id, password));
+  }
+  return records
+    .filter((record) => passwords.has(record.id))
+    .map((record) => ({ ...record, password: passwords.get(record.id)! }));
+}
+
 function exportRecords(
   records: EntityRecord[],
   prefix: string,
@@ -672,6 +802,10 @@ function useEntityMutations(
   const invalidate = () => {
     queryClient.invalidateQueries({ queryKey: [config.listKey] });
     queryClient.invalidateQueries({ queryKey: [config.statsKey] });
+    if (isAccountsEntity) {
+      // Tag counts change when tagged accounts are deleted
+      queryClient.invalidateQueries({ queryKey: [TAGS_KEY] });
+    }
   };
 
   const updateAllMutation = useMutation({
@@ -680,11 +814,12 @@ function useEntityMutations(
     },
     onSuccess: (_data, status) => {
       invalidate();
-      // Invalidate revenue when turning OFF (ON → OFF: accounts đã được sử dụng xong, tính doanh thu)
-      if (!status) {
-        console.log('[Frontend] Accounts turned OFF, invalidating revenue queries');
+      // Invalidate revenue on both directions (ON → OFF: tính doanh thu, OFF → ON: huỷ doanh thu đã tính)
+      if (entity === "accounts") {
+        console.log(`[Frontend] Accounts turned ${status ? 'ON' : 'OFF'}, invalidating revenue queries`);
         queryClient.invalidateQueries({ queryKey: ["/api/revenue/current-session"] });
         queryClient.invalidateQueries({ queryKey: ["/api/revenue/stats"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/revenue/voided"] });
         setTimeout(() => {
           queryClient.refetchQueries({ queryKey: ["/api/revenue/current-session"], exact: false });
           queryClient.refetchQueries({ queryKey: ["/api/revenue/stats"], exact: false });
@@ -707,16 +842,20 @@ function useEntityMutations(
   });
 
   const updateSelectedMutation = useMutation({
-    mutationFn: async ({ ids, status }: { ids: number[]; status: boolean }) => {
-      await apiRequest("PATCH", config.statusSelectedPath, { ids, status });
+    mutationFn: async ({ ids, status, buyer }: { ids: number[]; status: boolean; buyer?: OrderBuyerInput }) => {
+      await apiRequest("PATCH", config.statusSelectedPath, { ids, status, buyer });
     },
     onSuccess: (_data, variables) => {
       invalidate();
-      // Invalidate revenue when turning OFF (ON → OFF: accounts đã được sử dụng xong, tính doanh thu)
-      if (!variables.status) {
-        console.log('[Frontend] Selected accounts turned OFF, invalidating revenue queries');
+      if (variables.buyer) {
+        queryClient.invalidateQueries({ queryKey: ["/api/buyers"] });
+      }
+      // Invalidate revenue on both directions (ON → OFF: tính doanh thu, OFF → ON: huỷ doanh thu đã tính)
+      if (entity === "accounts") {
+        console.log(`[Frontend] Selected accounts turned ${variables.status ? 'ON' : 'OFF'}, invalidating revenue queries`);
         queryClient.invalidateQueries({ queryKey: ["/api/revenue/current-session"] });
         queryClient.invalidateQueries({ queryKey: ["/api/revenue/stats"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/revenue/voided"] });
         setTimeout(() => {
           queryClient.refetchQueries({ queryKey: ["/api/revenue/current-session"], exact: false });
           queryClient.refetchQueries({ queryKey: ["/api/revenue/stats"], exact: false });
@@ -742,11 +881,12 @@ function useEntityMutations(
     },
     onSuccess: (_data, variables) => {
       invalidate();
-      // Invalidate revenue when turning OFF (ON → OFF: account đã được sử dụng xong, tính doanh thu)
-      if (!variables.status) {
-        console.log('[Frontend] Account turned OFF via toggle, invalidating revenue queries');
+      // Invalidate revenue on both directions (ON → OFF: tính doanh thu, OFF → ON: huỷ doanh thu đã tính)
+      if (entity === "accounts") {
+        console.log(`[Frontend] Account turned ${variables.status ? 'ON' : 'OFF'} via toggle, invalidating revenue queries`);
         queryClient.invalidateQueries({ queryKey: ["/api/revenue/current-session"] });
         queryClient.invalidateQueries({ queryKey: ["/api/revenue/stats"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/revenue/voided"] });
         // Force refetch immediately
         setTimeout(() => {
           queryClient.refetchQueries({ queryKey: ["/api/revenue/current-session"], exact: false });
@@ -825,45 +965,40 @@ interface OverviewCardsProps {
   accountStats?: SummaryStats | null;
   logStats?: SummaryStats | null;
   dateFilter: DateFilterKey;
-  tagFilter: TagFilterValue;
-  accounts: Account[];
-  logs: AccLog[];
+  tagFilterLabel: string | null;
   lastImportSummary?: ImportSummary | null;
-  currentSessionRevenue?: { session: { sessionName: string; pricePerAccount: number } | null; revenue: { totalRevenue: number; accountCount: number } } | null;
+  currentSessionRevenue?: CurrentSessionRevenue | null;
+  lastEndedSession?: LiveSession | null;
+  onSessionAction?: (sessionId: number, action: LiveSessionAction) => void;
+  isSessionActionPending?: boolean;
 }
 
 const OverviewCards = React.memo(function OverviewCards({
   accountStats,
   logStats,
   dateFilter,
-  tagFilter,
-  accounts,
-  logs,
+  tagFilterLabel,
   lastImportSummary,
   currentSessionRevenue,
+  lastEndedSession,
+  onSessionAction,
+  isSessionActionPending,
 }: OverviewCardsProps) {
-  const totalAccounts = accountStats?.total ?? accounts.length;
-  const activeAccounts = accountStats?.active ?? accounts.filter((acc) => acc.status).length;
-  const totalLogs = logStats?.total ?? logs.length;
-  const activeLogs = logStats?.active ?? logs.filter((log) => log.status).length;
+  const totalAccounts = accountStats?.total ?? 0;
+  const activeAccounts = accountStats?.active ?? 0;
+  const totalLogs = logStats?.total ?? 0;
+  const activeLogs = logStats?.active ?? 0;
 
   const combinedTotal = totalAccounts + totalLogs;
   const combinedActive = activeAccounts + activeLogs;
   const healthRatio = combinedTotal === 0 ? 0 : Math.round((combinedActive / combinedTotal) * 100);
 
-  const latestAccountUpdate = getLatestUpdated(accounts);
-  const latestLogUpdate = getLatestUpdated(logs);
-  const latestUpdate = [latestAccountUpdate, latestLogUpdate]
-    .filter(Boolean)
-    .sort((a, b) => (b as Date).getTime() - (a as Date).getTime())[0] as Date | undefined;
+  const latestUpdate = [accountStats?.lastUpdatedAt, logStats?.lastUpdatedAt]
+    .filter((value): value is string => Boolean(value))
+    .map((value) => new Date(value))
+    .sort((a, b) => b.getTime() - a.getTime())[0] as Date | undefined;
 
   const dateFilterLabel = DATE_FILTERS.find((filter) => filter.key === dateFilter)?.label ?? "Tất cả";
-  const tagFilterLabel =
-    tagFilter === "all"
-      ? null
-      : tagFilter === TAG_FILTER_UNASSIGNED
-        ? "Chưa gắn tag"
-        : `Tag ${tagFilter}`;
 
   // Debug log removed to prevent console spam
 
@@ -929,17 +1064,26 @@ const OverviewCards = React.memo(function OverviewCards({
           )}
           {lastImportSummary ? (
             <p className="text-xs text-muted-foreground">
-              Import lần cuối: {lastImportSummary.sourceName} ? {lastImportSummary.imported} mục ({lastImportSummary.errors} lỗi)
+              Import lần cuối: {lastImportSummary.sourceName} ? {lastImportSummary.imported} mục{lastImportSummary.updated > 0 ? `, ${lastImportSummary.updated} cập nhật` : ""} ({lastImportSummary.errors} lỗi)
             </p>
           ) : null}
         </CardContent>
       </Card>
 
       {currentSessionRevenue?.session ? (
-        <Card className="border-primary/30 bg-primary/5">
+        <Card className={cn(
+          currentSessionRevenue.session.status === "active"
+            ? "border-primary/30 bg-primary/5"
+            : "border-amber-400/40 bg-amber-50/40 dark:bg-amber-500/5",
+        )}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Doanh thu buổi live</CardTitle>
-            <DollarSign className="h-5 w-5 text-primary" />
+            <Badge
+              variant={currentSessionRevenue.session.status === "active" ? "default" : "outline"}
+              className="rounded-full"
+            >
+              {LIVE_SESSION_STATUS_LABELS[currentSessionRevenue.session.status]}
+            </Badge>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-primary">{formatNumber(currentSessionRevenue.revenue.totalRevenue)}đ</div>
@@ -947,8 +1091,45 @@ const OverviewCards = React.memo(function OverviewCards({
               {currentSessionRevenue.session.sessionName}
             </p>
             <p className="text-xs text-muted-foreground mt-1">
-              {formatNumber(currentSessionRevenue.revenue.accountCount)} acc × {formatNumber(currentSessionRevenue.session.pricePerAccount)}đ/acc
+              {formatNumber(currentSessionRevenue.revenue.accountCount)} acc · giá gốc {formatNumber(currentSessionRevenue.session.pricePerAccount)}đ/acc
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Bắt đầu: {format(new Date(currentSessionRevenue.session.startedAt), "HH:mm dd/MM")}
             </p>
+            {onSessionAction ? (
+              <div className="mt-3 flex gap-2">
+                {currentSessionRevenue.session.status === "active" ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 flex-1 text-xs"
+                    disabled={isSessionActionPending}
+                    onClick={() => onSessionAction(currentSessionRevenue.session!.id, "pause")}
+                  >
+                    Tạm dừng
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 flex-1 text-xs"
+                    disabled={isSessionActionPending}
+                    onClick={() => onSessionAction(currentSessionRevenue.session!.id, "resume")}
+                  >
+                    Tiếp tục
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  className="h-8 flex-1 text-xs"
+                  disabled={isSessionActionPending}
+                  onClick={() => onSessionAction(currentSessionRevenue.session!.id, "end")}
+                >
+                  Kết thúc
+                </Button>
+              </div>
+            ) : null}
           </CardContent>
         </Card>
       ) : (
@@ -960,11 +1141,22 @@ const OverviewCards = React.memo(function OverviewCards({
           <CardContent>
             <div className="text-2xl font-semibold text-muted-foreground">0đ</div>
             <p className="text-sm text-muted-foreground mt-1">
-              Chưa có buổi live
+              Không có buổi live đang chạy
             </p>
             <p className="text-xs text-muted-foreground mt-1">
-              Set giá để bắt đầu tracking
+              Set giá để bắt đầu buổi live mới
             </p>
+            {lastEndedSession && onSessionAction ? (
+              <Button
+                size="sm"
+                variant="outline"
+                className="mt-3 h-8 w-full text-xs"
+                disabled={isSessionActionPending}
+                onClick={() => onSessionAction(lastEndedSession.id, "reopen")}
+              >
+                Mở lại "{lastEndedSession.sessionName}"
+              </Button>
+            ) : null}
           </CardContent>
         </Card>
       )}
@@ -1083,6 +1275,102 @@ function ActivityTimeline({ data, hasActivity }: ActivityTimelineProps) {
   );
 }
 
+type LevelVelocityReport = {
+  days: number;
+  since: string;
+  perDay: Array<{ date: string; levelsGained: number }>;
+  accounts: Array<{
+    accLogId: number;
+    username: string;
+    currentLv: number;
+    levelsGained: number;
+    levelsPerDay: number;
+    lastLevelUpAt: string | null;
+    inProgress: boolean;
+    stuck: boolean;
+  }>;
+  aggregate: { levelsGained: number; levelsPerDay: number; activeAccounts: number; stuckAccounts: number };
+};
+
+const LEVEL_VELOCITY_DAYS = 14;
+
+const LEVEL_VELOCITY_CHART_CONFIG: ChartConfig = {
+  levelsGained: {
+    label: "Level tăng",
+    theme: {
+      light: "var(--chart-2)",
+      dark: "rgba(255, 255, 255, 0.72)",
+    },
+  },
+};
+
+interface LevelVelocityChartProps {
+  report?: LevelVelocityReport;
+  isLoading: boolean;
+}
+
+function LevelVelocityChart({ report, isLoading }: LevelVelocityChartProps) {
+  const chartData = useMemo(
+    () => (report?.perDay ?? []).map((item) => ({ label: format(new Date(item.date), "dd/MM"), levelsGained: item.levelsGained })),
+    [report],
+  );
+  const fastest = (report?.accounts ?? []).filter((item) => item.levelsGained > 0).slice(0, 3);
+  const stuck = (report?.accounts ?? []).filter((item) => item.stuck);
+  const hasProgress = (report?.aggregate.levelsGained ?? 0) > 0;
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <CardTitle className="text-base font-semibold">Tốc độ up level {LEVEL_VELOCITY_DAYS} ngày</CardTitle>
+        <CardDescription>
+          {report
+            ? `${formatNumber(report.aggregate.levelsGained)} level · ${report.aggregate.levelsPerDay} level/ngày · ${report.aggregate.activeAccounts} acc đang lên`
+            : "Tổng số level acc log tăng mỗi ngày"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-[220px] w-full" />
+        ) : hasProgress ? (
+          <ChartContainer config={LEVEL_VELOCITY_CHART_CONFIG} className="h-[220px] w-full overflow-hidden">
+            <BarChart data={chartData}>
+              <CartesianGrid vertical={false} strokeDasharray="3 3" className="stroke-border/60" />
+              <XAxis dataKey="label" axisLine={false} tickLine={false} />
+              <YAxis allowDecimals={false} axisLine={false} tickLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="levelsGained" fill="var(--color-levelsGained)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        ) : (
+          <div className="flex h-[220px] items-center justify-center rounded-md border border-dashed border-border/70 text-sm text-muted-foreground">
+            Chưa có acc log nào lên level trong {LEVEL_VELOCITY_DAYS} ngày gần nhất
+          </div>
+        )}
+        {fastest.length > 0 ? (
+          <div className="space-y-1 text-sm">
+            <p className="text-xs font-medium uppercase text-muted-foreground">Lên nhanh nhất</p>
+            {fastest.map((item) => (
+              <div key={item.accLogId} className="flex items-center justify-between">
+                <span className="truncate">{item.username}</span>
+                <span className="text-muted-foreground">lv {item.currentLv} · {item.levelsPerDay} level/ngày</span>
+              </div>
+            ))}
+          </div>
+        ) : null}
+        {stuck.length > 0 ? (
+          <div className="rounded-md border border-amber-500/40 bg-amber-500/10 p-3 text-sm">
+            <p className="font-medium text-amber-700 dark:text-amber-300">{stuck.length} acc log đứng level</p>
+            <p className="text-xs text-muted-foreground">
+              {stuck.slice(0, 5).map((item) => `${item.username} (lv ${item.currentLv})`).join(", ")}
+              {stuck.length > 5 ? "…" : ""}
+            </p>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
 const REVENUE_CHART_CONFIG: ChartConfig = {
   revenue: {
     label: "Doanh thu",
@@ -1178,6 +1466,63 @@ function RevenueChart({ data, activeSession }: RevenueChartProps) {
   );
 }
 
+type VoidedRevenueRecord = RevenueRecord & { accountUsername: string | null };
+
+interface VoidedSalesCardProps {
+  records: VoidedRevenueRecord[];
+  sessions: LiveSession[];
+}
+
+function VoidedSalesCard({ records, sessions }: VoidedSalesCardProps) {
+  const sessionNames = useMemo(
+    () => new Map(sessions.map((session) => [session.id, session.sessionName])),
+    [sessions],
+  );
+  const totalVoided = records.reduce((sum, record) => sum + record.revenue, 0);
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <CardTitle className="text-base font-semibold">Doanh thu đã huỷ</CardTitle>
+        <CardDescription>
+          Các lượt bán bị huỷ do account được bật lại trong buổi live
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {records.length > 0 ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between rounded-md border bg-muted/30 p-3">
+              <span className="text-sm text-muted-foreground">{formatNumber(records.length)} lượt huỷ:</span>
+              <span className="text-lg font-semibold text-destructive">-{formatNumber(totalVoided)}đ</span>
+            </div>
+            <div className="max-h-[240px] space-y-2 overflow-y-auto pr-1">
+              {records.map((record) => (
+                <div key={record.id} className="flex items-center justify-between gap-3 rounded-md border border-border/60 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{record.accountUsername ?? `#${record.accountId}`}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {record.sessionId ? sessionNames.get(record.sessionId) ?? `Buổi #${record.sessionId}` : "Không có buổi live"}
+                      {record.pricingRuleName ? ` · ${record.pricingRuleName}` : ""}
+                      {record.voidedAt ? ` · ${format(new Date(record.voidedAt), "HH:mm dd/MM")}` : ""}
+                    </p>
+                  </div>
+                  <span className="shrink-0 font-semibold text-muted-foreground line-through">
+                    {formatNumber(record.revenue)}đ
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="flex h-[120px] items-center justify-center rounded-md border border-dashed border-border/70 text-sm text-muted-foreground">
+            Chưa có lượt bán nào bị huỷ
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 interface WidgetTogglePanelProps {
   state: typeof DEFAULT_WIDGET_STATE;
   onChange: (next: typeof DEFAULT_WIDGET_STATE) => void;
@@ -1240,22 +1585,82 @@ function WidgetTogglePanel({ state, onChange, layout = "card" }: WidgetTogglePan
   );
 }
 
+interface AutoPromoteCardProps {
+  minLevel: number | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  // Read-only when left out
+  onSave?: (minLevel: number | null) => void;
+}
+
+function AutoPromoteCard({ minLevel, isLoading, isSaving, onSave }: AutoPromoteCardProps) {
+  const [value, setValue] = useState(minLevel === null ? "" : String(minLevel));
+
+  useEffect(() => {
+    setValue(minLevel === null ? "" : String(minLevel));
+  }, [minLevel]);
+
+  const parsed = parseInt(value, 10);
+  const isValid = Number.isFinite(parsed) && parsed >= 1;
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="text-base font-semibold">Tự động chuyển kho</CardTitle>
+        <CardDescription>
+          {minLevel === null
+            ? "Đang tắt. Acc log đạt level cài đặt sẽ tự chuyển sang kho Csuc."
+            : `Acc log đạt lv ${minLevel} trở lên sẽ tự chuyển sang kho Csuc.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="auto-promote-level">Level tối thiểu</Label>
+          <Input
+            id="auto-promote-level"
+            type="number"
+            min="1"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            placeholder="Ví dụ: 11"
+            disabled={isLoading || isSaving || !onSave}
+          />
+        </div>
+        {onSave ? (
+          <div className="flex gap-2">
+            <Button className="flex-1" size="sm" onClick={() => onSave(parsed)} disabled={!isValid || isSaving || parsed === minLevel}>
+              Lưu
+            </Button>
+            <Button className="flex-1" size="sm" variant="outline" onClick={() => onSave(null)} disabled={minLevel === null || isSaving}>
+              Tắt
+            </Button>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
 interface BulkActionsCardProps {
   label: string;
   selectionCount: number;
   totalCount: number;
-  onUpdateAll: (status: boolean) => void;
+  // Actions without a handler are hidden
+  onUpdateAll?: (status: boolean) => void;
   onUpdateSelected?: (status: boolean) => void;
   isUpdating: boolean;
   isUpdatingSelected?: boolean;
-  onDeleteSelected: () => void;
-  onDeleteAll: () => void;
+  onDeleteSelected?: () => void;
+  onDeleteAll?: () => void;
   onExportAll: () => void;
   onExportSelected: () => void;
   onExportAllTxt?: () => void;
   onExportSelectedTxt?: () => void;
   onAssignTag?: () => void;
   disableAssignTag?: boolean;
+  onSellSelected?: () => void;
+  onPromoteSelected?: () => void;
+  isPromoting?: boolean;
   disableUpdateSelected?: boolean;
   disableDeleteSelected: boolean;
 }
@@ -1276,6 +1681,9 @@ function BulkActionsCard({
   onExportSelectedTxt,
   onAssignTag,
   disableAssignTag,
+  onSellSelected,
+  onPromoteSelected,
+  isPromoting,
   disableUpdateSelected,
   disableDeleteSelected,
 }: BulkActionsCardProps) {
@@ -1290,14 +1698,16 @@ function BulkActionsCard({
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-3">
-        <div className="flex gap-2">
-          <Button className="flex-1" size="sm" variant="outline" onClick={() => onUpdateAll(true)} disabled={isUpdating}>
-            Bật tất cả
-          </Button>
-          <Button className="flex-1" size="sm" variant="outline" onClick={() => onUpdateAll(false)} disabled={isUpdating}>
-            Tắt tất cả
-          </Button>
-        </div>
+        {onUpdateAll ? (
+          <div className="flex gap-2">
+            <Button className="flex-1" size="sm" variant="outline" onClick={() => onUpdateAll(true)} disabled={isUpdating}>
+              Bật tất cả
+            </Button>
+            <Button className="flex-1" size="sm" variant="outline" onClick={() => onUpdateAll(false)} disabled={isUpdating}>
+              Tắt tất cả
+            </Button>
+          </div>
+        ) : null}
         {onUpdateSelected ? (
           <div className="flex gap-2">
             <Button
@@ -1324,6 +1734,28 @@ function BulkActionsCard({
             Gắn tag
           </Button>
         ) : null}
+        {onSellSelected ? (
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full"
+            onClick={onSellSelected}
+            disabled={disableUpdateSelected || isUpdatingSelected}
+          >
+            Bán cho người mua
+          </Button>
+        ) : null}
+        {onPromoteSelected ? (
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full"
+            onClick={onPromoteSelected}
+            disabled={disableUpdateSelected || isPromoting}
+          >
+            {isPromoting ? "Đang chuyển..." : "Chuyển sang kho Csuc"}
+          </Button>
+        ) : null}
         <Separator />
         <div className="relative">
           <DropdownMenu>
@@ -1360,24 +1792,28 @@ function BulkActionsCard({
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
-        <Separator />
-        <Button
-          size="sm"
-          variant="destructive"
-          className="w-full"
-          onClick={onDeleteSelected}
-          disabled={disableDeleteSelected}
-        >
-          Xóa mục đã chọn
-        </Button>
-        <Button
-          size="sm"
-          variant="destructive"
-          className="w-full"
-          onClick={onDeleteAll}
-        >
-          Xóa toàn bộ {label.toLowerCase()}
-        </Button>
+        {onDeleteSelected || onDeleteAll ? <Separator /> : null}
+        {onDeleteSelected ? (
+          <Button
+            size="sm"
+            variant="destructive"
+            className="w-full"
+            onClick={onDeleteSelected}
+            disabled={disableDeleteSelected}
+          >
+            Xóa mục đã chọn
+          </Button>
+        ) : null}
+        {onDeleteAll ? (
+          <Button
+            size="sm"
+            variant="destructive"
+            className="w-full"
+            onClick={onDeleteAll}
+          >
+            Xóa toàn bộ {label.toLowerCase()}
+          </Button>
+        ) : null}
       </CardContent>
     </Card>
   );
@@ -1388,11 +1824,22 @@ interface ImportPipelineAssistantProps {
   onImport: (payload: ImportPayload) => Promise<void>;
   isImporting: boolean;
   progress?: { done: number; total: number } | null;
+  // Shown while a background import job runs
+  onCancel?: () => void;
 }
 
 type PipelineStep = 1 | 2 | 3;
 
-function ImportPipelineAssistant({ entity, onImport, isImporting, progress }: ImportPipelineAssistantProps) {
+const PREVIEW_ACTION_BADGES: Record<ImportRowAction, { label: string; className: string }> = {
+  new: { label: "Mới", className: "border-emerald-400/60 text-emerald-700" },
+  update: { label: "Cập nhật", className: "border-sky-400/60 text-sky-700" },
+  skip: { label: "Bỏ qua", className: "border-amber-400/60 text-amber-700" },
+};
+
+// Server dry run of the rows that pass the checks above, keyed by NormalizedRow.index
+type ServerCheck = { status: "loading" } | { status: "error" } | { status: "ready"; rows: Map<number, ImportValidationRow> };
+
+function ImportPipelineAssistant({ entity, onImport, isImporting, progress, onCancel }: ImportPipelineAssistantProps) {
   const LEVEL_MAPPING_NONE = "__none__";
   const entityLabel = ENTITY_CONFIG[entity].label;
   const [step, setStep] = useState<PipelineStep>(1);
@@ -1405,6 +1852,8 @@ function ImportPipelineAssistant({ entity, onImport, isImporting, progress }: Im
   const [sheetUrl, setSheetUrl] = useState("");
   const [loadingSource, setLoadingSource] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [onExisting, setOnExisting] = useState<ImportExistingAction>("skip");
+  const [serverCheck, setServerCheck] = useState<ServerCheck | null>(null);
 
   useEffect(() => {
     if (rawRows.length === 0) {
@@ -1447,6 +1896,46 @@ function ImportPipelineAssistant({ entity, onImport, isImporting, progress }: Im
     setPreviewPage(1);
   }, [validation?.rows.length]);
 
+  useEffect(() => {
+    const readyRows = validation?.rows.filter((row) => row.issues.length === 0) ?? [];
+    if (step !== 3 || readyRows.length === 0) {
+      setServerCheck(null);
+      return;
+    }
+    let cancelled = false;
+    setServerCheck({ status: "loading" });
+    apiRequest<ImportValidationResult>("POST", ENTITY_CONFIG[entity].importValidatePath, {
+      records: readyRows.map(({ username, password, lv }) => ({ username, password, lv })),
+      onExisting,
+    })
+      .then((result) => {
+        if (!cancelled) {
+          setServerCheck({ status: "ready", rows: new Map(result.rows.map((item) => [readyRows[item.index].index, item])) });
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setServerCheck({ status: "error" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [step, validation, entity, onExisting]);
+
+  const serverRow = (row: NormalizedRow) => (serverCheck?.status === "ready" ? serverCheck.rows.get(row.index) : undefined);
+
+  // Until the server answers, rows that pass the local checks count as new
+  const previewAction = (row: NormalizedRow): ImportRowAction => {
+    if (row.issues.length > 0) return "skip";
+    return serverRow(row)?.action ?? "new";
+  };
+
+  const previewNote = (row: NormalizedRow) => {
+    if (row.issues.length > 0) return row.issues.join(", ");
+    const checked = serverRow(row);
+    if (checked?.error) return checked.error;
+    return checked?.action === "update" ? "Đã có trong hệ thống" : "Hợp lệ";
+  };
+
   const handleReset = () => {
     setStep(1);
     setRawRows([]);
@@ -1457,6 +1946,7 @@ function ImportPipelineAssistant({ entity, onImport, isImporting, progress }: Im
     setSheetUrl("");
     setPreviewPage(1);
     setError(null);
+    setOnExisting("skip");
   };
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -1524,12 +2014,13 @@ function ImportPipelineAssistant({ entity, onImport, isImporting, progress }: Im
   };
 
   const handleImport = async () => {
-    if (!validation || validation.ready.length === 0) {
+    if (!validation || importRecords.length === 0) {
       return;
     }
     await onImport({
-      records: validation.ready,
+      records: importRecords,
       sourceName: sourceName || sheetUrl || entityLabel,
+      onExisting,
     });
     handleReset();
   };
@@ -1541,8 +2032,14 @@ function ImportPipelineAssistant({ entity, onImport, isImporting, progress }: Im
   const previewRows = validation?.rows.slice(previewStartIndex, previewStartIndex + PREVIEW_PAGE_SIZE) ?? [];
   const previewDisplayStart = previewTotalCount === 0 ? 0 : previewStartIndex + 1;
   const previewDisplayEnd = previewTotalCount === 0 ? 0 : Math.min(previewStartIndex + previewRows.length, previewTotalCount);
-  const readyCount = validation?.ready.length ?? 0;
-  const skippedCount = validation?.blockingIssueCount ?? 0;
+  const actionCounts: Record<ImportRowAction, number> = { new: 0, update: 0, skip: 0 };
+  validation?.rows.forEach((row) => {
+    actionCounts[previewAction(row)] += 1;
+  });
+  // Rows the preview shows as skipped are not sent at all
+  const importRecords = (validation?.rows ?? [])
+    .filter((row) => previewAction(row) !== "skip")
+    .map((row) => ({ username: row.username, password: row.password, lv: row.lv }));
 
   return (
     <Card className="border-dashed border-primary/30 bg-primary/5">
@@ -1719,14 +2216,39 @@ function ImportPipelineAssistant({ entity, onImport, isImporting, progress }: Im
               <span>Kiểm tra và nhập</span>
             </div>
 
-            <div className="grid gap-3 sm:grid-cols-2">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+              <Label className="shrink-0">Username đã có trong hệ thống</Label>
+              <Select value={onExisting} onValueChange={(value) => setOnExisting(value as ImportExistingAction)} disabled={isImporting}>
+                <SelectTrigger className="sm:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_EXISTING_ACTIONS.map((action) => (
+                    <SelectItem key={action} value={action}>
+                      {IMPORT_EXISTING_ACTION_LABELS[action]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {serverCheck?.status === "loading" ? (
+                <span className="text-xs text-muted-foreground">Đang kiểm tra với dữ liệu hệ thống...</span>
+              ) : serverCheck?.status === "error" ? (
+                <span className="text-xs text-destructive">Không kiểm tra được với hệ thống; các dòng trùng sẽ được báo sau khi import</span>
+              ) : null}
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-3">
               <div className="flex items-center gap-2 rounded-md border border-emerald-400/40 bg-emerald-50/60 p-3 text-sm text-emerald-700">
                 <CheckCircle className="h-4 w-4" />
-                <span>{readyCount} dòng hợp lệ sẽ được nhập</span>
+                <span>{actionCounts.new} dòng mới</span>
+              </div>
+              <div className="flex items-center gap-2 rounded-md border border-sky-400/40 bg-sky-50/60 p-3 text-sm text-sky-700">
+                <RefreshCw className="h-4 w-4" />
+                <span>{actionCounts.update} dòng cập nhật</span>
               </div>
               <div className="flex items-center gap-2 rounded-md border border-amber-400/40 bg-amber-50/60 p-3 text-sm text-amber-700">
                 <AlertCircle className="h-4 w-4" />
-                <span>{skippedCount} dòng sẽ bị bỏ qua</span>
+                <span>{actionCounts.skip} dòng sẽ bị bỏ qua</span>
               </div>
             </div>
 
@@ -1744,21 +2266,30 @@ function ImportPipelineAssistant({ entity, onImport, isImporting, progress }: Im
                     <th className="px-3 py-2">Username</th>
                     <th className="px-3 py-2">Password</th>
                     <th className="px-3 py-2">Cấp độ</th>
+                    <th className="px-3 py-2">Thao tác</th>
                     <th className="px-3 py-2">Ghi chú</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {previewRows.map((row) => (
-                    <tr key={row.index} className="border-t">
-                      <td className="px-3 py-2 text-xs text-muted-foreground">{row.index + 1}</td>
-                      <td className="truncate px-3 py-2 font-medium">{row.username || "(trong)"}</td>
-                      <td className="truncate px-3 py-2 text-muted-foreground">{row.password || "(trong)"}</td>
-                      <td className="px-3 py-2 text-center text-muted-foreground">{row.lv}</td>
-                      <td className="px-3 py-2 text-xs text-muted-foreground">
-                        {row.issues.length > 0 ? row.issues.join(", ") : "Hợp lệ"}
-                      </td>
-                    </tr>
-                  ))}
+                  {previewRows.map((row) => {
+                    const action = PREVIEW_ACTION_BADGES[previewAction(row)];
+                    return (
+                      <tr key={row.index} className="border-t">
+                        <td className="px-3 py-2 text-xs text-muted-foreground">{row.index + 1}</td>
+                        <td className="truncate px-3 py-2 font-medium">{row.username || "(trong)"}</td>
+                        <td className="truncate px-3 py-2 text-muted-foreground">{row.password || "(trong)"}</td>
+                        <td className="px-3 py-2 text-center text-muted-foreground">{row.lv}</td>
+                        <td className="px-3 py-2">
+                          <Badge variant="outline" className={cn("rounded-full text-xs", action.className)}>
+                            {action.label}
+                          </Badge>
+                        </td>
+                        <td className="px-3 py-2 text-xs text-muted-foreground">
+                          {previewNote(row)}
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -1818,6 +2349,11 @@ function ImportPipelineAssistant({ entity, onImport, isImporting, progress }: Im
                   <span className="text-xs text-muted-foreground">
                     {Math.min(progress?.done ?? 0, progress?.total ?? 0)}/{progress?.total ?? 0}
                   </span>
+                  {onCancel ? (
+                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onCancel}>
+                      Hủy
+                    </Button>
+                  ) : null}
                 </div>
               ) : null}
               <Button variant="ghost" size="sm" onClick={handleBack}>
@@ -1826,7 +2362,7 @@ function ImportPipelineAssistant({ entity, onImport, isImporting, progress }: Im
               <Button
                 size="sm"
                 onClick={handleImport}
-                disabled={readyCount === 0 || isImporting}
+                disabled={importRecords.length === 0 || isImporting || serverCheck?.status === "loading"}
               >
                 {isImporting ? "Đang import..." : "Import vào hệ thống"}
               </Button>
@@ -1839,18 +2375,27 @@ function ImportPipelineAssistant({ entity, onImport, isImporting, progress }: Im
 }
 
 export default function Dashboard() {
-  const { logout } = useAuth();
+  const { logout, user, can } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const canReadAccounts = can("accounts:read");
+  const canReadLogs = can("acclogs:read");
+  const canReadRevenue = can("revenue:read");
+  // Fall back to the other tab when the role cannot read the requested one
+  const resolveTab = useCallback((requested: EntityKey): EntityKey => {
+    if (requested === "accounts" && !canReadAccounts && canReadLogs) return "logs";
+    if (requested === "logs" && !canReadLogs && canReadAccounts) return "accounts";
+    return requested;
+  }, [canReadAccounts, canReadLogs]);
   const [searchParams, setSearchParams] = useSearchParams();
-  const initialTab = (searchParams.get("tab") === "logs" ? "logs" : "accounts") as EntityKey;
+  const initialTab = resolveTab(searchParams.get("tab") === "logs" ? "logs" : "accounts");
   const [activeTab, setActiveTab] = useState<EntityKey>(initialTab);
 
   useEffect(() => {
-    const paramTab = (searchParams.get("tab") === "logs" ? "logs" : "accounts") as EntityKey;
+    const paramTab = resolveTab(searchParams.get("tab") === "logs" ? "logs" : "accounts");
     setActiveTab((prev) => (prev === paramTab ? prev : paramTab));
-  }, [searchParams]);
+  }, [searchParams, resolveTab]);
 
   const [dateFilter, setDateFilter] = useState<DateFilterKey>("all");
   const [storedWidgetState, setWidgetState] = useLocalStorage("dashboard-widget-state", DEFAULT_WIDGET_STATE);
@@ -1864,28 +2409,38 @@ export default function Dashboard() {
   const [isFilterDialogOpen, setFilterDialogOpen] = useState(false);
   const [isWidgetDialogOpen, setWidgetDialogOpen] = useState(false);
   const [isChartsDialogOpen, setChartsDialogOpen] = useState(false);
+  const levelVelocityQuery = useQuery<LevelVelocityReport>({
+    queryKey: [`/api/acclogs/level-velocity?days=${LEVEL_VELOCITY_DAYS}`],
+    enabled: isChartsDialogOpen && canReadLogs,
+  });
   const [isImportDialogOpen, setImportDialogOpen] = useState(false);
   const [entityUi, setEntityUi] = useState<Record<EntityKey, EntityUiState>>({
-    accounts: { searchTerm: "", statusFilter: "all", selectedIds: [], page: 1, pageSize: 20 },
-    logs: { searchTerm: "", statusFilter: "all", selectedIds: [], page: 1, pageSize: 20 },
+    accounts: { searchTerm: "", statusFilter: "all", stateFilter: "all", sort: "updatedAt:desc", selectedIds: [], page: 1, pageSize: 20 },
+    logs: { searchTerm: "", statusFilter: "all", stateFilter: "all", sort: "updatedAt:desc", selectedIds: [], page: 1, pageSize: 20 },
   });
   const [pendingDelete, setPendingDelete] = useState<{ entity: EntityKey; record: EntityRecord } | null>(null);
   const [pendingBulkDelete, setPendingBulkDelete] = useState<{ entity: EntityKey; mode: "selected" | "all" } | null>(null);
   const [lastImportSummary, setLastImportSummary] = useState<ImportSummary | null>(null);
   const [importFeedback, setImportFeedback] = useState<ImportFeedback | null>(null);
-  const [importState, setImportState] = useState<{ entity: EntityKey; done: number; total: number; running: boolean } | null>(null);
+  const [importState, setImportState] = useState<{ entity: EntityKey; jobId: string | null; done: number; total: number; running: boolean } | null>(null);
   const [tagModalState, setTagModalState] = useState<TagModalState | null>(null);
+  const [isTagManagerOpen, setTagManagerOpen] = useState(false);
+  const [priceOverrideTarget, setPriceOverrideTarget] = useState<Account | null>(null);
+  const [reserveTarget, setReserveTarget] = useState<Account | null>(null);
+  const [isSellDialogOpen, setSellDialogOpen] = useState(false);
   const [isSetPriceDialogOpen, setSetPriceDialogOpen] = useState(false);
+  const [isChangePasswordOpen, setChangePasswordOpen] = useState(false);
+  const [isTwoFactorOpen, setTwoFactorOpen] = useState(false);
+  const [isSessionsOpen, setSessionsOpen] = useState(false);
+  const [isApiTokensOpen, setApiTokensOpen] = useState(false);
   const [updatingStatusIds, setUpdatingStatusIds] = useState<Set<number>>(new Set());
   const [activeCopyButtons, setActiveCopyButtons] = useState<Set<string>>(new Set());
 
   // Initialize WebSocket connection for real-time updates
   useSocket();
 
-  const accountsQuery = useQuery<Account[]>({ queryKey: [ENTITY_CONFIG.accounts.listKey] });
-  const logsQuery = useQuery<AccLog[]>({ queryKey: [ENTITY_CONFIG.logs.listKey] });
-  const accountStatsQuery = useQuery<SummaryStats | null>({ queryKey: [ENTITY_CONFIG.accounts.statsKey] });
-  const logStatsQuery = useQuery<SummaryStats | null>({ queryKey: [ENTITY_CONFIG.logs.statsKey] });
+  const accountStatsQuery = useQuery<SummaryStats | null>({ queryKey: [ENTITY_CONFIG.accounts.statsKey], enabled: canReadAccounts });
+  const logStatsQuery = useQuery<SummaryStats | null>({ queryKey: [ENTITY_CONFIG.logs.statsKey], enabled: canReadLogs });
 
   type RevenueStats = Array<{ date: string; revenue: number; accountCount: number }>;
   const revenueStatsQuery = useQuery<RevenueStats>({
@@ -1899,20 +2454,26 @@ export default function Dashboard() {
       });
       return apiRequest<RevenueStats>("GET", `/api/revenue/stats?${params.toString()}`);
     },
+    enabled: canReadRevenue,
   });
 
-  const activeSessionQuery = useQuery<{ id: number; sessionName: string; pricePerAccount: number; createdAt: Date; updatedAt: Date } | null>({
+  const activeSessionQuery = useQuery<LiveSession | null>({
     queryKey: ["/api/revenue/active-session"],
     queryFn: async () => {
-      return apiRequest<{ id: number; sessionName: string; pricePerAccount: number; createdAt: Date; updatedAt: Date } | null>("GET", "/api/revenue/active-session");
+      return apiRequest<LiveSession | null>("GET", "/api/revenue/active-session");
     },
+    enabled: canReadRevenue,
   });
 
-  const currentSessionRevenueQuery = useQuery<{ session: { id: number; sessionName: string; pricePerAccount: number; createdAt: Date; updatedAt: Date } | null; revenue: { totalRevenue: number; accountCount: number } } | null>({
+  const liveSessionsQuery = useQuery<LiveSession[]>({ queryKey: ["/api/revenue/sessions"], enabled: canReadRevenue });
+
+  const voidedRevenueQuery = useQuery<VoidedRevenueRecord[]>({ queryKey: ["/api/revenue/voided"], enabled: canReadRevenue });
+
+  const currentSessionRevenueQuery = useQuery<CurrentSessionRevenue | null>({
     queryKey: ["/api/revenue/current-session"],
     queryFn: async () => {
       try {
-        const data = await apiRequest<{ session: { id: number; sessionName: string; pricePerAccount: number; createdAt: Date; updatedAt: Date } | null; revenue: { totalRevenue: number; accountCount: number } }>("GET", "/api/revenue/current-session");
+        const data = await apiRequest<CurrentSessionRevenue>("GET", "/api/revenue/current-session");
         return data;
       } catch (error) {
         // Return null on 401 or other errors to prevent infinite retries
@@ -1920,6 +2481,7 @@ export default function Dashboard() {
         return null;
       }
     },
+    enabled: canReadRevenue,
     refetchInterval: 30000, // Refetch every 30 seconds to reduce load when auth might fail
     refetchOnWindowFocus: true,
     refetchOnMount: true,
@@ -1927,6 +2489,34 @@ export default function Dashboard() {
     staleTime: 10000,
   });
 
+  const liveSessionActionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: LiveSessionAction }) => {
+      return apiRequest<LiveSession>("POST", `/api/revenue/sessions/${id}/${action}`);
+    },
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/revenue/active-session"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/revenue/current-session"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/revenue/sessions"] });
+      toast({
+        title: "Đã cập nhật buổi live",
+        description: `${session.sessionName}: ${LIVE_SESSION_STATUS_LABELS[session.status].toLowerCase()}`,
+      });
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : "Không thể cập nhật buổi live";
+      toast({
+        title: "Cập nhật thất bại",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const lastEndedSession = useMemo(
+    () => (liveSessionsQuery.data ?? []).find((session) => session.status === "ended") ?? null,
+    [liveSessionsQuery.data],
+  );
+
   const accountMutations = useEntityMutations("accounts", toast, queryClient);
   const logMutations = useEntityMutations("logs", toast, queryClient);
 
@@ -1958,9 +2548,9 @@ export default function Dashboard() {
     },
   });
 
-  const updateAccountTagMutation = useMutation({
-    mutationFn: async ({ id, tag }: { id: number; tag: string | null }) => {
-      return apiRequest<Account>("PATCH", `/api/accounts/${id}/tag`, { tag });
+  const updateAccountTagsMutation = useMutation({
+    mutationFn: async (payload: UpdateAccountTags) => {
+      return apiRequest<{ updated: number }>("PATCH", "/api/accounts/tags", payload);
     },
     onError: (error: unknown) => {
       const message = error instanceof Error ? error.message : "Không thể cập nhật tag";
@@ -1972,105 +2562,207 @@ export default function Dashboard() {
     },
   });
 
-  const bulkUpdateAccountTagMutation = useMutation({
-    mutationFn: async ({ ids, tag }: { ids: number[]; tag: string | null }) => {
-      return apiRequest<{ updated: number; tag: string | null }>("PATCH", "/api/accounts/tag", { ids, tag });
+  const createTagMutation = useMutation({
+    mutationFn: async (name: string) => {
+      return apiRequest<Tag>("POST", "/api/tags", { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TAGS_KEY] });
     },
     onError: (error: unknown) => {
-      const message = error instanceof Error ? error.message : "Không thể cập nhật tag hàng loạt";
+      const message = error instanceof Error ? error.message : "Không thể tạo tag";
       toast({
-        title: "Cập nhật thất bại",
+        title: "Tạo tag thất bại",
         description: message,
         variant: "destructive",
       });
     },
   });
 
-  const accounts = accountsQuery.data ?? [];
-  const logs = logsQuery.data ?? [];
-  const accountStats = accountStatsQuery.data;
-  const logStats = logStatsQuery.data;
+  const updateAccountPriceMutation = useMutation({
+    mutationFn: async ({ id, priceOverride }: { id: number; priceOverride: number | null }) => {
+      return apiRequest<Account>("PUT", `/api/accounts/${id}`, { priceOverride });
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG.accounts.listKey] });
+      toast({
+        title: "Đã cập nhật giá",
+        description: account.priceOverride !== null
+          ? `${account.username}: ${formatNumber(account.priceOverride)}đ`
+          : `${account.username} dùng giá của buổi live`,
+      });
+      setPriceOverrideTarget(null);
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : "Không thể cập nhật giá";
+      toast({
+        title: "Cập nhật thất bại",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
 
-  const { tagOptions, hasUnassignedTag } = useMemo(() => {
-    const uniqueTags = new Set<string>();
-    let unassigned = false;
-    for (const account of accounts) {
-      const value = (account.tag ?? "").trim();
-      if (value.length === 0) {
-        unassigned = true;
-      } else {
-        uniqueTags.add(value);
-      }
-    }
-    return {
-      tagOptions: Array.from(uniqueTags).sort((a, b) => a.localeCompare(b, "vi", { sensitivity: "base" })),
-      hasUnassignedTag: unassigned,
-    };
-  }, [accounts]);
+  const changeAccountStateMutation = useMutation({
+    mutationFn: async ({ id, state }: { id: number; state: AccountState }) => {
+      return apiRequest<Account>("PATCH", `/api/accounts/${id}/state`, { state });
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG.accounts.listKey] });
+      queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG.accounts.statsKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/revenue/current-session"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/revenue/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/revenue/voided"] });
+      toast({
+        title: "Đã chuyển trạng thái",
+        description: `${account.username}: ${ACCOUNT_STATE_LABELS[account.state]}`,
+      });
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : "Không thể chuyển trạng thái";
+      toast({
+        title: "Chuyển trạng thái thất bại",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
 
-  const [accountTagFilter, setAccountTagFilter] = useState<TagFilterValue>("all");
-  const [logLevelFilter, setLogLevelFilter] = useState<string>("all");
+  const autoPromoteQuery = useQuery<AutoPromoteSetting>({ queryKey: ["/api/acclogs/auto-promote"], enabled: canReadLogs });
 
-  const filteredAccounts = useMemo(() => {
-    const base = filterRecords(accounts, dateFilter, entityUi.accounts, "accounts") as Account[];
+  const invalidateAfterPromotion = () => {
+    queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG.logs.listKey] });
+    queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG.logs.statsKey] });
+    queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG.accounts.listKey] });
+    queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG.accounts.statsKey] });
+  };
 
-    if (accountTagFilter === "all") {
-      return base;
-    }
+  const promoteAccLogsMutation = useMutation({
+    mutationFn: async ({ ids }: { ids: number[] }) => {
+      return apiRequest<{ promoted: number; accounts: Account[]; skipped: Array<{ id: number; reason: string }> }>(
+        "POST",
+        "/api/acclogs/promote",
+        { ids },
+      );
+    },
+    onSuccess: (result, { ids }) => {
+      invalidateAfterPromotion();
+      setEntityUi((prev) => ({
+        ...prev,
+        logs: { ...prev.logs, selectedIds: prev.logs.selectedIds.filter((id) => !ids.includes(id)) },
+      }));
+      const skippedNote = result.skipped.length > 0
+        ? ` · bỏ qua ${result.skipped.length}: ${Array.from(new Set(result.skipped.map((item) => item.reason))).join(", ")}`
+        : "";
+      toast({
+        title: result.promoted > 0 ? "Đã chuyển sang kho Csuc" : "Không có acc log nào được chuyển",
+        description: `${result.promoted} acc log${skippedNote}`,
+        variant: result.promoted > 0 ? "default" : "destructive",
+      });
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : "Không thể chuyển acc log";
+      toast({
+        title: "Chuyển kho thất bại",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
 
-    if (accountTagFilter === TAG_FILTER_UNASSIGNED) {
-      return base.filter((account) => {
-        const value = typeof account.tag === "string" ? account.tag.trim() : "";
-        return value.length === 0;
+  const updateAutoPromoteMutation = useMutation({
+    mutationFn: async (setting: AutoPromoteSetting) => {
+      return apiRequest<AutoPromoteSetting & { promoted: number }>("PUT", "/api/acclogs/auto-promote", setting);
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData<AutoPromoteSetting>(["/api/acclogs/auto-promote"], { minLevel: result.minLevel });
+      if (result.promoted > 0) {
+        invalidateAfterPromotion();
+      }
+      toast({
+        title: result.minLevel === null ? "Đã tắt tự động chuyển kho" : "Đã lưu tự động chuyển kho",
+        description: result.minLevel === null
+          ? "Acc log sẽ chỉ được chuyển thủ công"
+          : `Từ lv ${result.minLevel}${result.promoted > 0 ? ` · vừa chuyển ${result.promoted} acc log` : ""}`,
       });
-    }
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : "Không thể lưu cài đặt";
+      toast({
+        title: "Lưu thất bại",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
 
-    const normalized = accountTagFilter.trim().toLowerCase();
-    return base.filter((account) => {
-      const value = typeof account.tag === "string" ? account.tag.trim().toLowerCase() : "";
-      return value === normalized;
-    });
-  }, [accounts, entityUi.accounts, dateFilter, accountTagFilter]);
+  const reserveAccountMutation = useMutation({
+    mutationFn: async ({ id, hold }: { id: number; hold: ReserveAccount }) => {
+      return apiRequest<Account>("POST", `/api/accounts/${id}/reserve`, hold);
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG.accounts.listKey] });
+      queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG.accounts.statsKey] });
+      toast({
+        title: "Đã giữ account",
+        description: account.heldUntil
+          ? `${account.username} được giữ đến ${new Date(account.heldUntil).toLocaleTimeString("vi-VN", { hour12: false })}`
+          : account.username,
+      });
+      setReserveTarget(null);
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : "Không thể giữ account";
+      toast({
+        title: "Giữ account thất bại",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
 
-  const baseFilteredLogs = useMemo(
-    () => filterRecords(logs, dateFilter, entityUi.logs, "logs") as AccLog[],
-    [logs, entityUi.logs, dateFilter],
-  );
+  const accountStats = accountStatsQuery.data;
+  const logStats = logStatsQuery.data;
 
-  const logLevelOptions = useMemo(() => {
-    const levels = new Set<number>();
-    for (const log of baseFilteredLogs) {
-      if (typeof log.lv === "number" && Number.isFinite(log.lv)) {
-        levels.add(log.lv);
-      }
-    }
-    return Array.from(levels).sort((a, b) => a - b);
-  }, [baseFilteredLogs]);
+  const tagsQuery = useQuery<TagWithCount[]>({ queryKey: [TAGS_KEY], enabled: canReadAccounts });
+  // Nested under the list key so invalidating the list also refreshes its filter options
+  const logLevelsQuery = useQuery<number[]>({ queryKey: [ENTITY_CONFIG.logs.listKey, "levels"], enabled: canReadLogs });
+  const activityQuery = useQuery<ActivityDay[]>({
+    queryKey: [`/api/activity?days=${ACTIVITY_DAYS}`],
+    enabled: isChartsDialogOpen,
+  });
 
-  const filteredLogs = useMemo(() => {
-    if (logLevelFilter === "all") {
-      return baseFilteredLogs;
-    }
-    return baseFilteredLogs.filter((log) => String(log.lv ?? "") === logLevelFilter);
-  }, [baseFilteredLogs, logLevelFilter]);
+  const tagOptions = useMemo(
+    () => [...(tagsQuery.data ?? [])].sort((a, b) => a.name.localeCompare(b.name, "vi", { sensitivity: "base" })),
+    [tagsQuery.data],
+  );
+  const logLevelOptions = logLevelsQuery.data ?? [];
 
-  useEffect(() => {
-    const totalPagesAccounts = Math.max(1, Math.ceil(filteredAccounts.length / entityUi.accounts.pageSize));
-    const totalPagesLogs = Math.max(1, Math.ceil(filteredLogs.length / entityUi.logs.pageSize));
+  const [accountTagFilter, setAccountTagFilter] = useState<TagFilterValue>(ALL_TAGS_FILTER);
+  const [logLevelFilter, setLogLevelFilter] = useState<string>("all");
 
-    setEntityUi((prev) => ({
-      accounts: {
-        ...prev.accounts,
-        page: Math.min(prev.accounts.page, totalPagesAccounts),
-        selectedIds: prev.accounts.selectedIds.filter((id) => accounts.some((record) => record.id === id)),
-      },
-      logs: {
-        ...prev.logs,
-        page: Math.min(prev.logs.page, totalPagesLogs),
-        selectedIds: prev.logs.selectedIds.filter((id) => logs.some((record) => record.id === id)),
-      },
-    }));
-  }, [accounts, logs, filteredAccounts.length, filteredLogs.length, entityUi.accounts.pageSize, entityUi.logs.pageSize]);
+  const accountSearch = useDebouncedValue(entityUi.accounts.searchTerm.trim());
+  const logSearch = useDebouncedValue(entityUi.logs.searchTerm.trim());
+  // Fixed per filter choice so the query key stays stable between renders
+  const updatedFrom = useMemo(() => dateFilterStart(dateFilter)?.toISOString(), [dateFilter]);
+
+  const accountFilters: ListFilters = { ui: entityUi.accounts, search: accountSearch, updatedFrom, tagFilter: accountTagFilter };
+  const logFilters: ListFilters = { ui: entityUi.logs, search: logSearch, updatedFrom, levelFilter: logLevelFilter };
+  const accountListParams = buildListParams("accounts", accountFilters, true);
+  const logListParams = buildListParams("logs", logFilters, true);
+
+  const accountsQuery = useQuery<ListPage<AccountWithTags>>({
+    queryKey: [ENTITY_CONFIG.accounts.listKey, accountListParams],
+    queryFn: () => apiRequest<ListPage<AccountWithTags>>("GET", listUrl("accounts", accountListParams)),
+    placeholderData: keepPreviousData,
+    enabled: canReadAccounts,
+  });
+  const logsQuery = useQuery<ListPage<AccLog>>({
+    queryKey: [ENTITY_CONFIG.logs.listKey, logListParams],
+    queryFn: () => apiRequest<ListPage<AccLog>>("GET", listUrl("logs", logListParams)),
+    placeholderData: keepPreviousData,
+    enabled: canReadLogs,
+  });
 
   useEffect(() => {
     setEntityUi((prev) => ({
@@ -2079,14 +2771,12 @@ export default function Dashboard() {
     }));
   }, [dateFilter]);
 
-  const paginate = (records: EntityRecord[], state: EntityUiState) => {
-    const totalCount = records.length;
+  const paginate = <T extends EntityRecord>(result: ListPage<T> | undefined, state: EntityUiState) => {
+    const totalCount = result?.total ?? 0;
     const totalPages = Math.max(1, Math.ceil(totalCount / state.pageSize));
     const currentPage = Math.min(state.page, totalPages);
-    const startIndex = (currentPage - 1) * state.pageSize;
-    const items = records.slice(startIndex, startIndex + state.pageSize);
     return {
-      items,
+      items: result?.items ?? [],
       totalCount,
       currentPage,
       totalPages,
@@ -2095,23 +2785,27 @@ export default function Dashboard() {
     };
   };
 
-  const accountPagination = paginate(filteredAccounts, entityUi.accounts);
-  const logPagination = paginate(filteredLogs, entityUi.logs);
+  const accountPagination = paginate(accountsQuery.data, entityUi.accounts);
+  const logPagination = paginate(logsQuery.data, entityUi.logs);
 
-  const activitySeries = useMemo(() => buildActivitySeries(accounts, logs), [accounts, logs]);
+  // Step back when the current page disappears, e.g. after deleting the last rows
+  useEffect(() => {
+    setEntityUi((prev) => ({
+      accounts: { ...prev.accounts, page: Math.min(prev.accounts.page, accountPagination.totalPages) },
+      logs: { ...prev.logs, page: Math.min(prev.logs.page, logPagination.totalPages) },
+    }));
+  }, [accountPagination.totalPages, logPagination.totalPages]);
+
+  const activitySeries = useMemo(() => buildActivitySeries(activityQuery.data ?? []), [activityQuery.data]);
   const dateFilterLabel = DATE_FILTERS.find((option) => option.key === dateFilter)?.label ?? "Tất cả";
-  const teamFilterLabel = activeTab === "accounts"
-    ? (accountTagFilter === "all"
-      ? null
-      : accountTagFilter === TAG_FILTER_UNASSIGNED
-        ? "Chưa gán Tag"
-        : `Team ${accountTagFilter}`)
-    : null;
+  const tagFilterLabel = describeTagFilter(accountTagFilter, tagOptions);
+  const teamFilterLabel = activeTab === "accounts" ? tagFilterLabel : null;
   const levelFilterLabel = activeTab === "logs" && logLevelFilter !== "all" ? `LV ${logLevelFilter}` : null;
-  const isFilterDefault = dateFilter === "all" && accountTagFilter === "all" && logLevelFilter === "all";
+  const isFilterDefault = dateFilter === "all" && !isTagFilterActive(accountTagFilter) && logLevelFilter === "all";
   const canShowSummaryCharts = widgetState.statusChart || widgetState.activityTimeline;
   const canShowAnyChart = canShowSummaryCharts || widgetState.revenueChart;
   const canShowImportAssistant = widgetState.importAssistant;
+  const canWriteActiveTab = can(activeTab === "accounts" ? "accounts:write" : "acclogs:write");
 
   useEffect(() => {
     if (!canShowAnyChart) {
@@ -2153,6 +2847,13 @@ export default function Dashboard() {
     }));
   };
 
+  const handleStateFilterChange = (value: "all" | AccountState) => {
+    setEntityUi((prev) => ({
+      ...prev,
+      accounts: { ...prev.accounts, stateFilter: value, page: 1 },
+    }));
+  };
+
   const handleTagFilterChange = useCallback((value: TagFilterValue) => {
     setAccountTagFilter(value);
     setEntityUi((prev) => ({
@@ -2169,45 +2870,38 @@ export default function Dashboard() {
     }));
   }, []);
 
+  // Drop tags from the filter once they are merged away or deleted
   useEffect(() => {
-    if (accountTagFilter === "all") {
+    if (accountTagFilter.tagIds.length === 0 || !tagsQuery.data) {
       return;
     }
 
-    const normalizedCurrent = accountTagFilter.toLowerCase();
-    if (normalizedCurrent === TAG_FILTER_UNASSIGNED) {
-      if (!hasUnassignedTag) {
-        handleTagFilterChange("all");
-      }
-      return;
+    const remaining = accountTagFilter.tagIds.filter((id) => tagsQuery.data.some((tag) => tag.id === id));
+    if (remaining.length !== accountTagFilter.tagIds.length) {
+      handleTagFilterChange({ ...accountTagFilter, tagIds: remaining });
     }
+  }, [accountTagFilter, tagsQuery.data, handleTagFilterChange]);
 
-    const hasMatch = tagOptions.some((option) => option.trim().toLowerCase() === normalizedCurrent);
-    if (!hasMatch) {
-      handleTagFilterChange("all");
-    }
-  }, [accountTagFilter, tagOptions, hasUnassignedTag, handleTagFilterChange]);
+  const toggleTagFilterId = (id: number) => {
+    const tagIds = accountTagFilter.tagIds.includes(id)
+      ? accountTagFilter.tagIds.filter((current) => current !== id)
+      : [...accountTagFilter.tagIds, id];
+    handleTagFilterChange({ ...accountTagFilter, tagIds, unassigned: false });
+  };
 
   useEffect(() => {
-    if (logLevelFilter === "all") {
+    if (logLevelFilter === "all" || !logLevelsQuery.data) {
       return;
     }
 
-    const hasLevel = baseFilteredLogs.some((log) => String(log.lv ?? "") === logLevelFilter);
-    if (!hasLevel) {
-      setLogLevelFilter("all");
-    }
-  }, [baseFilteredLogs, logLevelFilter]);
-
-  useEffect(() => {
-    if (accountTagFilter !== "all" && accounts.length > 0 && filteredAccounts.length === 0) {
-      handleTagFilterChange("all");
+    if (!logLevelsQuery.data.some((level) => String(level) === logLevelFilter)) {
+      handleLogLevelFilterChange("all");
     }
-  }, [accounts.length, filteredAccounts.length, accountTagFilter, handleTagFilterChange]);
+  }, [logLevelFilter, logLevelsQuery.data, handleLogLevelFilterChange]);
 
   const handleResetQuickFilters = () => {
     setDateFilter("all");
-    handleTagFilterChange("all");
+    handleTagFilterChange(ALL_TAGS_FILTER);
     handleLogLevelFilterChange("all");
   };
 
@@ -2225,6 +2919,13 @@ export default function Dashboard() {
     }));
   };
 
+  const handleSortChange = (entity: EntityKey, sort: ListSortValue) => {
+    setEntityUi((prev) => ({
+      ...prev,
+      [entity]: { ...prev[entity], sort, page: 1 },
+    }));
+  };
+
   const handlePageSizeChange = (entity: EntityKey, pageSize: number) => {
     setEntityUi((prev) => ({
       ...prev,
@@ -2232,6 +2933,43 @@ export default function Dashboard() {
     }));
   };
 
+  const ensureLiveSessionRunning = () => {
+    if (activeSessionQuery.data) {
+      return true;
+    }
+    if (currentSessionRevenueQuery.data?.session?.status === "paused") {
+      toast({
+        title: "Buổi live đang tạm dừng",
+        description: "Nhấn 'Tiếp tục' trên thẻ doanh thu để tiếp tục ghi nhận doanh thu.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    toast({
+      title: "Không có buổi live đang chạy",
+      description: "Vui lòng set giá cho buổi live trước khi cập nhật trạng thái account. Nhấn vào nút 'Set giá' để thiết lập.",
+      variant: "destructive",
+    });
+    // Auto-open set price dialog after a short delay
+    setTimeout(() => {
+      setSetPriceDialogOpen(true);
+    }, 1000);
+    return false;
+  };
+
+  const handleChangeAccountState = (account: Account, state: AccountState) => {
+    // Holds need a duration (and optionally a buyer), so reserving goes through its own dialog
+    if (state === "reserved") {
+      setReserveTarget(account);
+      return;
+    }
+    // Selling books revenue, so it needs a running live session like the ON/OFF toggle
+    if (state === "sold" && !ensureLiveSessionRunning()) {
+      return;
+    }
+    changeAccountStateMutation.mutate({ id: account.id, state });
+  };
+
   const handleToggleStatus = (entity: EntityKey, record: EntityRecord) => {
     // Check if already updating
     if (updatingStatusIds.has(record.id)) {
@@ -2244,20 +2982,8 @@ export default function Dashboard() {
     }
 
     // For accounts: require active live session before updating status
-    if (entity === "accounts") {
-      const activeSession = activeSessionQuery.data;
-      if (!activeSession) {
-        toast({
-          title: "Chưa set buổi live",
-          description: "Vui lòng set giá cho buổi live trước khi cập nhật trạng thái account. Nhấn vào nút 'Set giá' để thiết lập.",
-          variant: "destructive",
-        });
-        // Auto-open set price dialog after a short delay
-        setTimeout(() => {
-          setSetPriceDialogOpen(true);
-        }, 1000);
-        return;
-      }
+    if (entity === "accounts" && !ensureLiveSessionRunning()) {
+      return;
     }
 
     const mutation = entity === "accounts" ? accountMutations.toggleStatusMutation : logMutations.toggleStatusMutation;
@@ -2305,12 +3031,13 @@ export default function Dashboard() {
             next.delete(record.id);
             return next;
           });
-          // Invalidate revenue if turning OFF accounts (ON → OFF: account đã được sử dụng xong, tính doanh thu)
+          // Invalidate revenue when account status flips (ON → OFF: tính doanh thu, OFF → ON: huỷ doanh thu đã tính)
           // Chỉ tính doanh thu cho accounts, không tính cho acclogs
-          if (entity === "accounts" && previousStatus && !newStatus) {
-            console.log('[Frontend] Account turned OFF, invalidating revenue queries');
+          if (entity === "accounts" && previousStatus !== newStatus) {
+            console.log(`[Frontend] Account turned ${newStatus ? 'ON' : 'OFF'}, invalidating revenue queries`);
             queryClient.invalidateQueries({ queryKey: ["/api/revenue/current-session"] });
             queryClient.invalidateQueries({ queryKey: ["/api/revenue/stats"] });
+            queryClient.invalidateQueries({ queryKey: ["/api/revenue/voided"] });
             // Force immediate refetch
             setTimeout(() => {
               queryClient.refetchQueries({ queryKey: ["/api/revenue/current-session"], exact: false });
@@ -2380,50 +3107,66 @@ export default function Dashboard() {
     });
   };
 
-  const handleExportSelected = (entity: EntityKey) => {
-    const config = ENTITY_CONFIG[entity];
-    const records = entity === "accounts" ? accounts : logs;
-    const selectedIds = entityUi[entity].selectedIds;
-    const selectedRecords = records.filter((record) => selectedIds.includes(record.id));
-    exportRecords(selectedRecords, `${config.exportPrefix}-selected`, toast, "muc");
+  // Exports cover every matching record, not only the page on screen
+  const fetchExportRecords = async (entity: EntityKey, mode: "selected" | "filtered") => {
+    const params = mode === "selected"
+      ? { ids: entityUi[entity].selectedIds.join(",") }
+      : buildListParams(entity, entity === "accounts" ? accountFilters : logFilters, false);
+    if (mode === "selected" && entityUi[entity].selectedIds.length === 0) {
+      return [];
+    }
+    try {
+      const records = await apiRequest<EntityRecord[]>("GET", listUrl(entity, params));
+      return await revealPasswords(entity, records);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Không thể tải dữ liệu để xuất";
+      toast({ title: "Xuất dữ liệu thất bại", description: message, variant: "destructive" });
+      return null;
+    }
+  };
+
+  const handleCopyPassword = async (entity: EntityKey, id: number) => {
+    try {
+      const { password } = await apiRequest<RevealedPassword>("POST", ENTITY_CONFIG[entity].revealPath(id));
+      copyToClipboard(password, "Password", toast, `password-${id}`, setActiveCopyButtons);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Không thể lấy mật khẩu";
+      toast({ title: "Không thể sao chép", description: message, variant: "destructive" });
+    }
   };
 
-  const handleExportFiltered = (entity: EntityKey) => {
-    const config = ENTITY_CONFIG[entity];
-    const filtered = entity === "accounts" ? filteredAccounts : filteredLogs;
-    exportRecords(filtered, `${config.exportPrefix}-filtered`, toast, "muc");
+  const handleExportSelected = async (entity: EntityKey) => {
+    const records = await fetchExportRecords(entity, "selected");
+    if (records) {
+      exportRecords(records, `${ENTITY_CONFIG[entity].exportPrefix}-selected`, toast, "muc");
+    }
   };
 
-  const handleExportSelectedTxt = (entity: EntityKey) => {
-    const config = ENTITY_CONFIG[entity];
-    const records = entity === "accounts" ? accounts : logs;
-    const selectedIds = entityUi[entity].selectedIds;
-    const selectedRecords = records.filter((record) => selectedIds.includes(record.id));
-    exportRecordsTxt(selectedRecords, `${config.exportPrefix}-selected`, toast, "muc");
+  const handleExportFiltered = async (entity: EntityKey) => {
+    const records = await fetchExportRecords(entity, "filtered");
+    if (records) {
+      exportRecords(records, `${ENTITY_CONFIG[entity].exportPrefix}-filtered`, toast, "muc");
+    }
+  };
+
+  const handleExportSelectedTxt = async (entity: EntityKey) => {
+    const records = await fetchExportRecords(entity, "selected");
+    if (records) {
+      exportRecordsTxt(records, `${ENTITY_CONFIG[entity].exportPrefix}-selected`, toast, "muc");
+    }
   };
 
-  const handleExportFilteredTxt = (entity: EntityKey) => {
-    const config = ENTITY_CONFIG[entity];
-    const filtered = entity === "accounts" ? filteredAccounts : filteredLogs;
-    exportRecordsTxt(filtered, `${config.exportPrefix}-filtered`, toast, "muc");
+  const handleExportFilteredTxt = async (entity: EntityKey) => {
+    const records = await fetchExportRecords(entity, "filtered");
+    if (records) {
+      exportRecordsTxt(records, `${ENTITY_CONFIG[entity].exportPrefix}-filtered`, toast, "muc");
+    }
   };
 
   const handleUpdateAll = (entity: EntityKey, status: boolean) => {
     // For accounts: require active live session before updating status
-    if (entity === "accounts") {
-      const activeSession = activeSessionQuery.data;
-      if (!activeSession) {
-        toast({
-          title: "Chưa set buổi live",
-          description: "Vui lòng set giá cho buổi live trước khi cập nhật trạng thái account. Nhấn vào nút 'Set giá' để thiết lập.",
-          variant: "destructive",
-        });
-        // Auto-open set price dialog after a short delay
-        setTimeout(() => {
-          setSetPriceDialogOpen(true);
-        }, 1000);
-        return;
-      }
+    if (entity === "accounts" && !ensureLiveSessionRunning()) {
+      return;
     }
 
     const mutation = entity === "accounts" ? accountMutations.updateAllMutation : logMutations.updateAllMutation;
@@ -2442,20 +3185,8 @@ export default function Dashboard() {
     }
 
     // For accounts: require active live session before updating status
-    if (entity === "accounts") {
-      const activeSession = activeSessionQuery.data;
-      if (!activeSession) {
-        toast({
-          title: "Chưa set buổi live",
-          description: "Vui lòng set giá cho buổi live trước khi cập nhật trạng thái account. Nhấn vào nút 'Set giá' để thiết lập.",
-          variant: "destructive",
-        });
-        // Auto-open set price dialog after a short delay
-        setTimeout(() => {
-          setSetPriceDialogOpen(true);
-        }, 1000);
-        return;
-      }
+    if (entity === "accounts" && !ensureLiveSessionRunning()) {
+      return;
     }
 
     const mutation = entity === "accounts"
@@ -2464,11 +3195,25 @@ export default function Dashboard() {
     mutation.mutate({ ids: selectedIds, status });
   };
 
-  const handleOpenTagModalForAccount = (account: Account) => {
+  const handleOpenSellDialog = () => {
+    if (entityUi.accounts.selectedIds.length === 0 || !ensureLiveSessionRunning()) {
+      return;
+    }
+    setSellDialogOpen(true);
+  };
+
+  const handleSellSelected = (buyer: OrderBuyerInput) => {
+    accountMutations.updateSelectedMutation.mutate(
+      { ids: entityUi.accounts.selectedIds, status: false, buyer },
+      { onSuccess: () => setSellDialogOpen(false) },
+    );
+  };
+
+  const handleOpenTagModalForAccount = (account: AccountWithTags) => {
     setTagModalState({
       mode: "single",
       ids: [account.id],
-      initialTag: account.tag ?? "",
+      initialTagIds: account.tags.map((tag) => tag.id),
       accountName: account.username,
     });
   };
@@ -2484,39 +3229,36 @@ export default function Dashboard() {
       return;
     }
 
-    const selectedAccounts = accounts.filter((account) => ids.includes(account.id));
-    const uniqueTags = new Set(selectedAccounts.map((account) => account.tag ?? ""));
-    const sharedTag = uniqueTags.size === 1 ? selectedAccounts[0]?.tag ?? "" : "";
+    // Only the rows on the current page are loaded; tags of other selected rows count as unknown
+    const selectedAccounts = accountPagination.items.filter((account) => ids.includes(account.id));
+    const allLoaded = selectedAccounts.length === ids.length;
+    const tagCounts = new Map<number, number>();
+    selectedAccounts.forEach((account) => {
+      account.tags.forEach((tag) => tagCounts.set(tag.id, (tagCounts.get(tag.id) ?? 0) + 1));
+    });
+    const initialTagIds: number[] = [];
+    const partialTagIds: number[] = [];
+    tagCounts.forEach((count, tagId) => {
+      (allLoaded && count === ids.length ? initialTagIds : partialTagIds).push(tagId);
+    });
 
-    setTagModalState({ mode: "bulk", ids, initialTag: sharedTag ?? "" });
+    setTagModalState({ mode: "bulk", ids, initialTagIds, partialTagIds });
   };
 
   const handleImportRecordsWithProgress = async (entity: EntityKey, payload: ImportPayload) => {
+    const total = payload.records.length;
+    if (total === 0) return;
     try {
-      const records = payload.records;
-      const total = records.length;
-      // Dynamic chunk size to update progress smoothly even for small files
-      // Target roughly 20 progress updates; cap at 200 per request
-      const chunkSize = Math.max(1, Math.min(200, Math.ceil(total / 20)));
-      if (total === 0) return;
-      setImportState({ entity, done: 0, total, running: true });
-
-      let totalImported = 0;
-      let totalErrors = 0;
-      const allErrorDetails: Array<{ account: unknown; error: string }> = [];
-      const importPath = ENTITY_CONFIG[entity].importPath;
-
-      for (let i = 0; i < total; i += chunkSize) {
-        const chunk = records.slice(i, i + chunkSize);
-        const response = await apiRequest<ImportApiResponse>("POST", importPath, {
-          records: chunk,
-          sourceName: payload.sourceName,
-        });
-        totalImported += response.imported;
-        totalErrors += response.errors;
-        allErrorDetails.push(...(response.errorDetails ?? []));
-        setImportState({ entity, done: Math.min(i + chunk.length, total), total, running: true });
-      }
+      setImportState({ entity, jobId: null, done: 0, total, running: true });
+      const submitted = await apiRequest<ImportJob>("POST", ENTITY_CONFIG[entity].importJobPath, {
+        records: payload.records,
+        sourceName: payload.sourceName,
+        onExisting: payload.onExisting,
+      });
+      setImportState({ entity, jobId: submitted.id, done: 0, total, running: true });
+      const job = await waitForImportJob(queryClient, submitted.id, (update) => {
+        setImportState({ entity, jobId: update.id, done: update.processed, total: update.total, running: true });
+      });
 
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG[entity].listKey] }),
@@ -2525,25 +3267,45 @@ export default function Dashboard() {
 
       const summary: ImportSummary = {
         entity,
-        imported: totalImported,
-        errors: totalErrors,
+        imported: job.imported,
+        updated: job.updated,
+        errors: job.errorCount,
         sourceName: payload.sourceName,
         timestamp: new Date().toISOString(),
       };
       setLastImportSummary(summary);
-      setImportFeedback({ ...summary, errorDetails: allErrorDetails });
-      toast({
-        title: "Import th�nh c�ng",
-        description: `�? th�m ${totalImported} ${ENTITY_CONFIG[entity].label.toLowerCase()}`,
+      setImportFeedback({
+        ...summary,
+        errorDetails: job.errors.map((item) => ({ account: { username: item.username ?? `Dòng ${item.row}` }, error: item.error })),
       });
+      if (job.status === "failed") {
+        toast({ title: "Import thất bại", description: job.message ?? `Đã thêm ${job.imported} trước khi lỗi`, variant: "destructive" });
+      } else if (job.status === "cancelled") {
+        toast({ title: "Đã hủy import", description: `Đã thêm ${job.imported}/${job.total} ${ENTITY_CONFIG[entity].label.toLowerCase()}` });
+      } else {
+        toast({
+          title: "Import thành công",
+          description: describeImportCounts(job.imported, job.updated, ENTITY_CONFIG[entity].label),
+        });
+      }
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Kh�ng th? import";
-      toast({ title: "Import th?t b?i", description: message, variant: "destructive" });
+      const message = error instanceof Error ? error.message : "Không thể import";
+      toast({ title: "Import thất bại", description: message, variant: "destructive" });
     } finally {
       setImportState(null);
     }
   };
 
+  const handleCancelImport = async () => {
+    if (!importState?.jobId) return;
+    try {
+      await apiRequest<ImportJob>("POST", `${IMPORT_JOBS_KEY}/${importState.jobId}/cancel`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Không thể hủy import";
+      toast({ title: "Không thể hủy import", description: message, variant: "destructive" });
+    }
+  };
+
   const handleImportRecords = async (entity: EntityKey, payload: ImportPayload) => {
     const mutation = entity === "accounts" ? accountImportMutation : logImportMutation;
     try {
@@ -2555,6 +3317,7 @@ export default function Dashboard() {
       const summary: ImportSummary = {
         entity,
         imported: response.imported,
+        updated: response.updated,
         errors: response.errors,
         sourceName: payload.sourceName,
         timestamp: new Date().toISOString(),
@@ -2563,38 +3326,31 @@ export default function Dashboard() {
       setImportFeedback({ ...summary, errorDetails: response.errorDetails });
       toast({
         title: "Import thành công",
-        description: `Đã thêm ${response.imported} ${ENTITY_CONFIG[entity].label.toLowerCase()}`,
+        description: describeImportCounts(response.imported, response.updated, ENTITY_CONFIG[entity].label),
       });
     } catch (error) {
       // error đã được xu ly trong mutation onError
     }
   };
 
-  const handleTagSave = async (tag: string | null) => {
+  const handleTagSave = async ({ add, remove }: { add: number[]; remove: number[] }) => {
     if (!tagModalState) {
       return;
     }
 
-    const normalizedTag = typeof tag === "string" && tag.length > 0 ? tag : null;
-
     try {
-      if (tagModalState.mode === "single") {
-        await updateAccountTagMutation.mutateAsync({ id: tagModalState.ids[0], tag: normalizedTag });
-        toast({
-          title: "Đã cập nhật tag",
-          description: normalizedTag ? `Tag mới: ${normalizedTag}` : "Đã xóa tag",
-        });
-      } else {
-        await bulkUpdateAccountTagMutation.mutateAsync({ ids: tagModalState.ids, tag: normalizedTag });
-        toast({
-          title: "Đã cập nhật tag",
-          description: `Đã áp dụng tag cho ${tagModalState.ids.length} tài khoản`,
-        });
-      }
+      const { updated } = await updateAccountTagsMutation.mutateAsync({ ids: tagModalState.ids, add, remove });
+      toast({
+        title: "Đã cập nhật tag",
+        description: tagModalState.mode === "single"
+          ? `Đã cập nhật tag cho ${tagModalState.accountName}`
+          : `Đã cập nhật tag cho ${updated}/${tagModalState.ids.length} tài khoản`,
+      });
 
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG.accounts.listKey] }),
         queryClient.invalidateQueries({ queryKey: [ENTITY_CONFIG.accounts.statsKey] }),
+        queryClient.invalidateQueries({ queryKey: [TAGS_KEY] }),
       ]);
 
       setTagModalState(null);
@@ -2620,7 +3376,7 @@ export default function Dashboard() {
       : logMutations.deleteMultipleMutation.isPending
     : false;
 
-  const isTagUpdating = updateAccountTagMutation.isPending || bulkUpdateAccountTagMutation.isPending;
+  const isTagUpdating = updateAccountTagsMutation.isPending;
 
   const pageSizeOptions = [10, 20, 50, 100, 500, 1000];
 
@@ -2638,8 +3394,47 @@ export default function Dashboard() {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="outline" size="sm" onClick={() => navigate("/accounts")} className="gap-2">
-              Quản lý tài khoản
+            {user ? (
+              <Badge variant="outline" className="hidden rounded-full px-3 py-1 sm:inline-flex">
+                {user.username} · {USER_ROLE_LABELS[user.role]}
+              </Badge>
+            ) : null}
+            {canReadAccounts ? (
+              <Button variant="outline" size="sm" onClick={() => navigate("/accounts")} className="gap-2">
+                Quản lý tài khoản
+              </Button>
+            ) : null}
+            {canReadRevenue ? (
+              <Button variant="outline" size="sm" onClick={() => navigate("/buyers")} className="gap-2">
+                Người mua
+              </Button>
+            ) : null}
+            {canReadAccounts || canReadLogs ? (
+              <Button variant="outline" size="sm" onClick={() => navigate("/imports")} className="gap-2">
+                Lịch sử import
+              </Button>
+            ) : null}
+            {can("users:manage") ? (
+              <Button variant="outline" size="sm" onClick={() => navigate("/users")} className="gap-2">
+                Người dùng
+              </Button>
+            ) : null}
+            {can("audit:read") ? (
+              <Button variant="outline" size="sm" onClick={() => navigate("/audit")} className="gap-2">
+                Nhật ký
+              </Button>
+            ) : null}
+            <Button variant="ghost" size="sm" onClick={() => setChangePasswordOpen(true)} className="gap-2" title="Đổi mật khẩu">
+              <KeyRound className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setTwoFactorOpen(true)} className="gap-2" title="Xác thực hai lớp">
+              <ShieldCheck className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setSessionsOpen(true)} className="gap-2" title="Phiên đăng nhập">
+              <MonitorSmartphone className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setApiTokensOpen(true)} className="gap-2" title="API token">
+              <Terminal className="h-4 w-4" />
             </Button>
             <ThemeToggle />
             <Button variant="outline" size="sm" onClick={handleLogout} className="gap-2">
@@ -2655,11 +3450,12 @@ export default function Dashboard() {
           accountStats={accountStats}
           logStats={logStats}
           dateFilter={dateFilter}
-          tagFilter={accountTagFilter}
-          accounts={accounts}
-          logs={logs}
+          tagFilterLabel={tagFilterLabel}
           lastImportSummary={lastImportSummary}
           currentSessionRevenue={currentSessionRevenueQuery.data ?? null}
+          lastEndedSession={lastEndedSession}
+          onSessionAction={can("revenue:manage") ? (id, action) => liveSessionActionMutation.mutate({ id, action }) : undefined}
+          isSessionActionPending={liveSessionActionMutation.isPending}
         />
 
         <div className="flex flex-wrap items-center justify-between gap-3 rounded-3xl border border-border/70 bg-card/50 px-4 py-4">
@@ -2712,46 +3508,50 @@ export default function Dashboard() {
               <LineChart className="h-4 w-4" />
               Biểu đồ
             </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              className="gap-2"
-              onClick={() => setImportDialogOpen(true)}
-              disabled={!canShowImportAssistant}
-            >
-              <UploadCloud className="h-4 w-4" />
-              Trợ lý import
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              className="gap-2"
-              onClick={() => setSetPriceDialogOpen(true)}
-            >
-              <DollarSign className="h-4 w-4" />
-              Set giá live
-            </Button>
+            {canWriteActiveTab ? (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => setImportDialogOpen(true)}
+                disabled={!canShowImportAssistant}
+              >
+                <UploadCloud className="h-4 w-4" />
+                Trợ lý import
+              </Button>
+            ) : null}
+            {can("revenue:manage") ? (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => setSetPriceDialogOpen(true)}
+              >
+                <DollarSign className="h-4 w-4" />
+                Set giá live
+              </Button>
+            ) : null}
           </div>
         </div>
 
         <Tabs value={activeTab} onValueChange={handleTabChange} className="space-y-6">
           <div className="flex flex-wrap items-center justify-between gap-3">
             <TabsList>
-              <TabsTrigger value="accounts">Csuc</TabsTrigger>
-              <TabsTrigger value="logs">Cần up</TabsTrigger>
+              {canReadAccounts ? <TabsTrigger value="accounts">Csuc</TabsTrigger> : null}
+              {canReadLogs ? <TabsTrigger value="logs">Cần up</TabsTrigger> : null}
             </TabsList>
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
               <Activity className="h-4 w-4" />
               {activeTab === "accounts"
-                ? `${formatNumber(filteredAccounts.length)} / ${formatNumber(accounts.length)} tài khoản hiện thị`
-                : `${formatNumber(filteredLogs.length)} / ${formatNumber(logs.length)} acc log hiện thị`}
+                ? `${formatNumber(accountPagination.totalCount)} / ${formatNumber(accountStats?.total ?? 0)} tài khoản hiện thị`
+                : `${formatNumber(logPagination.totalCount)} / ${formatNumber(logStats?.total ?? 0)} acc log hiện thị`}
             </div>
           </div>
 
           <TabsContent value="accounts" className="space-y-6">
             <div className="grid gap-6 xl:grid-cols-[3fr_1fr]">
               <AccountTable
-                accounts={accountPagination.items as Account[]}
+                accounts={accountPagination.items}
                 isLoading={accountsQuery.isLoading}
                 searchTerm={entityUi.accounts.searchTerm}
                 statusFilter={entityUi.accounts.statusFilter}
@@ -2760,11 +3560,9 @@ export default function Dashboard() {
                 onCopyUsername={(username, accountId) => {
                   copyToClipboard(username, "Username", toast, `username-${accountId}`, setActiveCopyButtons);
                 }}
-                onCopyPassword={(password, accountId) => {
-                  copyToClipboard(password, "Password", toast, `password-${accountId}`, setActiveCopyButtons);
-                }}
-                onToggleStatus={(record) => handleToggleStatus("accounts", record)}
-                onDeleteClick={(record) => handleDeleteRecord("accounts", record)}
+                onCopyPassword={(accountId) => handleCopyPassword("accounts", accountId)}
+                onToggleStatus={can("accounts:status") ? (record) => handleToggleStatus("accounts", record) : undefined}
+                onDeleteClick={can("accounts:delete") ? (record) => handleDeleteRecord("accounts", record) : undefined}
                 updatingStatusIds={updatingStatusIds}
                 activeCopyButtons={activeCopyButtons}
                 selectedAccounts={entityUi.accounts.selectedIds}
@@ -2785,27 +3583,34 @@ export default function Dashboard() {
                 title="Clone csuc"
                 emptyMessage={ENTITY_CONFIG.accounts.emptyMessage}
                 showTagColumn
-                onEditTag={(record) => handleOpenTagModalForAccount(record as Account)}
+                onEditTag={can("accounts:write") ? (record) => handleOpenTagModalForAccount(record as AccountWithTags) : undefined}
+                onEditPrice={can("accounts:write") ? (record) => setPriceOverrideTarget(record as Account) : undefined}
+                stateFilter={entityUi.accounts.stateFilter}
+                onStateFilterChange={handleStateFilterChange}
+                sort={entityUi.accounts.sort}
+                onSortChange={(value) => handleSortChange("accounts", value)}
+                onChangeState={can("accounts:status") ? handleChangeAccountState : undefined}
               />
 
               <div className="space-y-6 sticky top-0 z-20 self-start">
                 <BulkActionsCard
                   label={ENTITY_CONFIG.accounts.label}
                   selectionCount={entityUi.accounts.selectedIds.length}
-                  totalCount={accounts.length}
-                  onUpdateAll={(status) => handleUpdateAll("accounts", status)}
-                  onUpdateSelected={(status) => handleUpdateSelected("accounts", status)}
+                  totalCount={accountStats?.total ?? 0}
+                  onUpdateAll={can("accounts:status") ? (status) => handleUpdateAll("accounts", status) : undefined}
+                  onUpdateSelected={can("accounts:status") ? (status) => handleUpdateSelected("accounts", status) : undefined}
                   isUpdatingSelected={accountMutations.updateSelectedMutation.isPending}
                   disableUpdateSelected={entityUi.accounts.selectedIds.length === 0}
                   isUpdating={accountMutations.updateAllMutation.isPending}
-                  onDeleteSelected={() => handleDeleteSelected("accounts")}
-                  onDeleteAll={() => handleDeleteAll("accounts")}
+                  onDeleteSelected={can("accounts:delete") ? () => handleDeleteSelected("accounts") : undefined}
+                  onDeleteAll={can("accounts:delete") ? () => handleDeleteAll("accounts") : undefined}
                   onExportAll={() => handleExportFiltered("accounts")}
                   onExportSelected={() => handleExportSelected("accounts")}
                   onExportAllTxt={() => handleExportFilteredTxt("accounts")}
                   onExportSelectedTxt={() => handleExportSelectedTxt("accounts")}
-                  onAssignTag={handleOpenTagModalForSelection}
+                  onAssignTag={can("accounts:write") ? handleOpenTagModalForSelection : undefined}
                   disableAssignTag={entityUi.accounts.selectedIds.length === 0}
+                  onSellSelected={can("accounts:status") ? handleOpenSellDialog : undefined}
                   disableDeleteSelected={entityUi.accounts.selectedIds.length === 0}
                 />
               </div>
@@ -2815,7 +3620,7 @@ export default function Dashboard() {
           <TabsContent value="logs" className="space-y-6">
             <div className="grid gap-6 xl:grid-cols-[3fr_1fr]">
               <AccountTable
-                accounts={logPagination.items as AccLog[]}
+                accounts={logPagination.items}
                 isLoading={logsQuery.isLoading}
                 searchTerm={entityUi.logs.searchTerm}
                 statusFilter={entityUi.logs.statusFilter}
@@ -2824,11 +3629,9 @@ export default function Dashboard() {
                 onCopyUsername={(username, accountId) => {
                   copyToClipboard(username, "Username", toast, `username-${accountId}`, setActiveCopyButtons);
                 }}
-                onCopyPassword={(password, accountId) => {
-                  copyToClipboard(password, "Password", toast, `password-${accountId}`, setActiveCopyButtons);
-                }}
-                onToggleStatus={(record) => handleToggleStatus("logs", record)}
-                onDeleteClick={(record) => handleDeleteRecord("logs", record)}
+                onCopyPassword={(accountId) => handleCopyPassword("logs", accountId)}
+                onToggleStatus={can("acclogs:write") ? (record) => handleToggleStatus("logs", record) : undefined}
+                onDeleteClick={can("acclogs:delete") ? (record) => handleDeleteRecord("logs", record) : undefined}
                 updatingStatusIds={updatingStatusIds}
                 activeCopyButtons={activeCopyButtons}
                 selectedAccounts={entityUi.logs.selectedIds}
@@ -2852,26 +3655,38 @@ export default function Dashboard() {
                 levelFilter={logLevelFilter}
                 levelOptions={logLevelOptions}
                 onLevelFilterChange={handleLogLevelFilterChange}
+                sort={entityUi.logs.sort}
+                onSortChange={(value) => handleSortChange("logs", value)}
+                onPromote={can("acclogs:write") ? (record) => promoteAccLogsMutation.mutate({ ids: [record.id] }) : undefined}
+                promotingIds={promoteAccLogsMutation.isPending ? new Set(promoteAccLogsMutation.variables?.ids ?? []) : undefined}
               />
 
               <div className="space-y-6 sticky top-0 z-20 self-start">
                 <BulkActionsCard
                   label={ENTITY_CONFIG.logs.label}
                   selectionCount={entityUi.logs.selectedIds.length}
-                  totalCount={logs.length}
-                  onUpdateAll={(status) => handleUpdateAll("logs", status)}
-                  onUpdateSelected={(status) => handleUpdateSelected("logs", status)}
+                  totalCount={logStats?.total ?? 0}
+                  onUpdateAll={can("acclogs:write") ? (status) => handleUpdateAll("logs", status) : undefined}
+                  onUpdateSelected={can("acclogs:write") ? (status) => handleUpdateSelected("logs", status) : undefined}
                   isUpdatingSelected={logMutations.updateSelectedMutation.isPending}
                   disableUpdateSelected={entityUi.logs.selectedIds.length === 0}
                   isUpdating={logMutations.updateAllMutation.isPending}
-                  onDeleteSelected={() => handleDeleteSelected("logs")}
-                  onDeleteAll={() => handleDeleteAll("logs")}
+                  onDeleteSelected={can("acclogs:delete") ? () => handleDeleteSelected("logs") : undefined}
+                  onDeleteAll={can("acclogs:delete") ? () => handleDeleteAll("logs") : undefined}
                   onExportAll={() => handleExportFiltered("logs")}
                   onExportSelected={() => handleExportSelected("logs")}
                   onExportAllTxt={() => handleExportFilteredTxt("logs")}
                   onExportSelectedTxt={() => handleExportSelectedTxt("logs")}
+                  onPromoteSelected={can("acclogs:write") ? () => promoteAccLogsMutation.mutate({ ids: entityUi.logs.selectedIds }) : undefined}
+                  isPromoting={promoteAccLogsMutation.isPending}
                   disableDeleteSelected={entityUi.logs.selectedIds.length === 0}
                 />
+                <AutoPromoteCard
+                  minLevel={autoPromoteQuery.data?.minLevel ?? null}
+                  isLoading={autoPromoteQuery.isLoading}
+                  isSaving={updateAutoPromoteMutation.isPending}
+                  onSave={can("settings:manage") ? (minLevel) => updateAutoPromoteMutation.mutate({ minLevel }) : undefined}
+                />
               </div>
             </div>
           </TabsContent>
@@ -2903,20 +3718,60 @@ export default function Dashboard() {
               {activeTab === "accounts" ? (
                 <div className="space-y-2">
                   <Label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Tag</Label>
-                  <Select value={accountTagFilter} onValueChange={(value) => handleTagFilterChange(value as TagFilterValue)}>
-                    <SelectTrigger className="h-10 w-full rounded-full border-border/70 text-sm">
-                      <SelectValue placeholder="Chọn Tag" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">Tất cả tag</SelectItem>
-                      {hasUnassignedTag ? (<SelectItem value={TAG_FILTER_UNASSIGNED}>Chưa gắn tag</SelectItem>) : null}
-                      {tagOptions.map((option) => (
-                        <SelectItem key={option} value={option}>
-                          {option}
-                        </SelectItem>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      size="sm"
+                      variant={!isTagFilterActive(accountTagFilter) ? "default" : "outline"}
+                      className="rounded-full"
+                      onClick={() => handleTagFilterChange({ ...ALL_TAGS_FILTER, match: accountTagFilter.match })}
+                    >
+                      Tất cả tag
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={accountTagFilter.unassigned ? "default" : "outline"}
+                      className="rounded-full"
+                      onClick={() => handleTagFilterChange({ ...accountTagFilter, tagIds: [], unassigned: !accountTagFilter.unassigned })}
+                    >
+                      Chưa gắn tag
+                    </Button>
+                    {tagOptions.map((tag) => (
+                      <Button
+                        key={tag.id}
+                        size="sm"
+                        variant={accountTagFilter.tagIds.includes(tag.id) ? "default" : "outline"}
+                        className="gap-1.5 rounded-full"
+                        onClick={() => toggleTagFilterId(tag.id)}
+                      >
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                        {tag.name}
+                        <span className="text-xs opacity-70">{formatNumber(tag.accountCount)}</span>
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <span>Khớp</span>
+                      {TAG_MATCH_OPTIONS.map((option) => (
+                        <Button
+                          key={option.value}
+                          size="sm"
+                          variant={accountTagFilter.match === option.value ? "secondary" : "ghost"}
+                          className="h-7 rounded-full px-3 text-xs"
+                          disabled={accountTagFilter.tagIds.length < 2}
+                          onClick={() => handleTagFilterChange({ ...accountTagFilter, match: option.value })}
+                        >
+                          {option.label}
+                        </Button>
                       ))}
-                    </SelectContent>
-                  </Select>
+                    </div>
+                    {can("accounts:write") ? (
+                      <Button variant="ghost" size="sm" className="gap-2" onClick={() => setTagManagerOpen(true)}>
+                        <Tags className="h-4 w-4" />
+                        Quản lý tag
+                      </Button>
+                    ) : null}
+                  </div>
                 </div>
               ) : null}
               {activeTab === "logs" ? (
@@ -2978,6 +3833,9 @@ export default function Dashboard() {
                 {widgetState.activityTimeline ? (
                   <ActivityTimeline data={activitySeries.data} hasActivity={activitySeries.hasActivity} />
                 ) : null}
+                {widgetState.activityTimeline ? (
+                  <LevelVelocityChart report={levelVelocityQuery.data} isLoading={levelVelocityQuery.isLoading} />
+                ) : null}
               </div>
             ) : (
               <p className="text-sm text-muted-foreground">
@@ -2986,10 +3844,16 @@ export default function Dashboard() {
             )}
             <div className="mt-6">
               {widgetState.revenueChart ? (
-                <RevenueChart
-                  data={revenueStatsQuery.data ?? []}
-                  activeSession={activeSessionQuery.data ?? null}
-                />
+                <div className="space-y-6">
+                  <RevenueChart
+                    data={revenueStatsQuery.data ?? []}
+                    activeSession={activeSessionQuery.data ?? null}
+                  />
+                  <VoidedSalesCard
+                    records={voidedRevenueQuery.data ?? []}
+                    sessions={liveSessionsQuery.data ?? []}
+                  />
+                </div>
               ) : (
                 <p className="text-sm text-muted-foreground">
                   Biểu đồ doanh thu đang bị tắt trong phần tùy chỉnh widget.
@@ -3012,6 +3876,7 @@ export default function Dashboard() {
                   onImport={(payload) => handleImportRecordsWithProgress(activeTab, payload)}
                   isImporting={!!(importState && importState.entity === activeTab && importState.running)}
                   progress={importState && importState.entity === activeTab ? { done: importState.done, total: importState.total } : null}
+                  onCancel={importState?.jobId && importState.entity === activeTab ? handleCancelImport : undefined}
                 />
               </div>
             ) : (
@@ -3034,7 +3899,7 @@ export default function Dashboard() {
       <DeleteMultipleModal
         isOpen={!!pendingBulkDelete}
         deleteCount={pendingBulkDelete?.mode === "all"
-          ? (pendingBulkDelete?.entity === "accounts" ? accounts.length : logs.length)
+          ? (pendingBulkDelete?.entity === "accounts" ? accountStats?.total ?? 0 : logStats?.total ?? 0)
           : (pendingBulkDelete?.entity === "accounts"
             ? entityUi.accounts.selectedIds.length
             : entityUi.logs.selectedIds.length)}
@@ -3053,6 +3918,7 @@ export default function Dashboard() {
                   <p>
                     {ENTITY_CONFIG[importFeedback.entity].label}: {importFeedback.imported} dòng hợp lệ,
                     {" "}
+                    {importFeedback.updated > 0 ? `${importFeedback.updated} dòng cập nhật, ` : null}
                     {importFeedback.errors} dòng lỗi.
                   </p>
                   <p>Nguồn: {importFeedback.sourceName}</p>
@@ -3080,13 +3946,17 @@ export default function Dashboard() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
-      <TeamDialog
+      <TagDialog
         open={!!tagModalState}
         mode={tagModalState?.mode ?? "single"}
         subject={tagModalState?.mode === "single" ? tagModalState.accountName : undefined}
         itemCount={tagModalState?.mode === "bulk" ? tagModalState.ids.length : 1}
-        currentValue={tagModalState?.initialTag ?? ""}
+        tags={tagOptions}
+        initialTagIds={tagModalState?.initialTagIds ?? []}
+        partialTagIds={tagModalState?.mode === "bulk" ? tagModalState.partialTagIds : []}
         isProcessing={isTagUpdating}
+        isCreatingTag={createTagMutation.isPending}
+        onCreateTag={(name) => createTagMutation.mutateAsync(name)}
         onClose={() => {
           if (isTagUpdating) {
             return;
@@ -3095,6 +3965,42 @@ export default function Dashboard() {
         }}
         onSave={handleTagSave}
       />
+      <TagManagerDialog open={isTagManagerOpen} onOpenChange={setTagManagerOpen} />
+      <ChangePasswordDialog open={isChangePasswordOpen} onOpenChange={setChangePasswordOpen} />
+      <TwoFactorDialog open={isTwoFactorOpen} onOpenChange={setTwoFactorOpen} />
+      <SessionsDialog open={isSessionsOpen} onOpenChange={setSessionsOpen} />
+      <ApiTokensDialog open={isApiTokensOpen} onOpenChange={setApiTokensOpen} />
+      <PriceOverrideDialog
+        open={!!priceOverrideTarget}
+        subject={priceOverrideTarget?.username}
+        currentValue={priceOverrideTarget?.priceOverride ?? null}
+        isProcessing={updateAccountPriceMutation.isPending}
+        onClose={() => setPriceOverrideTarget(null)}
+        onSave={(priceOverride) => {
+          if (priceOverrideTarget) {
+            updateAccountPriceMutation.mutate({ id: priceOverrideTarget.id, priceOverride });
+          }
+        }}
+      />
+      <ReserveAccountDialog
+        open={!!reserveTarget}
+        subject={reserveTarget?.username}
+        isExtending={reserveTarget?.state === "reserved"}
+        isProcessing={reserveAccountMutation.isPending}
+        onClose={() => setReserveTarget(null)}
+        onConfirm={(hold) => {
+          if (reserveTarget) {
+            reserveAccountMutation.mutate({ id: reserveTarget.id, hold });
+          }
+        }}
+      />
+      <SellToBuyerDialog
+        open={isSellDialogOpen}
+        itemCount={entityUi.accounts.selectedIds.length}
+        isProcessing={accountMutations.updateSelectedMutation.isPending}
+        onClose={() => setSellDialogOpen(false)}
+        onConfirm={handleSellSelected}
+      />
       <SetPriceDialog open={isSetPriceDialogOpen} onOpenChange={setSetPriceDialogOpen} />
     </div>
   );
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { type ImportBatch, type ImportBatchRollbackResult, type ImportBatchSource, type ImportBatchStatus, type ImportJobEntity, type ListPage } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, ChevronLeft, ChevronRight, Undo2 } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+const ENTITY_LABELS: Record<ImportJobEntity, string> = {
+  accounts: "Tài khoản",
+  acclogs: "Acc log",
+};
+
+const SOURCE_LABELS: Record<ImportBatchSource, string> = {
+  batch: "Trợ lý import",
+  job: "Import nền",
+  file: "File",
+  text: "Văn bản",
+};
+
+// Completed batches show no status badge
+const STATUS_LABELS: Record<Exclude<ImportBatchStatus, "completed">, string> = {
+  running: "Đang chạy",
+  cancelled: "Đã hủy",
+  failed: "Lỗi",
+  interrupted: "Bị gián đoạn",
+};
+
+// List and stats keys refreshed after a rollback deletes rows
+const ENTITY_KEYS: Record<ImportJobEntity, { list: string; stats: string }> = {
+  accounts: { list: "/api/accounts", stats: "/api/accounts/stats" },
+  acclogs: { list: "/api/acclogs", stats: "/api/acclogs/stats" },
+};
+
+const batchesKey = (entity: ImportJobEntity) => `/api/${entity}/import-batches`;
+
+const formatTime = (value: string) => new Date(value).toLocaleString("vi-VN");
+
+export default function ImportHistoryPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const { can } = useAuth();
+  const readable = (["accounts", "acclogs"] as const).filter((entity) => can(`${entity}:read`));
+  const [entity, setEntity] = useState<ImportJobEntity>(readable[0] ?? "accounts");
+  const [page, setPage] = useState(1);
+  const [rollbackTarget, setRollbackTarget] = useState<ImportBatch | null>(null);
+
+  const canRead = readable.includes(entity);
+  const canRollback = can(`${entity}:delete`);
+  const batchesQuery = useQuery<ListPage<ImportBatch>>({
+    queryKey: [batchesKey(entity), page],
+    queryFn: () => apiRequest<ListPage<ImportBatch>>("GET", `${batchesKey(entity)}?page=${page}&pageSize=${PAGE_SIZE}`),
+    placeholderData: keepPreviousData,
+    enabled: canRead,
+  });
+
+  const batches = batchesQuery.data?.items ?? [];
+  const total = batchesQuery.data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (batch: ImportBatch) =>
+      apiRequest<ImportBatchRollbackResult>("POST", `${batchesKey(batch.entity)}/${batch.id}/rollback`),
+    onSuccess: (result) => {
+      const kept = result.kept.length > 0 ? `, giữ lại ${result.kept.length} tài khoản đã bán/giữ/trả` : "";
+      toast({ title: "Đã hoàn tác lần import", description: `Đã xóa ${result.deleted} bản ghi${kept}` });
+      setRollbackTarget(null);
+      qc.invalidateQueries({ queryKey: [batchesKey(result.batch.entity)] });
+      qc.invalidateQueries({ queryKey: [ENTITY_KEYS[result.batch.entity].list] });
+      qc.invalidateQueries({ queryKey: [ENTITY_KEYS[result.batch.entity].stats] });
+    },
+    onError: (err: unknown) => {
+      toast({ title: "Không thể hoàn tác", description: err instanceof Error ? err.message : "Thử lại sau", variant: "destructive" });
+    },
+  });
+
+  if (readable.length === 0) {
+    return (
+      <div className="mx-auto w-full max-w-6xl p-4 sm:p-6">
+        <p className="text-sm text-muted-foreground">Bạn không có quyền xem lịch sử import.</p>
+        <Button variant="link" className="px-0" onClick={() => navigate("/")}>Quay lại</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-6xl p-4 sm:p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} title="Quay lại">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-xl font-semibold">Lịch sử import</h1>
+        </div>
+        <Select value={entity} onValueChange={(value) => { setEntity(value as ImportJobEntity); setPage(1); }}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {readable.map((item) => (
+              <SelectItem key={item} value={item}>
+                {ENTITY_LABELS[item]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Các lần import</CardTitle>
+          <CardDescription>
+            {total.toLocaleString("vi-VN")} lần import. Hoàn tác chỉ xóa các bản ghi do lần import đó tạo ra; bản ghi được cập nhật và tài khoản đã bán, đang giữ hoặc đã trả giữ nguyên.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Thời gian</TableHead>
+                  <TableHead>Người thực hiện</TableHead>
+                  <TableHead>Nguồn</TableHead>
+                  <TableHead className="text-right">Thêm mới</TableHead>
+                  <TableHead className="text-right">Cập nhật</TableHead>
+                  <TableHead className="text-right">Lỗi</TableHead>
+                  <TableHead>Trạng thái</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batchesQuery.isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8}>Đang tải...</TableCell>
+                  </TableRow>
+                ) : batches.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-muted-foreground">Chưa có lần import nào</TableCell>
+                  </TableRow>
+                ) : (
+                  batches.map((batch) => (
+                    <TableRow key={batch.id}>
+                      <TableCell className="whitespace-nowrap">{formatTime(batch.createdAt)}</TableCell>
+                      <TableCell>{batch.createdByUsername ?? batch.createdBy}</TableCell>
+                      <TableCell className="max-w-[240px]">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="shrink-0 text-xs">{SOURCE_LABELS[batch.source]}</Badge>
+                          <span className="truncate" title={batch.sourceName ?? undefined}>{batch.sourceName ?? "—"}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{batch.imported}</TableCell>
+                      <TableCell className="text-right">{batch.updated}</TableCell>
+                      <TableCell className="text-right">{batch.errors}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {batch.rolledBackAt ? (
+                          <Badge variant="secondary" title={formatTime(batch.rolledBackAt)}>
+                            Đã hoàn tác · xóa {batch.rolledBackCount ?? 0}
+                          </Badge>
+                        ) : batch.status !== "completed" ? (
+                          <Badge variant={batch.status === "running" ? "outline" : "destructive"}>{STATUS_LABELS[batch.status]}</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canRollback && !batch.rolledBackAt && batch.status !== "running" && batch.imported > 0 ? (
+                          <Button variant="outline" size="sm" className="gap-1" onClick={() => setRollbackTarget(batch)}>
+                            <Undo2 className="h-4 w-4" />
+                            Hoàn tác
+                          </Button>
+                        ) : null}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="mt-3 flex items-center justify-end gap-2 text-sm">
+            <span className="text-muted-foreground">Trang {page} / {totalPages}</span>
+            <Button variant="outline" size="icon" onClick={() => setPage((p) => Math.max(1, p - 1))} disabled={page <= 1} title="Trang trước">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setPage((p) => Math.min(totalPages, p + 1))} disabled={page >= totalPages} title="Trang sau">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!rollbackTarget} onOpenChange={(open) => !open && !rollbackMutation.isPending && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hoàn tác lần import này?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {rollbackTarget
+                ? `${rollbackTarget.imported} ${ENTITY_LABELS[rollbackTarget.entity].toLowerCase()} tạo từ "${rollbackTarget.sourceName ?? SOURCE_LABELS[rollbackTarget.source]}" (${formatTime(rollbackTarget.createdAt)}) sẽ bị xóa, kể cả khi đã được sửa sau đó. ${rollbackTarget.entity === "accounts" ? "Tài khoản đã bán, đang giữ, đã trả hoặc đã ghi doanh thu được giữ lại. " : ""}Không thể khôi phục.`
+                : null}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={rollbackMutation.isPending}>Hủy</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                if (rollbackTarget) rollbackMutation.mutate(rollbackTarget);
+              }}
+              disabled={rollbackMutation.isPending}
+            >
+              Hoàn tác
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
 import { useAuth } from '@/hooks/use-auth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -12,6 +14,8 @@ import ThemeToggle from '@/components/theme-toggle';
 import { useTheme } from '@/hooks/use-theme';
 import { cn } from '@/lib/utils';
 
+const TOTP_CODE_LENGTH = 6;
+
 const featureHighlights: Array<{ icon: LucideIcon; title: string; description: string }> = [
   {
     icon: ShieldCheck,
@@ -33,7 +37,9 @@ const featureHighlights: Array<{ icon: LucideIcon; title: string; description: s
 export default function LoginPage() {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
-  const { login, error, isAuthenticated, isAuthenticating } = useAuth();
+  const [totpCode, setTotpCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, verifyTotp, cancelTotp, isTotpRequired, error, isAuthenticated, isAuthenticating } = useAuth();
   const { theme } = useTheme();
   const isDark = theme === 'dark';
   const navigate = useNavigate();
@@ -52,6 +58,31 @@ export default function LoginPage() {
     await login(username, password);
   };
 
+  useEffect(() => {
+    setTotpCode('');
+    setUseRecoveryCode(false);
+  }, [isTotpRequired]);
+
+  const handleTotpSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (isAuthenticating || !totpCode.trim()) {
+      return;
+    }
+    await verifyTotp(totpCode.trim());
+    setTotpCode('');
+  };
+
+  const handleCancelTotp = () => {
+    setPassword('');
+    cancelTotp();
+  };
+
+  const errorMessage = error ? (
+    <div className="rounded-2xl border border-destructive/30 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+      {error}
+    </div>
+  ) : null;
+
   const gradientClass = isDark
     ? 'from-slate-950 via-slate-900 to-slate-950 text-slate-100'
     : 'from-slate-100 via-white to-slate-100 text-slate-900';
@@ -95,70 +126,144 @@ export default function LoginPage() {
               >
                 Khu vực nội bộ
               </Badge>
-              <CardTitle className="text-3xl font-semibold">Đăng nhập hệ thống</CardTitle>
+              <CardTitle className="text-3xl font-semibold">
+                {isTotpRequired ? 'Xác thực hai lớp' : 'Đăng nhập hệ thống'}
+              </CardTitle>
               <CardDescription className="text-base text-muted-foreground">
-                Nhập thông tin được cấp để truy cập kho chung sức, theo dõi acc log và bảng điều khiển realtime.
+                {isTotpRequired
+                  ? 'Nhập mã 6 số trong ứng dụng xác thực, hoặc một mã khôi phục nếu không có điện thoại bên cạnh.'
+                  : 'Nhập thông tin được cấp để truy cập kho chung sức, theo dõi acc log và bảng điều khiển realtime.'}
               </CardDescription>
             </CardHeader>
             <CardContent className="relative">
-              <form onSubmit={handleSubmit} className="space-y-5">
-                <div className="space-y-2">
-                  <Label htmlFor="username" className="text-sm font-medium text-muted-foreground">
-                    Tên đăng nhập
-                  </Label>
-                  <Input
-                    id="username"
-                    type="text"
-                    value={username}
-                    onChange={(event) => setUsername(event.target.value)}
-                    required
-                    disabled={isAuthenticating}
-                    className="h-11 rounded-2xl border-border/60 bg-background/70 px-4 text-sm shadow-inner"
-                    autoComplete="username"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="password" className="text-sm font-medium text-muted-foreground">
-                    Mật khẩu
-                  </Label>
-                  <Input
-                    id="password"
-                    type="password"
-                    value={password}
-                    onChange={(event) => setPassword(event.target.value)}
-                    required
-                    disabled={isAuthenticating}
-                    className="h-11 rounded-2xl border-border/60 bg-background/70 px-4 text-sm shadow-inner"
-                    autoComplete="current-password"
-                  />
-                </div>
+              {isTotpRequired ? (
+                <form onSubmit={handleTotpSubmit} className="space-y-5">
+                  <div className="space-y-2">
+                    <Label htmlFor="totp-code" className="text-sm font-medium text-muted-foreground">
+                      {useRecoveryCode ? 'Mã khôi phục' : 'Mã xác thực'}
+                    </Label>
+                    {useRecoveryCode ? (
+                      <Input
+                        id="totp-code"
+                        type="text"
+                        value={totpCode}
+                        onChange={(event) => setTotpCode(event.target.value)}
+                        placeholder="xxxx-xxxx"
+                        required
+                        disabled={isAuthenticating}
+                        className="h-11 rounded-2xl border-border/60 bg-background/70 px-4 font-mono text-sm shadow-inner"
+                        autoComplete="off"
+                        autoFocus
+                      />
+                    ) : (
+                      <InputOTP
+                        id="totp-code"
+                        maxLength={TOTP_CODE_LENGTH}
+                        pattern={REGEXP_ONLY_DIGITS}
+                        value={totpCode}
+                        onChange={setTotpCode}
+                        disabled={isAuthenticating}
+                        autoComplete="one-time-code"
+                        autoFocus
+                      >
+                        <InputOTPGroup>
+                          {Array.from({ length: TOTP_CODE_LENGTH }, (_, index) => (
+                            <InputOTPSlot key={index} index={index} className="h-11 w-11 text-base" />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    )}
+                  </div>
+
+                  {errorMessage}
+
+                  <Button
+                    type="submit"
+                    className="w-full rounded-2xl bg-gradient-to-r from-primary to-primary/80 py-3 text-base font-semibold text-primary-foreground shadow-lg shadow-primary/40 transition-all hover:from-primary/90 hover:to-primary/70"
+                    disabled={isAuthenticating || (!useRecoveryCode && totpCode.length < TOTP_CODE_LENGTH)}
+                    aria-busy={isAuthenticating}
+                  >
+                    {isAuthenticating ? (
+                      <>
+                        <Loader2 className="mr-2 h-5 w-5 animate-spin" aria-hidden="true" />
+                        Đang xác thực...
+                      </>
+                    ) : (
+                      'Xác nhận'
+                    )}
+                  </Button>
 
-                {error && (
-                  <div className="rounded-2xl border border-destructive/30 bg-destructive/10 px-4 py-3 text-sm text-destructive">
-                    {error}
+                  <div className="flex items-center justify-between text-xs">
+                    <Button
+                      type="button"
+                      variant="link"
+                      className="h-auto px-0 text-xs"
+                      onClick={() => { setUseRecoveryCode((value) => !value); setTotpCode(''); }}
+                      disabled={isAuthenticating}
+                    >
+                      {useRecoveryCode ? 'Dùng ứng dụng xác thực' : 'Dùng mã khôi phục'}
+                    </Button>
+                    <Button type="button" variant="link" className="h-auto px-0 text-xs" onClick={handleCancelTotp} disabled={isAuthenticating}>
+                      Quay lại đăng nhập
+                    </Button>
                   </div>
-                )}
-
-                <Button
-                  type="submit"
-                  className="w-full rounded-2xl bg-gradient-to-r from-primary to-primary/80 py-3 text-base font-semibold text-primary-foreground shadow-lg shadow-primary/40 transition-all hover:from-primary/90 hover:to-primary/70"
-                  disabled={isAuthenticating}
-                  aria-busy={isAuthenticating}
-                >
-                  {isAuthenticating ? (
-                    <>
-                      <Loader2 className="mr-2 h-5 w-5 animate-spin" aria-hidden="true" />
-                      Đang xác thực...
-                    </>
-                  ) : (
-                    'Đăng nhập'
-                  )}
-                </Button>
-
-                <p className="text-center text-xs text-muted-foreground">
-                  Cần hỗ trợ? Liên hệ quản trị viên để được cấp lại thông tin đăng nhập.
-                </p>
-              </form>
+                </form>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-5">
+                  <div className="space-y-2">
+                    <Label htmlFor="username" className="text-sm font-medium text-muted-foreground">
+                      Tên đăng nhập
+                    </Label>
+                    <Input
+                      id="username"
+                      type="text"
+                      value={username}
+                      onChange={(event) => setUsername(event.target.value)}
+                      required
+                      disabled={isAuthenticating}
+                      className="h-11 rounded-2xl border-border/60 bg-background/70 px-4 text-sm shadow-inner"
+                      autoComplete="username"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="password" className="text-sm font-medium text-muted-foreground">
+                      Mật khẩu
+                    </Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      value={password}
+                      onChange={(event) => setPassword(event.target.value)}
+                      required
+                      disabled={isAuthenticating}
+                      className="h-11 rounded-2xl border-border/60 bg-background/70 px-4 text-sm shadow-inner"
+                      autoComplete="current-password"
+                    />
+                  </div>
+
+                  {errorMessage}
+
+                  <Button
+                    type="submit"
+                    className="w-full rounded-2xl bg-gradient-to-r from-primary to-primary/80 py-3 text-base font-semibold text-primary-foreground shadow-lg shadow-primary/40 transition-all hover:from-primary/90 hover:to-primary/70"
+                    disabled={isAuthenticating}
+                    aria-busy={isAuthenticating}
+                  >
+                    {isAuthenticating ? (
+                      <>
+                        <Loader2 className="mr-2 h-5 w-5 animate-spin" aria-hidden="true" />
+                        Đang xác thực...
+                      </>
+                    ) : (
+                      'Đăng nhập'
+                    )}
+                  </Button>
+
+                  <p className="text-center text-xs text-muted-foreground">
+                    Cần hỗ trợ? Liên hệ quản trị viên để được cấp lại thông tin đăng nhập.
+                  </p>
+                </form>
+              )}
             </CardContent>
           </Card>
 
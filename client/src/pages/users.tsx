@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { USER_ROLES, type PublicUser, type UpdateUser, type UserRole } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { USER_ROLE_LABELS, useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, KeyRound, LogOut, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const USERS_KEY = "/api/users";
+const MIN_PASSWORD_LENGTH = 8;
+
+export default function UsersPage() {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const navigate = useNavigate();
+  const { user: currentUser, can } = useAuth();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [form, setForm] = useState<{ username: string; password: string; role: UserRole }>({
+    username: "",
+    password: "",
+    role: "moderator",
+  });
+  const [resetTarget, setResetTarget] = useState<PublicUser | null>(null);
+  const [resetPassword, setResetPassword] = useState("");
+  const [logoutTarget, setLogoutTarget] = useState<PublicUser | null>(null);
+
+  const canManage = can("users:manage");
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: [USERS_KEY],
+    enabled: canManage,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (payload: typeof form) => apiRequest<PublicUser>("POST", USERS_KEY, payload),
+    onSuccess: (user) => {
+      qc.invalidateQueries({ queryKey: [USERS_KEY] });
+      toast({ title: "Thành công", description: `Đã tạo người dùng ${user.username}` });
+      setCreateOpen(false);
+    },
+    onError: (err: any) => {
+      toast({ title: "Không thể tạo", description: err?.message ?? "Thử lại sau", variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateUser }) =>
+      apiRequest<PublicUser>("PATCH", `${USERS_KEY}/${id}`, updates),
+    onSuccess: (user) => {
+      qc.invalidateQueries({ queryKey: [USERS_KEY] });
+      toast({ title: "Đã cập nhật", description: user.username });
+    },
+    onError: (err: any) => {
+      toast({ title: "Không thể cập nhật", description: err?.message ?? "Thử lại sau", variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async ({ id, password }: { id: string; password: string }) =>
+      apiRequest("POST", `${USERS_KEY}/${id}/password`, { password }),
+    onSuccess: () => {
+      toast({ title: "Đã đặt lại mật khẩu", description: resetTarget?.username });
+      setResetTarget(null);
+    },
+    onError: (err: any) => {
+      toast({ title: "Không thể đặt lại", description: err?.message ?? "Thử lại sau", variant: "destructive" });
+    },
+  });
+
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest<{ revoked: number }>("DELETE", `${USERS_KEY}/${id}/sessions`),
+    onSuccess: (data) => {
+      toast({ title: "Đã đăng xuất", description: `${logoutTarget?.username}: ${data.revoked} phiên` });
+      setLogoutTarget(null);
+    },
+    onError: (err: any) => {
+      toast({ title: "Không thể đăng xuất", description: err?.message ?? "Thử lại sau", variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setForm({ username: "", password: "", role: "moderator" });
+    setCreateOpen(true);
+  };
+
+  const onSubmitCreate = () => {
+    const username = form.username.trim();
+    if (!username || form.password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Thiếu thông tin",
+        description: `Nhập tên đăng nhập và mật khẩu tối thiểu ${MIN_PASSWORD_LENGTH} ký tự`,
+        variant: "destructive",
+      });
+      return;
+    }
+    createMutation.mutate({ ...form, username });
+  };
+
+  const openReset = (user: PublicUser) => {
+    setResetPassword("");
+    setResetTarget(user);
+  };
+
+  const onSubmitReset = () => {
+    if (!resetTarget) return;
+    if (resetPassword.length < MIN_PASSWORD_LENGTH) {
+      toast({ title: "Mật khẩu quá ngắn", description: `Tối thiểu ${MIN_PASSWORD_LENGTH} ký tự`, variant: "destructive" });
+      return;
+    }
+    resetMutation.mutate({ id: resetTarget.id, password: resetPassword });
+  };
+
+  if (!canManage) {
+    return (
+      <div className="mx-auto w-full max-w-4xl p-4 sm:p-6">
+        <p className="text-sm text-muted-foreground">Bạn không có quyền quản lý người dùng.</p>
+        <Button variant="link" className="px-0" onClick={() => navigate("/")}>Quay lại</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-4xl p-4 sm:p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} title="Quay lại">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-xl font-semibold">Người dùng</h1>
+        </div>
+        <Button onClick={openCreate} size="sm"><Plus className="mr-2 h-4 w-4" /> Thêm người dùng</Button>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Danh sách người dùng</CardTitle>
+          <CardDescription>Người dùng bị khóa không thể đăng nhập; phiên đang mở cũng bị ngắt.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tên đăng nhập</TableHead>
+                  <TableHead>Vai trò</TableHead>
+                  <TableHead>Hoạt động</TableHead>
+                  <TableHead className="text-right">Mật khẩu</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={4}>Đang tải...</TableCell>
+                  </TableRow>
+                ) : (
+                  users.map((user) => {
+                    const isSelf = user.id === currentUser?.id;
+                    return (
+                      <TableRow key={user.id} className={user.disabled ? "text-muted-foreground" : undefined}>
+                        <TableCell className="font-medium">
+                          {user.username}
+                          {isSelf ? <Badge variant="secondary" className="ml-2">Bạn</Badge> : null}
+                          {user.totpEnabled ? <Badge variant="outline" className="ml-2">2FA</Badge> : null}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={user.role}
+                            onValueChange={(value) => updateMutation.mutate({ id: user.id, updates: { role: value as UserRole } })}
+                            disabled={isSelf || updateMutation.isPending}
+                          >
+                            <SelectTrigger className="h-9 w-[170px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {USER_ROLES.map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {USER_ROLE_LABELS[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={!user.disabled}
+                            onCheckedChange={(checked) => updateMutation.mutate({ id: user.id, updates: { disabled: !checked } })}
+                            disabled={isSelf || updateMutation.isPending}
+                            aria-label={user.disabled ? "Mở khóa" : "Khóa"}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" variant="ghost" onClick={() => openReset(user)} title="Đặt lại mật khẩu">
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setLogoutTarget(user)} title="Đăng xuất mọi phiên">
+                            <LogOut className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onOpenChange={(open) => !open && setCreateOpen(false)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Thêm người dùng</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Tên đăng nhập</label>
+              <Input value={form.username} onChange={(e) => setForm((f) => ({ ...f, username: e.target.value }))} maxLength={64} />
+            </div>
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Mật khẩu</label>
+              <Input
+                type="password"
+                autoComplete="new-password"
+                value={form.password}
+                onChange={(e) => setForm((f) => ({ ...f, password: e.target.value }))}
+                maxLength={128}
+              />
+            </div>
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Vai trò</label>
+              <Select value={form.role} onValueChange={(value) => setForm((f) => ({ ...f, role: value as UserRole }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {USER_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => setCreateOpen(false)}>Hủy</Button>
+              <Button onClick={onSubmitCreate} disabled={createMutation.isPending}>Thêm</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resetTarget} onOpenChange={(open) => !open && setResetTarget(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Đặt lại mật khẩu {resetTarget?.username}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Mật khẩu mới</label>
+              <Input
+                type="password"
+                autoComplete="new-password"
+                value={resetPassword}
+                onChange={(e) => setResetPassword(e.target.value)}
+                maxLength={128}
+              />
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => setResetTarget(null)}>Hủy</Button>
+              <Button onClick={onSubmitReset} disabled={resetMutation.isPending}>Đặt lại</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!logoutTarget} onOpenChange={(open) => !open && !forceLogoutMutation.isPending && setLogoutTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Đăng xuất {logoutTarget?.username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {logoutTarget?.id === currentUser?.id
+                ? "Mọi phiên khác của bạn sẽ bị đăng xuất, phiên này được giữ lại."
+                : "Mọi phiên đăng nhập của người dùng này sẽ kết thúc ngay. Họ cần đăng nhập lại."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={forceLogoutMutation.isPending}>Hủy</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                if (logoutTarget) forceLogoutMutation.mutate(logoutTarget.id);
+              }}
+              disabled={forceLogoutMutation.isPending}
+            >
+              Đăng xuất
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import "dotenv/config";
+import { and, eq, isNotNull } from "drizzle-orm";
+
+import { client, db } from "../server/db";
+import { decryptSecret, encryptSecret, loadKeyringFromEnv, needsReencryption } from "../server/encryption";
+import { accLogs, accounts, cloneRegs, users } from "../shared/schema";
+
+// Encrypts plaintext passwords (and operator TOTP secrets) and moves values encrypted with
+// older keys onto the active key.
+// Every key that still appears in the data must stay listed in ACCOUNT_ENCRYPTION_KEYS:
+//   ACCOUNT_ENCRYPTION_KEYS='old:...,new:...' ACCOUNT_ENCRYPTION_KEY_ID=new npm run db:reencrypt [-- --dry-run]
+const DRY_RUN = process.argv.includes("--dry-run");
+const TABLES = [
+  { name: "accounts", table: accounts },
+  { name: "acclogs", table: accLogs },
+  { name: "clonereg", table: cloneRegs },
+] as const;
+
+async function reencrypt() {
+  const keyring = loadKeyringFromEnv();
+  if (!keyring) {
+    throw new Error("ACCOUNT_ENCRYPTION_KEYS must be set");
+  }
+
+  console.log(`Re-encrypting with key "${keyring.activeKeyId}"${DRY_RUN ? " (dry run)" : ""}`);
+  try {
+    for (const { name, table } of TABLES) {
+      const rows = await db.select({ id: table.id, password: table.password }).from(table);
+      const stale = rows.filter((row) => needsReencryption(keyring, row.password));
+      let updated = 0;
+
+      if (!DRY_RUN) {
+        for (const row of stale) {
+          const password = encryptSecret(keyring, decryptSecret(keyring, row.password));
+          // Skip rows whose password changed since they were read; running again picks them up
+          const result = await db
+            .update(table)
+            .set({ password })
+            .where(and(eq(table.id, row.id), eq(table.password, row.password)));
+          updated += result.rowsAffected;
+        }
+      }
+
+      console.log(`${name}: ${rows.length} row(s), ${stale.length} to re-encrypt${DRY_RUN ? "" : `, ${updated} updated`}`);
+    }
+
+    const secrets = await db
+      .select({ id: users.id, totpSecret: users.totpSecret })
+      .from(users)
+      .where(isNotNull(users.totpSecret));
+    const staleSecrets = secrets.filter((row) => needsReencryption(keyring, row.totpSecret!));
+    let updatedSecrets = 0;
+
+    if (!DRY_RUN) {
+      for (const row of staleSecrets) {
+        const totpSecret = encryptSecret(keyring, decryptSecret(keyring, row.totpSecret!));
+        const result = await db
+          .update(users)
+          .set({ totpSecret })
+          .where(and(eq(users.id, row.id), eq(users.totpSecret, row.totpSecret!)));
+        updatedSecrets += result.rowsAffected;
+      }
+    }
+
+    console.log(`users (TOTP secrets): ${secrets.length} row(s), ${staleSecrets.length} to re-encrypt${DRY_RUN ? "" : `, ${updatedSecrets} updated`}`);
+  } finally {
+    client.close();
+  }
+}
+
+reencrypt()
+  .then(() => {
+    console.log("Re-encryption completed");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Failed to re-encrypt passwords", error);
+    process.exit(1);
+  });
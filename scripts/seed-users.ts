@@ -1,24 +1,31 @@
 import "dotenv/config";
-import bcrypt from "bcrypt";
+import { randomUUID } from "crypto";
 
-import { db, pool } from "../server/db";
+import { client, db } from "../server/db";
+import { hashPassword } from "../server/password";
 import { users } from "../shared/schema";
 
-const USERNAME = "luonghvpp03220@gmail.com";
-const PLAINTEXT_PASSWORD = "Zocl00zonx";
+// Credentials come from the environment so no password is kept in the repository:
+//   SEED_USERNAME=owner SEED_PASSWORD='...' npm run db:seed
+const USERNAME = process.env.SEED_USERNAME;
+const PASSWORD = process.env.SEED_PASSWORD;
 
 async function seed() {
+  if (!USERNAME || !PASSWORD) {
+    throw new Error("SEED_USERNAME and SEED_PASSWORD must be set");
+  }
+
   try {
-    const hashedPassword = await bcrypt.hash(PLAINTEXT_PASSWORD, 12);
+    const hashedPassword = await hashPassword(PASSWORD);
 
     const [user] = await db
       .insert(users)
-      .values({ username: USERNAME, password: hashedPassword })
+      .values({ id: randomUUID(), username: USERNAME, password: hashedPassword, role: "owner" })
       .onConflictDoUpdate({
         target: users.username,
         set: { password: hashedPassword },
       })
-      .returning({ id: users.id, username: users.username });
+      .returning({ id: users.id, username: users.username, role: users.role });
 
     if (user) {
       console.log("Seeded user:", user);
@@ -26,7 +33,7 @@ async function seed() {
       console.log("User seed executed, no row returned");
     }
   } finally {
-    await pool.end();
+    client.close();
   }
 }
 
@@ -0,0 +1,17 @@
+import { createHash, randomBytes } from "crypto";
+
+// Personal API tokens look like "acs_<43 base64url characters>". They carry 256 random bits,
+// so a plain SHA-256 is enough to store them (no salt or slow hash needed, unlike passwords).
+const TOKEN_PREFIX = "acs_";
+const TOKEN_BYTES = 32;
+// Characters kept in the clear so tokens can be told apart in the list
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken(): { token: string; hash: string; prefix: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(TOKEN_BYTES).toString("base64url")}`;
+  return { token, hash: hashApiToken(token), prefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
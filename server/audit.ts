@@ -0,0 +1,57 @@
+import type { AuditRecordChange } from "@shared/schema";
+
+// Bumped on every write (or every 2FA login), so they would show up in every diff
+const IGNORED_FIELDS = new Set(["id", "updatedAt", "totpLastStep"]);
+// Credentials are never copied into the audit log; the diff only shows that they changed
+const REDACTED_FIELDS = new Set(["password", "totpSecret", "totpRecoveryCodes"]);
+const REDACTED = "[redacted]";
+
+type AuditRecord = { id: number | string } & Record<string, unknown>;
+
+function auditValue(field: string, value: unknown): unknown {
+  return REDACTED_FIELDS.has(field) && value !== null && value !== undefined ? REDACTED : value;
+}
+
+function sameValue(left: unknown, right: unknown): boolean {
+  return left === right || JSON.stringify(left) === JSON.stringify(right);
+}
+
+// The fields of one record that differ between before and after. Pass null as before for a
+// created record and null as after for a deleted one; returns null when nothing changed.
+export function diffRecord(before: AuditRecord | null, after: AuditRecord | null): AuditRecordChange | null {
+  const id = (after ?? before)?.id;
+  if (id === undefined) {
+    return null;
+  }
+
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const previous = before?.[field];
+    const next = after?.[field];
+    if (before && after && sameValue(previous, next)) continue;
+    if (before) changedBefore[field] = auditValue(field, previous);
+    if (after) changedAfter[field] = auditValue(field, next);
+  }
+
+  if (before && after && Object.keys(changedAfter).length === 0) {
+    return null;
+  }
+  return { id, before: before ? changedBefore : null, after: after ? changedAfter : null };
+}
+
+// Pair records by id; ids missing on one side count as created or deleted
+export function diffRecords(before: AuditRecord[], after: AuditRecord[]): AuditRecordChange[] {
+  const beforeById = new Map(before.map((record) => [record.id, record]));
+  const afterById = new Map(after.map((record) => [record.id, record]));
+  const ids = new Set([...before.map((record) => record.id), ...after.map((record) => record.id)]);
+
+  const changes: AuditRecordChange[] = [];
+  for (const id of Array.from(ids)) {
+    const change = diffRecord(beforeById.get(id) ?? null, afterById.get(id) ?? null);
+    if (change) changes.push(change);
+  }
+  return changes;
+}
@@ -1,14 +1,142 @@
 import type { Request, Response, NextFunction } from 'express';
+import { ROLE_PERMISSIONS, type ApiToken, type AuthUser, type Permission, type User } from '@shared/schema';
+import { storage } from './storage';
+import { logger } from './logger';
+import { hashApiToken } from './api-tokens';
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i;
+// Last-used time only needs to be roughly right, so it is written at most this often
+const API_TOKEN_TOUCH_INTERVAL_MS = 60 * 1000;
 
 declare module 'express-session' {
   interface SessionData {
     userId: string;
+    // Password checked, TOTP code still to come; userId stays unset until then
+    pendingTotp: { userId: string; expiresAt: number };
+    // Where the login came from, for the session list
+    client: { ip: string | null; userAgent: string | null };
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by authenticateApiToken for requests sent with a bearer token
+      apiToken?: ApiToken;
+    }
   }
 }
 
-export const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+// The user making the request, through an API token or the session cookie
+export function currentUserId(req: Request): string | undefined {
+  return req.apiToken?.userId ?? req.session.userId;
+}
+
+// The token from an "Authorization: Bearer <token>" header, or null when the header is malformed
+export function parseBearerToken(header: string): string | null {
+  return BEARER_PATTERN.exec(header)?.[1] ?? null;
+}
+
+// The stored token, or null when it is unknown, expired or owned by a disabled user
+export async function resolveApiToken(rawToken: string): Promise<ApiToken | null> {
+  const token = await storage.getApiTokenByHash(hashApiToken(rawToken));
+  if (!token || new Date(token.expiresAt).getTime() <= Date.now()) {
+    return null;
+  }
+  const user = await storage.getUser(token.userId);
+  if (!user || user.disabled) {
+    return null;
+  }
+  if (!token.lastUsedAt || Date.now() - new Date(token.lastUsedAt).getTime() >= API_TOKEN_TOUCH_INTERVAL_MS) {
+    await storage.touchApiToken(token.id, new Date().toISOString());
+  }
+  return token;
+}
+
+// What a user may do: their role's permissions, narrowed to the token's scopes for token requests
+export function grantedPermissions(user: User, apiToken?: ApiToken): Permission[] {
+  return ROLE_PERMISSIONS[user.role].filter((permission) => !apiToken || apiToken.scopes.includes(permission));
+}
+
+// Accept "Authorization: Bearer <token>" next to the session cookie. A bad token is refused
+// outright rather than treated as anonymous.
+export const authenticateApiToken = async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.get('authorization');
+  if (!header) {
+    return next();
+  }
+  const rawToken = parseBearerToken(header);
+  if (!rawToken) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+  try {
+    const token = await resolveApiToken(rawToken);
+    if (!token) {
+      return res.status(401).json({ message: 'API token không hợp lệ hoặc đã hết hạn' });
+    }
+    req.apiToken = token;
+    next();
+  } catch (error) {
+    logger.error('API token check error', { module: 'auth', err: error });
+    res.status(500).json({ message: 'Failed to check API token' });
+  }
+};
+
+// The user is looked up on each request so a disabled account is refused at once
+export const isAuthenticated = async (req: Request, res: Response, next: NextFunction) => {
+  const userId = currentUserId(req);
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+  try {
+    const user = await storage.getUser(userId);
+    if (!user || user.disabled) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    next();
+  } catch (error) {
+    logger.error('Authentication check error', { module: 'auth', err: error });
+    res.status(500).json({ message: 'Failed to check authentication' });
+  }
+};
+
+// For the signed-in user's own security settings (password, 2FA, logins, API tokens):
+// an API token cannot be used to change them or to mint more tokens.
+export const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  if (req.apiToken) {
+    return res.status(403).json({ message: 'Thao tác này cần đăng nhập, không dùng được API token' });
+  }
   if (req.session.userId) {
     return next();
   }
   res.status(401).json({ message: 'Unauthorized' });
 };
+
+export function toAuthUser(user: User): AuthUser {
+  return { id: user.id, username: user.username, role: user.role, permissions: [...ROLE_PERMISSIONS[user.role]] };
+}
+
+// Like isAuthenticated, but the user's role must also grant every listed permission, and so
+// must the scopes of the API token when there is one. The role is read on each request so
+// a role change applies without logging in again.
+export const requirePermission = (...required: Permission[]) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = currentUserId(req);
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    try {
+      const user = await storage.getUser(userId);
+      if (!user || user.disabled) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      const granted = grantedPermissions(user, req.apiToken);
+      if (!required.every((permission) => granted.includes(permission))) {
+        return res.status(403).json({ message: 'Bạn không có quyền thực hiện thao tác này' });
+      }
+      next();
+    } catch (error) {
+      logger.error('Permission check error', { module: 'auth', err: error });
+      res.status(500).json({ message: 'Failed to check permissions' });
+    }
+  };
@@ -1,19 +1,25 @@
 import { createClient } from '@libsql/client';
 import { drizzle } from 'drizzle-orm/libsql';
+import { sql } from 'drizzle-orm';
+import type { Logger as QueryLogger } from 'drizzle-orm/logger';
 import * as schema from "@shared/schema";
 import 'dotenv/config';
+import { logger } from './logger';
+
+const log = logger.child({ module: 'db' });
 
 // Log environment variables for debugging
-console.log('Environment:');
-console.log('- NODE_ENV:', process.env.NODE_ENV || 'development');
-console.log('- TURSO_DATABASE_URL:', process.env.TURSO_DATABASE_URL ? '***HIDDEN***' : 'Not set');
+log.info('Environment', {
+  nodeEnv: process.env.NODE_ENV || 'development',
+  tursoDatabaseUrl: process.env.TURSO_DATABASE_URL ? 'set' : 'not set',
+});
 
 // Create Turso/LibSQL client
 const tursoUrl = process.env.TURSO_DATABASE_URL;
 const tursoAuthToken = process.env.TURSO_AUTH_TOKEN;
 
 if (!tursoUrl) {
-  console.error('FATAL: TURSO_DATABASE_URL is not set!');
+  log.error('FATAL: TURSO_DATABASE_URL is not set!');
   process.exit(1);
 }
 
@@ -25,25 +31,45 @@ try {
     authToken: tursoAuthToken,
   });
 
-  console.log('✅ Turso client created successfully');
+  log.info('Turso client created');
 
   // Test connection
   client.execute('SELECT 1')
-    .then(() => console.log('✅ Successfully connected to Turso'))
+    .then(() => log.info('Connected to Turso'))
     .catch((err) => {
-      console.error('❌ Error connecting to Turso:', err);
+      log.error('Error connecting to Turso', { err });
     });
 
 } catch (error) {
-  console.error('Failed to initialize Turso connection:', error);
+  log.error('Failed to initialize Turso connection', { err: error });
   process.exit(1);
 }
 
 const isProduction = process.env.NODE_ENV === 'production';
-console.log(`Running in ${isProduction ? 'production' : 'development'} mode`);
+log.info(`Running in ${isProduction ? 'production' : 'development'} mode`);
+
+// Query logging in development. Bound parameters hold passwords and session data, so only
+// their count is logged.
+const queryLogger: QueryLogger = {
+  logQuery(query, params) {
+    log.debug('Query', { query, params: params.length });
+  },
+};
 
 export { client };
 export const db = drizzle(client, {
   schema,
-  logger: !isProduction // Enable query logging in development
-});
\ No newline at end of file
+  logger: isProduction ? false : queryLogger,
+});
+
+// SQLite has no "ADD COLUMN IF NOT EXISTS", so swallow the duplicate column error
+export async function addColumnIfMissing(table: string, columnDefinition: string) {
+  try {
+    await db.run(sql.raw(`ALTER TABLE ${table} ADD COLUMN ${columnDefinition}`));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!/duplicate column/i.test(message)) {
+      throw error;
+    }
+  }
+}
\ No newline at end of file
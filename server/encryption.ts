@@ -0,0 +1,87 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+// Game account passwords are encrypted with AES-256-GCM before they reach the database.
+// Each value names the key it was encrypted with, so old keys can stay readable while
+// new writes (and the re-encrypt script) move everything onto the active key:
+//   enc:<keyId>:<iv>:<authTag>:<ciphertext>   (base64url parts)
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const ENCRYPTED_PATTERN = /^enc:([A-Za-z0-9_-]+):([A-Za-z0-9_-]+):([A-Za-z0-9_-]+):([A-Za-z0-9_-]*)$/;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface Keyring {
+  // Key used for every new encryption
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+export class EncryptionConfigError extends Error {}
+
+// keys: "<id>:<base64 32-byte key>" entries separated by commas, e.g. "2024a:...,2025a:..."
+// activeKeyId defaults to the last key listed
+export function parseKeyring(keys: string | undefined, activeKeyId?: string): Keyring | null {
+  if (!keys?.trim()) {
+    return null;
+  }
+
+  const parsed = new Map<string, Buffer>();
+  for (const entry of keys.split(",").map((item) => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    const id = separator > 0 ? entry.slice(0, separator) : "";
+    if (!KEY_ID_PATTERN.test(id)) {
+      throw new EncryptionConfigError("Each encryption key must be written as <id>:<base64 key>, with an id of letters, digits, - or _");
+    }
+    const key = Buffer.from(entry.slice(separator + 1), "base64");
+    if (key.length !== KEY_BYTES) {
+      throw new EncryptionConfigError(`Encryption key "${id}" must be ${KEY_BYTES} bytes (base64 encoded)`);
+    }
+    if (parsed.has(id)) {
+      throw new EncryptionConfigError(`Encryption key "${id}" is listed twice`);
+    }
+    parsed.set(id, key);
+  }
+
+  const active = activeKeyId?.trim() || Array.from(parsed.keys()).pop();
+  if (!active || !parsed.has(active)) {
+    throw new EncryptionConfigError(`Active encryption key "${active ?? ""}" is not in the key list`);
+  }
+  return { activeKeyId: active, keys: parsed };
+}
+
+export function loadKeyringFromEnv(): Keyring | null {
+  return parseKeyring(process.env.ACCOUNT_ENCRYPTION_KEYS, process.env.ACCOUNT_ENCRYPTION_KEY_ID);
+}
+
+// null for plaintext values stored before encryption was enabled
+export function encryptionKeyIdOf(value: string): string | null {
+  return ENCRYPTED_PATTERN.exec(value)?.[1] ?? null;
+}
+
+export function encryptSecret(keyring: Keyring, plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, keyring.keys.get(keyring.activeKeyId)!, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return ["enc", keyring.activeKeyId, iv.toString("base64url"), cipher.getAuthTag().toString("base64url"), ciphertext.toString("base64url")].join(":");
+}
+
+// Plaintext values are returned as they are, so rows written before encryption keep working
+export function decryptSecret(keyring: Keyring | null, value: string): string {
+  const match = ENCRYPTED_PATTERN.exec(value);
+  if (!match) {
+    return value;
+  }
+  const [, keyId, iv, authTag, ciphertext] = match;
+  const key = keyring?.keys.get(keyId);
+  if (!key) {
+    throw new EncryptionConfigError(`Encryption key "${keyId}" is not configured`);
+  }
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(authTag, "base64url"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf8");
+}
+
+// Plaintext, or encrypted with a key other than the active one
+export function needsReencryption(keyring: Keyring, value: string): boolean {
+  return encryptionKeyIdOf(value) !== keyring.activeKeyId;
+}
@@ -0,0 +1,163 @@
+import { randomUUID } from "crypto";
+import { isImportJobFinished, type ImportJob, type ImportJobDetail, type ImportJobEntity, type ImportRowError } from "@shared/schema";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "import-jobs" });
+
+// Rows imported between progress reports and cancellation checks
+export const IMPORT_JOB_CHUNK_SIZE = 100;
+// Failed rows kept per job for the result dialog; errorCount still counts them all
+const MAX_KEPT_ERRORS = 500;
+// Finished jobs kept in memory for the jobs list
+const MAX_FINISHED_JOBS = 50;
+
+export interface ImportChunkResult {
+  imported: number;
+  updated: number;
+  errors: ImportRowError[];
+}
+
+export interface ImportJobInput {
+  entity: ImportJobEntity;
+  sourceName: string | null;
+  createdBy: string;
+  records: unknown[];
+  // Rows per chunk, IMPORT_JOB_CHUNK_SIZE by default
+  chunkSize?: number;
+  // Imports one chunk; `offset` is the index of its first record in `records`
+  importChunk: (records: unknown[], offset: number) => Promise<ImportChunkResult>;
+  // Runs once the job stops, whether it completed, failed or was cancelled
+  finish: (job: ImportJob) => Promise<void>;
+}
+
+interface ImportJobTask extends Omit<ImportJobInput, "entity" | "sourceName" | "createdBy" | "chunkSize"> {
+  chunkSize: number;
+  job: ImportJob;
+  errors: ImportRowError[];
+  cancelRequested: boolean;
+}
+
+// Called with the job and the failed rows not reported yet, after every change
+export type ImportJobListener = (job: ImportJob, newErrors: ImportRowError[]) => void;
+
+// Runs imports in the background, one job at a time so a large import does not starve the
+// others (or the HTTP requests) of database time. Jobs live in memory: a restart drops
+// queued jobs and stops a running one after its last finished chunk.
+export class ImportJobQueue {
+  private tasks = new Map<string, ImportJobTask>();
+  private pending: string[] = [];
+  private running = false;
+
+  constructor(private readonly onUpdate: ImportJobListener) {}
+
+  submit(input: ImportJobInput): ImportJob {
+    const job: ImportJob = {
+      id: randomUUID(),
+      entity: input.entity,
+      sourceName: input.sourceName,
+      status: "queued",
+      total: input.records.length,
+      processed: 0,
+      imported: 0,
+      updated: 0,
+      errorCount: 0,
+      createdBy: input.createdBy,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      message: null,
+    };
+    this.tasks.set(job.id, { job, errors: [], cancelRequested: false, records: input.records, chunkSize: Math.max(1, input.chunkSize ?? IMPORT_JOB_CHUNK_SIZE), importChunk: input.importChunk, finish: input.finish });
+    this.pending.push(job.id);
+    this.prune();
+    this.onUpdate({ ...job }, []);
+    void this.runNext();
+    return { ...job };
+  }
+
+  get(id: string): ImportJobDetail | undefined {
+    const task = this.tasks.get(id);
+    return task ? { ...task.job, errors: [...task.errors] } : undefined;
+  }
+
+  // Newest first, optionally only one user's jobs
+  list(createdBy?: string): ImportJob[] {
+    return Array.from(this.tasks.values())
+      .map((task) => ({ ...task.job }))
+      .filter((job) => !createdBy || job.createdBy === createdBy)
+      .reverse();
+  }
+
+  // A queued job stops at once; a running one after its current chunk. Rows already
+  // imported are kept.
+  async cancel(id: string): Promise<ImportJob | undefined> {
+    const task = this.tasks.get(id);
+    if (!task) {
+      return undefined;
+    }
+    if (task.job.status === "queued") {
+      this.pending = this.pending.filter((item) => item !== id);
+      await this.stop(task, "cancelled");
+    } else if (task.job.status === "running") {
+      task.cancelRequested = true;
+    }
+    return { ...task.job };
+  }
+
+  private async runNext(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    const id = this.pending.shift();
+    const task = id ? this.tasks.get(id) : undefined;
+    if (!task) {
+      return;
+    }
+
+    this.running = true;
+    task.job.status = "running";
+    task.job.startedAt = new Date().toISOString();
+    this.onUpdate({ ...task.job }, []);
+    try {
+      for (let offset = 0; offset < task.records.length && !task.cancelRequested; offset += task.chunkSize) {
+        const chunk = task.records.slice(offset, offset + task.chunkSize);
+        const result = await task.importChunk(chunk, offset);
+        const kept = result.errors.slice(0, Math.max(0, MAX_KEPT_ERRORS - task.errors.length));
+        task.errors.push(...kept);
+        task.job.processed += chunk.length;
+        task.job.imported += result.imported;
+        task.job.updated += result.updated;
+        task.job.errorCount += result.errors.length;
+        this.onUpdate({ ...task.job }, kept);
+        // Let HTTP requests through between chunks
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      await this.stop(task, task.cancelRequested ? "cancelled" : "completed");
+    } catch (error) {
+      log.error("Import job failed", { jobId: task.job.id, err: error });
+      await this.stop(task, "failed", error instanceof Error ? error.message : "Import thất bại");
+    } finally {
+      this.running = false;
+      void this.runNext();
+    }
+  }
+
+  private async stop(task: ImportJobTask, status: ImportJob["status"], message: string | null = null) {
+    task.job.status = status;
+    task.job.message = message;
+    task.job.finishedAt = new Date().toISOString();
+    task.records = [];
+    try {
+      await task.finish({ ...task.job });
+    } catch (error) {
+      log.error("Error finishing import job", { jobId: task.job.id, err: error });
+    }
+    log.info("Import job finished", { jobId: task.job.id, entity: task.job.entity, status, imported: task.job.imported, updated: task.job.updated, errors: task.job.errorCount });
+    this.onUpdate({ ...task.job }, []);
+  }
+
+  private prune() {
+    const finished = Array.from(this.tasks.values()).filter((task) => isImportJobFinished(task.job));
+    finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach((task) => this.tasks.delete(task.job.id));
+  }
+}
@@ -4,26 +4,30 @@ import session from "express-session";
 import helmet from "helmet";
 import rateLimit from "express-rate-limit";
 import { registerRoutes } from "./routes";
-import { setupVite, serveStatic, log } from "./vite";
+import { authenticateApiToken } from "./auth";
+import { setupVite, serveStatic } from "./vite";
+import { logger, requestLogger } from "./logger";
 
 // Validate SESSION_SECRET in production
 const sessionSecret = process.env.SESSION_SECRET || 'a-default-secret-for-development';
 if (process.env.NODE_ENV === 'production') {
   if (!process.env.SESSION_SECRET || process.env.SESSION_SECRET.length < 32 || process.env.SESSION_SECRET.includes('default')) {
-    console.error('FATAL: SESSION_SECRET must be at least 32 characters and not contain "default" in production!');
+    logger.error('FATAL: SESSION_SECRET must be at least 32 characters and not contain "default" in production!');
     process.exit(1);
   }
 }
 
 // Log để kiểm tra biến môi trường
-console.log('TURSO_DATABASE_URL:', process.env.TURSO_DATABASE_URL ? '***[HIDDEN]***' : 'Not set');
-
+logger.info('Database configuration', { tursoDatabaseUrl: process.env.TURSO_DATABASE_URL ? 'set' : 'not set' });
 
 const app = express();
 
 // Trust the first proxy (important for Render and other cloud platforms)
 app.set('trust proxy', 1);
 
+// Request ids and access logging (no request or response bodies)
+app.use(requestLogger);
+
 // Security headers with helmet
 app.use(helmet({
   contentSecurityPolicy: process.env.NODE_ENV === 'production',
@@ -64,7 +68,8 @@ app.use((req, res, next) => {
     res.setHeader('Access-Control-Allow-Origin', origin);
     res.setHeader('Access-Control-Allow-Credentials', 'true');
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Request-Id');
+    res.setHeader('Access-Control-Expose-Headers', 'X-Request-Id');
   }
 
   // Handle preflight requests
@@ -75,16 +80,20 @@ app.use((req, res, next) => {
   next();
 });
 
+// Import jobs, and the dry runs their preview makes, take a whole file in one request (up to
+// MAX_IMPORT_JOB_RECORDS rows)
+app.use(['/api/accounts/import-jobs', '/api/acclogs/import-jobs', '/api/accounts/import/validate', '/api/acclogs/import/validate'], express.json({ limit: '10mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
 // Session configuration - using Turso database for persistence
 // Sessions persist across server restarts
 import { TursoSessionStore } from "./session-store";
-console.log('Using Turso database session store');
-const sessionStore = new TursoSessionStore();
+logger.info('Using Turso database session store');
+export const sessionStore = new TursoSessionStore();
 
-app.use(session({
+// Exported so the Socket.IO handshake can read the same session
+export const sessionMiddleware = session({
   store: sessionStore,
   secret: sessionSecret,
   resave: false,
@@ -95,43 +104,17 @@ app.use(session({
     sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax', // 'none' for cross-domain
     maxAge: 1000 * 60 * 60 * 24 // 1 day
   }
-}));
-
-app.use((req, res, next) => {
-  const start = Date.now();
-  const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
-
-  res.on("finish", () => {
-    const duration = Date.now() - start;
-    if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
-
-      log(logLine);
-    }
-  });
-
-  next();
 });
+app.use(sessionMiddleware);
+
+// Scripts and bots authenticate with "Authorization: Bearer <API token>" instead of a cookie
+app.use('/api', authenticateApiToken);
 
 (async () => {
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    console.error('Global error handler:', err);
+    logger.error('Unhandled request error', { err });
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
 
@@ -147,7 +130,7 @@ app.use((req, res, next) => {
 
   // Add a catch-all error handler for API routes before vite setup
   app.use("/api/*", (err: any, _req: Request, res: Response, _next: NextFunction) => {
-    console.error('API route error:', err);
+    logger.error('API route error', { err });
     if (!res.headersSent) {
       const status = err.status || err.statusCode || 500;
       const message = err.message || "Internal Server Error";
@@ -183,6 +166,6 @@ app.use((req, res, next) => {
   // Use localhost for dev (Node 24 compatibility), 0.0.0.0 for production
   const host = process.env.NODE_ENV === 'production' ? "0.0.0.0" : "localhost";
   server.listen(port, host, () => {
-    log(`serving on http://${host}:${port}`);
+    logger.info(`serving on http://${host}:${port}`);
   });
 })();
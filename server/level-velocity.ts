@@ -0,0 +1,108 @@
+import type { AccLog, AccLogLevelChange } from "@shared/schema";
+
+// A log still in "Cần up" without a level gained for this long is reported as stuck
+export const STUCK_AFTER_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AccountLevelVelocity {
+  accLogId: number;
+  username: string;
+  currentLv: number;
+  levelsGained: number;
+  levelsPerDay: number;
+  lastLevelUpAt: string | null;
+  // false once the log has been promoted or deleted
+  inProgress: boolean;
+  stuck: boolean;
+}
+
+export interface LevelVelocityReport {
+  days: number;
+  since: string;
+  perDay: Array<{ date: string; levelsGained: number }>;
+  accounts: AccountLevelVelocity[];
+  aggregate: {
+    levelsGained: number;
+    levelsPerDay: number;
+    activeAccounts: number;
+    stuckAccounts: number;
+  };
+}
+
+function levelsGainedBy(change: AccLogLevelChange): number {
+  return change.fromLv === null ? 0 : Math.max(0, change.toLv - change.fromLv);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Summarise levelling speed over the last `days` days from the level history.
+ * Per-account speed is measured from when the log was first seen in the window
+ * (its creation, or the window start for older logs).
+ */
+export function buildLevelVelocity(history: AccLogLevelChange[], logs: AccLog[], days: number, now = new Date()): LevelVelocityReport {
+  const windowStart = new Date(now.getTime() - days * DAY_MS);
+  const since = windowStart.toISOString();
+  const stuckCutoff = new Date(now.getTime() - STUCK_AFTER_DAYS * DAY_MS).toISOString();
+
+  const perDay = new Map<string, number>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    perDay.set(new Date(now.getTime() - offset * DAY_MS).toISOString().slice(0, 10), 0);
+  }
+
+  const byLog = new Map<number, AccLogLevelChange[]>();
+  for (const change of history) {
+    if (change.recordedAt < since) continue;
+    const day = change.recordedAt.slice(0, 10);
+    if (perDay.has(day)) {
+      perDay.set(day, (perDay.get(day) ?? 0) + levelsGainedBy(change));
+    }
+    const changes = byLog.get(change.accLogId) ?? [];
+    changes.push(change);
+    byLog.set(change.accLogId, changes);
+  }
+
+  const currentLogs = new Map(logs.map((log) => [log.id, log]));
+  const logIds = Array.from(new Set([...logs.map((log) => log.id), ...Array.from(byLog.keys())]));
+
+  const accounts = logIds.map((accLogId): AccountLevelVelocity => {
+    const changes = byLog.get(accLogId) ?? [];
+    const log = currentLogs.get(accLogId);
+    const created = changes.find((change) => change.fromLv === null);
+    const trackedFrom = created ? created.recordedAt : since;
+    const trackedDays = Math.max(1, (now.getTime() - new Date(trackedFrom).getTime()) / DAY_MS);
+    const levelsGained = changes.reduce((sum, change) => sum + levelsGainedBy(change), 0);
+    const levelUps = changes.filter((change) => levelsGainedBy(change) > 0);
+    const lastLevelUpAt = levelUps.length > 0 ? levelUps[levelUps.length - 1].recordedAt : null;
+    const lastChange = changes[changes.length - 1];
+
+    return {
+      accLogId,
+      username: log?.username ?? lastChange.username,
+      currentLv: log?.lv ?? lastChange.toLv,
+      levelsGained,
+      levelsPerDay: round(levelsGained / trackedDays),
+      lastLevelUpAt,
+      inProgress: Boolean(log),
+      stuck: Boolean(log) && trackedFrom <= stuckCutoff && (lastLevelUpAt === null || lastLevelUpAt <= stuckCutoff),
+    };
+  });
+  accounts.sort((a, b) => b.levelsPerDay - a.levelsPerDay || b.levelsGained - a.levelsGained || a.accLogId - b.accLogId);
+
+  const levelsGained = accounts.reduce((sum, account) => sum + account.levelsGained, 0);
+  return {
+    days,
+    since,
+    perDay: Array.from(perDay.entries()).map(([date, gained]) => ({ date, levelsGained: gained })),
+    accounts,
+    aggregate: {
+      levelsGained,
+      levelsPerDay: round(levelsGained / days),
+      activeAccounts: accounts.filter((account) => account.levelsGained > 0).length,
+      stuckAccounts: accounts.filter((account) => account.stuck).length,
+    },
+  };
+}
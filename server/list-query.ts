@@ -0,0 +1,125 @@
+import { TAG_FILTER_UNASSIGNED, type ListPage, type ListQuery, type ListSortField } from "@shared/schema";
+
+// Position after the last row of a page: its sort value and id (the tie-breaker)
+export interface ListCursor {
+  value: string | number;
+  id: number;
+}
+
+export type StorageListQuery = Omit<ListQuery, "cursor"> & { cursor?: ListCursor };
+
+interface ListRecord {
+  id: number;
+  username: string;
+  lv: number;
+  status: boolean;
+  updatedAt: string;
+  state?: string;
+}
+
+export function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString("base64url");
+}
+
+// Returns null for anything that was not produced by encodeCursor
+export function decodeCursor(raw: string): ListCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      (typeof parsed[0] === "string" || typeof parsed[0] === "number") &&
+      Number.isInteger(parsed[1])
+    ) {
+      return { value: parsed[0], id: parsed[1] };
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+export function sortValueOf(record: Pick<ListRecord, ListSortField>, sort: ListSortField): string | number {
+  return record[sort];
+}
+
+function matchesListQuery(record: ListRecord, query: StorageListQuery, tagIds: number[]): boolean {
+  if (query.ids && !query.ids.includes(record.id)) return false;
+  if (query.status === "on" && !record.status) return false;
+  if (query.status === "off" && record.status) return false;
+  if (query.state && record.state !== query.state) return false;
+  if (query.minLv !== undefined && record.lv < query.minLv) return false;
+  if (query.maxLv !== undefined && record.lv > query.maxLv) return false;
+
+  if (query.updatedFrom || query.updatedTo) {
+    const updatedAt = new Date(record.updatedAt).getTime();
+    if (query.updatedFrom && updatedAt < new Date(query.updatedFrom).getTime()) return false;
+    if (query.updatedTo && updatedAt > new Date(query.updatedTo).getTime()) return false;
+  }
+
+  if (query.tags === TAG_FILTER_UNASSIGNED) {
+    if (tagIds.length > 0) return false;
+  } else if (query.tags) {
+    const matches = query.tagMatch === "all"
+      ? query.tags.every((id) => tagIds.includes(id))
+      : query.tags.some((id) => tagIds.includes(id));
+    if (!matches) return false;
+  }
+
+  if (query.search && !record.username.toLowerCase().includes(query.search.toLowerCase())) return false;
+  return true;
+}
+
+function compareBy(sort: ListSortField, a: ListRecord, b: ListRecord): number {
+  const left = sortValueOf(a, sort);
+  const right = sortValueOf(b, sort);
+  if (left < right) return -1;
+  if (left > right) return 1;
+  return a.id - b.id;
+}
+
+/**
+ * In-memory equivalent of the SQL listing in DatabaseStorage: filter, sort with id as
+ * tie-breaker, then page by offset or by keyset cursor. `tagIdsOf` supplies the tags of
+ * records that can be tagged.
+ */
+export function applyListQuery<T extends ListRecord>(
+  records: T[],
+  query: StorageListQuery,
+  tagIdsOf: (record: T) => number[] = () => [],
+): ListPage<T> {
+  const direction = query.order === "asc" ? 1 : -1;
+  const matched = records
+    .filter((record) => matchesListQuery(record, query, tagIdsOf(record)))
+    .sort((a, b) => direction * compareBy(query.sort, a, b));
+
+  if (query.pageSize === undefined && query.page === undefined && !query.cursor) {
+    return { items: matched, total: matched.length, page: null, pageSize: matched.length, nextCursor: null };
+  }
+
+  const pageSize = query.pageSize ?? 50;
+  let start = 0;
+  if (query.cursor) {
+    const cursor = query.cursor;
+    const index = matched.findIndex((record) => {
+      const value = sortValueOf(record, query.sort);
+      const comparison = value < cursor.value ? -1 : value > cursor.value ? 1 : record.id - cursor.id;
+      return direction * comparison > 0;
+    });
+    start = index === -1 ? matched.length : index;
+  } else {
+    start = ((query.page ?? 1) - 1) * pageSize;
+  }
+
+  const items = matched.slice(start, start + pageSize);
+  const last = items[items.length - 1];
+  return {
+    items,
+    total: matched.length,
+    page: query.cursor ? null : query.page ?? 1,
+    pageSize,
+    nextCursor: last && start + pageSize < matched.length
+      ? encodeCursor({ value: sortValueOf(last, query.sort), id: last.id })
+      : null,
+  };
+}
@@ -0,0 +1,119 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+// Structured logging: one JSON object per line in production, a readable line in development.
+// Every entry logged while handling a request carries that request's id.
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+type LogFields = Record<string, unknown>;
+
+// Field names whose values never reach the logs, at any depth (sessionId, sessionName etc. are kept)
+const REDACTED_KEY_PATTERN = /^(.*password|passwd|sess|session|cookies?|set-cookie|authorization|.*secret|.*token|credentials?)$/i;
+const REDACTED = "[redacted]";
+const MAX_DEPTH = 6;
+const REQUEST_ID_HEADER = "x-request-id";
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+function parseLevel(value: string | undefined): LogLevel | undefined {
+  return LOG_LEVELS.find((level) => level === value?.toLowerCase());
+}
+
+const isProduction = process.env.NODE_ENV === "production";
+const minLevel = parseLevel(process.env.LOG_LEVEL) ?? (isProduction ? "info" : "debug");
+const useJson = process.env.LOG_FORMAT ? process.env.LOG_FORMAT === "json" : isProduction;
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[truncated]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  const result: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = REDACTED_KEY_PATTERN.test(key) ? REDACTED : redact(item, depth + 1);
+  }
+  return result;
+}
+
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) {
+    return;
+  }
+  const requestId = getRequestId();
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...(requestId ? { requestId } : {}),
+    ...(redact(fields) as LogFields),
+  };
+  const stream = level === "error" || level === "warn" ? process.stderr : process.stdout;
+
+  if (useJson) {
+    stream.write(`${JSON.stringify(entry)}\n`);
+    return;
+  }
+  const { time, level: _level, msg: _msg, requestId: _requestId, ...rest } = entry as LogFields;
+  const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : "";
+  stream.write(`${time} ${level.toUpperCase()}${requestId ? ` [${requestId}]` : ""} ${message}${extra}\n`);
+}
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Logger whose entries all carry `bindings`, e.g. { module: "storage" }
+  child(bindings: LogFields): Logger;
+}
+
+function createLogger(bindings: LogFields): Logger {
+  const at = (level: LogLevel) => (message: string, fields: LogFields = {}) => write(level, message, { ...bindings, ...fields });
+  return {
+    debug: at("debug"),
+    info: at("info"),
+    warn: at("warn"),
+    error: at("error"),
+    child: (more) => createLogger({ ...bindings, ...more }),
+  };
+}
+
+export const logger = createLogger({});
+
+// Give every request an id (reusing a well-formed X-Request-Id from the proxy), echo it in the
+// response and log the request once it finishes. Bodies are never logged.
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.header(REQUEST_ID_HEADER);
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  const start = Date.now();
+  res.on("finish", () => {
+    if (!req.path.startsWith("/api")) return;
+    const level: LogLevel = res.statusCode >= 500 ? "error" : res.statusCode >= 400 ? "warn" : "info";
+    // Listeners run outside the request's async context, so enter it again
+    requestContext.run({ requestId }, () => write(level, `${req.method} ${req.path} ${res.statusCode}`, {
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      durationMs: Date.now() - start,
+      userId: req.apiToken?.userId ?? req.session?.userId,
+    }));
+  });
+  requestContext.run({ requestId }, next);
+}
@@ -0,0 +1,8 @@
+import bcrypt from "bcrypt";
+
+const BCRYPT_ROUNDS = 12;
+
+// Hashes are checked with bcrypt.compare in POST /api/login
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
@@ -0,0 +1,52 @@
+import type { Account, AccountTagRef, LiveSession, PricingRule, PriceSource } from "@shared/schema";
+
+export type PricedAccount = Account & { tags: Pick<AccountTagRef, "name">[] };
+
+export interface ResolvedPrice {
+  price: number;
+  source: PriceSource;
+  rule: PricingRule | null;
+}
+
+function countSkins(skins: string): number {
+  try {
+    const parsed = JSON.parse(skins);
+    return Array.isArray(parsed) ? parsed.length : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function ruleMatches(rule: PricingRule, account: PricedAccount, skinCount: number): boolean {
+  const level = Number(account.lv ?? 0);
+  if (rule.minLevel !== null && level < rule.minLevel) return false;
+  if (rule.maxLevel !== null && level > rule.maxLevel) return false;
+  if (rule.minSkins !== null && skinCount < rule.minSkins) return false;
+  if (rule.maxSkins !== null && skinCount > rule.maxSkins) return false;
+  // A tag rule matches when any of the account's tags has the rule's tag name
+  if (rule.tag !== null) {
+    const ruleTag = rule.tag.trim().toLowerCase();
+    if (!account.tags.some((tag) => tag.name.toLowerCase() === ruleTag)) return false;
+  }
+  return true;
+}
+
+/**
+ * Resolve the sale price of an account within a live session.
+ * Order: manual account override, then the highest-priority matching rule
+ * (ties go to the rule created first), then the session flat price.
+ */
+export function resolveAccountPrice(account: PricedAccount, session: LiveSession, rules: PricingRule[]): ResolvedPrice {
+  if (account.priceOverride !== null && account.priceOverride !== undefined) {
+    return { price: account.priceOverride, source: "override", rule: null };
+  }
+
+  const skinCount = countSkins(account.skins);
+  const ordered = [...rules].sort((a, b) => b.priority - a.priority || a.id - b.id);
+  const matched = ordered.find((rule) => ruleMatches(rule, account, skinCount));
+  if (matched) {
+    return { price: matched.price, source: "rule", rule: matched };
+  }
+
+  return { price: session.pricePerAccount, source: "session", rule: null };
+}
@@ -1,21 +1,218 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { Server as SocketIOServer } from "socket.io";
 import { storage } from "./storage";
-import { insertAccountSchema, updateAccountSchema, updateAccountTagSchema, insertUserSchema, insertAccLogSchema, updateAccLogSchema, insertLiveSessionSchema, updateAccountDetailsSchema, insertCloneRegSchema, updateCloneRegDetailsSchema } from "@shared/schema";
-import { isAuthenticated } from "./auth";
-import { authLimiter, ALLOWED_ORIGINS } from "./index";
+import { insertAccountSchema, updateAccountSchema, updateAccountTagsSchema, insertTagSchema, updateTagSchema, mergeTagsSchema, insertUserSchema, insertAccLogSchema, updateAccLogSchema, insertLiveSessionSchema, updateAccountDetailsSchema, insertCloneRegSchema, updateCloneRegDetailsSchema, insertPricingRuleSchema, insertBuyerSchema, orderBuyerSchema, updateAccountStateSchema, reserveAccountSchema, updateAccLogLevelSchema, autoPromoteSettingSchema, listQuerySchema, revealPasswordsSchema, createUserSchema, updateUserSchema, resetUserPasswordSchema, changeOwnPasswordSchema, totpLoginSchema, totpSetupSchema, totpEnableSchema, totpConfirmSchema, createApiTokenSchema, createImportJobSchema, bulkInsertModeSchema, importExistingActionSchema, validateImportSchema, importBatchQuerySchema, isImportJobFinished, auditQuerySchema, ACCOUNT_STATE_TRANSITIONS, MASKED_PASSWORD, accountStatusForState, roleHasPermission, type Account, type AccountStateTransitionResult, type AccountTagRef, type ApiToken, type ApiTokenInfo, type AuditEntity, type AuditRecordChange, type AccountState, type BulkInsertConflict, type BulkInsertOptions, type BulkInsertPlan, type BulkInsertResult, type ImportBatch, type ImportBatchRollbackResult, type ImportBatchSource, type ImportBatchStatus, type ImportExistingAction, type ImportJob, type ImportJobEntity, type ImportValidationResult, type ImportValidationRow, type AccLog, type AccLogPromotionResult, type CreatedApiToken, type ImportJobUpdate, type ImportRowError, type OrderBuyerInput, type LiveSession, type LiveSessionStatus, type PublicUser, type RevealedPassword, type Session, type SessionInfo, type TotpChallenge, type TotpSetup, type TotpStatus, type User } from "@shared/schema";
+import { currentUserId, isAuthenticated, requirePermission, requireSession, toAuthUser } from "./auth";
+import { hashPassword } from "./password";
+import { consumeRecoveryCode, countRecoveryCodes, generateRecoveryCodes, generateTotpSecret, totpUri, verifyTotp } from "./totp";
+import { diffRecord, diffRecords } from "./audit";
+import { generateApiToken } from "./api-tokens";
+import { ImportJobQueue } from "./import-jobs";
+import { logger } from "./logger";
+import { resolveAccountPrice } from "./pricing";
+import { buildLevelVelocity } from "./level-velocity";
+import { decodeCursor, type StorageListQuery } from "./list-query";
+import { authLimiter, ALLOWED_ORIGINS, sessionMiddleware, sessionStore } from "./index";
+import { apiTokenRoom, authenticateSocket, entityRoom, joinIdentityRooms, sessionRoom, subscribeToEntities, userRoom, type SocketIdentity } from "./socket-auth";
+import { sessionPublicId } from "./session-store";
 import bcrypt from "bcrypt";
 import multer from "multer";
 import { z } from "zod";
 
-// Account lockout tracking
-const loginAttempts = new Map<string, { count: number; lastAttempt: Date }>();
+const log = logger.child({ module: "routes" });
+const socketLog = logger.child({ module: "socket.io" });
+
+// Account lockout: failed passwords and TOTP codes both count, per username
 const MAX_LOGIN_ATTEMPTS = 5;
 const LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+// Time allowed between the password step and the TOTP step of a login
+const TOTP_LOGIN_WINDOW_MS = 5 * 60 * 1000;
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+const INVALID_CURSOR_MESSAGE = "Cursor không hợp lệ";
+const TAG_NAME_TAKEN_MESSAGE = "Tên tag đã tồn tại";
+const ACCOUNT_DISABLED_MESSAGE = "Tài khoản đã bị vô hiệu hóa";
+const USERNAME_TAKEN_MESSAGE = "Tên đăng nhập đã tồn tại";
+const INVALID_CREDENTIALS_MESSAGE = "Tên đăng nhập hoặc mật khẩu không đúng";
+const WRONG_CURRENT_PASSWORD_MESSAGE = "Mật khẩu hiện tại không đúng";
+const INVALID_TOTP_MESSAGE = "Mã xác thực không đúng";
+const TOTP_LOGIN_EXPIRED_MESSAGE = "Phiên đăng nhập đã hết hạn, vui lòng nhập lại mật khẩu";
+const TOTP_ALREADY_ENABLED_MESSAGE = "Xác thực hai lớp đã được bật";
+const TOTP_NOT_ENABLED_MESSAGE = "Xác thực hai lớp chưa được bật";
+const IMPORT_BATCH_ROLLED_BACK_MESSAGE = "Lần import này đã được hoàn tác";
+const IMPORT_BATCH_RUNNING_MESSAGE = "Lần import này vẫn đang chạy";
+
+class InvalidCursorError extends Error {}
+
+function toPublicUser({ password: _password, totpSecret: _totpSecret, totpRecoveryCodes: _recoveryCodes, totpLastStep: _lastStep, ...user }: User): PublicUser {
+  return user;
+}
+
+// Minutes left on a lockout, or 0. An expired lockout is cleared so counting starts over.
+async function lockoutMinutesLeft(attemptKey: string): Promise<number> {
+  const attempt = await storage.getLoginAttempt(attemptKey);
+  if (!attempt) {
+    return 0;
+  }
+  const timeSinceLast = Date.now() - new Date(attempt.lastFailedAt).getTime();
+  if (timeSinceLast >= LOCKOUT_DURATION_MS) {
+    await storage.clearLoginAttempts(attemptKey);
+    return 0;
+  }
+  return attempt.failedCount >= MAX_LOGIN_ATTEMPTS ? Math.ceil((LOCKOUT_DURATION_MS - timeSinceLast) / 60000) : 0;
+}
+
+function sendLockedOut(res: Response, minutesLeft: number) {
+  res.status(429).json({ message: `Tài khoản bị khóa tạm thời. Vui lòng thử lại sau ${minutesLeft} phút` });
+}
+
+// Start the signed-in session, saving it before responding so the cookie is set
+function completeLogin(req: Request, res: Response, user: User) {
+  delete req.session.pendingTotp;
+  req.session.userId = user.id;
+  req.session.client = { ip: req.ip ?? null, userAgent: req.get("user-agent") ?? null };
+  req.session.save((err) => {
+    if (err) {
+      log.error("Session save error", { err });
+      return res.status(500).json({ message: "Không thể lưu session" });
+    }
+    log.info("User logged in", { userId: user.id });
+    res.json(toAuthUser(user));
+  });
+}
+
+function toApiTokenInfo({ tokenHash: _tokenHash, ...token }: ApiToken): ApiTokenInfo {
+  return token;
+}
+
+function toSessionInfo(session: Session, currentSid: string): SessionInfo {
+  return {
+    id: sessionPublicId(session.sid),
+    ip: session.ip,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.sid === currentSid,
+  };
+}
+
+// Check a code from the authenticator app or a recovery code, and use it up: the TOTP
+// step cannot be replayed and the recovery code is removed. null when it does not match.
+async function useSecondFactor(user: User, code: string): Promise<"totp" | "recovery" | null> {
+  if (!user.totpEnabled || !user.totpSecret) {
+    return null;
+  }
+  if (/^\d{6}$/.test(code)) {
+    const step = verifyTotp(user.totpSecret, code, user.totpLastStep);
+    if (step === null) {
+      return null;
+    }
+    await storage.updateUser(user.id, { totpLastStep: step });
+    return "totp";
+  }
+  const remaining = consumeRecoveryCode(user.totpRecoveryCodes, code);
+  if (remaining === null) {
+    return null;
+  }
+  await storage.updateUser(user.id, { totpRecoveryCodes: remaining });
+  return "recovery";
+}
+
+async function countActiveOwners(): Promise<number> {
+  const allUsers = await storage.getUsers();
+  return allUsers.filter((user) => user.role === "owner" && !user.disabled).length;
+}
+
+interface AuditInput {
+  action: string;
+  entity: AuditEntity;
+  changes?: AuditRecordChange[];
+  // Defaults to the ids of the changes
+  entityIds?: Array<number | string>;
+  metadata?: Record<string, unknown>;
+}
+
+// Append a mutation to the audit log. req = null for changes the server makes on its own.
+// Nothing is written when no record was touched, and a failed write never fails the request
+async function recordAudit(req: Request | null, { action, entity, changes = [], entityIds, metadata }: AuditInput) {
+  const ids = entityIds ?? changes.map((change) => change.id);
+  if (ids.length === 0) {
+    return;
+  }
+  try {
+    await storage.createAuditEvent({
+      actorId: req ? currentUserId(req) ?? null : null,
+      action,
+      entity,
+      entityIds: ids,
+      changes,
+      // Changes made by a script show which of the user's tokens it used
+      metadata: req?.apiToken ? { ...metadata, apiTokenId: req.apiToken.id } : metadata ?? null,
+    });
+  } catch (error) {
+    log.error("Error recording audit event", { action, err: error });
+  }
+}
+
+// MemoryStorage updates records in place, so keep a copy of a record before changing it
+function snapshot<T extends object>(record: T | undefined): T | undefined {
+  return record ? { ...record } : undefined;
+}
+
+// Accounts, acc logs and clonereg rows leave the server with their password masked; the reveal
+// routes are the only way to read one, and they are audited
+function maskPassword<T extends { password: string }>(record: T): T {
+  return { ...record, password: MASKED_PASSWORD };
+}
+
+function maskPasswords<T extends { password: string }>(records: T[]): T[] {
+  return records.map(maskPassword);
+}
+
+// Passwords of the given accounts or acc logs; ids that do not exist are left out
+async function findPasswords(entity: "account" | "acclog", ids: number[]): Promise<RevealedPassword[]> {
+  const query: StorageListQuery = { ...parseListQuery({}), ids };
+  const { items } = entity === "account" ? await storage.queryAccounts(query) : await storage.queryAccLogs(query);
+  return items.map(({ id, username, password }) => ({ id, username, password }));
+}
+
+function accountStateChanges(result: AccountStateTransitionResult): AuditRecordChange[] {
+  return result.updated.map(({ account, from }) => ({
+    id: account.id,
+    before: { state: from },
+    after: { state: account.state },
+  }));
+}
+
+// Parse list filters from the query string; throws ZodError or InvalidCursorError
+function parseListQuery(query: Request["query"]): StorageListQuery {
+  const { cursor, ...rest } = listQuerySchema.parse(query);
+  if (cursor === undefined) {
+    return rest;
+  }
+  const decoded = decodeCursor(cursor);
+  if (!decoded) {
+    throw new InvalidCursorError(INVALID_CURSOR_MESSAGE);
+  }
+  return { ...rest, cursor: decoded };
+}
+
+function isPagedQuery(query: StorageListQuery): boolean {
+  return query.page !== undefined || query.pageSize !== undefined || query.cursor !== undefined;
+}
+
+function sendListError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ message: "Invalid data", errors: error.errors });
+  } else if (error instanceof InvalidCursorError) {
+    res.status(400).json({ message: error.message });
+  } else {
+    res.status(500).json({ message: fallback });
+  }
+}
+
 function normalizeLevelField<T>(input: T): T {
   if (Array.isArray(input)) {
     return input.map((item) => normalizeLevelField(item)) as unknown as T;
@@ -51,55 +248,185 @@ function extractRecordsFromFile(fileContent: string) {
   return JSON.parse(jsonContent);
 }
 
-async function processImportRecords<T, I extends { username: string; password: string }>(
-  records: unknown[],
-  parseRecord: (record: unknown) => I,
-  createRecord: (data: I) => Promise<T>,
-  options?: { existingUsernames?: Set<string>; normalizeUsername?: (u: string) => string }
-) {
-  const createdRecords: T[] = [];
-  const errors: Array<{ account: unknown; error: string }> = [];
-  const seenUsernames = new Set<string>();
-  const existing = options?.existingUsernames ?? new Set<string>();
-  const normalize = options?.normalizeUsername ?? ((u: string) => u);
+const BULK_CONFLICT_MESSAGES: Record<BulkInsertConflict["reason"], string> = {
+  duplicate_in_batch: 'Tên tài khoản trùng lặp trong file',
+  already_exists: 'Tên tài khoản đã tồn tại trong database',
+};
 
-  for (const record of records) {
-    try {
-      const validated = parseRecord(record);
-      const normalizedUsername = normalize(validated.username);
+const DEFAULT_IMPORT_OPTIONS: BulkInsertOptions = { mode: "skip_invalid", onExisting: "skip" };
 
-      // Skip if username already seen in this file
-      if (seenUsernames.has(normalizedUsername)) {
-        errors.push({ account: record, error: 'Tên tài khoản trùng lặp trong file' });
-        continue;
-      }
-      // Skip if username already exists in database
-      if (existing.has(normalizedUsername)) {
-        errors.push({ account: record, error: 'Tên tài khoản đã tồn tại trong database' });
-        continue;
-      }
-      seenUsernames.add(normalizedUsername);
+type ImportRecordError = { account: unknown; error: string; index: number };
+
+// Runs each record through the import schema; `index` is the record's position in `records`
+function parseImportRecords<I>(records: unknown[], parseRecord: (record: unknown) => I) {
+  const errors: ImportRecordError[] = [];
+  const valid: Array<{ data: I; index: number }> = [];
 
-      const created = await createRecord({ ...(validated as any), username: normalizedUsername });
-      createdRecords.push(created);
-      // Mark as existing to prevent duplicates within the same import session
-      existing.add(normalizedUsername);
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index];
+    try {
+      valid.push({ data: parseRecord(record), index });
     } catch (error) {
       let errorMessage = 'Lỗi không xác định';
-      if (error instanceof Error) {
-        if (error.message.includes('unique')) {
-          errorMessage = 'Tên tài khoản đã tồn tại trong database';
-        } else {
-          errorMessage = error.message;
-        }
+      if (error instanceof z.ZodError) {
+        errorMessage = error.errors.map((issue) => `${issue.path.join('.') || 'record'}: ${issue.message}`).join('; ');
+      } else if (error instanceof Error) {
+        errorMessage = error.message;
       }
-      errors.push({ account: record, error: errorMessage });
+      errors.push({ account: record, error: errorMessage, index });
     }
   }
+  return { valid, errors };
+}
+
+// Validates every record, then writes the valid ones with one bulk insert. In "all_or_nothing"
+// mode a single invalid or conflicting record means nothing is written.
+async function processImportRecords<T, I extends { username: string; password: string }>(
+  records: unknown[],
+  parseRecord: (record: unknown) => I,
+  createRecords: (data: I[], options: BulkInsertOptions) => Promise<BulkInsertResult<T>>,
+  options: BulkInsertOptions = DEFAULT_IMPORT_OPTIONS
+) {
+  const { valid, errors } = parseImportRecords(records, parseRecord);
+
+  if (valid.length === 0 || (options.mode === "all_or_nothing" && errors.length > 0)) {
+    return { createdRecords: [] as T[], updatedRecords: [] as T[], errors };
+  }
 
-  return { createdRecords, errors };
+  const { created, updated, conflicts } = await createRecords(valid.map((item) => item.data), options);
+  conflicts.forEach((conflict) => {
+    const index = valid[conflict.index].index;
+    errors.push({ account: records[index], error: BULK_CONFLICT_MESSAGES[conflict.reason], index });
+  });
+  errors.sort((a, b) => a.index - b.index);
+
+  return { createdRecords: created, updatedRecords: updated, errors };
 }
 
+// Dry run of processImportRecords: what would happen to each record, with nothing written
+async function validateImportRecords<I extends { username: string; password: string }>(
+  records: unknown[],
+  parseRecord: (record: unknown) => I,
+  planRecords: (data: I[], onExisting: ImportExistingAction) => Promise<BulkInsertPlan>,
+  options: BulkInsertOptions
+): Promise<ImportValidationResult> {
+  const { valid, errors } = parseImportRecords(records, parseRecord);
+  const plan = valid.length > 0
+    ? await planRecords(valid.map((item) => item.data), options.onExisting)
+    : { create: [], update: [], conflicts: [] };
+
+  const rows: ImportValidationRow[] = records.map((record, index) => {
+    const username = (record as { username?: unknown } | null)?.username;
+    return { index, username: typeof username === "string" ? username.trim() : null, action: "skip", error: null };
+  });
+  errors.forEach(({ index, error }) => {
+    rows[index].error = error;
+  });
+  plan.create.forEach((position) => {
+    rows[valid[position].index].action = "new";
+  });
+  plan.update.forEach((position) => {
+    rows[valid[position].index].action = "update";
+  });
+  plan.conflicts.forEach((conflict) => {
+    rows[valid[conflict.index].index].error = BULK_CONFLICT_MESSAGES[conflict.reason];
+  });
+
+  const counts: ImportValidationResult["counts"] = { new: 0, update: 0, skip: 0 };
+  rows.forEach((row) => {
+    counts[row.action] += 1;
+  });
+  return { rows, counts, committable: options.mode !== "all_or_nothing" || counts.skip === 0 };
+}
+
+// Failed rows as reported by import jobs: no passwords, positions counted over the whole job
+function toImportRowErrors(errors: ImportRecordError[], offset: number): ImportRowError[] {
+  return errors.map(({ account, error, index }) => {
+    const username = (account as { username?: unknown } | null)?.username;
+    return { row: offset + index + 1, username: typeof username === "string" ? username : null, error };
+  });
+}
+
+// Opens the history entry of an import; its id is stamped on the rows the import creates
+function openImportBatch(req: Request, entity: ImportJobEntity, source: ImportBatchSource, sourceName: string | null): Promise<ImportBatch> {
+  return storage.createImportBatch({ entity, source, sourceName, createdBy: currentUserId(req)! });
+}
+
+// Runs the writes of a synchronous import. If they throw, the history entry is closed as failed
+// (with whatever rows were created) instead of staying "running".
+async function runInImportBatch<T>(batch: ImportBatch, run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    await storage.abortImportBatches("failed", batch.id).catch((abortError) => {
+      log.error("Error closing failed import batch", { importBatchId: batch.id, err: abortError });
+    });
+    throw error;
+  }
+}
+
+// Import jobs only call finish once they have stopped
+function importBatchStatus(job: ImportJob): ImportBatchStatus {
+  return job.status === "queued" || job.status === "running" ? "failed" : job.status;
+}
+
+// Batches still "running" when the server starts were cut off by the last shutdown
+async function closeInterruptedImportBatches() {
+  try {
+    const closed = await storage.abortImportBatches("interrupted");
+    if (closed > 0) log.warn("Closed import batches interrupted by a restart", { count: closed });
+  } catch (error) {
+    log.error("Error closing interrupted import batches", { err: error });
+  }
+}
+
+// Deletes the rows an import created and records it. Rows the import only updated stay as they are,
+// and so do created accounts that were sold, held or returned since; those come back as kept.
+async function rollbackImportBatch(req: Request, res: Response, entity: ImportJobEntity) {
+  try {
+    const id = parseInt(req.params.id);
+    const existing = await storage.getImportBatch(id);
+    if (!existing || existing.entity !== entity) {
+      return res.status(404).json({ message: "Import batch not found" });
+    }
+    if (existing.status === "running") {
+      return res.status(409).json({ message: IMPORT_BATCH_RUNNING_MESSAGE });
+    }
+    const result = existing.rolledBackAt ? undefined : await storage.rollbackImportBatch(id, currentUserId(req)!);
+    if (!result) {
+      return res.status(409).json({ message: IMPORT_BATCH_ROLLED_BACK_MESSAGE });
+    }
+    const auditEntity = entity === "accounts" ? "account" : "acclog";
+    await recordAudit(req, {
+      action: `${auditEntity}.import_rollback`,
+      entity: auditEntity,
+      changes: diffRecords(result.deleted, []),
+      metadata: { importBatchId: id, source: existing.source, sourceName: existing.sourceName, deleted: result.deleted.length, kept: result.kept },
+    });
+    const response: ImportBatchRollbackResult = { batch: result.batch, deleted: result.deleted.length, kept: result.kept };
+    res.json(response);
+  } catch (error) {
+    log.error("Error rolling back import batch", { batchId: req.params.id, err: error });
+    res.status(500).json({ message: "Failed to roll back import batch" });
+  }
+}
+
+const importJobs = new ImportJobQueue((job, errors) => {
+  const update: ImportJobUpdate = { job, errors };
+  // Progress goes to whoever started the job; the final update also tells everyone watching
+  // the list to reload it
+  const rooms = isImportJobFinished(job) ? [userRoom(job.createdBy), entityRoom(job.entity)] : [userRoom(job.createdBy)];
+  io?.to(rooms).emit("import-job-updated", update);
+});
+
+// Allowed live session transitions, keyed by route action
+const LIVE_SESSION_TRANSITIONS: Record<string, { from: LiveSessionStatus[]; to: LiveSessionStatus }> = {
+  pause: { from: ["active"], to: "paused" },
+  resume: { from: ["paused"], to: "active" },
+  end: { from: ["active", "paused"], to: "ended" },
+  reopen: { from: ["ended"], to: "active" },
+};
+
 // Global Socket.IO instance - will be initialized in registerRoutes
 let io: SocketIOServer | null = null;
 
@@ -107,24 +434,241 @@ export function getIO(): SocketIOServer | null {
   return io;
 }
 
+// Close the connections in `room` (but not those in `exceptRoom`), e.g. after a force-logout.
+// The web client connects again and goes through the handshake, which refuses it if the
+// session or token is gone and otherwise picks up the current permissions.
+function disconnectSockets(room: string, exceptRoom?: string) {
+  if (!io) {
+    return;
+  }
+  (exceptRoom ? io.in(room).except(exceptRoom) : io.in(room)).disconnectSockets(true);
+}
+
 // Helper function to emit account status updates
-function emitAccountStatusUpdate(accountIds: number[], status: boolean, entityType: "accounts" | "acclogs" = "accounts") {
+function emitAccountStatusUpdate(accountIds: number[], status: boolean, entityType: "accounts" | "acclogs" = "accounts", state?: AccountState) {
   if (!io) {
-    console.warn(`[Socket.IO] Cannot emit account-status-updated: Socket.IO not initialized yet`);
+    socketLog.warn("Cannot emit account-status-updated: Socket.IO not initialized yet");
     return;
   }
 
-  const connectedClients = io.sockets.sockets.size;
-  console.log(`[Socket.IO] Emitting account-status-updated: ${entityType}, ids: ${accountIds.join(", ")}, status: ${status}, connected clients: ${connectedClients}`);
+  socketLog.debug("Emitting account-status-updated", { entityType, ids: accountIds, status, clients: io.sockets.sockets.size });
 
-  io.emit("account-status-updated", {
+  io.to(entityRoom(entityType)).emit("account-status-updated", {
     entityType,
     accountIds,
     status,
+    ...(state ? { state } : {}),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// Helper function to broadcast holds being placed, released or expired
+function emitAccountHoldUpdate(heldAccounts: Account[], reason: "held" | "released" | "expired") {
+  if (!io || heldAccounts.length === 0) {
+    return;
+  }
+
+  socketLog.debug("Emitting account-hold-updated", { reason, ids: heldAccounts.map((account) => account.id) });
+
+  io.to(entityRoom("accounts")).emit("account-hold-updated", {
+    reason,
+    holds: heldAccounts.map((account) => ({
+      accountId: account.id,
+      heldBy: account.heldBy,
+      heldForBuyerId: account.heldForBuyerId,
+      heldUntil: account.heldUntil,
+    })),
     timestamp: new Date().toISOString(),
   });
+}
+
+// How often expired holds are swept back to "available"
+const HOLD_SWEEP_INTERVAL_MS = 15 * 1000;
+
+async function releaseExpiredHolds() {
+  try {
+    const released = await storage.releaseExpiredHolds(new Date().toISOString());
+    if (released.length === 0) return;
+    log.info("Released expired holds", { ids: released.map((account) => account.id) });
+    await recordAudit(null, {
+      action: "account.hold_expired",
+      entity: "account",
+      changes: released.map((account) => ({ id: account.id, before: { state: "reserved" }, after: { state: account.state } })),
+    });
+    emitAccountStatusUpdate(released.map((account) => account.id), accountStatusForState("available"), "accounts", "available");
+    emitAccountHoldUpdate(released, "expired");
+  } catch (error) {
+    log.error("Error releasing expired holds", { err: error });
+  }
+}
+
+// Settings key of the level at which "cần up" logs move into stock on their own
+const AUTO_PROMOTE_SETTING_KEY = "acclogs.autoPromoteMinLevel";
+
+async function getAutoPromoteMinLevel(): Promise<number | null> {
+  const value = await storage.getAppSetting(AUTO_PROMOTE_SETTING_KEY);
+  const minLevel = value === null ? NaN : parseInt(value, 10);
+  return Number.isFinite(minLevel) ? minLevel : null;
+}
+
+// Move acc logs into stock and tell every client to refresh both tabs
+async function promoteAccLogs(req: Request, ids: number[], auto: boolean): Promise<AccLogPromotionResult> {
+  const result = await storage.promoteAccLogs(ids);
+  await recordAudit(req, {
+    action: auto ? "acclog.auto_promote" : "acclog.promote",
+    entity: "acclog",
+    changes: result.promoted.map(({ accLogId, account }) => ({ id: accLogId, before: null, after: { accountId: account.id, username: account.username, lv: account.lv } })),
+  });
+  if (result.promoted.length > 0) {
+    log.info(auto ? "Auto-promoted acc logs" : "Promoted acc logs", {
+      promoted: result.promoted.map((item) => ({ accLogId: item.accLogId, accountId: item.account.id })),
+    });
+    io?.to([entityRoom("acclogs"), entityRoom("accounts")]).emit("acclogs-promoted", {
+      accLogIds: result.promoted.map((item) => item.accLogId),
+      accountIds: result.promoted.map((item) => item.account.id),
+      auto,
+      timestamp: new Date().toISOString(),
+    });
+  }
+  return result;
+}
+
+// Promote the logs that reached the auto-promote level; returns how many were moved
+async function autoPromoteAccLogs(req: Request, candidates: AccLog[]): Promise<number> {
+  try {
+    const minLevel = await getAutoPromoteMinLevel();
+    if (minLevel === null) return 0;
+    const ids = candidates.filter((log) => log.lv >= minLevel).map((log) => log.id);
+    if (ids.length === 0) return 0;
+    const result = await promoteAccLogs(req, ids, true);
+    return result.promoted.length;
+  } catch (error) {
+    log.error("Error auto-promoting acc logs", { err: error });
+    // The log itself was saved; it can still be promoted by hand
+    return 0;
+  }
+}
+
+// Holds carry an operator and an expiry, so "reserved" is only reachable through the reserve endpoint
+const RESERVE_VIA_HOLD_MESSAGE = "Dùng chức năng giữ account (POST /api/accounts/:id/reserve) để chuyển sang trạng thái đang giữ";
+
+// Validate the buyer of a sale before any status is changed
+async function validateOrderBuyer(buyer: OrderBuyerInput | undefined): Promise<string | null> {
+  if (buyer?.buyerId !== undefined && !(await storage.getBuyer(buyer.buyerId))) {
+    return "Không tìm thấy người mua";
+  }
+  return null;
+}
+
+// Create the order grouping the accounts sold to a buyer (creating the buyer when only a name is given)
+async function createOrderForSale(session: LiveSession, buyer: OrderBuyerInput) {
+  const buyerId = buyer.buyerId ?? (await storage.createBuyer({
+    name: buyer.name!,
+    contact: buyer.contact || null,
+    note: null,
+  })).id;
+  const order = await storage.createOrder({ buyerId, sessionId: session.id, note: buyer.note || null });
+  log.info("Created order", { orderId: order.id, buyerId, sessionId: session.id });
+  return order;
+}
+
+// Book one sale per account at the price resolved from overrides and the session's pricing rules
+async function bookRevenueForAccounts(session: LiveSession, soldAccounts: Account[], buyer?: OrderBuyerInput) {
+  if (soldAccounts.length === 0) return;
+  const rules = await storage.getPricingRules(session.id);
+  const order = buyer ? await createOrderForSale(session, buyer) : null;
+  const tagRefs = await storage.getAccountTagRefs(soldAccounts.map((account) => account.id));
+  const created = await storage.createRevenueRecords(soldAccounts.map((account) => {
+    const resolved = resolveAccountPrice({ ...account, tags: tagRefs.get(account.id) ?? [] }, session, rules);
+    return {
+      sessionId: session.id,
+      accountId: account.id,
+      pricePerAccount: resolved.price,
+      revenue: resolved.price,
+      priceSource: resolved.source,
+      pricingRuleId: resolved.rule?.id ?? null,
+      pricingRuleName: resolved.rule?.name ?? null,
+      orderId: order?.id ?? null,
+    };
+  }));
+  log.info("Created revenue records", {
+    sessionId: session.id,
+    orderId: order?.id ?? null,
+    count: created.length,
+    revenue: created.reduce((sum, record) => sum + record.revenue, 0),
+  });
+}
+
+// Reverse the latest sale of accounts leaving the "sold" state.
+// Undoing a misclick only looks at the open session; a buyer return can reverse a sale from any session.
+async function voidRevenueForAccounts(accountIds: number[], reason: string, scope: "open-session" | "any-session") {
+  if (accountIds.length === 0) return;
+  try {
+    let sessionId: number | null = null;
+    if (scope === "open-session") {
+      const openSession = await storage.getOpenLiveSession();
+      if (!openSession) {
+        return;
+      }
+      sessionId = openSession.id;
+    }
+    const voided = await storage.voidLatestRevenueRecords(sessionId, accountIds, reason);
+    if (voided.length > 0) {
+      log.info("Voided revenue records", { sessionId, ids: voided.map((record) => record.id) });
+    }
+  } catch (revenueError) {
+    log.error("Error voiding revenue", { err: revenueError });
+    // Don't fail the request if revenue reversal fails
+  }
+}
+
+// Name stamped on holds: the operator's username, or their id when the user cannot be read
+async function operatorName(req: Request): Promise<string> {
+  const operator = await storage.getUser(currentUserId(req)!);
+  return operator?.username ?? currentUserId(req)!;
+}
+
+// Run a lifecycle transition and its side effects: revenue is booked on → sold and reversed on sold →
+async function applyAccountStateChange(req: Request, ids: number[] | null, to: AccountState, buyer?: OrderBuyerInput, onlyFrom?: readonly AccountState[]) {
+  const result = await storage.transitionAccountStates(ids, to, await operatorName(req), onlyFrom);
+  const changed = result.updated.map(({ account }) => account);
+  if (changed.length === 0) {
+    return result;
+  }
+
+  await recordAudit(req, {
+    action: "account.state",
+    entity: "account",
+    changes: accountStateChanges(result),
+    metadata: buyer ? { buyer } : undefined,
+  });
+
+  emitAccountStatusUpdate(changed.map((account) => account.id), accountStatusForState(to), "accounts", to);
+  emitAccountHoldUpdate(result.updated.filter(({ from }) => from === "reserved").map(({ account }) => account), "released");
+
+  if (to === "sold") {
+    try {
+      const activeSession = await storage.getActiveLiveSession();
+      if (activeSession) {
+        log.info("Accounts sold", { count: changed.length, sessionId: activeSession.id, basePrice: activeSession.pricePerAccount });
+        await bookRevenueForAccounts(activeSession, changed, buyer);
+      } else {
+        log.info("No active session for sold accounts", { count: changed.length });
+      }
+    } catch (revenueError) {
+      log.error("Error tracking revenue", { err: revenueError });
+      // Don't fail the request if revenue tracking fails
+    }
+  }
+
+  const unsoldIds = result.updated.filter(({ from }) => from === "sold").map(({ account }) => account.id);
+  if (to === "returned") {
+    await voidRevenueForAccounts(unsoldIds, "Account bị trả lại", "any-session");
+  } else if (to === "available") {
+    await voidRevenueForAccounts(unsoldIds, "Hoàn tác bán (sold → available)", "open-session");
+  }
 
-  console.log(`[Socket.IO] Successfully emitted account-status-updated event`);
+  return result;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -142,209 +686,764 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.send("pong");
   });
 
-  // Auth routes with rate limiting and account lockout
+  // Auth routes with rate limiting and account lockout. Users with 2FA get a TotpChallenge
+  // here and finish signing in through /api/login/totp.
   app.post("/api/login", authLimiter, async (req, res) => {
     try {
       const { username, password } = insertUserSchema.parse(req.body);
 
-      // Check for account lockout
       const attemptKey = username.toLowerCase();
-      const attempts = loginAttempts.get(attemptKey);
-      if (attempts) {
-        const timeSinceLast = Date.now() - attempts.lastAttempt.getTime();
-        if (attempts.count >= MAX_LOGIN_ATTEMPTS && timeSinceLast < LOCKOUT_DURATION_MS) {
-          const remainingMinutes = Math.ceil((LOCKOUT_DURATION_MS - timeSinceLast) / 60000);
-          return res.status(429).json({
-            message: `Tài khoản bị khóa tạm thời. Vui lòng thử lại sau ${remainingMinutes} phút`
-          });
-        }
-        // Reset if lockout period has passed
-        if (timeSinceLast >= LOCKOUT_DURATION_MS) {
-          loginAttempts.delete(attemptKey);
-        }
+      const minutesLeft = await lockoutMinutesLeft(attemptKey);
+      if (minutesLeft > 0) {
+        return sendLockedOut(res, minutesLeft);
       }
 
       const user = await storage.getUserByUsername(username);
-      if (!user) {
-        // Track failed attempt
-        const current = loginAttempts.get(attemptKey) || { count: 0, lastAttempt: new Date() };
-        loginAttempts.set(attemptKey, { count: current.count + 1, lastAttempt: new Date() });
-        return res.status(401).json({ message: "Tên đăng nhập hoặc mật khẩu không đúng" });
+      if (!user || !(await bcrypt.compare(password, user.password))) {
+        await storage.recordLoginFailure(attemptKey, new Date().toISOString());
+        return res.status(401).json({ message: INVALID_CREDENTIALS_MESSAGE });
       }
 
-      const isPasswordMatch = await bcrypt.compare(password, user.password);
-      if (!isPasswordMatch) {
-        // Track failed attempt
-        const current = loginAttempts.get(attemptKey) || { count: 0, lastAttempt: new Date() };
-        loginAttempts.set(attemptKey, { count: current.count + 1, lastAttempt: new Date() });
-        return res.status(401).json({ message: "Tên đăng nhập hoặc mật khẩu không đúng" });
+      if (user.disabled) {
+        return res.status(403).json({ message: ACCOUNT_DISABLED_MESSAGE });
+      }
+
+      if (user.totpEnabled) {
+        // Failed attempts are only cleared once the code is right as well
+        req.session.pendingTotp = { userId: user.id, expiresAt: Date.now() + TOTP_LOGIN_WINDOW_MS };
+        return req.session.save((err) => {
+          if (err) {
+            log.error("Session save error", { err });
+            return res.status(500).json({ message: "Không thể lưu session" });
+          }
+          const challenge: TotpChallenge = { totpRequired: true };
+          res.json(challenge);
+        });
+      }
+
+      await storage.clearLoginAttempts(attemptKey);
+      completeLogin(req, res, user);
+    } catch (error) {
+      log.error("Login error", { err: error });
+      res.status(500).json({ message: "Lỗi máy chủ nội bộ" });
+    }
+  });
+
+  // Second login step: a code from the authenticator app or a recovery code
+  app.post("/api/login/totp", authLimiter, async (req, res) => {
+    try {
+      const { code } = totpLoginSchema.parse(req.body);
+      const pending = req.session.pendingTotp;
+      const user = pending && pending.expiresAt > Date.now() ? await storage.getUser(pending.userId) : undefined;
+      if (!user || user.disabled) {
+        delete req.session.pendingTotp;
+        return res.status(401).json({ message: TOTP_LOGIN_EXPIRED_MESSAGE });
       }
 
-      // Clear failed attempts on successful login
-      loginAttempts.delete(attemptKey);
+      const attemptKey = user.username.toLowerCase();
+      const minutesLeft = await lockoutMinutesLeft(attemptKey);
+      if (minutesLeft > 0) {
+        delete req.session.pendingTotp;
+        return sendLockedOut(res, minutesLeft);
+      }
 
-      req.session.userId = user.id;
+      const method = await useSecondFactor(user, code);
+      if (!method) {
+        await storage.recordLoginFailure(attemptKey, new Date().toISOString());
+        return res.status(401).json({ message: INVALID_TOTP_MESSAGE });
+      }
 
-      // Explicitly save session before responding to ensure cookie is set
-      req.session.save((err) => {
-        if (err) {
-          console.error('Session save error:', err);
-          return res.status(500).json({ message: "Không thể lưu session" });
-        }
-        console.log('Session saved successfully for user:', user.username);
-        res.json({ id: user.id, username: user.username });
+      await storage.clearLoginAttempts(attemptKey);
+      completeLogin(req, res, user);
+      if (method === "recovery") {
+        await recordAudit(req, { action: "user.totp_recovery_login", entity: "user", entityIds: [user.id] });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        log.error("TOTP login error", { err: error });
+        res.status(500).json({ message: "Lỗi máy chủ nội bộ" });
+      }
+    }
+  });
+
+  // Update all account statuses (ON = available, OFF = sold)
+  app.patch("/api/accounts/status-all", requirePermission("accounts:status"), async (req, res) => {
+    try {
+      const body = z.object({ status: z.boolean() }).parse(req.body);
+
+      // The ON/OFF switch only flips sold <-> available; banned, returned and held accounts keep their state
+      const result = body.status
+        ? await applyAccountStateChange(req, null, "available", undefined, ["sold"])
+        : await applyAccountStateChange(req, null, "sold", undefined, ["available"]);
+
+      res.json({ updated: result.updated.length, status: body.status, rejected: result.rejected });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update all account statuses" });
+      }
+    }
+  });
+  app.patch("/api/accounts/status", requirePermission("accounts:status"), async (req, res) => {
+    try {
+      const body = z
+        .object({
+          ids: z.array(z.number().int().positive()).min(1),
+          status: z.boolean(),
+          // Optional buyer: all accounts sold by this call go into one order
+          buyer: orderBuyerSchema.optional(),
+        })
+        .parse(req.body);
+
+      const buyerError = await validateOrderBuyer(body.buyer);
+      if (buyerError) {
+        return res.status(404).json({ message: buyerError });
+      }
+
+      const result = await applyAccountStateChange(req, body.ids, body.status ? "available" : "sold", body.buyer);
+
+      res.json({ updated: result.updated.length, status: body.status, rejected: result.rejected });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update account statuses" });
+      }
+    }
+  });
+
+  // Lifecycle transitions for several accounts
+  app.patch("/api/accounts/state", requirePermission("accounts:status"), async (req, res) => {
+    try {
+      const body = updateAccountStateSchema.extend({
+        ids: z.array(z.number().int().positive()).min(1),
+        buyer: orderBuyerSchema.optional(),
+      }).parse(req.body);
+      if (body.state === "reserved") {
+        return res.status(400).json({ message: RESERVE_VIA_HOLD_MESSAGE });
+      }
+
+      const buyerError = await validateOrderBuyer(body.buyer);
+      if (buyerError) {
+        return res.status(404).json({ message: buyerError });
+      }
+
+      const result = await applyAccountStateChange(req, body.ids, body.state, body.buyer);
+
+      res.json({ updated: result.updated.length, state: body.state, rejected: result.rejected });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update account states" });
+      }
+    }
+  });
+
+
+  app.post("/api/logout", (req, res) => {
+    disconnectSockets(sessionRoom(req.sessionID));
+    req.session.destroy((err) => {
+      if (err) {
+        return res.status(500).json({ message: "Không thể đăng xuất" });
+      }
+      res.clearCookie('connect.sid'); // Tên cookie mặc định của express-session
+      res.status(200).json({ message: "Đăng xuất thành công" });
+    });
+  });
+
+  app.get("/api/auth/status", async (req, res) => {
+    const userId = currentUserId(req);
+    if (!userId) {
+      return res.json({ loggedIn: false });
+    }
+    try {
+      const user = await storage.getUser(userId);
+      if (!user || user.disabled) {
+        return res.json({ loggedIn: false });
+      }
+      res.json({ loggedIn: true, user: toAuthUser(user) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch auth status" });
+    }
+  });
+  // Change the signed-in user's own password
+  app.post("/api/auth/password", requireSession, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = changeOwnPasswordSchema.parse(req.body);
+      const user = snapshot(await storage.getUser(req.session.userId!));
+      if (!user || user.disabled) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (!(await bcrypt.compare(currentPassword, user.password))) {
+        return res.status(400).json({ message: WRONG_CURRENT_PASSWORD_MESSAGE });
+      }
+      const updated = await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+      await recordAudit(req, { action: "user.password_change", entity: "user", changes: diffRecords([user], updated ? [updated] : []) });
+      res.json({ message: "Password changed." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to change password" });
+      }
+    }
+  });
+
+  // Two-factor authentication for the signed-in user
+  app.get("/api/auth/totp", requireSession, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.disabled) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      const status: TotpStatus = {
+        enabled: user.totpEnabled,
+        recoveryCodesRemaining: user.totpEnabled ? countRecoveryCodes(user.totpRecoveryCodes) : 0,
+      };
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch 2FA status" });
+    }
+  });
+
+  // Start enrolling: a new secret to add to the authenticator app. 2FA stays off until
+  // /api/auth/totp/enable receives a code generated from it.
+  app.post("/api/auth/totp/setup", authLimiter, requireSession, async (req, res) => {
+    try {
+      const { currentPassword } = totpSetupSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.disabled) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (user.totpEnabled) {
+        return res.status(409).json({ message: TOTP_ALREADY_ENABLED_MESSAGE });
+      }
+      if (!(await bcrypt.compare(currentPassword, user.password))) {
+        return res.status(400).json({ message: WRONG_CURRENT_PASSWORD_MESSAGE });
+      }
+      const secret = generateTotpSecret();
+      await storage.updateUser(user.id, { totpSecret: secret });
+      const setup: TotpSetup = { secret, otpauthUrl: totpUri(secret, user.username) };
+      res.json(setup);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to set up 2FA" });
+      }
+    }
+  });
+
+  // Finish enrolling; the recovery codes are only ever shown in this response
+  app.post("/api/auth/totp/enable", authLimiter, requireSession, async (req, res) => {
+    try {
+      const { code } = totpEnableSchema.parse(req.body);
+      const user = snapshot(await storage.getUser(req.session.userId!));
+      if (!user || user.disabled) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (user.totpEnabled) {
+        return res.status(409).json({ message: TOTP_ALREADY_ENABLED_MESSAGE });
+      }
+      const step = user.totpSecret ? verifyTotp(user.totpSecret, code, null) : null;
+      if (step === null) {
+        return res.status(400).json({ message: INVALID_TOTP_MESSAGE });
+      }
+      const recovery = generateRecoveryCodes();
+      const updated = await storage.updateUser(user.id, { totpEnabled: true, totpRecoveryCodes: recovery.stored, totpLastStep: step });
+      await recordAudit(req, { action: "user.totp_enable", entity: "user", changes: diffRecords([user], updated ? [updated] : []) });
+      res.json({ recoveryCodes: recovery.codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to enable 2FA" });
+      }
+    }
+  });
+
+  app.post("/api/auth/totp/disable", authLimiter, requireSession, async (req, res) => {
+    try {
+      const { currentPassword, code } = totpConfirmSchema.parse(req.body);
+      const user = snapshot(await storage.getUser(req.session.userId!));
+      if (!user || user.disabled) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (!user.totpEnabled) {
+        return res.status(400).json({ message: TOTP_NOT_ENABLED_MESSAGE });
+      }
+      if (!(await bcrypt.compare(currentPassword, user.password))) {
+        return res.status(400).json({ message: WRONG_CURRENT_PASSWORD_MESSAGE });
+      }
+      if (!(await useSecondFactor(user, code))) {
+        return res.status(400).json({ message: INVALID_TOTP_MESSAGE });
+      }
+      const updated = await storage.updateUser(user.id, { totpEnabled: false, totpSecret: null, totpRecoveryCodes: "[]", totpLastStep: null });
+      await recordAudit(req, { action: "user.totp_disable", entity: "user", changes: diffRecords([user], updated ? [updated] : []) });
+      res.json({ message: "2FA disabled." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to disable 2FA" });
+      }
+    }
+  });
+
+  // Replace every recovery code, e.g. when most are used up
+  app.post("/api/auth/totp/recovery-codes", authLimiter, requireSession, async (req, res) => {
+    try {
+      const { currentPassword, code } = totpConfirmSchema.parse(req.body);
+      const user = snapshot(await storage.getUser(req.session.userId!));
+      if (!user || user.disabled) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (!user.totpEnabled) {
+        return res.status(400).json({ message: TOTP_NOT_ENABLED_MESSAGE });
+      }
+      if (!(await bcrypt.compare(currentPassword, user.password))) {
+        return res.status(400).json({ message: WRONG_CURRENT_PASSWORD_MESSAGE });
+      }
+      if (!(await useSecondFactor(user, code))) {
+        return res.status(400).json({ message: INVALID_TOTP_MESSAGE });
+      }
+      const recovery = generateRecoveryCodes();
+      await storage.updateUser(user.id, { totpRecoveryCodes: recovery.stored });
+      await recordAudit(req, { action: "user.totp_recovery_codes", entity: "user", entityIds: [user.id] });
+      res.json({ recoveryCodes: recovery.codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to replace recovery codes" });
+      }
+    }
+  });
+
+  // The signed-in user's logins, e.g. to spot a lost phone that is still signed in
+  app.get("/api/auth/sessions", requireSession, async (req, res) => {
+    try {
+      const sessions = await sessionStore.listUserSessions(req.session.userId!);
+      res.json(sessions.map((session) => toSessionInfo(session, req.sessionID)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out every other login of the signed-in user
+  app.delete("/api/auth/sessions", requireSession, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const revoked = await sessionStore.destroyUserSessions(userId, req.sessionID);
+      disconnectSockets(userRoom(userId), sessionRoom(req.sessionID));
+      await recordAudit(req, { action: "user.session_revoke", entity: "user", entityIds: [userId], metadata: { revoked, allOthers: true } });
+      res.json({ revoked });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  // Sign out one other login; the current one signs out through /api/logout
+  app.delete("/api/auth/sessions/:id", requireSession, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const sessions = await sessionStore.listUserSessions(userId);
+      const target = sessions.find((session) => sessionPublicId(session.sid) === req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (target.sid === req.sessionID) {
+        return res.status(400).json({ message: "Dùng Đăng xuất để thoát phiên hiện tại" });
+      }
+      await new Promise<void>((resolve, reject) => sessionStore.destroy(target.sid, (err) => (err ? reject(err) : resolve())));
+      disconnectSockets(sessionRoom(target.sid));
+      await recordAudit(req, { action: "user.session_revoke", entity: "user", entityIds: [userId], metadata: { revoked: 1, sessionId: req.params.id } });
+      res.json({ revoked: 1 });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  // Personal API tokens of the signed-in user
+  app.get("/api/auth/tokens", requireSession, async (req, res) => {
+    try {
+      const tokens = await storage.getApiTokens(req.session.userId!);
+      res.json(tokens.map(toApiTokenInfo));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  // Create a token; the response is the only time the token itself is shown
+  app.post("/api/auth/tokens", requireSession, async (req, res) => {
+    try {
+      const { name, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.disabled) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      // A token can never do more than its owner
+      if (!scopes.every((scope) => roleHasPermission(user.role, scope))) {
+        return res.status(400).json({ message: "Token chỉ được có quyền mà vai trò của bạn có" });
+      }
+      const { token, hash, prefix } = generateApiToken();
+      const created = await storage.createApiToken({
+        userId: user.id,
+        name,
+        tokenHash: hash,
+        tokenPrefix: prefix,
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+      });
+      await recordAudit(req, {
+        action: "user.api_token_create",
+        entity: "user",
+        entityIds: [user.id],
+        metadata: { tokenId: created.id, name, scopes: created.scopes, expiresAt: created.expiresAt },
+      });
+      const response: CreatedApiToken = { ...toApiTokenInfo(created), token };
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create API token" });
+      }
+    }
+  });
+
+  app.delete("/api/auth/tokens/:id", requireSession, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = req.session.userId!;
+      if (!Number.isFinite(id) || !(await storage.deleteApiToken(id, userId))) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      disconnectSockets(apiTokenRoom(id));
+      await recordAudit(req, { action: "user.api_token_revoke", entity: "user", entityIds: [userId], metadata: { tokenId: id } });
+      res.json({ message: "API token revoked." });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
+  app.get("/api/users", requirePermission("users:manage"), async (_req, res) => {
+    try {
+      const allUsers = await storage.getUsers();
+      res.json(allUsers.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { username, password, role } = createUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: USERNAME_TAKEN_MESSAGE });
+      }
+      const user = await storage.createUser({ username, password: await hashPassword(password), role });
+      await recordAudit(req, { action: "user.create", entity: "user", changes: [diffRecord(null, toPublicUser(user))!] });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create user" });
+      }
+    }
+  });
+
+  // Change a user's role or disable/enable them
+  app.patch("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const updates = updateUserSchema.parse(req.body);
+      const user = snapshot(await storage.getUser(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.id === currentUserId(req) && (updates.disabled || (updates.role && updates.role !== user.role))) {
+        return res.status(400).json({ message: "Không thể tự khóa hoặc đổi quyền của chính mình" });
+      }
+      const losesOwner = user.role === "owner" && !user.disabled && (updates.disabled || (updates.role && updates.role !== "owner"));
+      if (losesOwner && (await countActiveOwners()) <= 1) {
+        return res.status(409).json({ message: "Phải còn ít nhất một chủ kho đang hoạt động" });
+      }
+      const updated = await storage.updateUser(user.id, updates);
+      // A disabled user is signed out everywhere
+      const revoked = updated?.disabled && !user.disabled ? await sessionStore.destroyUserSessions(user.id) : undefined;
+      // Live updates follow the new role, and stop for a disabled user
+      if (updated && (updated.disabled !== user.disabled || updated.role !== user.role)) {
+        disconnectSockets(userRoom(user.id));
+      }
+      await recordAudit(req, {
+        action: "user.update",
+        entity: "user",
+        changes: diffRecords([toPublicUser(user)], [toPublicUser(updated!)]),
+        metadata: revoked !== undefined ? { revoked } : undefined,
       });
+      res.json(toPublicUser(updated!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update user" });
+      }
+    }
+  });
+
+  app.post("/api/users/:id/password", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { password } = resetUserPasswordSchema.parse(req.body);
+      const user = snapshot(await storage.getUser(req.params.id));
+      const updated = user && await storage.updateUser(user.id, { password: await hashPassword(password) });
+      if (!user || !updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      // Logins made with the old password end; a reset of your own password keeps the current one
+      const keepSid = user.id === currentUserId(req) ? req.sessionID : undefined;
+      const revoked = await sessionStore.destroyUserSessions(user.id, keepSid);
+      disconnectSockets(userRoom(user.id), keepSid ? sessionRoom(keepSid) : undefined);
+      await recordAudit(req, { action: "user.password_reset", entity: "user", changes: diffRecords([user], [updated]), metadata: { revoked } });
+      res.json({ message: "Password reset." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to reset password" });
+      }
+    }
+  });
+
+  // Force-logout: end every login of a user. Done on yourself, it keeps the current login.
+  app.delete("/api/users/:id/sessions", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const keepSid = user.id === currentUserId(req) ? req.sessionID : undefined;
+      const revoked = await sessionStore.destroyUserSessions(user.id, keepSid);
+      disconnectSockets(userRoom(user.id), keepSid ? sessionRoom(keepSid) : undefined);
+      await recordAudit(req, { action: "user.force_logout", entity: "user", entityIds: [user.id], metadata: { revoked } });
+      res.json({ revoked });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to log user out" });
+    }
+  });
+
+  // Audit trail, newest first, filtered by entity, action, actor, record id and time range
+  app.get("/api/audit-events", requirePermission("audit:read"), async (req, res) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      res.json(await storage.queryAuditEvents(query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch audit events" });
+      }
+    }
+  });
+
+  // List accounts. With page, pageSize or cursor the response is a ListPage, otherwise
+  // the filtered accounts as a plain array
+  app.get("/api/accounts", requirePermission("accounts:read"), async (req, res) => {
+    try {
+      const query = parseListQuery(req.query);
+      const result = await storage.queryAccounts(query);
+      const items = maskPasswords(result.items);
+      res.json(isPagedQuery(query) ? { ...result, items } : items);
+    } catch (error) {
+      sendListError(res, error, "Failed to fetch accounts");
+    }
+  });
+
+  // Reveal one account's password, e.g. for the copy button
+  app.post("/api/accounts/:id/reveal", requirePermission("accounts:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!Number.isFinite(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid account id" });
+      }
+      const [revealed] = await findPasswords("account", [id]);
+      if (!revealed) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      await recordAudit(req, { action: "account.reveal", entity: "account", entityIds: [id] });
+      res.json(revealed);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reveal password" });
+    }
+  });
 
+  // Reveal many passwords at once, for exports
+  app.post("/api/accounts/reveal", requirePermission("accounts:read"), async (req, res) => {
+    try {
+      const { ids } = revealPasswordsSchema.parse(req.body);
+      const revealed = await findPasswords("account", ids);
+      await recordAudit(req, {
+        action: "account.reveal",
+        entity: "account",
+        entityIds: revealed.map((item) => item.id),
+        metadata: { bulk: true },
+      });
+      res.json(revealed);
     } catch (error) {
-      console.error('Login error:', error);
-      res.status(500).json({ message: "Lỗi máy chủ nội bộ" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to reveal passwords" });
+      }
     }
   });
 
-  // Update all account statuses
-  app.patch("/api/accounts/status-all", isAuthenticated, async (req, res) => {
+  // Tags with the number of accounts carrying each
+  app.get("/api/tags", requirePermission("accounts:read"), async (req, res) => {
     try {
-      const body = z.object({ status: z.boolean() }).parse(req.body);
-
-      // Get current accounts to check previous status
-      const allAccounts = await storage.getAllAccounts();
-
-      const updatedCount = await storage.updateAllAccountStatuses(body.status);
+      res.json(await storage.getTags());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
 
-      // Emit real-time update
-      const allAccountIds = allAccounts.map(acc => acc.id);
-      emitAccountStatusUpdate(allAccountIds, body.status, "accounts");
-
-      // Track revenue when accounts change from ON to OFF (accounts đã được sử dụng xong)
-      if (body.status === false) {
-        try {
-          const activeSession = await storage.getActiveLiveSession();
-          if (activeSession) {
-            // Get accounts that were ON before update (they will be turned OFF)
-            const accountsThatChangedFromOnToOff = allAccounts.filter(
-              (acc) => acc.status === true // Was ON before update
-            );
-
-            console.log(`[Revenue] Updating ${accountsThatChangedFromOnToOff.length} accounts from ON to OFF, session ${activeSession.id}, price ${activeSession.pricePerAccount}`);
-
-            for (const account of accountsThatChangedFromOnToOff) {
-              const revenueRecord = await storage.createRevenueRecord({
-                sessionId: activeSession.id,
-                accountId: account.id,
-                pricePerAccount: activeSession.pricePerAccount,
-                revenue: activeSession.pricePerAccount,
-              });
-              console.log(`[Revenue] Created revenue record for account ${account.id}:`, revenueRecord);
-            }
-          } else {
-            console.log(`[Revenue] No active session found for bulk update`);
-          }
-        } catch (revenueError) {
-          console.error('[Revenue] Error tracking revenue:', revenueError);
-          // Don't fail the request if revenue tracking fails
-        }
+  app.post("/api/tags", requirePermission("accounts:write"), async (req, res) => {
+    try {
+      const data = insertTagSchema.parse(req.body);
+      if (await storage.getTagByName(data.name)) {
+        return res.status(409).json({ message: TAG_NAME_TAKEN_MESSAGE });
       }
-
-      res.json({ updated: updatedCount, status: body.status });
+      const tag = await storage.createTag(data);
+      await recordAudit(req, { action: "tag.create", entity: "tag", changes: [diffRecord(null, tag)!] });
+      res.status(201).json(tag);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to update all account statuses" });
+        res.status(500).json({ message: "Failed to create tag" });
       }
     }
   });
-  app.patch("/api/accounts/status", isAuthenticated, async (req, res) => {
-    try {
-      const body = z
-        .object({
-          ids: z.array(z.number().int().positive()).min(1),
-          status: z.boolean(),
-        })
-        .parse(req.body);
 
-      // Get current accounts to check previous status
-      const allAccounts = await storage.getAllAccounts();
-      const accountsToUpdate = allAccounts.filter((acc) => body.ids.includes(acc.id));
-
-      const updatedCount = await storage.updateSelectedAccountStatuses(body.ids, body.status);
-
-      // Emit real-time update
-      emitAccountStatusUpdate(body.ids, body.status, "accounts");
-
-      // Track revenue when accounts change from ON to OFF (accounts đã được sử dụng xong)
-      if (body.status === false) {
-        try {
-          const activeSession = await storage.getActiveLiveSession();
-          if (activeSession) {
-            const accountsThatChangedFromOnToOff = accountsToUpdate.filter(
-              (acc) => acc.status && !body.status
-            );
-
-            console.log(`[Revenue] Updating ${accountsThatChangedFromOnToOff.length} selected accounts from ON to OFF, session ${activeSession.id}, price ${activeSession.pricePerAccount}`);
-
-            for (const account of accountsThatChangedFromOnToOff) {
-              const revenueRecord = await storage.createRevenueRecord({
-                sessionId: activeSession.id,
-                accountId: account.id,
-                pricePerAccount: activeSession.pricePerAccount,
-                revenue: activeSession.pricePerAccount,
-              });
-              console.log(`[Revenue] Created revenue record for account ${account.id}:`, revenueRecord);
-            }
-          } else {
-            console.log(`[Revenue] No active session found for selected update`);
-          }
-        } catch (revenueError) {
-          console.error('[Revenue] Error tracking revenue:', revenueError);
-          // Don't fail the request if revenue tracking fails
+  // Rename, recolour or describe a tag
+  app.patch("/api/tags/:id", requirePermission("accounts:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = updateTagSchema.parse(req.body);
+      if (updates.name !== undefined) {
+        const sameName = await storage.getTagByName(updates.name);
+        if (sameName && sameName.id !== id) {
+          return res.status(409).json({ message: TAG_NAME_TAKEN_MESSAGE });
         }
       }
 
-      res.json({ updated: updatedCount, status: body.status });
+      const before = snapshot(await storage.getTag(id));
+      const tag = await storage.updateTag(id, updates);
+      if (!before || !tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      await recordAudit(req, { action: "tag.update", entity: "tag", changes: diffRecords([before], [tag]) });
+      res.json(tag);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to update account statuses" });
+        res.status(500).json({ message: "Failed to update tag" });
       }
     }
   });
 
+  // Fold the source tags into the target tag
+  app.post("/api/tags/merge", requirePermission("accounts:write"), async (req, res) => {
+    try {
+      const { sourceIds, targetId } = mergeTagsSchema.parse(req.body);
+      const known = new Set((await storage.getTags()).map((tag) => tag.id));
+      const missing = [...sourceIds, targetId].filter((id) => !known.has(id));
+      if (missing.length > 0) {
+        return res.status(404).json({ message: "Không tìm thấy tag", ids: missing });
+      }
 
-  app.post("/api/logout", (req, res) => {
-    req.session.destroy((err) => {
-      if (err) {
-        return res.status(500).json({ message: "Không thể đăng xuất" });
+      const retagged = await storage.mergeTags(sourceIds, targetId);
+      await recordAudit(req, {
+        action: "tag.merge",
+        entity: "tag",
+        entityIds: [...sourceIds, targetId],
+        metadata: { sourceIds, targetId, retagged },
+      });
+      res.json({ merged: sourceIds.length, retagged });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to merge tags" });
       }
-      res.clearCookie('connect.sid'); // Tên cookie mặc định của express-session
-      res.status(200).json({ message: "Đăng xuất thành công" });
-    });
+    }
   });
 
-  app.get("/api/auth/status", (req, res) => {
-    if (req.session.userId) {
-      res.json({ loggedIn: true });
-    } else {
-      res.json({ loggedIn: false });
+  // Delete a tag; ?reassignTo=<tagId> moves its accounts onto another tag first
+  app.delete("/api/tags/:id", requirePermission("accounts:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { reassignTo } = z.object({
+        reassignTo: z.coerce.number().int().positive().optional(),
+      }).parse(req.query);
+      if (reassignTo === id) {
+        return res.status(400).json({ message: "Không thể chuyển sang chính tag đang xoá" });
+      }
+      if (reassignTo !== undefined && !(await storage.getTag(reassignTo))) {
+        return res.status(404).json({ message: "Không tìm thấy tag nhận account" });
+      }
+
+      const before = await storage.getTag(id);
+      const deleted = await storage.deleteTag(id, reassignTo);
+      if (!before || !deleted) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      await recordAudit(req, {
+        action: "tag.delete",
+        entity: "tag",
+        changes: [diffRecord(before, null)!],
+        metadata: reassignTo !== undefined ? { reassignTo } : undefined,
+      });
+      res.json({ message: "Tag deleted." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to delete tag" });
+      }
     }
   });
-  // Get all accounts
-  app.get("/api/accounts", isAuthenticated, async (req, res) => {
+
+  // Accounts and acc logs updated per day, for the activity chart
+  app.get("/api/activity", isAuthenticated, async (req, res) => {
     try {
-      const accounts = await storage.getAllAccounts();
-      res.json(accounts);
+      const { days } = z.object({
+        days: z.coerce.number().int().min(1).max(90).default(14),
+      }).parse(req.query);
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      res.json(await storage.getUpdateActivity(since));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch accounts" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch activity" });
+      }
     }
   });
 
   // Create new account
-  app.post("/api/accounts", isAuthenticated, async (req, res) => {
+  app.post("/api/accounts", requirePermission("accounts:write"), async (req, res) => {
     try {
       const validatedData = insertAccountSchema.parse(normalizeLevelField(req.body));
       const account = await storage.createAccount(validatedData);
-      res.status(201).json(account);
+      await recordAudit(req, { action: "account.create", entity: "account", changes: [diffRecord(null, account)!] });
+      res.status(201).json(maskPassword(account));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -355,18 +1454,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update account details (username/password/lv/champion/skins)
-  app.put("/api/accounts/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/accounts/:id", requirePermission("accounts:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (!Number.isFinite(id) || id <= 0) {
         return res.status(400).json({ message: "Invalid account id" });
       }
       const body = updateAccountDetailsSchema.parse(normalizeLevelField(req.body));
+      const before = snapshot((await storage.getAllAccounts()).find((acc) => acc.id === id));
       const updated = await storage.updateAccountDetails(id, body);
-      if (!updated) {
+      if (!before || !updated) {
         return res.status(404).json({ message: "Account not found" });
       }
-      res.json(updated);
+      await recordAudit(req, { action: "account.update", entity: "account", changes: diffRecords([before], [updated]) });
+      res.json(maskPassword(updated));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -377,20 +1478,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // CloneReg manual CRUD
-  app.get("/api/cloneregs", isAuthenticated, async (req, res) => {
+  app.get("/api/cloneregs", requirePermission("accounts:read"), async (req, res) => {
     try {
       const rows = await storage.getAllCloneRegs();
-      res.json(rows);
+      res.json(maskPasswords(rows));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch clonereg" });
     }
   });
 
-  app.post("/api/cloneregs", isAuthenticated, async (req, res) => {
+  // Reveal one clonereg password, for the copy button
+  app.post("/api/cloneregs/:id/reveal", requirePermission("accounts:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!Number.isFinite(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid id" });
+      }
+      const row = (await storage.getAllCloneRegs()).find((item) => item.id === id);
+      if (!row) {
+        return res.status(404).json({ message: "Not found" });
+      }
+      await recordAudit(req, { action: "clonereg.reveal", entity: "clonereg", entityIds: [id] });
+      const revealed: RevealedPassword = { id: row.id, username: row.username, password: row.password };
+      res.json(revealed);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reveal password" });
+    }
+  });
+
+  app.post("/api/cloneregs", requirePermission("accounts:write"), async (req, res) => {
     try {
       const body = insertCloneRegSchema.parse(normalizeLevelField(req.body));
       const row = await storage.createCloneReg(body);
-      res.status(201).json(row);
+      await recordAudit(req, { action: "clonereg.create", entity: "clonereg", changes: [diffRecord(null, row)!] });
+      res.status(201).json(maskPassword(row));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -400,16 +1521,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/cloneregs/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/cloneregs/:id", requirePermission("accounts:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (!Number.isFinite(id) || id <= 0) {
         return res.status(400).json({ message: "Invalid id" });
       }
       const body = updateCloneRegDetailsSchema.parse(normalizeLevelField(req.body));
+      const before = snapshot((await storage.getAllCloneRegs()).find((row) => row.id === id));
       const updated = await storage.updateCloneRegDetails(id, body);
-      if (!updated) return res.status(404).json({ message: "Not found" });
-      res.json(updated);
+      if (!before || !updated) return res.status(404).json({ message: "Not found" });
+      await recordAudit(req, { action: "clonereg.update", entity: "clonereg", changes: diffRecords([before], [updated]) });
+      res.json(maskPassword(updated));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -419,106 +1542,157 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/cloneregs/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/cloneregs/:id", requirePermission("accounts:delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const before = (await storage.getAllCloneRegs()).find((row) => row.id === id);
       const ok = await storage.deleteCloneReg(id);
-      if (!ok) return res.status(404).json({ message: "Not found" });
+      if (!before || !ok) return res.status(404).json({ message: "Not found" });
+      await recordAudit(req, { action: "clonereg.delete", entity: "clonereg", changes: [diffRecord(before, null)!] });
       res.json({ message: "Deleted" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete clonereg" });
     }
   });
 
-  // Update account status
-  app.patch("/api/accounts/:id/status", isAuthenticated, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const { status } = updateAccountSchema.parse(req.body);
+  // Update account status (ON = available, OFF = sold) or lifecycle state of a single account
+  const updateSingleAccountState = async (req: Request, res: Response, to: AccountState, buyer?: OrderBuyerInput) => {
+    const id = parseInt(req.params.id);
+    if (to === "reserved") {
+      return res.status(400).json({ message: RESERVE_VIA_HOLD_MESSAGE });
+    }
 
-      // Get current account to check previous status
-      const accounts = await storage.getAllAccounts();
-      const currentAccount = accounts.find((acc) => acc.id === id);
+    const buyerError = await validateOrderBuyer(buyer);
+    if (buyerError) {
+      return res.status(404).json({ message: buyerError });
+    }
 
-      if (!currentAccount) {
-        return res.status(404).json({ message: "Account not found" });
+    const result = await applyAccountStateChange(req, [id], to, buyer);
+    if (result.rejected.length > 0) {
+      const { from, heldBy } = result.rejected[0];
+      if (heldBy) {
+        return res.status(409).json({ message: `Account đang được giữ bởi ${heldBy}`, from, heldBy });
       }
+      return res.status(409).json({
+        message: `Không thể chuyển account từ "${from}" sang "${to}"`,
+        from,
+        allowed: ACCOUNT_STATE_TRANSITIONS[from],
+      });
+    }
 
-      const previousStatus = currentAccount.status;
-      const account = await storage.updateAccountStatus(id, status!);
-
-      if (!account) {
-        return res.status(404).json({ message: "Account not found" });
-      }
+    const account = result.updated[0]?.account
+      ?? (await storage.getAllAccounts()).find((acc) => acc.id === id);
+    if (!account) {
+      return res.status(404).json({ message: "Account not found" });
+    }
+    return res.json(maskPassword(account));
+  };
 
-      // Emit real-time update
-      emitAccountStatusUpdate([id], status!, "accounts");
-
-      // Track revenue when account changes from ON to OFF (account đã được sử dụng xong)
-      if (previousStatus && !status) {
-        try {
-          const activeSession = await storage.getActiveLiveSession();
-          if (activeSession) {
-            console.log(`[Revenue] Creating revenue record for account ${account.id}, session ${activeSession.id}, price ${activeSession.pricePerAccount}`);
-            const revenueRecord = await storage.createRevenueRecord({
-              sessionId: activeSession.id,
-              accountId: account.id,
-              pricePerAccount: activeSession.pricePerAccount,
-              revenue: activeSession.pricePerAccount,
-            });
-            console.log(`[Revenue] Created revenue record:`, revenueRecord);
-          } else {
-            console.log(`[Revenue] No active session found for account ${account.id}`);
-          }
-        } catch (revenueError) {
-          console.error('[Revenue] Error tracking revenue:', revenueError);
-          // Don't fail the request if revenue tracking fails
-        }
+  app.patch("/api/accounts/:id/status", requirePermission("accounts:status"), async (req, res) => {
+    try {
+      const { status, buyer } = updateAccountSchema.extend({
+        buyer: orderBuyerSchema.optional(),
+      }).parse(req.body);
+      await updateSingleAccountState(req, res, status ? "available" : "sold", buyer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update account" });
       }
+    }
+  });
 
-      res.json(account);
+  app.patch("/api/accounts/:id/state", requirePermission("accounts:status"), async (req, res) => {
+    try {
+      const { state, buyer } = updateAccountStateSchema.extend({
+        buyer: orderBuyerSchema.optional(),
+      }).parse(req.body);
+      await updateSingleAccountState(req, res, state, buyer);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to update account" });
+        res.status(500).json({ message: "Failed to update account state" });
       }
     }
   });
-  // Update account tag
-  app.patch("/api/accounts/:id/tag", isAuthenticated, async (req, res) => {
+  // Hold an account for a buyer while they pay; holding again as the same operator extends the hold
+  app.post("/api/accounts/:id/reserve", requirePermission("accounts:status"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { tag } = updateAccountTagSchema.parse(req.body);
-      const normalizedTag = typeof tag === 'string' && tag.length > 0 ? tag : null;
-      const account = await storage.updateAccountTag(id, normalizedTag);
+      const { minutes, buyerId } = reserveAccountSchema.parse(req.body ?? {});
+
+      if (buyerId !== undefined && !(await storage.getBuyer(buyerId))) {
+        return res.status(404).json({ message: "Không tìm thấy người mua" });
+      }
+
+      const heldBy = await operatorName(req);
+      const heldUntil = new Date(Date.now() + minutes * 60 * 1000).toISOString();
 
+      const existing = snapshot((await storage.getAllAccounts()).find((acc) => acc.id === id));
+      const account = await storage.holdAccount(id, { heldBy, heldForBuyerId: buyerId ?? null, heldUntil });
       if (!account) {
-        return res.status(404).json({ message: "Account not found" });
+        if (!existing) {
+          return res.status(404).json({ message: "Account not found" });
+        }
+        return res.status(409).json({
+          message: existing.state === "reserved"
+            ? `Account đang được giữ bởi ${existing.heldBy}`
+            : `Không thể giữ account ở trạng thái "${existing.state}"`,
+          from: existing.state,
+          heldBy: existing.heldBy,
+          heldUntil: existing.heldUntil,
+        });
       }
 
-      res.json(account);
+      log.info("Account held", { accountId: id, heldBy, heldUntil });
+      await recordAudit(req, { action: "account.reserve", entity: "account", changes: diffRecords(existing ? [existing] : [], [account]) });
+      emitAccountStatusUpdate([id], account.status, "accounts", account.state);
+      emitAccountHoldUpdate([account], "held");
+      res.json(maskPassword(account));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to update account tag" });
+        res.status(500).json({ message: "Failed to reserve account" });
       }
     }
   });
 
-  // Update account tags in bulk
-  app.patch("/api/accounts/tag", isAuthenticated, async (req, res) => {
+  app.post("/api/accounts/:id/release", requirePermission("accounts:status"), async (req, res) => {
     try {
-      const { ids, tag } = z.object({
-        ids: z.array(z.number().int().positive()).min(1).optional(),
-        tag: updateAccountTagSchema.shape.tag,
-      }).parse(req.body);
+      const id = parseInt(req.params.id);
+      const existing = (await storage.getAllAccounts()).find((acc) => acc.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      if (existing.state !== "reserved") {
+        return res.status(409).json({ message: "Account không ở trạng thái đang giữ", from: existing.state });
+      }
+      await updateSingleAccountState(req, res, "available");
+    } catch (error) {
+      res.status(500).json({ message: "Failed to release account" });
+    }
+  });
 
-      const normalizedTag = typeof tag === 'string' && tag.length > 0 ? tag : null;
-      const updatedCount = await storage.updateMultipleAccountTags(normalizedTag, ids);
+  // Add and remove tags on the given accounts
+  app.patch("/api/accounts/tags", requirePermission("accounts:write"), async (req, res) => {
+    try {
+      const { ids, add, remove } = updateAccountTagsSchema.parse(req.body);
+      const known = new Set((await storage.getTags()).map((tag) => tag.id));
+      const unknown = [...add, ...remove].filter((id) => !known.has(id));
+      if (unknown.length > 0) {
+        return res.status(404).json({ message: "Không tìm thấy tag", ids: unknown });
+      }
 
-      res.json({ updated: updatedCount, tag: normalizedTag });
+      const tagIdsOf = (refs: Map<number, AccountTagRef[]>) =>
+        ids.map((id) => ({ id, tags: (refs.get(id) ?? []).map((tag) => tag.id).sort((a, b) => a - b) }));
+      const before = tagIdsOf(await storage.getAccountTagRefs(ids));
+      const updated = await storage.updateAccountTags(ids, add, remove);
+      const after = tagIdsOf(await storage.getAccountTagRefs(ids));
+      await recordAudit(req, { action: "account.tags", entity: "account", changes: diffRecords(before, after) });
+      res.json({ updated });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -531,14 +1705,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // Delete account
-  app.delete("/api/accounts/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/accounts/:id", requirePermission("accounts:delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const before = (await storage.getAllAccounts()).find((acc) => acc.id === id);
       const success = await storage.deleteAccount(id);
 
-      if (!success) {
+      if (!before || !success) {
         return res.status(404).json({ message: "Account not found" });
       }
+      await recordAudit(req, { action: "account.delete", entity: "account", changes: [diffRecord(before, null)!] });
 
       res.json({ message: "Account deleted." });
     } catch (error) {
@@ -547,16 +1723,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete multiple or all accounts
-  app.delete("/api/accounts", isAuthenticated, async (req, res) => {
+  app.delete("/api/accounts", requirePermission("accounts:delete"), async (req, res) => {
     try {
       const { ids } = req.body;
+      const allAccounts = await storage.getAllAccounts();
       if (ids && Array.isArray(ids) && ids.length > 0) {
         // Delete multiple accounts
         const deletedCount = await storage.deleteMultipleAccounts(ids);
+        const deleted = allAccounts.filter((acc) => ids.includes(acc.id));
+        await recordAudit(req, { action: "account.delete", entity: "account", changes: diffRecords(deleted, []) });
         res.json({ message: `Đã xóa ${deletedCount} tài khoản.` });
       } else {
         // Delete all accounts
         const deletedCount = await storage.deleteAllAccounts();
+        await recordAudit(req, { action: "account.delete_all", entity: "account", changes: diffRecords(allAccounts, []) });
         res.json({ message: `Đã xóa tất cả ${deletedCount} tài khoản.` });
       }
     } catch (error) {
@@ -565,7 +1745,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Import accounts from file
-  app.post("/api/accounts/import", isAuthenticated, upload.single('file'), async (req, res) => {
+  app.post("/api/accounts/import", requirePermission("accounts:write"), upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "Không có file được cung cấp" });
@@ -596,25 +1776,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Quá nhiều tài khoản. Giới hạn 1000 tài khoản mỗi lần import" });
       }
 
-      // Prefetch existing usernames to avoid repeated duplicate errors
-      const existingAccounts = await storage.getAllAccounts();
-      const existingSet = new Set(existingAccounts.map((a) => (a.username ?? '').trim()));
-
-      const { createdRecords, errors } = await processImportRecords(
+      const batch = await openImportBatch(req, "accounts", "file", req.file.originalname);
+      const { createdRecords, errors } = await runInImportBatch(batch, () => processImportRecords(
         records,
         (record) => insertAccountSchema.parse(normalizeLevelField(record)),
-        (data) => storage.createAccount(data),
-        {
-          existingUsernames: existingSet,
-          normalizeUsername: (u) => (u ?? '').trim(),
-        }
-      );
+        (data, options) => storage.createAccountsBulk(data, options),
+        { ...DEFAULT_IMPORT_OPTIONS, importBatchId: batch.id }
+      ));
+      await storage.finishImportBatch(batch.id, { status: "completed", imported: createdRecords.length, updated: 0, errors: errors.length, createdIds: createdRecords.map((account) => account.id) });
+
+      await recordAudit(req, {
+        action: "account.import",
+        entity: "account",
+        entityIds: createdRecords.map((account) => account.id),
+        metadata: { source: "file", fileName: req.file.originalname, importBatchId: batch.id, imported: createdRecords.length, errors: errors.length },
+      });
 
       res.json({
         imported: createdRecords.length,
         errors: errors.length,
-        accounts: createdRecords,
+        accounts: maskPasswords(createdRecords),
         errorDetails: errors,
+        importBatchId: batch.id,
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to import accounts" });
@@ -623,71 +1806,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // Import accounts from normalized payload
-  app.post("/api/accounts/import-batch", isAuthenticated, async (req, res) => {
+  app.post("/api/accounts/import-batch", requirePermission("accounts:write"), async (req, res) => {
     try {
-      const { records, sourceName } = z.object({
-        records: z.array(insertAccountSchema),
+      // Rows are validated one by one below, so a bad row is reported rather than failing the request
+      const { records, sourceName, mode, onExisting } = z.object({
+        records: z.array(z.unknown()),
         sourceName: z.string().min(1).max(160).optional(),
+        mode: bulkInsertModeSchema,
+        onExisting: importExistingActionSchema,
       }).parse(normalizeLevelField(req.body));
 
       if (records.length === 0) {
         return res.status(400).json({ message: "Khong co ban ghi de import" });
       }
 
-      // Prefetch existing usernames to avoid repeated duplicate errors
-      const existingAccounts = await storage.getAllAccounts();
-      const existingSet = new Set(existingAccounts.map((a) => (a.username ?? '').trim()));
-
-      // Process in chunks when there are more than 1000 records
-      if (records.length > 1000) {
-        const MAX_BATCH_SIZE = 1000;
-        const allCreated: unknown[] = [];
-        const allErrors: Array<{ account: unknown; error: string }> = [];
-
-        for (let i = 0; i < records.length; i += MAX_BATCH_SIZE) {
-          const batch = records.slice(i, i + MAX_BATCH_SIZE);
-          const { createdRecords, errors } = await processImportRecords(
-            batch,
-            (record) => insertAccountSchema.parse(normalizeLevelField(record)),
-            (data) => storage.createAccount(data),
-            {
-              existingUsernames: existingSet,
-              normalizeUsername: (u) => (u ?? '').trim(),
-            }
-          );
-          allCreated.push(...createdRecords);
-          allErrors.push(...errors);
-        }
-
-        return res.json({
-          imported: allCreated.length,
-          errors: allErrors.length,
-          accounts: allCreated,
-          errorDetails: allErrors,
-          sourceName: sourceName ?? null,
-        });
-      }
-
-      if (false && records.length > 1000) {
-        return res.status(400).json({ message: "Qua nhieu tài khoản. Gioi han 1000 tài khoản moi lan import" });
-      }
-
-      const { createdRecords, errors } = await processImportRecords(
+      const batch = await openImportBatch(req, "accounts", "batch", sourceName ?? null);
+      const { createdRecords, updatedRecords, errors } = await runInImportBatch(batch, () => processImportRecords(
         records,
         (record) => insertAccountSchema.parse(normalizeLevelField(record)),
-        (data) => storage.createAccount(data),
-        {
-          existingUsernames: existingSet,
-          normalizeUsername: (u) => (u ?? '').trim(),
-        }
-      );
+        (data, options) => storage.createAccountsBulk(data, options),
+        { mode, onExisting, importBatchId: batch.id }
+      ));
+      await storage.finishImportBatch(batch.id, { status: "completed", imported: createdRecords.length, updated: updatedRecords.length, errors: errors.length, createdIds: createdRecords.map((account) => account.id) });
+
+      await recordAudit(req, {
+        action: "account.import",
+        entity: "account",
+        entityIds: [...createdRecords, ...updatedRecords].map((account) => account.id),
+        metadata: { source: "batch", sourceName: sourceName ?? null, importBatchId: batch.id, mode, onExisting, imported: createdRecords.length, updated: updatedRecords.length, errors: errors.length },
+      });
 
       res.json({
         imported: createdRecords.length,
+        updated: updatedRecords.length,
         errors: errors.length,
-        accounts: createdRecords,
+        accounts: maskPasswords(createdRecords),
+        updatedAccounts: maskPasswords(updatedRecords),
         errorDetails: errors,
         sourceName: sourceName ?? null,
+        importBatchId: batch.id,
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -698,8 +1855,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start a background import; follow it over the socket or GET /api/import-jobs/:id
+  app.post("/api/accounts/import-jobs", requirePermission("accounts:write"), async (req, res) => {
+    try {
+      const { records, sourceName, mode, onExisting } = createImportJobSchema.parse(req.body);
+      const batch = await openImportBatch(req, "accounts", "job", sourceName ?? null);
+      const createdIds: number[] = [];
+      const touchedIds: number[] = [];
+
+      const job = importJobs.submit({
+        entity: "accounts",
+        sourceName: sourceName ?? null,
+        createdBy: currentUserId(req)!,
+        records,
+        // All or nothing only holds if the whole file goes through one transaction
+        chunkSize: mode === "all_or_nothing" ? records.length : undefined,
+        importChunk: async (chunk, offset) => {
+          const { createdRecords, updatedRecords, errors } = await processImportRecords(
+            chunk,
+            (record) => insertAccountSchema.parse(normalizeLevelField(record)),
+            (data, options) => storage.createAccountsBulk(data, options),
+            { mode, onExisting, importBatchId: batch.id }
+          );
+          createdIds.push(...createdRecords.map((account) => account.id));
+          touchedIds.push(...[...createdRecords, ...updatedRecords].map((account) => account.id));
+          return { imported: createdRecords.length, updated: updatedRecords.length, errors: toImportRowErrors(errors, offset) };
+        },
+        finish: async (finished) => {
+          await storage.finishImportBatch(batch.id, { status: importBatchStatus(finished), imported: finished.imported, updated: finished.updated, errors: finished.errorCount, createdIds });
+          await recordAudit(req, {
+            action: "account.import",
+            entity: "account",
+            entityIds: touchedIds,
+            metadata: { source: "job", jobId: finished.id, sourceName: sourceName ?? null, importBatchId: batch.id, mode, onExisting, status: finished.status, imported: finished.imported, updated: finished.updated, errors: finished.errorCount },
+          });
+        },
+      });
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dữ liệu không hợp lệ", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to start import" });
+      }
+    }
+  });
+
+  // Dry run of an import: per-row outcome (new, update or skip) without writing anything. Same
+  // permission as the import itself, since it reveals which usernames already exist
+  app.post("/api/accounts/import/validate", requirePermission("accounts:write"), async (req, res) => {
+    try {
+      const { records, mode, onExisting } = validateImportSchema.parse(req.body);
+      res.json(await validateImportRecords(
+        records,
+        (record) => insertAccountSchema.parse(normalizeLevelField(record)),
+        (data, action) => storage.planAccountsBulk(data, action),
+        { mode, onExisting }
+      ));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dữ liệu không hợp lệ", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to validate accounts" });
+      }
+    }
+  });
+
   // Import accounts from text format: user|pass|lv or user:pass:lv (one per line)
-  app.post("/api/accounts/import-text", isAuthenticated, async (req, res) => {
+  app.post("/api/accounts/import-text", requirePermission("accounts:write"), async (req, res) => {
     try {
       const { text } = z.object({
         text: z.string().min(1),
@@ -761,27 +1984,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Prefetch existing usernames to avoid repeated duplicate errors
-      const existingAccounts = await storage.getAllAccounts();
-      const existingSet = new Set(existingAccounts.map((a) => (a.username ?? '').trim()));
-
-      const { createdRecords, errors } = await processImportRecords(
+      const batch = await openImportBatch(req, "accounts", "text", null);
+      const { createdRecords, errors } = await runInImportBatch(batch, () => processImportRecords(
         records,
         (record) => insertAccountSchema.parse(normalizeLevelField(record)),
-        (data) => storage.createAccount(data),
-        {
-          existingUsernames: existingSet,
-          normalizeUsername: (u) => (u ?? '').trim(),
-        }
-      );
+        (data, options) => storage.createAccountsBulk(data, options),
+        { ...DEFAULT_IMPORT_OPTIONS, importBatchId: batch.id }
+      ));
+      await storage.finishImportBatch(batch.id, { status: "completed", imported: createdRecords.length, updated: 0, errors: errors.length + parseErrors.length, createdIds: createdRecords.map((account) => account.id) });
+
+      await recordAudit(req, {
+        action: "account.import",
+        entity: "account",
+        entityIds: createdRecords.map((account) => account.id),
+        metadata: { source: "text", importBatchId: batch.id, imported: createdRecords.length, errors: errors.length + parseErrors.length },
+      });
 
       res.json({
         imported: createdRecords.length,
         errors: errors.length + parseErrors.length,
-        accounts: createdRecords,
+        accounts: maskPasswords(createdRecords),
         errorDetails: errors,
         parseErrors,
         sourceName: "Text Import",
+        importBatchId: batch.id,
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -792,118 +2018,294 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get account statistics
-  app.get("/api/accounts/stats", isAuthenticated, async (req, res) => {
+  // Get account statistics
+  app.get("/api/accounts/stats", requirePermission("accounts:read"), async (req, res) => {
+    try {
+      const stats = await storage.getAccountStats();
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch statistics" });
+    }
+  });
+
+  // Update all accLog statuses
+  app.patch("/api/acclogs/status-all", requirePermission("acclogs:write"), async (req, res) => {
+    try {
+      const body = z.object({ status: z.boolean() }).parse(req.body);
+      const allLogs = await storage.getAllAccLogs();
+      const previous = allLogs.map(({ id, status }) => ({ id, status }));
+      const updatedCount = await storage.updateAllAccLogStatuses(body.status);
+      await recordAudit(req, {
+        action: "acclog.status",
+        entity: "acclog",
+        changes: diffRecords(previous, previous.map(({ id }) => ({ id, status: body.status }))),
+      });
+
+      // Emit real-time update
+      const allLogIds = allLogs.map(log => log.id);
+      emitAccountStatusUpdate(allLogIds, body.status, "acclogs");
+
+      res.json({ updated: updatedCount, status: body.status });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update all accLog statuses" });
+      }
+    }
+  });
+  app.patch("/api/acclogs/status", requirePermission("acclogs:write"), async (req, res) => {
+    try {
+      const body = z
+        .object({
+          ids: z.array(z.number().int().positive()).min(1),
+          status: z.boolean(),
+        })
+        .parse(req.body);
+      const previous = (await storage.getAllAccLogs())
+        .filter((log) => body.ids.includes(log.id))
+        .map(({ id, status }) => ({ id, status }));
+      const updatedCount = await storage.updateSelectedAccLogStatuses(body.ids, body.status);
+      await recordAudit(req, {
+        action: "acclog.status",
+        entity: "acclog",
+        changes: diffRecords(previous, previous.map(({ id }) => ({ id, status: body.status }))),
+      });
+
+      // Emit real-time update
+      emitAccountStatusUpdate(body.ids, body.status, "acclogs");
+
+      res.json({ updated: updatedCount, status: body.status });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update accLog statuses" });
+      }
+    }
+  });
+
+
+  // List accLogs, paged the same way as /api/accounts
+  app.get("/api/acclogs", requirePermission("acclogs:read"), async (req, res) => {
+    try {
+      // state and tag only exist on accounts
+      const { state, tags, ...query } = parseListQuery(req.query);
+      const result = await storage.queryAccLogs(query);
+      const items = maskPasswords(result.items);
+      res.json(isPagedQuery(query) ? { ...result, items } : items);
+    } catch (error) {
+      sendListError(res, error, "Failed to fetch accLogs");
+    }
+  });
+
+  app.post("/api/acclogs/:id/reveal", requirePermission("acclogs:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!Number.isFinite(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid accLog id" });
+      }
+      const [revealed] = await findPasswords("acclog", [id]);
+      if (!revealed) {
+        return res.status(404).json({ message: "AccLog not found" });
+      }
+      await recordAudit(req, { action: "acclog.reveal", entity: "acclog", entityIds: [id] });
+      res.json(revealed);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reveal password" });
+    }
+  });
+
+  app.post("/api/acclogs/reveal", requirePermission("acclogs:read"), async (req, res) => {
+    try {
+      const { ids } = revealPasswordsSchema.parse(req.body);
+      const revealed = await findPasswords("acclog", ids);
+      await recordAudit(req, {
+        action: "acclog.reveal",
+        entity: "acclog",
+        entityIds: revealed.map((item) => item.id),
+        metadata: { bulk: true },
+      });
+      res.json(revealed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to reveal passwords" });
+      }
+    }
+  });
+
+  // Distinct levels for the level filter
+  app.get("/api/acclogs/levels", requirePermission("acclogs:read"), async (req, res) => {
     try {
-      const stats = await storage.getAccountStats();
-      res.json(stats);
+      res.json(await storage.getAccLogLevels());
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch statistics" });
+      res.status(500).json({ message: "Failed to fetch accLog levels" });
     }
   });
 
-  // Update all accLog statuses
-  app.patch("/api/acclogs/status-all", isAuthenticated, async (req, res) => {
+  // Create new accLog
+  app.post("/api/acclogs", requirePermission("acclogs:write"), async (req, res) => {
     try {
-      const body = z.object({ status: z.boolean() }).parse(req.body);
-      const allLogs = await storage.getAllAccLogs();
-      const updatedCount = await storage.updateAllAccLogStatuses(body.status);
+      const validatedData = insertAccLogSchema.parse(normalizeLevelField(req.body));
+      const log = await storage.createAccLog(validatedData);
+      await recordAudit(req, { action: "acclog.create", entity: "acclog", changes: [diffRecord(null, log)!] });
+      const autoPromoted = await autoPromoteAccLogs(req, [log]);
+      res.status(201).json({ ...maskPassword(log), autoPromoted: autoPromoted > 0 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create accLog" });
+      }
+    }
+  });
+
+  // Update accLog status
+  app.patch("/api/acclogs/:id/status", requirePermission("acclogs:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status } = updateAccLogSchema.parse(req.body);
+      const before = snapshot((await storage.getAllAccLogs()).find((item) => item.id === id));
+      const log = await storage.updateAccLogStatus(id, status!);
+
+      if (!before || !log) {
+        return res.status(404).json({ message: "AccLog not found" });
+      }
+      await recordAudit(req, { action: "acclog.status", entity: "acclog", changes: diffRecords([before], [log]) });
 
       // Emit real-time update
-      const allLogIds = allLogs.map(log => log.id);
-      emitAccountStatusUpdate(allLogIds, body.status, "acclogs");
+      emitAccountStatusUpdate([id], status!, "acclogs");
 
-      res.json({ updated: updatedCount, status: body.status });
+      res.json(maskPassword(log));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to update all accLog statuses" });
+        res.status(500).json({ message: "Failed to update accLog" });
       }
     }
   });
-  app.patch("/api/acclogs/status", isAuthenticated, async (req, res) => {
+
+  // Update accLog level (may trigger auto-promotion)
+  app.patch("/api/acclogs/:id/level", requirePermission("acclogs:write"), async (req, res) => {
     try {
-      const body = z
-        .object({
-          ids: z.array(z.number().int().positive()).min(1),
-          status: z.boolean(),
-        })
-        .parse(req.body);
-      const updatedCount = await storage.updateSelectedAccLogStatuses(body.ids, body.status);
+      const id = parseInt(req.params.id);
+      const { lv } = updateAccLogLevelSchema.parse(normalizeLevelField(req.body));
+      const before = snapshot((await storage.getAllAccLogs()).find((item) => item.id === id));
+      const log = await storage.updateAccLogLevel(id, lv);
 
-      // Emit real-time update
-      emitAccountStatusUpdate(body.ids, body.status, "acclogs");
+      if (!before || !log) {
+        return res.status(404).json({ message: "AccLog not found" });
+      }
+      await recordAudit(req, { action: "acclog.level", entity: "acclog", changes: diffRecords([before], [log]) });
 
-      res.json({ updated: updatedCount, status: body.status });
+      const autoPromoted = await autoPromoteAccLogs(req, [log]);
+      res.json({ ...maskPassword(log), autoPromoted: autoPromoted > 0 });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to update accLog statuses" });
+        res.status(500).json({ message: "Failed to update accLog level" });
       }
     }
   });
 
-
-  // Get all accLogs
-  app.get("/api/acclogs", isAuthenticated, async (req, res) => {
+  // Levelling speed per acc log and overall, from the level history
+  app.get("/api/acclogs/level-velocity", requirePermission("acclogs:read"), async (req, res) => {
     try {
-      const logs = await storage.getAllAccLogs();
-      res.json(logs);
+      const { days } = z.object({
+        days: z.coerce.number().int().min(1).max(90).default(14),
+      }).parse(req.query);
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      const [history, logs] = await Promise.all([
+        storage.getAccLogLevelHistory(since),
+        storage.getAllAccLogs(),
+      ]);
+      res.json(buildLevelVelocity(history, logs, days));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch accLogs" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch level velocity" });
+      }
     }
   });
 
-  // Create new accLog
-  app.post("/api/acclogs", isAuthenticated, async (req, res) => {
+  // Promote accLogs into accounts
+  app.post("/api/acclogs/promote", requirePermission("acclogs:write"), async (req, res) => {
     try {
-      const validatedData = insertAccLogSchema.parse(normalizeLevelField(req.body));
-      const log = await storage.createAccLog(validatedData);
-      res.status(201).json(log);
+      const { ids } = z.object({ ids: z.array(z.number().int().positive()).min(1) }).parse(req.body);
+      const result = await promoteAccLogs(req, ids, false);
+      res.json({ promoted: result.promoted.length, accounts: maskPasswords(result.promoted.map((item) => item.account)), skipped: result.skipped });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to create accLog" });
+        res.status(500).json({ message: "Failed to promote accLogs" });
       }
     }
   });
 
-  // Update accLog status
-  app.patch("/api/acclogs/:id/status", isAuthenticated, async (req, res) => {
+  app.post("/api/acclogs/:id/promote", requirePermission("acclogs:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { status } = updateAccLogSchema.parse(req.body);
-      const log = await storage.updateAccLogStatus(id, status!);
-
-      if (!log) {
-        return res.status(404).json({ message: "AccLog not found" });
+      const result = await promoteAccLogs(req, [id], false);
+      if (result.promoted.length === 0) {
+        const reason = result.skipped[0]?.reason ?? "Không thể chuyển acc log";
+        return res.status(reason === "Không tìm thấy acc log" ? 404 : 409).json({ message: reason });
       }
+      res.json(maskPassword(result.promoted[0].account));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to promote accLog" });
+    }
+  });
 
-      // Emit real-time update
-      emitAccountStatusUpdate([id], status!, "acclogs");
+  // Auto-promote rule: logs reaching minLevel are moved into stock
+  app.get("/api/acclogs/auto-promote", requirePermission("acclogs:read"), async (req, res) => {
+    try {
+      res.json({ minLevel: await getAutoPromoteMinLevel() });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch auto-promote setting" });
+    }
+  });
+
+  app.put("/api/acclogs/auto-promote", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const { minLevel } = autoPromoteSettingSchema.parse(req.body);
+      const previous = await getAutoPromoteMinLevel();
+      await storage.setAppSetting(AUTO_PROMOTE_SETTING_KEY, minLevel === null ? null : String(minLevel));
+      await recordAudit(req, {
+        action: "setting.update",
+        entity: "setting",
+        changes: diffRecords([{ id: AUTO_PROMOTE_SETTING_KEY, value: previous }], [{ id: AUTO_PROMOTE_SETTING_KEY, value: minLevel }]),
+      });
 
-      res.json(log);
+      // Logs already at the new level are promoted right away
+      const promoted = minLevel === null ? 0 : await autoPromoteAccLogs(req, await storage.getAllAccLogs());
+      res.json({ minLevel, promoted });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to update accLog" });
+        res.status(500).json({ message: "Failed to update auto-promote setting" });
       }
     }
   });
 
   // Delete accLog
-  app.delete("/api/acclogs/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/acclogs/:id", requirePermission("acclogs:delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const before = (await storage.getAllAccLogs()).find((item) => item.id === id);
       const success = await storage.deleteAccLog(id);
 
-      if (!success) {
+      if (!before || !success) {
         return res.status(404).json({ message: "AccLog not found" });
       }
+      await recordAudit(req, { action: "acclog.delete", entity: "acclog", changes: [diffRecord(before, null)!] });
 
       res.json({ message: "Acc log deleted." });
     } catch (error) {
@@ -912,14 +2314,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete multiple or all accLogs
-  app.delete("/api/acclogs", isAuthenticated, async (req, res) => {
+  app.delete("/api/acclogs", requirePermission("acclogs:delete"), async (req, res) => {
     try {
       const { ids } = req.body;
+      const allLogs = await storage.getAllAccLogs();
       if (ids && Array.isArray(ids) && ids.length > 0) {
         const deletedCount = await storage.deleteMultipleAccLogs(ids);
+        const deleted = allLogs.filter((log) => ids.includes(log.id));
+        await recordAudit(req, { action: "acclog.delete", entity: "acclog", changes: diffRecords(deleted, []) });
         res.json({ message: `Đã xóa ${deletedCount} accLog.` });
       } else {
         const deletedCount = await storage.deleteAllAccLogs();
+        await recordAudit(req, { action: "acclog.delete_all", entity: "acclog", changes: diffRecords(allLogs, []) });
         res.json({ message: `Đã xóa tất cả ${deletedCount} accLog.` });
       }
     } catch (error) {
@@ -928,7 +2334,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Import accLogs from file
-  app.post("/api/acclogs/import", isAuthenticated, upload.single('file'), async (req, res) => {
+  app.post("/api/acclogs/import", requirePermission("acclogs:write"), upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "Không có file được cung cấp" });
@@ -959,17 +2365,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Quá nhiều bản ghi. Giới hạn 1000 mỗi lần import" });
       }
 
-      const { createdRecords, errors } = await processImportRecords(
+      const batch = await openImportBatch(req, "acclogs", "file", req.file.originalname);
+      const { createdRecords, errors } = await runInImportBatch(batch, () => processImportRecords(
         records,
         (record) => insertAccLogSchema.parse(normalizeLevelField(record)),
-        (data) => storage.createAccLog(data)
-      );
+        (data, options) => storage.createAccLogsBulk(data, options),
+        { ...DEFAULT_IMPORT_OPTIONS, importBatchId: batch.id }
+      ));
+      await storage.finishImportBatch(batch.id, { status: "completed", imported: createdRecords.length, updated: 0, errors: errors.length, createdIds: createdRecords.map((log) => log.id) });
+      await recordAudit(req, {
+        action: "acclog.import",
+        entity: "acclog",
+        entityIds: createdRecords.map((log) => log.id),
+        metadata: { source: "file", fileName: req.file.originalname, importBatchId: batch.id, imported: createdRecords.length, errors: errors.length },
+      });
+      const autoPromoted = await autoPromoteAccLogs(req, createdRecords);
 
       res.json({
         imported: createdRecords.length,
         errors: errors.length,
-        accLogs: createdRecords,
+        accLogs: maskPasswords(createdRecords),
+        autoPromoted,
         errorDetails: errors,
+        importBatchId: batch.id,
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to import accLogs" });
@@ -978,59 +2396,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // Import accLogs from normalized payload
-  app.post("/api/acclogs/import-batch", isAuthenticated, async (req, res) => {
+  app.post("/api/acclogs/import-batch", requirePermission("acclogs:write"), async (req, res) => {
     try {
-      const { records, sourceName } = z.object({
-        records: z.array(insertAccLogSchema),
+      // Rows are validated one by one below, so a bad row is reported rather than failing the request
+      const { records, sourceName, mode, onExisting } = z.object({
+        records: z.array(z.unknown()),
         sourceName: z.string().min(1).max(160).optional(),
+        mode: bulkInsertModeSchema,
+        onExisting: importExistingActionSchema,
       }).parse(normalizeLevelField(req.body));
 
       if (records.length === 0) {
         return res.status(400).json({ message: "Khong co ban ghi de import" });
       }
 
-      // Process in chunks when there are more than 1000 records
-      if (records.length > 1000) {
-        const MAX_BATCH_SIZE = 1000;
-        const allCreated: unknown[] = [];
-        const allErrors: Array<{ account: unknown; error: string }> = [];
-
-        for (let i = 0; i < records.length; i += MAX_BATCH_SIZE) {
-          const batch = records.slice(i, i + MAX_BATCH_SIZE);
-          const { createdRecords, errors } = await processImportRecords(
-            batch,
-            (record) => insertAccLogSchema.parse(normalizeLevelField(record)),
-            (data) => storage.createAccLog(data)
-          );
-          allCreated.push(...createdRecords);
-          allErrors.push(...errors);
-        }
-
-        return res.json({
-          imported: allCreated.length,
-          errors: allErrors.length,
-          accLogs: allCreated,
-          errorDetails: allErrors,
-          sourceName: sourceName ?? null,
-        });
-      }
-
-      if (false && records.length > 1000) {
-        return res.status(400).json({ message: "Qua nhieu ban ghi. Gioi han 1000 moi lan import" });
-      }
-
-      const { createdRecords, errors } = await processImportRecords(
+      const batch = await openImportBatch(req, "acclogs", "batch", sourceName ?? null);
+      const { createdRecords, updatedRecords, errors } = await runInImportBatch(batch, () => processImportRecords(
         records,
         (record) => insertAccLogSchema.parse(normalizeLevelField(record)),
-        (data) => storage.createAccLog(data)
-      );
+        (data, options) => storage.createAccLogsBulk(data, options),
+        { mode, onExisting, importBatchId: batch.id }
+      ));
+      await storage.finishImportBatch(batch.id, { status: "completed", imported: createdRecords.length, updated: updatedRecords.length, errors: errors.length, createdIds: createdRecords.map((log) => log.id) });
+      await recordAudit(req, {
+        action: "acclog.import",
+        entity: "acclog",
+        entityIds: [...createdRecords, ...updatedRecords].map((log) => log.id),
+        metadata: { source: "batch", sourceName: sourceName ?? null, importBatchId: batch.id, mode, onExisting, imported: createdRecords.length, updated: updatedRecords.length, errors: errors.length },
+      });
+      // A level raised by the import can reach the auto-promote threshold too
+      const autoPromoted = await autoPromoteAccLogs(req, [...createdRecords, ...updatedRecords]);
 
       res.json({
         imported: createdRecords.length,
+        updated: updatedRecords.length,
         errors: errors.length,
-        accLogs: createdRecords,
+        accLogs: maskPasswords(createdRecords),
+        updatedAccLogs: maskPasswords(updatedRecords),
+        autoPromoted,
         errorDetails: errors,
         sourceName: sourceName ?? null,
+        importBatchId: batch.id,
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1041,8 +2447,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/acclogs/import-jobs", requirePermission("acclogs:write"), async (req, res) => {
+    try {
+      const { records, sourceName, mode, onExisting } = createImportJobSchema.parse(req.body);
+      const batch = await openImportBatch(req, "acclogs", "job", sourceName ?? null);
+      const createdIds: number[] = [];
+      const touchedLogs: AccLog[] = [];
+
+      const job = importJobs.submit({
+        entity: "acclogs",
+        sourceName: sourceName ?? null,
+        createdBy: currentUserId(req)!,
+        records,
+        chunkSize: mode === "all_or_nothing" ? records.length : undefined,
+        importChunk: async (chunk, offset) => {
+          const { createdRecords, updatedRecords, errors } = await processImportRecords(
+            chunk,
+            (record) => insertAccLogSchema.parse(normalizeLevelField(record)),
+            (data, options) => storage.createAccLogsBulk(data, options),
+            { mode, onExisting, importBatchId: batch.id }
+          );
+          createdIds.push(...createdRecords.map((log) => log.id));
+          touchedLogs.push(...createdRecords, ...updatedRecords);
+          return { imported: createdRecords.length, updated: updatedRecords.length, errors: toImportRowErrors(errors, offset) };
+        },
+        finish: async (finished) => {
+          await storage.finishImportBatch(batch.id, { status: importBatchStatus(finished), imported: finished.imported, updated: finished.updated, errors: finished.errorCount, createdIds });
+          await recordAudit(req, {
+            action: "acclog.import",
+            entity: "acclog",
+            entityIds: touchedLogs.map((log) => log.id),
+            metadata: { source: "job", jobId: finished.id, sourceName: sourceName ?? null, importBatchId: batch.id, mode, onExisting, status: finished.status, imported: finished.imported, updated: finished.updated, errors: finished.errorCount },
+          });
+          await autoPromoteAccLogs(req, touchedLogs);
+        },
+      });
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dữ liệu không hợp lệ", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to start import" });
+      }
+    }
+  });
+
+  app.post("/api/acclogs/import/validate", requirePermission("acclogs:write"), async (req, res) => {
+    try {
+      const { records, mode, onExisting } = validateImportSchema.parse(req.body);
+      res.json(await validateImportRecords(
+        records,
+        (record) => insertAccLogSchema.parse(normalizeLevelField(record)),
+        (data, action) => storage.planAccLogsBulk(data, action),
+        { mode, onExisting }
+      ));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dữ liệu không hợp lệ", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to validate acc logs" });
+      }
+    }
+  });
+
+  // The signed-in user's recent import jobs, newest first
+  app.get("/api/import-jobs", isAuthenticated, async (req, res) => {
+    res.json(importJobs.list(currentUserId(req)));
+  });
+
+  app.get("/api/import-jobs/:id", isAuthenticated, async (req, res) => {
+    const job = importJobs.get(req.params.id);
+    if (!job || job.createdBy !== currentUserId(req)) {
+      return res.status(404).json({ message: "Import job not found" });
+    }
+    res.json(job);
+  });
+
+  // Stop a job; rows imported before the cancel stay
+  app.post("/api/import-jobs/:id/cancel", isAuthenticated, async (req, res) => {
+    try {
+      const job = importJobs.get(req.params.id);
+      if (!job || job.createdBy !== currentUserId(req)) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      res.json(await importJobs.cancel(job.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel import job" });
+    }
+  });
+
+  // Import history, newest first
+  app.get("/api/accounts/import-batches", requirePermission("accounts:read"), async (req, res) => {
+    try {
+      res.json(await storage.queryImportBatches("accounts", importBatchQuerySchema.parse(req.query)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dữ liệu không hợp lệ", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch import batches" });
+      }
+    }
+  });
+
+  app.get("/api/acclogs/import-batches", requirePermission("acclogs:read"), async (req, res) => {
+    try {
+      res.json(await storage.queryImportBatches("acclogs", importBatchQuerySchema.parse(req.query)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dữ liệu không hợp lệ", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch import batches" });
+      }
+    }
+  });
+
+  // Delete the rows an import created, e.g. after a bad supplier file
+  app.post("/api/accounts/import-batches/:id/rollback", requirePermission("accounts:delete"), (req, res) =>
+    rollbackImportBatch(req, res, "accounts"));
+
+  app.post("/api/acclogs/import-batches/:id/rollback", requirePermission("acclogs:delete"), (req, res) =>
+    rollbackImportBatch(req, res, "acclogs"));
+
   // Get accLog statistics
-  app.get("/api/acclogs/stats", isAuthenticated, async (req, res) => {
+  app.get("/api/acclogs/stats", requirePermission("acclogs:read"), async (req, res) => {
     try {
       const stats = await storage.getAccLogStats();
       res.json(stats);
@@ -1052,17 +2579,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Revenue tracking routes
-  app.post("/api/revenue/set-price", isAuthenticated, async (req, res) => {
+  // Buyers & orders
+  app.get("/api/buyers", requirePermission("revenue:read"), async (req, res) => {
+    try {
+      const buyersList = await storage.getAllBuyers();
+      res.json(buyersList);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch buyers" });
+    }
+  });
+
+  app.post("/api/buyers", requirePermission("revenue:manage"), async (req, res) => {
+    try {
+      const body = insertBuyerSchema.parse(req.body);
+      const buyer = await storage.createBuyer(body);
+      await recordAudit(req, { action: "buyer.create", entity: "buyer", changes: [diffRecord(null, buyer)!] });
+      res.status(201).json(buyer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create buyer" });
+      }
+    }
+  });
+
+  // Purchase history: orders newest first, each with its sold accounts (voided sales included but flagged)
+  app.get("/api/buyers/:id/orders", requirePermission("revenue:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const buyer = Number.isFinite(id) ? await storage.getBuyer(id) : undefined;
+      if (!buyer) {
+        return res.status(404).json({ message: "Không tìm thấy người mua" });
+      }
+
+      const buyerOrders = await storage.getOrdersByBuyer(id);
+      const [items, allAccounts, sessions] = await Promise.all([
+        storage.getRevenueRecordsByOrders(buyerOrders.map((order) => order.id)),
+        storage.getAllAccounts(),
+        storage.getAllLiveSessions(),
+      ]);
+      const usernames = new Map(allAccounts.map((acc) => [acc.id, acc.username]));
+      const sessionNames = new Map(sessions.map((session) => [session.id, session.sessionName]));
+
+      res.json({
+        buyer,
+        orders: buyerOrders.map((order) => {
+          const orderItems = items
+            .filter((item) => item.orderId === order.id)
+            .map((item) => ({
+              revenueRecordId: item.id,
+              accountId: item.accountId,
+              accountUsername: usernames.get(item.accountId) ?? null,
+              price: item.revenue,
+              voidedAt: item.voidedAt,
+            }));
+          return {
+            ...order,
+            sessionName: order.sessionId ? sessionNames.get(order.sessionId) ?? null : null,
+            items: orderItems,
+            total: orderItems.filter((item) => !item.voidedAt).reduce((sum, item) => sum + item.price, 0),
+          };
+        }),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch buyer history" });
+    }
+  });
+
+  // Build the credential message for a buyer's accounts (one order, or every order) so it can be sent again
+  app.post("/api/buyers/:id/resend-credentials", requirePermission("revenue:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { orderId } = z.object({
+        orderId: z.number().int().positive().optional(),
+      }).parse(req.body ?? {});
+
+      const buyer = Number.isFinite(id) ? await storage.getBuyer(id) : undefined;
+      if (!buyer) {
+        return res.status(404).json({ message: "Không tìm thấy người mua" });
+      }
+
+      const buyerOrders = (await storage.getOrdersByBuyer(id))
+        .filter((order) => orderId === undefined || order.id === orderId);
+      if (orderId !== undefined && buyerOrders.length === 0) {
+        return res.status(404).json({ message: "Không tìm thấy đơn hàng của người mua này" });
+      }
+
+      const items = (await storage.getRevenueRecordsByOrders(buyerOrders.map((order) => order.id)))
+        .filter((item) => !item.voidedAt);
+      const soldIds = new Set(items.map((item) => item.accountId));
+      const soldAccounts = (await storage.getAllAccounts()).filter((acc) => soldIds.has(acc.id));
+      if (soldAccounts.length === 0) {
+        return res.status(404).json({ message: "Người mua chưa có account nào" });
+      }
+
+      const credentials = soldAccounts.map((acc) => ({ username: acc.username, password: acc.password }));
+      const message = [
+        `Gửi ${buyer.name}, thông tin account đã mua:`,
+        ...credentials.map((cred, index) => `${index + 1}. ${cred.username} | ${cred.password}`),
+      ].join("\n");
+
+      log.info("Credentials re-sent", { buyerId: buyer.id, orderId: orderId ?? null, count: credentials.length });
+      await recordAudit(req, {
+        action: "buyer.resend_credentials",
+        entity: "buyer",
+        entityIds: [buyer.id],
+        metadata: { orderId: orderId ?? null, accountIds: soldAccounts.map((acc) => acc.id) },
+      });
+      res.json({ buyerId: buyer.id, contact: buyer.contact, message, credentials });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to re-send credentials" });
+      }
+    }
+  });
+
+  app.post("/api/revenue/set-price", requirePermission("revenue:manage"), async (req, res) => {
     try {
-      console.log('POST /api/revenue/set-price - Request body:', req.body);
-      const body = insertLiveSessionSchema.parse(req.body);
-      console.log('Parsed body:', body);
-      const session = await storage.createLiveSession(body);
-      console.log('Created session:', session);
-      return res.status(201).json(session);
+      const { rules, ...body } = insertLiveSessionSchema.extend({
+        rules: z.array(insertPricingRuleSchema).max(50).default([]),
+      }).parse(req.body);
+      const previousSession = await storage.getOpenLiveSession();
+      const { session, rules: pricingRules } = await storage.createLiveSessionWithRules(body, rules);
+      await recordAudit(req, {
+        action: "live_session.create",
+        entity: "live_session",
+        changes: [diffRecord(null, session)!],
+        metadata: { rules: pricingRules.length, endedSessionId: previousSession?.id ?? null },
+      });
+      log.info("Created live session", { sessionId: session.id, pricePerAccount: session.pricePerAccount, rules: pricingRules.length });
+      return res.status(201).json({ ...session, rules: pricingRules });
     } catch (error) {
-      console.error('Error in /api/revenue/set-price:', error);
-      console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
+      log.error("Error creating live session", { err: error });
 
       // Ensure we always return JSON
       if (error instanceof z.ZodError) {
@@ -1083,7 +2734,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/revenue/sessions", isAuthenticated, async (req, res) => {
+  app.get("/api/revenue/sessions", requirePermission("revenue:read"), async (req, res) => {
     try {
       const sessions = await storage.getAllLiveSessions();
       res.json(sessions);
@@ -1092,7 +2743,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/revenue/active-session", isAuthenticated, async (req, res) => {
+  app.get("/api/revenue/sessions/:id/rules", requirePermission("revenue:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const session = Number.isFinite(id) ? await storage.getLiveSession(id) : undefined;
+      if (!session) {
+        return res.status(404).json({ message: "Không tìm thấy buổi live" });
+      }
+      res.json(await storage.getPricingRules(id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pricing rules" });
+    }
+  });
+
+  // Replace the whole rule set of a session; only affects sales booked afterwards
+  app.put("/api/revenue/sessions/:id/rules", requirePermission("revenue:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const session = Number.isFinite(id) ? await storage.getLiveSession(id) : undefined;
+      if (!session) {
+        return res.status(404).json({ message: "Không tìm thấy buổi live" });
+      }
+      const { rules } = z.object({
+        rules: z.array(insertPricingRuleSchema).max(50),
+      }).parse(req.body);
+      const previousRules = await storage.getPricingRules(id);
+      const savedRules = await storage.replacePricingRules(id, rules);
+      await recordAudit(req, {
+        action: "pricing_rule.replace",
+        entity: "pricing_rule",
+        changes: diffRecords(previousRules, savedRules),
+        metadata: { sessionId: id },
+      });
+      res.json(savedRules);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save pricing rules" });
+      }
+    }
+  });
+
+  // Live session lifecycle: pause, resume, end and reopen
+  app.post("/api/revenue/sessions/:id/:action(pause|resume|end|reopen)", requirePermission("revenue:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!Number.isFinite(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid session id" });
+      }
+      const transition = LIVE_SESSION_TRANSITIONS[req.params.action];
+
+      const session = snapshot(await storage.getLiveSession(id));
+      if (!session) {
+        return res.status(404).json({ message: "Live session not found" });
+      }
+      if (!transition.from.includes(session.status)) {
+        return res.status(409).json({
+          message: `Không thể chuyển buổi live từ trạng thái "${session.status}" sang "${transition.to}"`,
+        });
+      }
+
+      // Only one live can be open at a time
+      if (req.params.action === "reopen") {
+        const openSession = await storage.getOpenLiveSession();
+        if (openSession && openSession.id !== id) {
+          return res.status(409).json({
+            message: `Buổi live "${openSession.sessionName}" đang mở. Kết thúc buổi đó trước khi mở lại`,
+          });
+        }
+      }
+
+      const updated = await storage.updateLiveSessionStatus(id, transition.to);
+      if (!updated) {
+        return res.status(404).json({ message: "Live session not found" });
+      }
+      await recordAudit(req, { action: `live_session.${req.params.action}`, entity: "live_session", changes: diffRecords([session], [updated]) });
+      res.json(updated);
+    } catch (error) {
+      log.error("Error updating live session status", { err: error });
+      res.status(500).json({ message: "Failed to update live session" });
+    }
+  });
+
+  app.get("/api/revenue/active-session", requirePermission("revenue:read"), async (req, res) => {
     try {
       const session = await storage.getActiveLiveSession();
       res.json(session || null);
@@ -1101,7 +2835,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/revenue/stats", isAuthenticated, async (req, res) => {
+  app.get("/api/revenue/stats", requirePermission("revenue:read"), async (req, res) => {
     try {
       const { startDate, endDate } = z.object({
         startDate: z.string().optional(),
@@ -1122,17 +2856,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/revenue/current-session", isAuthenticated, async (req, res) => {
+  // Audit trail of reversed sales, newest first
+  app.get("/api/revenue/voided", requirePermission("revenue:read"), async (req, res) => {
     try {
-      const session = await storage.getActiveLiveSession();
+      const { sessionId } = z.object({
+        sessionId: z.coerce.number().int().positive().optional(),
+      }).parse(req.query);
+
+      const [records, allAccounts] = await Promise.all([
+        storage.getVoidedRevenueRecords(sessionId),
+        storage.getAllAccounts(),
+      ]);
+      const usernames = new Map(allAccounts.map((acc) => [acc.id, acc.username]));
+
+      res.json(records.map((record) => ({
+        ...record,
+        accountUsername: usernames.get(record.accountId) ?? null,
+      })));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch voided revenue records" });
+      }
+    }
+  });
+
+  app.get("/api/revenue/current-session", requirePermission("revenue:read"), async (req, res) => {
+    try {
+      // Paused sessions are still shown, they just don't collect revenue
+      const session = await storage.getOpenLiveSession();
       if (!session) {
-        console.log('[Revenue] No active session found');
         return res.json({ session: null, revenue: { totalRevenue: 0, accountCount: 0 } });
       }
 
       const revenue = await storage.getCurrentSessionRevenue(session.id);
-      console.log(`[Revenue] Current session revenue for session ${session.id} (${session.sessionName}):`, revenue);
-      console.log(`[Revenue] Session details:`, { id: session.id, sessionName: session.sessionName, pricePerAccount: session.pricePerAccount });
 
       // Ensure we return the correct structure
       const response = {
@@ -1140,6 +2898,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: session.id,
           sessionName: session.sessionName,
           pricePerAccount: session.pricePerAccount,
+          status: session.status,
+          startedAt: session.startedAt,
+          endedAt: session.endedAt,
           createdAt: session.createdAt,
           updatedAt: session.updatedAt,
         },
@@ -1149,10 +2910,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       };
 
-      console.log(`[Revenue] Response:`, response);
       res.json(response);
     } catch (error) {
-      console.error('[Revenue] Error in /api/revenue/current-session:', error);
+      log.error("Error fetching current session revenue", { err: error });
       res.status(500).json({ message: "Failed to fetch current session revenue" });
     }
   });
@@ -1160,7 +2920,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
   // Initialize Socket.IO
-  console.log(`[Socket.IO] Initializing Socket.IO server...`);
   const isProduction = process.env.NODE_ENV === 'production';
 
   io = new SocketIOServer(httpServer, {
@@ -1181,24 +2940,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     cookie: false,
   });
 
-  console.log(`[Socket.IO] Socket.IO server initialized successfully`);
+  socketLog.info("Socket.IO server initialized");
+
+  // Only signed-in operators and valid API tokens may connect; the engine runs the session
+  // middleware so the handshake sees the same login as HTTP requests
+  io.engine.use(sessionMiddleware);
+  io.use(authenticateSocket);
 
   // Socket.IO connection handling
   io.on("connection", (socket) => {
-    console.log(`[Socket.IO] Client connected: ${socket.id}, total clients: ${io?.sockets.sockets.size || 0}`);
+    const { userId } = socket.data as SocketIdentity;
+    socketLog.debug("Client connected", { socketId: socket.id, userId, clients: io?.sockets.sockets.size || 0 });
+    joinIdentityRooms(socket);
+
+    // Clients name the lists they show; they only join the rooms their permissions allow
+    socket.on("subscribe", (entities: unknown, ack?: (joined: string[]) => void) => {
+      const joined = subscribeToEntities(socket, entities);
+      if (typeof ack === "function") ack(joined);
+    });
 
     socket.on("disconnect", (reason) => {
-      console.log(`[Socket.IO] Client disconnected: ${socket.id}, reason: ${reason}, remaining clients: ${io?.sockets.sockets.size || 0}`);
+      socketLog.debug("Client disconnected", { socketId: socket.id, reason, clients: io?.sockets.sockets.size || 0 });
     });
 
     socket.on("error", (error) => {
-      console.error(`[Socket.IO] Socket error for ${socket.id}:`, error);
+      socketLog.error("Socket error", { socketId: socket.id, err: error });
     });
   });
 
   io.engine.on("connection_error", (err) => {
-    console.error(`[Socket.IO] Connection error:`, err);
+    socketLog.error("Connection error", { code: err.code, message: err.message });
   });
 
+  void closeInterruptedImportBatches();
+
+  // Expired holds are released here rather than on read so every client sees the change at once
+  setInterval(() => {
+    void releaseExpiredHolds();
+  }, HOLD_SWEEP_INTERVAL_MS).unref();
+
   return httpServer;
 }
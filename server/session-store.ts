@@ -1,7 +1,11 @@
 import { Store, SessionData } from "express-session";
-import { db } from "./db";
-import { sessions } from "@shared/schema";
-import { eq, lt, sql } from "drizzle-orm";
+import { createHash } from "crypto";
+import { addColumnIfMissing, db } from "./db";
+import { sessions, type Session } from "@shared/schema";
+import { and, desc, eq, gte, lt, ne, sql } from "drizzle-orm";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "session-store" });
 
 /**
  * Custom session store for Turso/libSQL database.
@@ -9,6 +13,8 @@ import { eq, lt, sql } from "drizzle-orm";
  * - sid: session ID (primary key)
  * - sess: JSON stringified session data
  * - expire: Unix timestamp when session expires
+ * - user_id, ip, user_agent: copied from the session data so a user's logins can be listed
+ * - created_at, last_seen_at: ISO timestamps; last_seen_at moves on every request
  */
 export class TursoSessionStore extends Store {
     private cleanupInterval: ReturnType<typeof setInterval> | null = null;
@@ -20,7 +26,7 @@ export class TursoSessionStore extends Store {
         this.ready = this.ensureTable();
         // Cleanup expired sessions every 15 minutes
         this.cleanupInterval = setInterval(() => {
-            this.cleanup().catch(console.error);
+            this.cleanup().catch((error) => log.error('Error cleaning up expired sessions', { err: error }));
         }, 15 * 60 * 1000);
     }
 
@@ -37,9 +43,17 @@ export class TursoSessionStore extends Store {
             await db.run(sql`
         CREATE INDEX IF NOT EXISTS sessions_expire_idx ON sessions(expire)
       `);
-            console.log('✅ Sessions table created/verified');
+            await addColumnIfMissing('sessions', 'user_id TEXT');
+            await addColumnIfMissing('sessions', 'ip TEXT');
+            await addColumnIfMissing('sessions', 'user_agent TEXT');
+            await addColumnIfMissing('sessions', 'created_at TEXT');
+            await addColumnIfMissing('sessions', 'last_seen_at TEXT');
+            await db.run(sql`CREATE INDEX IF NOT EXISTS sessions_user_id_idx ON sessions(user_id)`);
+            // Sessions saved before user_id existed
+            await db.run(sql`UPDATE sessions SET user_id = json_extract(sess, '$.userId') WHERE user_id IS NULL`);
+            log.info('Sessions table created/verified');
         } catch (error) {
-            console.error('Error creating sessions table:', error);
+            log.error('Error creating sessions table', { err: error });
         }
     }
 
@@ -48,7 +62,7 @@ export class TursoSessionStore extends Store {
             const now = Math.floor(Date.now() / 1000);
             await db.delete(sessions).where(lt(sessions.expire, now));
         } catch (error) {
-            console.error('Error cleaning up expired sessions:', error);
+            log.error('Error cleaning up expired sessions', { err: error });
         }
     }
 
@@ -77,7 +91,7 @@ export class TursoSessionStore extends Store {
             const sess = JSON.parse(row.sess);
             callback(null, sess);
         } catch (error) {
-            console.error('Session get error:', error);
+            log.error('Session get error', { err: error });
             callback(error);
         }
     }
@@ -92,16 +106,23 @@ export class TursoSessionStore extends Store {
             const maxAge = session.cookie?.maxAge ?? 86400000; // Default 1 day
             const expire = Math.floor((Date.now() + maxAge) / 1000);
             const sess = JSON.stringify(session);
-
-            // Upsert: insert or replace
-            await db.run(sql`
-        INSERT OR REPLACE INTO sessions (sid, sess, expire)
-        VALUES (${sid}, ${sess}, ${expire})
-      `);
+            const now = new Date().toISOString();
+            const details = {
+                userId: session.userId ?? null,
+                ip: session.client?.ip ?? null,
+                userAgent: session.client?.userAgent ?? null,
+                lastSeenAt: now,
+            };
+
+            // Upsert, keeping created_at from the first save
+            await db
+                .insert(sessions)
+                .values({ sid, sess, expire, ...details, createdAt: now })
+                .onConflictDoUpdate({ target: sessions.sid, set: { sess, expire, ...details } });
 
             callback?.();
         } catch (error) {
-            console.error('Session set error:', error);
+            log.error('Session set error', { err: error });
             callback?.(error);
         }
     }
@@ -112,7 +133,7 @@ export class TursoSessionStore extends Store {
             await db.delete(sessions).where(eq(sessions.sid, sid));
             callback?.();
         } catch (error) {
-            console.error('Session destroy error:', error);
+            log.error('Session destroy error', { err: error });
             callback?.(error);
         }
     }
@@ -129,12 +150,12 @@ export class TursoSessionStore extends Store {
 
             await db
                 .update(sessions)
-                .set({ expire })
+                .set({ expire, lastSeenAt: new Date().toISOString() })
                 .where(eq(sessions.sid, sid));
 
             callback?.();
         } catch (error) {
-            console.error('Session touch error:', error);
+            log.error('Session touch error', { err: error });
             callback?.(error);
         }
     }
@@ -145,7 +166,7 @@ export class TursoSessionStore extends Store {
             await db.delete(sessions);
             callback?.();
         } catch (error) {
-            console.error('Session clear error:', error);
+            log.error('Session clear error', { err: error });
             callback?.(error);
         }
     }
@@ -160,11 +181,33 @@ export class TursoSessionStore extends Store {
                 .where(sql`expire >= ${now}`);
             callback(null, row?.count ?? 0);
         } catch (error) {
-            console.error('Session length error:', error);
+            log.error('Session length error', { err: error });
             callback(error);
         }
     }
 
+    // Unexpired sessions of a user, most recently used first
+    async listUserSessions(userId: string): Promise<Session[]> {
+        await this.ready;
+        const now = Math.floor(Date.now() / 1000);
+        return db
+            .select()
+            .from(sessions)
+            .where(and(eq(sessions.userId, userId), gte(sessions.expire, now)))
+            .orderBy(desc(sessions.lastSeenAt));
+    }
+
+    // Log a user out everywhere, or everywhere but `exceptSid`; returns the number of sessions removed
+    async destroyUserSessions(userId: string, exceptSid?: string): Promise<number> {
+        await this.ready;
+        const conditions = [eq(sessions.userId, userId)];
+        if (exceptSid) {
+            conditions.push(ne(sessions.sid, exceptSid));
+        }
+        const result = await db.delete(sessions).where(and(...conditions));
+        return result.rowsAffected;
+    }
+
     close(): void {
         if (this.cleanupInterval) {
             clearInterval(this.cleanupInterval);
@@ -172,3 +215,8 @@ export class TursoSessionStore extends Store {
         }
     }
 }
+
+// Identifies a session in the session list without handing out the session id itself
+export function sessionPublicId(sid: string): string {
+    return createHash("sha256").update(sid).digest("hex").slice(0, 16);
+}
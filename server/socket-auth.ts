@@ -0,0 +1,82 @@
+import type { Request } from "express";
+import type { Socket } from "socket.io";
+import type { Permission } from "@shared/schema";
+import { grantedPermissions, parseBearerToken, resolveApiToken } from "./auth";
+import { storage } from "./storage";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "socket.io" });
+
+// Lists a client can subscribe to. Each has a room named after the permission needed to read
+// it, so an event sent to "accounts:read" only reaches operators allowed to see accounts.
+export const SOCKET_ENTITIES = ["accounts", "acclogs"] as const;
+export type SocketEntity = typeof SOCKET_ENTITIES[number];
+
+export interface SocketIdentity {
+  userId: string;
+  permissions: Permission[];
+  // Whichever the connection authenticated with, so revoking it can disconnect the socket
+  sessionId?: string;
+  apiTokenId?: number;
+}
+
+export function entityRoom(entity: SocketEntity): `${SocketEntity}:read` {
+  return `${entity}:read`;
+}
+
+export const userRoom = (userId: string) => `user:${userId}`;
+export const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+export const apiTokenRoom = (apiTokenId: number) => `api-token:${apiTokenId}`;
+
+function identityOf(socket: Socket): SocketIdentity {
+  return socket.data as SocketIdentity;
+}
+
+// Handshake check: the session cookie (read by the express-session middleware on the engine)
+// or an API token passed as `auth: { token }` or an Authorization header.
+export async function authenticateSocket(socket: Socket, next: (err?: Error) => void) {
+  try {
+    const req = socket.request as Request;
+    const header = socket.handshake.headers.authorization;
+    const rawToken = typeof socket.handshake.auth?.token === "string"
+      ? socket.handshake.auth.token
+      : header ? parseBearerToken(header) : null;
+
+    const apiToken = rawToken ? await resolveApiToken(rawToken) : null;
+    if (rawToken && !apiToken) {
+      return next(new Error("Unauthorized"));
+    }
+    const userId = apiToken?.userId ?? req.session?.userId;
+    const user = userId ? await storage.getUser(userId) : undefined;
+    if (!user || user.disabled) {
+      return next(new Error("Unauthorized"));
+    }
+
+    const identity: SocketIdentity = {
+      userId: user.id,
+      permissions: grantedPermissions(user, apiToken ?? undefined),
+      ...(apiToken ? { apiTokenId: apiToken.id } : { sessionId: req.sessionID }),
+    };
+    socket.data = identity;
+    next();
+  } catch (error) {
+    log.error("Socket authentication error", { err: error });
+    next(new Error("Authentication failed"));
+  }
+}
+
+export function joinIdentityRooms(socket: Socket) {
+  const { userId, sessionId, apiTokenId } = identityOf(socket);
+  socket.join(userRoom(userId));
+  if (sessionId) socket.join(sessionRoom(sessionId));
+  if (apiTokenId !== undefined) socket.join(apiTokenRoom(apiTokenId));
+}
+
+// Join the rooms of the requested lists the user may read; returns the lists joined
+export function subscribeToEntities(socket: Socket, requested: unknown): SocketEntity[] {
+  const { permissions } = identityOf(socket);
+  const entities = Array.isArray(requested) ? requested : [];
+  const allowed = SOCKET_ENTITIES.filter((entity) => entities.includes(entity) && permissions.includes(entityRoom(entity)));
+  allowed.forEach((entity) => socket.join(entityRoom(entity)));
+  return allowed;
+}
@@ -1,7 +1,12 @@
-import { accounts, accLogs, users, liveSessions, revenueRecords, cloneRegs, type Account, type InsertAccount, type User, type AccLog, type InsertAccLog, type LiveSession, type InsertLiveSession, type RevenueRecord, type InsertRevenueRecord, type UpdateAccountDetails, type CloneReg, type InsertCloneReg, type UpdateCloneRegDetails } from "@shared/schema";
-import { db } from "./db";
+import { ACCOUNT_STATES, DEFAULT_TAG_COLOR, TAG_FILTER_UNASSIGNED, canTransitionAccountState, accountStatusForState, accounts, accountTags, tags, accLogs, accLogLevelHistory, appSettings, users, loginAttempts, apiTokens, liveSessions, revenueRecords, pricingRules, buyers, orders, cloneRegs, auditEvents, type Account, type AccountWithTags, type AccountTagRef, type Tag, type TagWithCount, type InsertTag, type UpdateTag, type AccountHold, type AccountState, type AccountStateTransitionResult, type ListPage, type AccLogPromotionResult, type AccLogLevelChange, type InsertAccount, type User, type LoginAttempt, type ApiToken, type InsertApiToken, type AccLog, type InsertAccLog, type BulkInsertConflict, type BulkInsertOptions, type BulkInsertPlan, type BulkInsertResult, type ImportExistingAction, type LiveSession, type InsertLiveSession, type LiveSessionStatus, type RevenueRecord, type InsertRevenueRecord, type PricingRule, type InsertPricingRule, type Buyer, type InsertBuyer, type Order, type InsertOrder, type UpdateAccountDetails, type CloneReg, type InsertCloneReg, type UpdateCloneRegDetails, type AuditEvent, type InsertAuditEvent, type AuditQuery, importBatches, type ImportBatch, type ImportBatchQuery, type ImportBatchResult, type ImportBatchStatus, type ImportJobEntity, type InsertImportBatch } from "@shared/schema";
+import { addColumnIfMissing, db } from "./db";
 import { randomUUID } from "crypto";
-import { eq, sql, inArray, desc, and, gte, lte } from "drizzle-orm";
+import { eq, ne, sql, inArray, asc, desc, and, or, gt, lt, gte, lte, isNull, isNotNull, exists, notExists, type SQL } from "drizzle-orm";
+import { applyListQuery, encodeCursor, sortValueOf, type StorageListQuery } from "./list-query";
+import { decryptSecret, encryptSecret, loadKeyringFromEnv, type Keyring } from "./encryption";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "storage" });
 
 // Initialize tables for SQLite/Turso
 const ensureTablesPromise = (async () => {
@@ -14,12 +19,59 @@ const ensureTablesPromise = (async () => {
         password TEXT NOT NULL,
         lv INTEGER NOT NULL DEFAULT 0,
         status INTEGER NOT NULL DEFAULT 1,
+        state TEXT NOT NULL DEFAULT 'available',
         tag TEXT,
         champion TEXT,
         skins TEXT NOT NULL DEFAULT '[]',
+        price_override INTEGER,
+        held_by TEXT,
+        held_for_buyer_id INTEGER,
+        held_until TEXT,
+        import_batch_id INTEGER,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    await addColumnIfMissing('accounts', `price_override INTEGER`);
+    await addColumnIfMissing('accounts', `state TEXT NOT NULL DEFAULT 'available'`);
+    await addColumnIfMissing('accounts', `held_by TEXT`);
+    await addColumnIfMissing('accounts', `held_for_buyer_id INTEGER`);
+    await addColumnIfMissing('accounts', `held_until TEXT`);
+    await addColumnIfMissing('accounts', `import_batch_id INTEGER`);
+    await db.run(sql`CREATE INDEX IF NOT EXISTS idx_accounts_import_batch_id ON accounts(import_batch_id)`);
+    // Accounts switched OFF before lifecycle states existed were sold
+    await db.run(sql`UPDATE accounts SET state = 'sold' WHERE status = 0 AND state = 'available'`);
+
+    // Create tags and account_tags tables
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        color TEXT NOT NULL DEFAULT '#64748b',
+        description TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
         updated_at TEXT NOT NULL DEFAULT (datetime('now'))
       )
     `);
+    await db.run(sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_name ON tags(lower(name))`);
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS account_tags (
+        account_id INTEGER NOT NULL REFERENCES accounts(id),
+        tag_id INTEGER NOT NULL REFERENCES tags(id),
+        PRIMARY KEY (account_id, tag_id)
+      )
+    `);
+    await db.run(sql`CREATE INDEX IF NOT EXISTS idx_account_tags_tag_id ON account_tags(tag_id)`);
+    // Move the legacy single tag column into account_tags, then clear it so this runs once per account
+    await db.run(sql`
+      INSERT OR IGNORE INTO tags (name)
+      SELECT trim(tag) FROM accounts WHERE tag IS NOT NULL AND trim(tag) <> '' GROUP BY lower(trim(tag))
+    `);
+    await db.run(sql`
+      INSERT OR IGNORE INTO account_tags (account_id, tag_id)
+      SELECT a.id, t.id FROM accounts a JOIN tags t ON lower(t.name) = lower(trim(a.tag))
+      WHERE a.tag IS NOT NULL AND trim(a.tag) <> ''
+    `);
+    await db.run(sql`UPDATE accounts SET tag = NULL WHERE tag IS NOT NULL`);
 
     // Create acclogs table
     await db.run(sql`
@@ -29,19 +81,71 @@ const ensureTablesPromise = (async () => {
         password TEXT NOT NULL,
         lv INTEGER NOT NULL DEFAULT 0,
         status INTEGER NOT NULL DEFAULT 1,
+        import_batch_id INTEGER,
         updated_at TEXT NOT NULL DEFAULT (datetime('now'))
       )
     `);
+    await addColumnIfMissing('acclogs', `import_batch_id INTEGER`);
+    await db.run(sql`CREATE INDEX IF NOT EXISTS idx_acclogs_import_batch_id ON acclogs(import_batch_id)`);
+
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS acclog_level_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        acclog_id INTEGER NOT NULL,
+        username TEXT NOT NULL,
+        from_lv INTEGER,
+        to_lv INTEGER NOT NULL,
+        recorded_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    await db.run(sql`CREATE INDEX IF NOT EXISTS idx_acclog_level_history_recorded_at ON acclog_level_history(recorded_at)`);
 
     // Create users table
     await db.run(sql`
       CREATE TABLE IF NOT EXISTS users (
         id TEXT PRIMARY KEY,
         username TEXT NOT NULL UNIQUE,
-        password TEXT NOT NULL
+        password TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'owner',
+        disabled INTEGER NOT NULL DEFAULT 0,
+        totp_secret TEXT,
+        totp_enabled INTEGER NOT NULL DEFAULT 0,
+        totp_recovery_codes TEXT NOT NULL DEFAULT '[]',
+        totp_last_step INTEGER
+      )
+    `);
+    await addColumnIfMissing('users', `role TEXT NOT NULL DEFAULT 'owner'`);
+    await addColumnIfMissing('users', `disabled INTEGER NOT NULL DEFAULT 0`);
+    await addColumnIfMissing('users', `totp_secret TEXT`);
+    await addColumnIfMissing('users', `totp_enabled INTEGER NOT NULL DEFAULT 0`);
+    await addColumnIfMissing('users', `totp_recovery_codes TEXT NOT NULL DEFAULT '[]'`);
+    await addColumnIfMissing('users', `totp_last_step INTEGER`);
+
+    // Create login_attempts table
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS login_attempts (
+        username TEXT PRIMARY KEY,
+        failed_count INTEGER NOT NULL DEFAULT 0,
+        last_failed_at TEXT NOT NULL
       )
     `);
 
+    // Create api_tokens table
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        token_prefix TEXT NOT NULL,
+        scopes TEXT NOT NULL DEFAULT '[]',
+        expires_at TEXT NOT NULL,
+        last_used_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    await db.run(sql`CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id)`);
+
     // Create clonereg table
     await db.run(sql`
       CREATE TABLE IF NOT EXISTS clonereg (
@@ -61,11 +165,58 @@ const ensureTablesPromise = (async () => {
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         session_name TEXT NOT NULL,
         price_per_account INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        started_at TEXT NOT NULL DEFAULT (datetime('now')),
+        ended_at TEXT,
         created_at TEXT NOT NULL DEFAULT (datetime('now')),
         updated_at TEXT NOT NULL DEFAULT (datetime('now'))
       )
     `);
 
+    // Migrate live_sessions created before the lifecycle columns existed.
+    // Legacy rows are treated as ended so they stop collecting revenue.
+    await addColumnIfMissing('live_sessions', `status TEXT NOT NULL DEFAULT 'ended'`);
+    await addColumnIfMissing('live_sessions', `started_at TEXT NOT NULL DEFAULT ''`);
+    await addColumnIfMissing('live_sessions', `ended_at TEXT`);
+    await db.run(sql`UPDATE live_sessions SET started_at = created_at WHERE started_at = ''`);
+
+    // Create pricing_rules table
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS pricing_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id INTEGER NOT NULL REFERENCES live_sessions(id),
+        name TEXT NOT NULL,
+        min_level INTEGER,
+        max_level INTEGER,
+        tag TEXT,
+        min_skins INTEGER,
+        max_skins INTEGER,
+        price INTEGER NOT NULL,
+        priority INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    // Create buyers and orders tables
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS buyers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        contact TEXT,
+        note TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS orders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        buyer_id INTEGER NOT NULL REFERENCES buyers(id),
+        session_id INTEGER REFERENCES live_sessions(id),
+        note TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
     // Create revenue_records table
     await db.run(sql`
       CREATE TABLE IF NOT EXISTS revenue_records (
@@ -74,13 +225,71 @@ const ensureTablesPromise = (async () => {
         account_id INTEGER NOT NULL REFERENCES accounts(id),
         price_per_account INTEGER NOT NULL,
         revenue INTEGER NOT NULL,
+        price_source TEXT NOT NULL DEFAULT 'session',
+        pricing_rule_id INTEGER,
+        pricing_rule_name TEXT,
+        order_id INTEGER REFERENCES orders(id),
+        voided_at TEXT,
+        void_reason TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    await addColumnIfMissing('revenue_records', `price_source TEXT NOT NULL DEFAULT 'session'`);
+    await addColumnIfMissing('revenue_records', `pricing_rule_id INTEGER`);
+    await addColumnIfMissing('revenue_records', `pricing_rule_name TEXT`);
+    await addColumnIfMissing('revenue_records', `order_id INTEGER REFERENCES orders(id)`);
+    await addColumnIfMissing('revenue_records', `voided_at TEXT`);
+    await addColumnIfMissing('revenue_records', `void_reason TEXT`);
+
+    // Create app_settings table
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    // Create audit_events table
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor_id TEXT,
+        action TEXT NOT NULL,
+        entity TEXT NOT NULL,
+        entity_ids TEXT NOT NULL DEFAULT '[]',
+        changes TEXT NOT NULL DEFAULT '[]',
+        metadata TEXT,
         created_at TEXT NOT NULL DEFAULT (datetime('now'))
       )
     `);
+    await db.run(sql`CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at)`);
+
+    // Create import_batches table
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS import_batches (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entity TEXT NOT NULL,
+        source TEXT NOT NULL,
+        source_name TEXT,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        imported INTEGER NOT NULL DEFAULT 0,
+        updated INTEGER NOT NULL DEFAULT 0,
+        errors INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'running',
+        created_ids TEXT NOT NULL DEFAULT '[]',
+        rolled_back_at TEXT,
+        rolled_back_by TEXT,
+        rolled_back_count INTEGER
+      )
+    `);
+    // Batches recorded before the status column existed had all finished
+    await addColumnIfMissing('import_batches', `status TEXT NOT NULL DEFAULT 'completed'`);
 
-    console.log('✅ All SQLite tables created/verified');
+    log.info('All SQLite tables created/verified');
   } catch (error) {
-    console.error('Error ensuring SQLite tables:', error);
+    log.error('Error ensuring SQLite tables', { err: error });
   }
 })();
 
@@ -102,31 +311,229 @@ function nowIso(): string {
   return new Date().toISOString();
 }
 
+function parseAuditEvent(row: typeof auditEvents.$inferSelect & { actorUsername: string | null }): AuditEvent {
+  return {
+    ...row,
+    entityIds: parseJsonField<AuditEvent["entityIds"]>(row.entityIds, []),
+    changes: parseJsonField<AuditEvent["changes"]>(row.changes, []),
+    metadata: parseJsonField<AuditEvent["metadata"]>(row.metadata, null),
+  };
+}
+
+function parseImportBatch(row: typeof importBatches.$inferSelect & { createdByUsername: string | null }): ImportBatch {
+  return { ...row, createdIds: parseJsonField<number[]>(row.createdIds, []) };
+}
+
+// An imported account can be rolled back only while nothing has happened to it: still available
+// and never booked as revenue (voided rows included, they still belong to an order's history)
+function isUntouchedImport(account: Account, revenue: RevenueRecord[]): boolean {
+  return account.state === "available" && !revenue.some((record) => record.accountId === account.id);
+}
+
+function parseApiToken(row: typeof apiTokens.$inferSelect): ApiToken {
+  return { ...row, scopes: parseJsonField<ApiToken["scopes"]>(row.scopes, []) };
+}
+
+// Rows per multi-row INSERT, and usernames per lookup, in bulk inserts
+const BULK_INSERT_CHUNK_SIZE = 100;
+const BULK_LOOKUP_CHUNK_SIZE = 500;
+
+function chunked<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let offset = 0; offset < items.length; offset += size) {
+    chunks.push(items.slice(offset, offset + size));
+  }
+  return chunks;
+}
+
+// Splits bulk insert records into new ones, updates of stored records (looked up by trimmed
+// username in `existing`) and conflicts. A stored username is a conflict when onExisting is
+// "skip"; a username repeated in the batch always is.
+function planBulkInsert<T extends { username: string }, E>(
+  records: T[],
+  existing: Map<string, E>,
+  onExisting: ImportExistingAction,
+): { fresh: T[]; updates: Array<{ record: T; current: E }>; plan: BulkInsertPlan } {
+  const fresh: T[] = [];
+  const updates: Array<{ record: T; current: E }> = [];
+  const plan: BulkInsertPlan = { create: [], update: [], conflicts: [] };
+  const seen = new Set<string>();
+  records.forEach((record, index) => {
+    const username = record.username.trim();
+    const current = existing.get(username);
+    if (seen.has(username)) {
+      plan.conflicts.push({ index, username, reason: "duplicate_in_batch" });
+    } else if (current !== undefined && onExisting === "skip") {
+      plan.conflicts.push({ index, username, reason: "already_exists" });
+    } else {
+      seen.add(username);
+      if (current !== undefined) {
+        updates.push({ record: { ...record, username }, current });
+        plan.update.push(index);
+      } else {
+        fresh.push({ ...record, username });
+        plan.create.push(index);
+      }
+    }
+  });
+  return { fresh, updates, plan };
+}
+
+type AccountImportChanges = Partial<Pick<Account, "password" | "lv" | "champion" | "skins">>;
+
+// Fields an import copies onto a stored account. "merge" keeps the stored champion when the
+// file has none and adds the file's skins to the stored ones.
+function accountImportChanges(record: InsertAccount, current: Account, onExisting: ImportExistingAction): AccountImportChanges {
+  const lv = Number(record.lv ?? 0);
+  switch (onExisting) {
+    case "overwrite_password":
+      return { password: record.password };
+    case "update_level":
+      return { lv };
+    case "merge": {
+      const skins = new Set([
+        ...parseJsonField<string[]>(current.skins, []),
+        ...parseJsonField<string[]>(record.skins, []),
+      ]);
+      return { password: record.password, lv, champion: record.champion ?? current.champion, skins: JSON.stringify(Array.from(skins)) };
+    }
+    default:
+      return {};
+  }
+}
+
+function accLogImportChanges(record: InsertAccLog, onExisting: ImportExistingAction): Partial<Pick<AccLog, "password" | "lv">> {
+  const lv = Number(record.lv ?? 0);
+  switch (onExisting) {
+    case "overwrite_password":
+      return { password: record.password };
+    case "update_level":
+      return { lv };
+    case "merge":
+      return { password: record.password, lv };
+    default:
+      return {};
+  }
+}
+
+type ActivityDay = { date: string; accounts: number; logs: number };
+
+function latestUpdatedAt(records: Array<{ updatedAt: string }>): string | null {
+  return records.reduce<string | null>((latest, record) => {
+    const updatedAt = new Date(record.updatedAt).toISOString();
+    return latest === null || updatedAt > latest ? updatedAt : latest;
+  }, null);
+}
+
+// Merge per-day update counts of accounts and acc logs, oldest day first
+function mergeActivity(accountDays: Array<{ date: string; count: number }>, logDays: Array<{ date: string; count: number }>): ActivityDay[] {
+  const days = new Map<string, ActivityDay>();
+  const dayOf = (date: string) => days.get(date) ?? { date, accounts: 0, logs: 0 };
+  accountDays.forEach(({ date, count }) => days.set(date, { ...dayOf(date), accounts: count }));
+  logDays.forEach(({ date, count }) => days.set(date, { ...dayOf(date), logs: count }));
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Filters shared by accounts and acc logs listings
+function buildListFilters(table: typeof accounts | typeof accLogs, query: StorageListQuery): SQL[] {
+  const conditions: SQL[] = [];
+  if (query.ids) conditions.push(inArray(table.id, query.ids));
+  if (query.status) conditions.push(eq(table.status, query.status === "on"));
+  if (query.minLv !== undefined) conditions.push(gte(table.lv, query.minLv));
+  if (query.maxLv !== undefined) conditions.push(lte(table.lv, query.maxLv));
+  // datetime() so rows still holding SQLite's default timestamp format compare correctly
+  if (query.updatedFrom) conditions.push(sql`datetime(${table.updatedAt}) >= datetime(${query.updatedFrom})`);
+  if (query.updatedTo) conditions.push(sql`datetime(${table.updatedAt}) <= datetime(${query.updatedTo})`);
+  if (query.search) {
+    // Passwords are stored encrypted, so only usernames are searchable
+    const term = query.search.toLowerCase();
+    conditions.push(sql`instr(lower(${table.username}), ${term}) > 0`);
+  }
+  return conditions;
+}
+
+type UserUpdates = Partial<Pick<User, "password" | "role" | "disabled" | "totpSecret" | "totpEnabled" | "totpRecoveryCodes" | "totpLastStep">>;
+
 interface IStorage {
   getAllAccounts(): Promise<Account[]>;
   createAccount(insertAccount: InsertAccount): Promise<Account>;
-  updateAccountStatus(id: number, status: boolean): Promise<Account | undefined>;
-  updateAccountTag(id: number, tag: string | null): Promise<Account | undefined>;
+  // One transaction. Usernames repeated in the batch, or already stored when onExisting is "skip",
+  // are reported as conflicts; other stored usernames are updated as onExisting says.
+  // "all_or_nothing" writes nothing when there is any conflict, "skip_invalid" writes the rest.
+  createAccountsBulk(records: InsertAccount[], options: BulkInsertOptions): Promise<BulkInsertResult<Account>>;
+  // What createAccountsBulk would do with each record, without writing anything
+  planAccountsBulk(records: InsertAccount[], onExisting: ImportExistingAction): Promise<BulkInsertPlan>;
+  // ids = null applies the transition to every account. A reserved account only leaves "reserved"
+  // for the operator holding it, or once its hold has expired
+  // `onlyFrom` limits the change to accounts currently in those states; the others are left alone
+  transitionAccountStates(ids: number[] | null, to: AccountState, operator: string, onlyFrom?: readonly AccountState[]): Promise<AccountStateTransitionResult>;
+  // Reserve an available account, or extend a hold owned by the same operator or already expired
+  holdAccount(id: number, hold: AccountHold & { heldBy: string; heldUntil: string }): Promise<Account | undefined>;
+  releaseExpiredHolds(now: string): Promise<Account[]>;
   updateAccountDetails(id: number, updates: UpdateAccountDetails): Promise<Account | undefined>;
-  updateMultipleAccountTags(tag: string | null, ids?: number[]): Promise<number>;
   deleteAccount(id: number): Promise<boolean>;
   deleteMultipleAccounts(ids: number[]): Promise<number>;
   deleteAllAccounts(): Promise<number>;
-  getAccountStats(): Promise<{ total: number; active: number; inactive: number }>;
-  updateAllAccountStatuses(status: boolean): Promise<number>;
-  updateSelectedAccountStatuses(ids: number[], status: boolean): Promise<number>;
+  getAccountStats(): Promise<{ total: number; active: number; inactive: number; byState: Record<AccountState, number>; lastUpdatedAt: string | null }>;
+  queryAccounts(query: StorageListQuery): Promise<ListPage<AccountWithTags>>;
+
+  getTags(): Promise<TagWithCount[]>;
+  getTag(id: number): Promise<Tag | undefined>;
+  // Case-insensitive
+  getTagByName(name: string): Promise<Tag | undefined>;
+  createTag(tag: InsertTag): Promise<Tag>;
+  updateTag(id: number, updates: UpdateTag): Promise<Tag | undefined>;
+  // Moves every account of the source tags onto the target and deletes the sources; returns accounts retagged
+  mergeTags(sourceIds: number[], targetId: number): Promise<number>;
+  // With reassignToId the tag's accounts are moved onto that tag first
+  deleteTag(id: number, reassignToId?: number): Promise<boolean>;
+  // Returns the number of accounts whose tags changed
+  updateAccountTags(ids: number[], add: number[], remove: number[]): Promise<number>;
+  getAccountTagRefs(accountIds: number[]): Promise<Map<number, AccountTagRef[]>>;
 
   getAllAccLogs(): Promise<AccLog[]>;
   createAccLog(insertAccLog: InsertAccLog): Promise<AccLog>;
+  // Same contract as createAccountsBulk
+  createAccLogsBulk(records: InsertAccLog[], options: BulkInsertOptions): Promise<BulkInsertResult<AccLog>>;
+  planAccLogsBulk(records: InsertAccLog[], onExisting: ImportExistingAction): Promise<BulkInsertPlan>;
   updateAccLogStatus(id: number, status: boolean): Promise<AccLog | undefined>;
+  updateAccLogLevel(id: number, lv: number): Promise<AccLog | undefined>;
+  getAccLogLevelHistory(since: string): Promise<AccLogLevelChange[]>;
+  // Moves logs into accounts (keeping lv) and deletes them, all or nothing
+  promoteAccLogs(ids: number[]): Promise<AccLogPromotionResult>;
   deleteAccLog(id: number): Promise<boolean>;
   deleteMultipleAccLogs(ids: number[]): Promise<number>;
   deleteAllAccLogs(): Promise<number>;
-  getAccLogStats(): Promise<{ total: number; active: number; inactive: number }>;
+  getAccLogStats(): Promise<{ total: number; active: number; inactive: number; lastUpdatedAt: string | null }>;
+  queryAccLogs(query: StorageListQuery): Promise<ListPage<AccLog>>;
+  getAccLogLevels(): Promise<number[]>;
+  // Number of accounts and acc logs last updated on each day since `since`
+  getUpdateActivity(since: string): Promise<ActivityDay[]>;
   updateAllAccLogStatuses(status: boolean): Promise<number>;
   updateSelectedAccLogStatuses(ids: number[], status: boolean): Promise<number>;
 
+  getAppSetting(key: string): Promise<string | null>;
+  // null removes the setting
+  setAppSetting(key: string, value: string | null): Promise<void>;
+
+  getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  // `password` must already be a bcrypt hash
+  createUser(user: Pick<User, "username" | "password" | "role">): Promise<User>;
+  updateUser(id: string, updates: UserUpdates): Promise<User | undefined>;
+  // Failed login counters, keyed by lower-cased username
+  getLoginAttempt(username: string): Promise<LoginAttempt | undefined>;
+  // Adds one failure and returns the updated counter
+  recordLoginFailure(username: string, at: string): Promise<LoginAttempt>;
+  clearLoginAttempts(username: string): Promise<void>;
+  // Personal API tokens, newest first
+  getApiTokens(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  touchApiToken(id: number, at: string): Promise<void>;
+  // false when the token does not exist or belongs to someone else
+  deleteApiToken(id: number, userId: string): Promise<boolean>;
 
   // CloneReg manual table
   getAllCloneRegs(): Promise<CloneReg[]>;
@@ -136,11 +543,47 @@ interface IStorage {
 
   // Revenue tracking methods
   createLiveSession(session: InsertLiveSession): Promise<LiveSession>;
+  // Starts a live with its pricing rules in one write, so a failure leaves neither behind
+  createLiveSessionWithRules(session: InsertLiveSession, rules: InsertPricingRule[]): Promise<{ session: LiveSession; rules: PricingRule[] }>;
+  getLiveSession(id: number): Promise<LiveSession | undefined>;
   getActiveLiveSession(): Promise<LiveSession | undefined>;
+  getOpenLiveSession(): Promise<LiveSession | undefined>;
   getAllLiveSessions(): Promise<LiveSession[]>;
+  updateLiveSessionStatus(id: number, status: LiveSessionStatus): Promise<LiveSession | undefined>;
+  getPricingRules(sessionId: number): Promise<PricingRule[]>;
+  replacePricingRules(sessionId: number, rules: InsertPricingRule[]): Promise<PricingRule[]>;
   createRevenueRecord(record: InsertRevenueRecord): Promise<RevenueRecord>;
+  // All or nothing: a bulk sale is booked completely or not at all
+  createRevenueRecords(records: InsertRevenueRecord[]): Promise<RevenueRecord[]>;
   getRevenueStatsByDate(startDate: Date, endDate: Date): Promise<Array<{ date: string; revenue: number; accountCount: number }>>;
   getCurrentSessionRevenue(sessionId: number): Promise<{ totalRevenue: number; accountCount: number }>;
+  // sessionId = null voids the latest sale regardless of session
+  voidLatestRevenueRecords(sessionId: number | null, accountIds: number[], reason: string): Promise<RevenueRecord[]>;
+  getVoidedRevenueRecords(sessionId?: number): Promise<RevenueRecord[]>;
+
+  // Buyers & orders
+  getAllBuyers(): Promise<Buyer[]>;
+  getBuyer(id: number): Promise<Buyer | undefined>;
+  createBuyer(buyer: InsertBuyer): Promise<Buyer>;
+  createOrder(order: InsertOrder): Promise<Order>;
+  getOrdersByBuyer(buyerId: number): Promise<Order[]>;
+  getRevenueRecordsByOrders(orderIds: number[]): Promise<RevenueRecord[]>;
+
+  // Audit trail, newest first
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  queryAuditEvents(query: AuditQuery): Promise<ListPage<AuditEvent>>;
+
+  // Import history, newest first. A batch is opened before its rows are written so they can
+  // carry its id, and finished with the counts once the import stops.
+  createImportBatch(batch: InsertImportBatch): Promise<ImportBatch>;
+  finishImportBatch(id: number, result: ImportBatchResult): Promise<ImportBatch | undefined>;
+  // Closes batches still running (all of them, or only `id`) with the rows they got to create
+  abortImportBatches(status: Extract<ImportBatchStatus, "failed" | "interrupted">, id?: number): Promise<number>;
+  getImportBatch(id: number): Promise<ImportBatch | undefined>;
+  queryImportBatches(entity: ImportJobEntity, query: ImportBatchQuery): Promise<ListPage<ImportBatch>>;
+  // Deletes the rows still tagged with the batch and marks it rolled back, in one go.
+  // undefined when the batch does not exist or was already rolled back
+  rollbackImportBatch(id: number, rolledBackBy: string): Promise<{ batch: ImportBatch; deleted: Array<Account | AccLog>; kept: number[] } | undefined>;
 }
 
 export class MemoryStorage implements IStorage {
@@ -150,11 +593,30 @@ export class MemoryStorage implements IStorage {
   private cloneRegsData: CloneReg[] = [];
   private liveSessionsData: LiveSession[] = [];
   private revenueRecordsData: RevenueRecord[] = [];
+  private pricingRulesData: PricingRule[] = [];
+  private buyersData: Buyer[] = [];
+  private ordersData: Order[] = [];
+  private auditEventsData: AuditEvent[] = [];
+  private importBatchesData: ImportBatch[] = [];
+  private loginAttemptsData = new Map<string, LoginAttempt>();
+  private apiTokensData: ApiToken[] = [];
+  private apiTokenIdCounter = 1;
+  private appSettingsData = new Map<string, string>();
+  private levelHistoryData: AccLogLevelChange[] = [];
+  private levelHistoryIdCounter = 1;
+  private tagsData: Tag[] = [];
+  private accountTagLinks: Array<{ accountId: number; tagId: number }> = [];
+  private tagIdCounter = 1;
   private accountIdCounter = 1;
   private accLogIdCounter = 1;
   private cloneRegIdCounter = 1;
   private liveSessionIdCounter = 1;
   private revenueRecordIdCounter = 1;
+  private pricingRuleIdCounter = 1;
+  private buyerIdCounter = 1;
+  private orderIdCounter = 1;
+  private auditEventIdCounter = 1;
+  private importBatchIdCounter = 1;
 
   constructor() {
     const defaultPasswordHash = process.env.DEFAULT_DEV_PASSWORD_HASH || "$2b$10$ffqH24cGGzdQktYCPpquTuethITLFKoR33KCH36Si9f4q/r6/IMcG";
@@ -162,6 +624,12 @@ export class MemoryStorage implements IStorage {
       id: randomUUID(),
       username: process.env.DEFAULT_DEV_USERNAME || 'admin',
       password: defaultPasswordHash,
+      role: "owner",
+      disabled: false,
+      totpSecret: null,
+      totpEnabled: false,
+      totpRecoveryCodes: "[]",
+      totpLastStep: null,
     });
   }
 
@@ -179,9 +647,14 @@ export class MemoryStorage implements IStorage {
       password: insertAccount.password,
       lv: Number(insertAccount.lv ?? 0),
       status: true,
-      tag: insertAccount.tag ?? null,
+      state: "available",
       champion: insertAccount.champion ?? null,
       skins: skinsValue,
+      priceOverride: null,
+      heldBy: null,
+      heldForBuyerId: null,
+      heldUntil: null,
+      importBatchId: null,
       updatedAt: nowIso(),
     };
     if (this.accountsData.some((a) => (a.username ?? '').trim() === (account.username ?? '').trim())) {
@@ -191,14 +664,83 @@ export class MemoryStorage implements IStorage {
     return account;
   }
 
-  async updateAccountStatus(id: number, status: boolean): Promise<Account | undefined> {
+  async createAccountsBulk(records: InsertAccount[], { mode, onExisting, importBatchId = null }: BulkInsertOptions): Promise<BulkInsertResult<Account>> {
+    const existing = new Map(this.accountsData.map((account) => [(account.username ?? '').trim(), account] as const));
+    const { fresh, updates, plan: { conflicts } } = planBulkInsert(records, existing, onExisting);
+    if (mode === "all_or_nothing" && conflicts.length > 0) {
+      return { created: [], updated: [], conflicts };
+    }
+    const created: Account[] = [];
+    for (const record of fresh) {
+      created.push(Object.assign(await this.createAccount(record), { importBatchId }));
+    }
+    const updated = updates.map(({ record, current }) =>
+      Object.assign(current, accountImportChanges(record, current, onExisting), { updatedAt: nowIso() }));
+    return { created, updated, conflicts };
+  }
+
+  async planAccountsBulk(records: InsertAccount[], onExisting: ImportExistingAction): Promise<BulkInsertPlan> {
+    const existing = new Map(this.accountsData.map((account) => [(account.username ?? '').trim(), account] as const));
+    return planBulkInsert(records, existing, onExisting).plan;
+  }
+
+  async transitionAccountStates(ids: number[] | null, to: AccountState, operator: string, onlyFrom?: readonly AccountState[]): Promise<AccountStateTransitionResult> {
+    const targetIds = ids ? new Set(ids) : null;
+    const result: AccountStateTransitionResult = { updated: [], rejected: [] };
+    const now = nowIso();
+    this.accountsData.forEach((account) => {
+      if (targetIds && !targetIds.has(account.id)) return;
+      const from = account.state;
+      if (from === to || (onlyFrom && !onlyFrom.includes(from))) return;
+      if (!canTransitionAccountState(from, to)) {
+        result.rejected.push({ id: account.id, from });
+        return;
+      }
+      if (from === "reserved" && account.heldBy !== operator && account.heldUntil !== null && account.heldUntil > now) {
+        result.rejected.push({ id: account.id, from, heldBy: account.heldBy });
+        return;
+      }
+      account.state = to;
+      account.status = accountStatusForState(to);
+      account.heldBy = null;
+      account.heldForBuyerId = null;
+      account.heldUntil = null;
+      account.updatedAt = nowIso();
+      result.updated.push({ account, from });
+    });
+    return result;
+  }
+
+  async holdAccount(id: number, hold: AccountHold & { heldBy: string; heldUntil: string }): Promise<Account | undefined> {
     const account = this.accountsData.find((item) => item.id === id);
     if (!account) return undefined;
-    account.status = status;
+    const canHold = account.state === "available"
+      || (account.state === "reserved" && (account.heldBy === hold.heldBy || (account.heldUntil ?? "") <= nowIso()));
+    if (!canHold) return undefined;
+    account.state = "reserved";
+    account.status = accountStatusForState("reserved");
+    account.heldBy = hold.heldBy;
+    account.heldForBuyerId = hold.heldForBuyerId;
+    account.heldUntil = hold.heldUntil;
     account.updatedAt = nowIso();
     return account;
   }
 
+  async releaseExpiredHolds(now: string): Promise<Account[]> {
+    const released: Account[] = [];
+    this.accountsData.forEach((account) => {
+      if (account.state !== "reserved" || account.heldUntil === null || account.heldUntil > now) return;
+      account.state = "available";
+      account.status = accountStatusForState("available");
+      account.heldBy = null;
+      account.heldForBuyerId = null;
+      account.heldUntil = null;
+      account.updatedAt = now;
+      released.push(account);
+    });
+    return released;
+  }
+
   async updateAccountDetails(id: number, updates: UpdateAccountDetails): Promise<Account | undefined> {
     const account = this.accountsData.find((item) => item.id === id);
     if (!account) return undefined;
@@ -209,80 +751,155 @@ export class MemoryStorage implements IStorage {
     if (updates.skins !== undefined) {
       account.skins = typeof updates.skins === 'string' ? updates.skins : JSON.stringify(updates.skins);
     }
+    if (updates.priceOverride !== undefined) account.priceOverride = updates.priceOverride;
     account.updatedAt = nowIso();
     return account;
   }
 
-  async updateAccountTag(id: number, tag: string | null): Promise<Account | undefined> {
-    const account = this.accountsData.find((item) => item.id === id);
-    if (!account) return undefined;
-    account.tag = tag;
-    account.updatedAt = nowIso();
-    return account;
-  }
-
-  async updateMultipleAccountTags(tag: string | null, ids?: number[]): Promise<number> {
-    if (ids && ids.length > 0) {
-      let updated = 0;
-      this.accountsData.forEach((account) => {
-        if (ids.includes(account.id)) {
-          account.tag = tag;
-          account.updatedAt = nowIso();
-          updated += 1;
-        }
-      });
-      return updated;
-    }
-    this.accountsData.forEach((account) => {
-      account.tag = tag;
-      account.updatedAt = nowIso();
-    });
-    return this.accountsData.length;
-  }
-
   async deleteAccount(id: number): Promise<boolean> {
     const initialLength = this.accountsData.length;
     this.accountsData = this.accountsData.filter((item) => item.id !== id);
+    this.accountTagLinks = this.accountTagLinks.filter((link) => link.accountId !== id);
     return this.accountsData.length < initialLength;
   }
 
   async deleteMultipleAccounts(ids: number[]): Promise<number> {
     const initialLength = this.accountsData.length;
     this.accountsData = this.accountsData.filter((item) => !ids.includes(item.id));
+    this.accountTagLinks = this.accountTagLinks.filter((link) => !ids.includes(link.accountId));
     return initialLength - this.accountsData.length;
   }
 
   async deleteAllAccounts(): Promise<number> {
     const deletedCount = this.accountsData.length;
     this.accountsData = [];
+    this.accountTagLinks = [];
     return deletedCount;
   }
 
-  async getAccountStats(): Promise<{ total: number; active: number; inactive: number }> {
+  async getAccountStats(): Promise<{ total: number; active: number; inactive: number; byState: Record<AccountState, number>; lastUpdatedAt: string | null }> {
     const total = this.accountsData.length;
     const active = this.accountsData.filter((item) => item.status).length;
-    return { total, active, inactive: total - active };
+    const byState = Object.fromEntries(ACCOUNT_STATES.map((state) => [state, 0])) as Record<AccountState, number>;
+    this.accountsData.forEach((item) => {
+      byState[item.state] += 1;
+    });
+    return { total, active, inactive: total - active, byState, lastUpdatedAt: latestUpdatedAt(this.accountsData) };
   }
 
-  async updateAllAccountStatuses(status: boolean): Promise<number> {
-    this.accountsData.forEach((item) => {
-      item.status = status;
-      item.updatedAt = nowIso();
+  async queryAccounts(query: StorageListQuery): Promise<ListPage<AccountWithTags>> {
+    const result = applyListQuery(this.accountsData, query, (account) => this.tagIdsOf(account.id));
+    const refs = await this.getAccountTagRefs(result.items.map((account) => account.id));
+    return { ...result, items: result.items.map((account) => ({ ...account, tags: refs.get(account.id) ?? [] })) };
+  }
+
+  private tagIdsOf(accountId: number): number[] {
+    return this.accountTagLinks.filter((link) => link.accountId === accountId).map((link) => link.tagId);
+  }
+
+  // Link accounts to a tag, skipping links that already exist; returns accounts newly linked
+  private linkAccounts(accountIds: number[], tagId: number): number {
+    let linked = 0;
+    accountIds.forEach((accountId) => {
+      if (!this.accountTagLinks.some((link) => link.accountId === accountId && link.tagId === tagId)) {
+        this.accountTagLinks.push({ accountId, tagId });
+        linked += 1;
+      }
     });
-    return this.accountsData.length;
+    return linked;
   }
 
-  async updateSelectedAccountStatuses(ids: number[], status: boolean): Promise<number> {
-    const targetIds = new Set(ids);
-    let updated = 0;
-    this.accountsData.forEach((item) => {
-      if (targetIds.has(item.id)) {
-        item.status = status;
-        item.updatedAt = nowIso();
-        updated += 1;
+  async getTags(): Promise<TagWithCount[]> {
+    return this.tagsData
+      .map((tag) => ({ ...tag, accountCount: this.accountTagLinks.filter((link) => link.tagId === tag.id).length }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTag(id: number): Promise<Tag | undefined> {
+    return this.tagsData.find((tag) => tag.id === id);
+  }
+
+  async getTagByName(name: string): Promise<Tag | undefined> {
+    const normalized = name.trim().toLowerCase();
+    return this.tagsData.find((tag) => tag.name.toLowerCase() === normalized);
+  }
+
+  async createTag(insertTag: InsertTag): Promise<Tag> {
+    const now = nowIso();
+    const tag: Tag = {
+      id: this.tagIdCounter++,
+      name: insertTag.name,
+      color: insertTag.color ?? DEFAULT_TAG_COLOR,
+      description: insertTag.description ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.tagsData.push(tag);
+    return tag;
+  }
+
+  async updateTag(id: number, updates: UpdateTag): Promise<Tag | undefined> {
+    const tag = this.tagsData.find((item) => item.id === id);
+    if (!tag) return undefined;
+    if (updates.name !== undefined) tag.name = updates.name;
+    if (updates.color !== undefined) tag.color = updates.color;
+    if (updates.description !== undefined) tag.description = updates.description;
+    tag.updatedAt = nowIso();
+    return tag;
+  }
+
+  async mergeTags(sourceIds: number[], targetId: number): Promise<number> {
+    const accountIds = Array.from(new Set(
+      this.accountTagLinks.filter((link) => sourceIds.includes(link.tagId)).map((link) => link.accountId),
+    ));
+    this.accountTagLinks = this.accountTagLinks.filter((link) => !sourceIds.includes(link.tagId));
+    this.linkAccounts(accountIds, targetId);
+    this.tagsData = this.tagsData.filter((tag) => !sourceIds.includes(tag.id));
+    return accountIds.length;
+  }
+
+  async deleteTag(id: number, reassignToId?: number): Promise<boolean> {
+    if (!this.tagsData.some((tag) => tag.id === id)) return false;
+    if (reassignToId !== undefined) {
+      await this.mergeTags([id], reassignToId);
+      return true;
+    }
+    this.accountTagLinks = this.accountTagLinks.filter((link) => link.tagId !== id);
+    this.tagsData = this.tagsData.filter((tag) => tag.id !== id);
+    return true;
+  }
+
+  async updateAccountTags(ids: number[], add: number[], remove: number[]): Promise<number> {
+    const existingIds = this.accountsData.filter((account) => ids.includes(account.id)).map((account) => account.id);
+    const before = new Map(existingIds.map((id) => [id, this.tagIdsOf(id).sort().join(",")]));
+    this.accountTagLinks = this.accountTagLinks.filter(
+      (link) => !(existingIds.includes(link.accountId) && remove.includes(link.tagId)),
+    );
+    add.forEach((tagId) => this.linkAccounts(existingIds, tagId));
+
+    let changed = 0;
+    const now = nowIso();
+    this.accountsData.forEach((account) => {
+      if (before.has(account.id) && before.get(account.id) !== this.tagIdsOf(account.id).sort().join(",")) {
+        account.updatedAt = now;
+        changed += 1;
       }
     });
-    return updated;
+    return changed;
+  }
+
+  async getAccountTagRefs(accountIds: number[]): Promise<Map<number, AccountTagRef[]>> {
+    const tagsById = new Map(this.tagsData.map((tag) => [tag.id, tag]));
+    const refs = new Map<number, AccountTagRef[]>();
+    this.accountTagLinks.forEach((link) => {
+      const tag = tagsById.get(link.tagId);
+      if (!tag || !accountIds.includes(link.accountId)) return;
+      const list = refs.get(link.accountId) ?? [];
+      list.push({ id: tag.id, name: tag.name, color: tag.color });
+      refs.set(link.accountId, list);
+    });
+    refs.forEach((list) => list.sort((a, b) => a.name.localeCompare(b.name)));
+    return refs;
   }
 
   async getAllAccLogs(): Promise<AccLog[]> {
@@ -296,12 +913,51 @@ export class MemoryStorage implements IStorage {
       password: insertAccLog.password,
       lv: Number(insertAccLog.lv ?? 0),
       status: true,
+      importBatchId: null,
       updatedAt: nowIso(),
     };
     this.accLogsData.push(log);
+    this.recordLevelChange(log, null);
     return log;
   }
 
+  async createAccLogsBulk(records: InsertAccLog[], { mode, onExisting, importBatchId = null }: BulkInsertOptions): Promise<BulkInsertResult<AccLog>> {
+    const existing = new Map(this.accLogsData.map((item) => [item.username.trim(), item] as const));
+    const { fresh, updates, plan: { conflicts } } = planBulkInsert(records, existing, onExisting);
+    if (mode === "all_or_nothing" && conflicts.length > 0) {
+      return { created: [], updated: [], conflicts };
+    }
+    const created: AccLog[] = [];
+    for (const record of fresh) {
+      created.push(Object.assign(await this.createAccLog(record), { importBatchId }));
+    }
+    const updated = updates.map(({ record, current }) => {
+      const fromLv = current.lv;
+      Object.assign(current, accLogImportChanges(record, onExisting), { updatedAt: nowIso() });
+      if (current.lv !== fromLv) {
+        this.recordLevelChange(current, fromLv);
+      }
+      return current;
+    });
+    return { created, updated, conflicts };
+  }
+
+  async planAccLogsBulk(records: InsertAccLog[], onExisting: ImportExistingAction): Promise<BulkInsertPlan> {
+    const existing = new Map(this.accLogsData.map((item) => [item.username.trim(), item] as const));
+    return planBulkInsert(records, existing, onExisting).plan;
+  }
+
+  private recordLevelChange(log: AccLog, fromLv: number | null) {
+    this.levelHistoryData.push({
+      id: this.levelHistoryIdCounter++,
+      accLogId: log.id,
+      username: log.username,
+      fromLv,
+      toLv: log.lv,
+      recordedAt: log.updatedAt,
+    });
+  }
+
   async updateAccLogStatus(id: number, status: boolean): Promise<AccLog | undefined> {
     const log = this.accLogsData.find((item) => item.id === id);
     if (!log) return undefined;
@@ -310,6 +966,42 @@ export class MemoryStorage implements IStorage {
     return log;
   }
 
+  async updateAccLogLevel(id: number, lv: number): Promise<AccLog | undefined> {
+    const log = this.accLogsData.find((item) => item.id === id);
+    if (!log) return undefined;
+    if (log.lv === lv) return log;
+    const fromLv = log.lv;
+    log.lv = lv;
+    log.updatedAt = nowIso();
+    this.recordLevelChange(log, fromLv);
+    return log;
+  }
+
+  async getAccLogLevelHistory(since: string): Promise<AccLogLevelChange[]> {
+    return this.levelHistoryData.filter((row) => row.recordedAt >= since);
+  }
+
+  async promoteAccLogs(ids: number[]): Promise<AccLogPromotionResult> {
+    const result: AccLogPromotionResult = { promoted: [], skipped: [] };
+    const promotedIds = new Set<number>();
+    for (const id of ids) {
+      const log = this.accLogsData.find((item) => item.id === id);
+      if (!log) {
+        result.skipped.push({ id, reason: "Không tìm thấy acc log" });
+        continue;
+      }
+      if (this.accountsData.some((account) => account.username.trim() === log.username.trim())) {
+        result.skipped.push({ id, reason: "Tên tài khoản đã có trong kho" });
+        continue;
+      }
+      const account = await this.createAccount({ username: log.username, password: log.password, lv: log.lv, skins: "[]" } as InsertAccount);
+      promotedIds.add(id);
+      result.promoted.push({ accLogId: id, account });
+    }
+    this.accLogsData = this.accLogsData.filter((item) => !promotedIds.has(item.id));
+    return result;
+  }
+
   async deleteAccLog(id: number): Promise<boolean> {
     const initialLength = this.accLogsData.length;
     this.accLogsData = this.accLogsData.filter((item) => item.id !== id);
@@ -328,10 +1020,32 @@ export class MemoryStorage implements IStorage {
     return deletedCount;
   }
 
-  async getAccLogStats(): Promise<{ total: number; active: number; inactive: number }> {
+  async getAccLogStats(): Promise<{ total: number; active: number; inactive: number; lastUpdatedAt: string | null }> {
     const total = this.accLogsData.length;
     const active = this.accLogsData.filter((item) => item.status).length;
-    return { total, active, inactive: total - active };
+    return { total, active, inactive: total - active, lastUpdatedAt: latestUpdatedAt(this.accLogsData) };
+  }
+
+  async queryAccLogs(query: StorageListQuery): Promise<ListPage<AccLog>> {
+    return applyListQuery(this.accLogsData, query);
+  }
+
+  async getAccLogLevels(): Promise<number[]> {
+    return Array.from(new Set(this.accLogsData.map((item) => item.lv))).sort((a, b) => a - b);
+  }
+
+  async getUpdateActivity(since: string): Promise<ActivityDay[]> {
+    const countByDay = (records: Array<{ updatedAt: string }>) => {
+      const counts = new Map<string, number>();
+      records.forEach((record) => {
+        const updatedAt = new Date(record.updatedAt).toISOString();
+        if (updatedAt < since) return;
+        const date = updatedAt.slice(0, 10);
+        counts.set(date, (counts.get(date) ?? 0) + 1);
+      });
+      return Array.from(counts.entries()).map(([date, count]) => ({ date, count }));
+    };
+    return mergeActivity(countByDay(this.accountsData), countByDay(this.accLogsData));
   }
 
   async updateAllAccLogStatuses(status: boolean): Promise<number> {
@@ -401,15 +1115,105 @@ export class MemoryStorage implements IStorage {
     return this.cloneRegsData.length < initial;
   }
 
+  async getAppSetting(key: string): Promise<string | null> {
+    return this.appSettingsData.get(key) ?? null;
+  }
+
+  async setAppSetting(key: string, value: string | null): Promise<void> {
+    if (value === null) {
+      this.appSettingsData.delete(key);
+    } else {
+      this.appSettingsData.set(key, value);
+    }
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.usersData.find((user) => user.id === id);
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     return this.usersData.find((user) => user.username === username);
   }
 
+  async getUsers(): Promise<User[]> {
+    return [...this.usersData].sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async createUser(user: Pick<User, "username" | "password" | "role">): Promise<User> {
+    const created: User = { id: randomUUID(), ...user, disabled: false, totpSecret: null, totpEnabled: false, totpRecoveryCodes: "[]", totpLastStep: null };
+    this.usersData.push(created);
+    return created;
+  }
+
+  async updateUser(id: string, updates: UserUpdates): Promise<User | undefined> {
+    const user = this.usersData.find((item) => item.id === id);
+    if (!user) {
+      return undefined;
+    }
+    Object.assign(user, updates);
+    return user;
+  }
+
+  async getLoginAttempt(username: string): Promise<LoginAttempt | undefined> {
+    return this.loginAttemptsData.get(username);
+  }
+
+  async recordLoginFailure(username: string, at: string): Promise<LoginAttempt> {
+    const attempt = { username, failedCount: (this.loginAttemptsData.get(username)?.failedCount ?? 0) + 1, lastFailedAt: at };
+    this.loginAttemptsData.set(username, attempt);
+    return attempt;
+  }
+
+  async clearLoginAttempts(username: string): Promise<void> {
+    this.loginAttemptsData.delete(username);
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return this.apiTokensData.filter((token) => token.userId === userId).sort((a, b) => b.id - a.id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return this.apiTokensData.find((token) => token.tokenHash === tokenHash);
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const created: ApiToken = { id: this.apiTokenIdCounter++, ...token, lastUsedAt: null, createdAt: nowIso() };
+    this.apiTokensData.push(created);
+    return created;
+  }
+
+  async touchApiToken(id: number, at: string): Promise<void> {
+    const token = this.apiTokensData.find((item) => item.id === id);
+    if (token) {
+      token.lastUsedAt = at;
+    }
+  }
+
+  async deleteApiToken(id: number, userId: string): Promise<boolean> {
+    const index = this.apiTokensData.findIndex((token) => token.id === id && token.userId === userId);
+    if (index === -1) {
+      return false;
+    }
+    this.apiTokensData.splice(index, 1);
+    return true;
+  }
+
   async createLiveSession(session: InsertLiveSession): Promise<LiveSession> {
+    // Only one live can run at a time: starting a new one ends the previous
+    this.liveSessionsData.forEach((item) => {
+      if (item.status !== "ended") {
+        item.status = "ended";
+        item.endedAt = nowIso();
+        item.updatedAt = nowIso();
+      }
+    });
     const liveSession: LiveSession = {
       id: this.liveSessionIdCounter++,
       sessionName: session.sessionName,
       pricePerAccount: session.pricePerAccount,
+      status: "active",
+      startedAt: nowIso(),
+      endedAt: null,
       createdAt: nowIso(),
       updatedAt: nowIso(),
     };
@@ -417,14 +1221,59 @@ export class MemoryStorage implements IStorage {
     return liveSession;
   }
 
+  async createLiveSessionWithRules(session: InsertLiveSession, rules: InsertPricingRule[]): Promise<{ session: LiveSession; rules: PricingRule[] }> {
+    const liveSession = await this.createLiveSession(session);
+    return { session: liveSession, rules: await this.replacePricingRules(liveSession.id, rules) };
+  }
+
+  async getLiveSession(id: number): Promise<LiveSession | undefined> {
+    return this.liveSessionsData.find((item) => item.id === id);
+  }
+
   async getActiveLiveSession(): Promise<LiveSession | undefined> {
-    return this.liveSessionsData.length > 0
-      ? this.liveSessionsData[this.liveSessionsData.length - 1]
-      : undefined;
+    return [...this.liveSessionsData].reverse().find((item) => item.status === "active");
+  }
+
+  async getOpenLiveSession(): Promise<LiveSession | undefined> {
+    return [...this.liveSessionsData].reverse().find((item) => item.status !== "ended");
   }
 
   async getAllLiveSessions(): Promise<LiveSession[]> {
-    return [...this.liveSessionsData];
+    return [...this.liveSessionsData].reverse();
+  }
+
+  async updateLiveSessionStatus(id: number, status: LiveSessionStatus): Promise<LiveSession | undefined> {
+    const liveSession = this.liveSessionsData.find((item) => item.id === id);
+    if (!liveSession) return undefined;
+    liveSession.status = status;
+    liveSession.endedAt = status === "ended" ? nowIso() : null;
+    liveSession.updatedAt = nowIso();
+    return liveSession;
+  }
+
+  async getPricingRules(sessionId: number): Promise<PricingRule[]> {
+    return this.pricingRulesData
+      .filter((rule) => rule.sessionId === sessionId)
+      .sort((a, b) => b.priority - a.priority || a.id - b.id);
+  }
+
+  async replacePricingRules(sessionId: number, rules: InsertPricingRule[]): Promise<PricingRule[]> {
+    // Built first and swapped in with one assignment, so the old rules stay if anything throws
+    const replacement: PricingRule[] = rules.map((rule) => ({
+      id: this.pricingRuleIdCounter++,
+      sessionId,
+      name: rule.name,
+      minLevel: rule.minLevel,
+      maxLevel: rule.maxLevel,
+      tag: rule.tag,
+      minSkins: rule.minSkins,
+      maxSkins: rule.maxSkins,
+      price: rule.price,
+      priority: rule.priority,
+      createdAt: nowIso(),
+    }));
+    this.pricingRulesData = [...this.pricingRulesData.filter((rule) => rule.sessionId !== sessionId), ...replacement];
+    return this.getPricingRules(sessionId);
   }
 
   async createRevenueRecord(record: InsertRevenueRecord): Promise<RevenueRecord> {
@@ -434,15 +1283,29 @@ export class MemoryStorage implements IStorage {
       accountId: record.accountId,
       pricePerAccount: record.pricePerAccount,
       revenue: record.revenue,
+      priceSource: record.priceSource ?? "session",
+      pricingRuleId: record.pricingRuleId ?? null,
+      pricingRuleName: record.pricingRuleName ?? null,
+      orderId: record.orderId ?? null,
+      voidedAt: null,
+      voidReason: null,
       createdAt: nowIso(),
     };
     this.revenueRecordsData.push(revenueRecord);
     return revenueRecord;
   }
 
+  async createRevenueRecords(records: InsertRevenueRecord[]): Promise<RevenueRecord[]> {
+    const created: RevenueRecord[] = [];
+    for (const record of records) {
+      created.push(await this.createRevenueRecord(record));
+    }
+    return created;
+  }
+
   async getRevenueStatsByDate(startDate: Date, endDate: Date): Promise<Array<{ date: string; revenue: number; accountCount: number }>> {
     const filtered = this.revenueRecordsData.filter(
-      (record) => new Date(record.createdAt) >= startDate && new Date(record.createdAt) <= endDate
+      (record) => !record.voidedAt && new Date(record.createdAt) >= startDate && new Date(record.createdAt) <= endDate
     );
     const statsByDate = new Map<string, { revenue: number; accountCount: number }>();
     filtered.forEach((record) => {
@@ -459,29 +1322,239 @@ export class MemoryStorage implements IStorage {
   }
 
   async getCurrentSessionRevenue(sessionId: number): Promise<{ totalRevenue: number; accountCount: number }> {
-    const filtered = this.revenueRecordsData.filter((record) => record.sessionId === sessionId);
+    const filtered = this.revenueRecordsData.filter((record) => record.sessionId === sessionId && !record.voidedAt);
     return {
       totalRevenue: filtered.reduce((sum, record) => sum + record.revenue, 0),
       accountCount: filtered.length,
     };
   }
-}
 
+  async voidLatestRevenueRecords(sessionId: number | null, accountIds: number[], reason: string): Promise<RevenueRecord[]> {
+    const voided: RevenueRecord[] = [];
+    const voidedAt = nowIso();
+    for (const accountId of Array.from(new Set(accountIds))) {
+      const latest = this.revenueRecordsData
+        .filter((record) => (sessionId === null || record.sessionId === sessionId) && record.accountId === accountId && !record.voidedAt)
+        .sort((a, b) => b.id - a.id)[0];
+      if (!latest) continue;
+      latest.voidedAt = voidedAt;
+      latest.voidReason = reason;
+      voided.push(latest);
+    }
+    return voided;
+  }
 
-export class DatabaseStorage implements IStorage {
-  private readonly schemaReady = ensureTablesPromise;
+  async getVoidedRevenueRecords(sessionId?: number): Promise<RevenueRecord[]> {
+    return this.revenueRecordsData
+      .filter((record) => record.voidedAt && (sessionId === undefined || record.sessionId === sessionId))
+      .sort((a, b) => (b.voidedAt ?? '').localeCompare(a.voidedAt ?? ''));
+  }
 
-  private async ensureSchema() {
-    await this.schemaReady;
+  async getAllBuyers(): Promise<Buyer[]> {
+    return [...this.buyersData].sort((a, b) => b.id - a.id);
   }
 
-  async getAllAccounts(): Promise<Account[]> {
-    await this.ensureSchema();
-    try {
-      return await db.select().from(accounts);
-    } catch (error) {
-      console.error('Error in getAllAccounts:', error);
-      throw new Error('Failed to fetch accounts from database');
+  async getBuyer(id: number): Promise<Buyer | undefined> {
+    return this.buyersData.find((buyer) => buyer.id === id);
+  }
+
+  async createBuyer(buyer: InsertBuyer): Promise<Buyer> {
+    const created: Buyer = {
+      id: this.buyerIdCounter++,
+      name: buyer.name,
+      contact: buyer.contact ?? null,
+      note: buyer.note ?? null,
+      createdAt: nowIso(),
+    };
+    this.buyersData.push(created);
+    return created;
+  }
+
+  async createOrder(order: InsertOrder): Promise<Order> {
+    const created: Order = {
+      id: this.orderIdCounter++,
+      buyerId: order.buyerId,
+      sessionId: order.sessionId,
+      note: order.note ?? null,
+      createdAt: nowIso(),
+    };
+    this.ordersData.push(created);
+    return created;
+  }
+
+  async getOrdersByBuyer(buyerId: number): Promise<Order[]> {
+    return this.ordersData
+      .filter((order) => order.buyerId === buyerId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getRevenueRecordsByOrders(orderIds: number[]): Promise<RevenueRecord[]> {
+    const ids = new Set(orderIds);
+    return this.revenueRecordsData.filter((record) => record.orderId !== null && ids.has(record.orderId));
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const created: AuditEvent = {
+      id: this.auditEventIdCounter++,
+      ...event,
+      actorUsername: null,
+      createdAt: nowIso(),
+    };
+    this.auditEventsData.push(created);
+    return this.withActorUsername(created);
+  }
+
+  async queryAuditEvents(query: AuditQuery): Promise<ListPage<AuditEvent>> {
+    const from = query.from ? new Date(query.from).getTime() : null;
+    const to = query.to ? new Date(query.to).getTime() : null;
+    const matches = this.auditEventsData
+      .filter((event) => {
+        if (query.entity && event.entity !== query.entity) return false;
+        if (query.action && event.action !== query.action) return false;
+        if (query.actorId && event.actorId !== query.actorId) return false;
+        if (query.entityId && !event.entityIds.some((id) => String(id) === query.entityId)) return false;
+        const createdAt = new Date(event.createdAt).getTime();
+        if (from !== null && createdAt < from) return false;
+        if (to !== null && createdAt > to) return false;
+        return true;
+      })
+      .sort((a, b) => b.id - a.id);
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      items: matches.slice(offset, offset + query.pageSize).map((event) => this.withActorUsername(event)),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize,
+      nextCursor: null,
+    };
+  }
+
+  private withActorUsername(event: AuditEvent): AuditEvent {
+    const actor = event.actorId ? this.usersData.find((user) => user.id === event.actorId) : undefined;
+    return { ...event, actorUsername: actor?.username ?? null };
+  }
+
+  async createImportBatch(batch: InsertImportBatch): Promise<ImportBatch> {
+    const created: ImportBatch = {
+      id: this.importBatchIdCounter++,
+      ...batch,
+      createdAt: nowIso(),
+      imported: 0,
+      updated: 0,
+      errors: 0,
+      status: "running",
+      createdIds: [],
+      rolledBackAt: null,
+      rolledBackBy: null,
+      rolledBackCount: null,
+      createdByUsername: null,
+    };
+    this.importBatchesData.push(created);
+    return this.withCreatorUsername(created);
+  }
+
+  async finishImportBatch(id: number, result: ImportBatchResult): Promise<ImportBatch | undefined> {
+    const batch = this.importBatchesData.find((item) => item.id === id);
+    if (!batch) return undefined;
+    Object.assign(batch, result);
+    return this.withCreatorUsername(batch);
+  }
+
+  async abortImportBatches(status: Extract<ImportBatchStatus, "failed" | "interrupted">, id?: number): Promise<number> {
+    const open = this.importBatchesData.filter((batch) => batch.status === "running" && (id === undefined || batch.id === id));
+    open.forEach((batch) => {
+      const rows: Array<Account | AccLog> = batch.entity === "accounts" ? this.accountsData : this.accLogsData;
+      const createdIds = rows.filter((row) => row.importBatchId === batch.id).map((row) => row.id);
+      Object.assign(batch, { status, imported: createdIds.length, createdIds });
+    });
+    return open.length;
+  }
+
+  async getImportBatch(id: number): Promise<ImportBatch | undefined> {
+    const batch = this.importBatchesData.find((item) => item.id === id);
+    return batch ? this.withCreatorUsername(batch) : undefined;
+  }
+
+  async queryImportBatches(entity: ImportJobEntity, query: ImportBatchQuery): Promise<ListPage<ImportBatch>> {
+    const matches = this.importBatchesData
+      .filter((batch) => batch.entity === entity)
+      .sort((a, b) => b.id - a.id);
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      items: matches.slice(offset, offset + query.pageSize).map((batch) => this.withCreatorUsername(batch)),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize,
+      nextCursor: null,
+    };
+  }
+
+  async rollbackImportBatch(id: number, rolledBackBy: string): Promise<{ batch: ImportBatch; deleted: Array<Account | AccLog>; kept: number[] } | undefined> {
+    const batch = this.importBatchesData.find((item) => item.id === id);
+    if (!batch || batch.rolledBackAt) return undefined;
+    let deleted: Array<Account | AccLog>;
+    let kept: number[] = [];
+    if (batch.entity === "accounts") {
+      const rows = this.accountsData.filter((account) => account.importBatchId === id);
+      deleted = rows.filter((account) => isUntouchedImport(account, this.revenueRecordsData));
+      kept = rows.filter((account) => !deleted.includes(account)).map((account) => account.id);
+      await this.deleteMultipleAccounts(deleted.map((account) => account.id));
+    } else {
+      deleted = this.accLogsData.filter((log) => log.importBatchId === id);
+      await this.deleteMultipleAccLogs(deleted.map((log) => log.id));
+    }
+    Object.assign(batch, { rolledBackAt: nowIso(), rolledBackBy, rolledBackCount: deleted.length });
+    return { batch: this.withCreatorUsername(batch), deleted, kept };
+  }
+
+  private withCreatorUsername(batch: ImportBatch): ImportBatch {
+    const creator = this.usersData.find((user) => user.id === batch.createdBy);
+    return { ...batch, createdIds: [...batch.createdIds], createdByUsername: creator?.username ?? null };
+  }
+}
+
+
+export class DatabaseStorage implements IStorage {
+  private readonly schemaReady = ensureTablesPromise;
+  private readonly keyring: Keyring | null;
+
+  constructor() {
+    this.keyring = loadKeyringFromEnv();
+    if (!this.keyring) {
+      if (process.env.NODE_ENV === 'production') {
+        log.error('FATAL: ACCOUNT_ENCRYPTION_KEYS is not set!');
+        process.exit(1);
+      }
+      log.warn('ACCOUNT_ENCRYPTION_KEYS is not set: account passwords are stored in plain text.');
+    }
+  }
+
+  private async ensureSchema() {
+    await this.schemaReady;
+  }
+
+  // Passwords of accounts, acc logs and clonereg rows are encrypted on write and decrypted on read
+  private sealPassword(password: string): string {
+    return this.keyring ? encryptSecret(this.keyring, password) : password;
+  }
+
+  private openRecord<T extends { password: string }>(record: T): T {
+    return { ...record, password: decryptSecret(this.keyring, record.password) };
+  }
+
+  // Operator TOTP secrets use the same keys
+  private openUser(user: User): User {
+    return user.totpSecret ? { ...user, totpSecret: decryptSecret(this.keyring, user.totpSecret) } : user;
+  }
+
+  async getAllAccounts(): Promise<Account[]> {
+    await this.ensureSchema();
+    try {
+      const rows = await db.select().from(accounts);
+      return rows.map((row) => this.openRecord(row));
+    } catch (error) {
+      log.error('Error in getAllAccounts', { err: error });
+      throw new Error('Failed to fetch accounts from database');
     }
   }
 
@@ -495,14 +1568,15 @@ export class DatabaseStorage implements IStorage {
         .insert(accounts)
         .values({
           ...insertAccount,
+          password: this.sealPassword(insertAccount.password),
           lv: Number(insertAccount.lv ?? 0),
           skins: skinsValue,
           updatedAt: nowIso(),
         })
         .returning();
-      return result[0];
+      return this.openRecord(result[0]);
     } catch (error) {
-      console.error('Error in createAccount:', error);
+      log.error('Error in createAccount', { err: error });
       const err = error as any;
       const message = (err && (err.message || err.toString())) || '';
       if (/UNIQUE constraint failed|unique/i.test(message)) {
@@ -512,33 +1586,180 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateAccountStatus(id: number, status: boolean): Promise<Account | undefined> {
+  async createAccountsBulk(records: InsertAccount[], { mode, onExisting, importBatchId = null }: BulkInsertOptions): Promise<BulkInsertResult<Account>> {
+    await this.ensureSchema();
+    try {
+      const existing = await this.findByUsernames(records.map((record) => record.username), (names) =>
+        db.select().from(accounts).where(inArray(accounts.username, names)));
+      const { fresh, updates, plan: { conflicts } } = planBulkInsert(records, existing, onExisting);
+      if ((fresh.length === 0 && updates.length === 0) || (mode === "all_or_nothing" && conflicts.length > 0)) {
+        return { created: [], updated: [], conflicts };
+      }
+
+      const updatedAt = nowIso();
+      const inserts = chunked(fresh, BULK_INSERT_CHUNK_SIZE).map((chunk) => db
+        .insert(accounts)
+        .values(chunk.map((record) => ({
+          ...record,
+          password: this.sealPassword(record.password),
+          lv: Number(record.lv ?? 0),
+          skins: typeof record.skins === 'string' ? record.skins : JSON.stringify(record.skins ?? []),
+          importBatchId,
+          updatedAt,
+        })))
+        .returning());
+      const changes = updates.map(({ record, current }) => {
+        const { password, ...rest } = accountImportChanges(record, current, onExisting);
+        return db
+          .update(accounts)
+          .set({ ...rest, ...(password !== undefined ? { password: this.sealPassword(password) } : {}), updatedAt })
+          .where(eq(accounts.id, current.id))
+          .returning();
+      });
+      const statements = [...inserts, ...changes];
+      const results = await db.batch(statements as [typeof statements[number], ...typeof statements]);
+      const rows = results.map((result) => result.map((row) => this.openRecord(row)));
+      return { created: rows.slice(0, inserts.length).flat(), updated: rows.slice(inserts.length).flat(), conflicts };
+    } catch (error) {
+      log.error('Error in createAccountsBulk', { err: error });
+      throw new Error('Failed to create accounts in database');
+    }
+  }
+
+  async planAccountsBulk(records: InsertAccount[], onExisting: ImportExistingAction): Promise<BulkInsertPlan> {
+    await this.ensureSchema();
+    try {
+      const existing = await this.findByUsernames(records.map((record) => record.username), (names) =>
+        db.select({ username: accounts.username }).from(accounts).where(inArray(accounts.username, names)));
+      return planBulkInsert(records, existing, onExisting).plan;
+    } catch (error) {
+      log.error('Error in planAccountsBulk', { err: error });
+      throw new Error('Failed to check accounts in database');
+    }
+  }
+
+  // Stored rows of the usernames, keyed by trimmed username; `lookup` fetches one chunk
+  private async findByUsernames<T extends { username: string }>(usernames: string[], lookup: (names: string[]) => Promise<T[]>): Promise<Map<string, T>> {
+    const existing = new Map<string, T>();
+    const unique = Array.from(new Set(usernames.map((username) => username.trim())));
+    for (const names of chunked(unique, BULK_LOOKUP_CHUNK_SIZE)) {
+      const rows = await lookup(names);
+      rows.forEach((row) => existing.set(row.username.trim(), row));
+    }
+    return existing;
+  }
+
+  async transitionAccountStates(ids: number[] | null, to: AccountState, operator: string, onlyFrom?: readonly AccountState[]): Promise<AccountStateTransitionResult> {
+    await this.ensureSchema();
+    if (ids && ids.length === 0) return { updated: [], rejected: [] };
+    try {
+      const now = nowIso();
+      const lookup = (chunk: number[] | null) => db
+        .select({ id: accounts.id, state: accounts.state, heldBy: accounts.heldBy, heldUntil: accounts.heldUntil })
+        .from(accounts)
+        .where(and(chunk ? inArray(accounts.id, chunk) : undefined, onlyFrom ? inArray(accounts.state, [...onlyFrom]) : undefined));
+      const current: Awaited<ReturnType<typeof lookup>> = [];
+      if (ids) {
+        // Id lists are chunked to stay under SQLite's bound-variable limit
+        for (const chunk of chunked(ids, BULK_LOOKUP_CHUNK_SIZE)) {
+          current.push(...await lookup(chunk));
+        }
+      } else {
+        current.push(...await lookup(null));
+      }
+
+      const result: AccountStateTransitionResult = { updated: [], rejected: [] };
+      const allowedFrom = ACCOUNT_STATES.filter((state) => canTransitionAccountState(state, to));
+      const previousStates = new Map<number, AccountState>();
+      for (const row of current) {
+        if (row.state === to) continue;
+        if (!allowedFrom.includes(row.state)) {
+          result.rejected.push({ id: row.id, from: row.state });
+        } else if (row.state === "reserved" && row.heldBy !== operator && row.heldUntil !== null && row.heldUntil > now) {
+          result.rejected.push({ id: row.id, from: row.state, heldBy: row.heldBy });
+        } else {
+          previousStates.set(row.id, row.state);
+        }
+      }
+      if (previousStates.size === 0) return result;
+
+      // Re-check the source state and the hold in the UPDATE so a concurrent transition or a
+      // hold taken in the meantime cannot be overwritten. Chunks go in one batch so the change is all or nothing.
+      const statements = chunked(Array.from(previousStates.keys()), BULK_LOOKUP_CHUNK_SIZE).map((chunk) => db
+        .update(accounts)
+        .set({ state: to, status: accountStatusForState(to), heldBy: null, heldForBuyerId: null, heldUntil: null, updatedAt: now })
+        .where(and(
+          inArray(accounts.id, chunk),
+          inArray(accounts.state, allowedFrom),
+          or(ne(accounts.state, "reserved"), eq(accounts.heldBy, operator), isNull(accounts.heldUntil), lte(accounts.heldUntil, now)),
+        ))
+        .returning());
+      const updatedRows = (await db.batch(statements as [typeof statements[number], ...typeof statements])).flat();
+      const updatedIds = new Set(updatedRows.map((row) => row.id));
+      for (const account of updatedRows) {
+        result.updated.push({ account: this.openRecord(account), from: previousStates.get(account.id)! });
+      }
+      previousStates.forEach((from, id) => {
+        if (!updatedIds.has(id)) result.rejected.push({ id, from });
+      });
+      return result;
+    } catch (error) {
+      log.error('Error in transitionAccountStates', { err: error });
+      throw new Error('Failed to update account states in database');
+    }
+  }
+
+  async holdAccount(id: number, hold: AccountHold & { heldBy: string; heldUntil: string }): Promise<Account | undefined> {
     await this.ensureSchema();
     try {
+      // Single conditional UPDATE so two moderators cannot grab the same account
       const [account] = await db
         .update(accounts)
-        .set({ status, updatedAt: nowIso() })
-        .where(eq(accounts.id, id))
+        .set({
+          state: "reserved",
+          status: accountStatusForState("reserved"),
+          heldBy: hold.heldBy,
+          heldForBuyerId: hold.heldForBuyerId,
+          heldUntil: hold.heldUntil,
+          updatedAt: nowIso(),
+        })
+        .where(and(
+          eq(accounts.id, id),
+          or(
+            eq(accounts.state, "available"),
+            and(
+              eq(accounts.state, "reserved"),
+              or(eq(accounts.heldBy, hold.heldBy), isNull(accounts.heldUntil), lte(accounts.heldUntil, nowIso())),
+            ),
+          ),
+        ))
         .returning();
-      return account || undefined;
+      return account ? this.openRecord(account) : undefined;
     } catch (error) {
-      console.error('Error in updateAccountStatus:', error);
-      throw new Error('Failed to update account status in database');
+      log.error('Error in holdAccount', { err: error });
+      throw new Error('Failed to hold account in database');
     }
   }
 
-  async updateAccountTag(id: number, tag: string | null): Promise<Account | undefined> {
+  async releaseExpiredHolds(now: string): Promise<Account[]> {
     await this.ensureSchema();
     try {
-      const [account] = await db
+      const rows = await db
         .update(accounts)
-        .set({ tag, updatedAt: nowIso() })
-        .where(eq(accounts.id, id))
+        .set({
+          state: "available",
+          status: accountStatusForState("available"),
+          heldBy: null,
+          heldForBuyerId: null,
+          heldUntil: null,
+          updatedAt: now,
+        })
+        .where(and(eq(accounts.state, "reserved"), isNotNull(accounts.heldUntil), lte(accounts.heldUntil, now)))
         .returning();
-      return account || undefined;
+      return rows.map((row) => this.openRecord(row));
     } catch (error) {
-      console.error('Error in updateAccountTag:', error);
-      throw new Error('Failed to update account tag in database');
+      log.error('Error in releaseExpiredHolds', { err: error });
+      throw new Error('Failed to release expired holds in database');
     }
   }
 
@@ -547,50 +1768,34 @@ export class DatabaseStorage implements IStorage {
     try {
       const patch: Record<string, unknown> = { updatedAt: nowIso() };
       if (updates.username !== undefined) patch.username = updates.username;
-      if (updates.password !== undefined) patch.password = updates.password;
+      if (updates.password !== undefined) patch.password = this.sealPassword(updates.password);
       if (updates.lv !== undefined) patch.lv = Number(updates.lv);
       if (Object.prototype.hasOwnProperty.call(updates, 'champion')) patch.champion = updates.champion ?? null;
       if (updates.skins !== undefined) {
         patch.skins = typeof updates.skins === 'string' ? updates.skins : JSON.stringify(updates.skins);
       }
+      if (updates.priceOverride !== undefined) patch.priceOverride = updates.priceOverride;
 
       const [account] = await db
         .update(accounts)
         .set(patch as any)
         .where(eq(accounts.id, id))
         .returning();
-      return account || undefined;
+      return account ? this.openRecord(account) : undefined;
     } catch (error) {
-      console.error('Error in updateAccountDetails:', error);
+      log.error('Error in updateAccountDetails', { err: error });
       throw new Error('Failed to update account details in database');
     }
   }
 
-  async updateMultipleAccountTags(tag: string | null, ids?: number[]): Promise<number> {
-    await this.ensureSchema();
-    try {
-      if (ids && ids.length > 0) {
-        const result = await db
-          .update(accounts)
-          .set({ tag, updatedAt: nowIso() })
-          .where(inArray(accounts.id, ids));
-        return (result as any).rowsAffected ?? ids.length;
-      }
-      const result = await db.update(accounts).set({ tag, updatedAt: nowIso() });
-      return (result as any).rowsAffected ?? 0;
-    } catch (error) {
-      console.error('Error in updateMultipleAccountTags:', error);
-      throw new Error('Failed to update account tags in database');
-    }
-  }
-
   async deleteAccount(id: number): Promise<boolean> {
     await this.ensureSchema();
     try {
+      await db.delete(accountTags).where(eq(accountTags.accountId, id));
       const result = await db.delete(accounts).where(eq(accounts.id, id));
       return ((result as any).rowsAffected ?? 0) > 0;
     } catch (error) {
-      console.error('Error in deleteAccount:', error);
+      log.error('Error in deleteAccount', { err: error });
       throw new Error('Failed to delete account from database');
     }
   }
@@ -599,10 +1804,11 @@ export class DatabaseStorage implements IStorage {
     await this.ensureSchema();
     if (ids.length === 0) return 0;
     try {
+      await db.delete(accountTags).where(inArray(accountTags.accountId, ids));
       const result = await db.delete(accounts).where(inArray(accounts.id, ids));
       return (result as any).rowsAffected ?? 0;
     } catch (error) {
-      console.error('Error in deleteMultipleAccounts:', error);
+      log.error('Error in deleteMultipleAccounts', { err: error });
       throw new Error('Failed to delete multiple accounts from database');
     }
   }
@@ -610,200 +1816,797 @@ export class DatabaseStorage implements IStorage {
   async deleteAllAccounts(): Promise<number> {
     await this.ensureSchema();
     try {
+      await db.delete(accountTags);
       const result = await db.delete(accounts);
       return (result as any).rowsAffected ?? 0;
     } catch (error) {
-      console.error('Error in deleteAllAccounts:', error);
-      throw new Error('Failed to delete all accounts from database');
+      log.error('Error in deleteAllAccounts', { err: error });
+      throw new Error('Failed to delete all accounts from database');
+    }
+  }
+
+  async getAccountStats(): Promise<{ total: number; active: number; inactive: number; byState: Record<AccountState, number>; lastUpdatedAt: string | null }> {
+    await this.ensureSchema();
+    const byState = Object.fromEntries(ACCOUNT_STATES.map((state) => [state, 0])) as Record<AccountState, number>;
+    try {
+      const [stats] = await db
+        .select({
+          total: sql<number>`count(*)`,
+          active: sql<number>`sum(case when status = 1 then 1 else 0 end)`,
+          inactive: sql<number>`sum(case when status = 0 then 1 else 0 end)`,
+          lastUpdatedAt: sql<string | null>`max(datetime(updated_at))`,
+        })
+        .from(accounts);
+      const stateRows = await db
+        .select({ state: accounts.state, count: sql<number>`count(*)` })
+        .from(accounts)
+        .groupBy(accounts.state);
+      for (const row of stateRows) {
+        if (row.state in byState) byState[row.state] = Number(row.count) || 0;
+      }
+      return {
+        total: Number(stats?.total) || 0,
+        active: Number(stats?.active) || 0,
+        inactive: Number(stats?.inactive) || 0,
+        byState,
+        lastUpdatedAt: stats?.lastUpdatedAt ? new Date(`${stats.lastUpdatedAt}Z`).toISOString() : null,
+      };
+    } catch (error) {
+      log.error('Error in getAccountStats', { err: error });
+      return { total: 0, active: 0, inactive: 0, byState, lastUpdatedAt: null };
+    }
+  }
+
+  // Filter, sort (id breaks ties) and page a table by offset or keyset cursor
+  private async listRows<T extends Account | AccLog>(
+    table: typeof accounts | typeof accLogs,
+    conditions: SQL[],
+    query: StorageListQuery,
+  ): Promise<ListPage<T>> {
+    const sortColumn = { updatedAt: table.updatedAt, username: table.username, lv: table.lv }[query.sort];
+    const direction = query.order === "asc" ? asc : desc;
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    if (query.pageSize === undefined && query.page === undefined && !query.cursor) {
+      const rows = await db.select().from(table).where(where).orderBy(direction(sortColumn), direction(table.id)) as T[];
+      return { items: rows.map((row) => this.openRecord(row)), total: rows.length, page: null, pageSize: rows.length, nextCursor: null };
+    }
+
+    const pageSize = query.pageSize ?? 50;
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(table).where(where);
+
+    let pageWhere = where;
+    if (query.cursor) {
+      const { value, id } = query.cursor;
+      const beyond = query.order === "asc" ? gt : lt;
+      pageWhere = and(where, or(beyond(sortColumn, value), and(eq(sortColumn, value), beyond(table.id, id))));
+    }
+    const rows = await db
+      .select()
+      .from(table)
+      .where(pageWhere)
+      .orderBy(direction(sortColumn), direction(table.id))
+      .limit(pageSize + 1)
+      .offset(query.cursor ? 0 : ((query.page ?? 1) - 1) * pageSize) as T[];
+
+    const items = rows.slice(0, pageSize).map((row) => this.openRecord(row));
+    const last = items[items.length - 1];
+    return {
+      items,
+      total: Number(count) || 0,
+      page: query.cursor ? null : query.page ?? 1,
+      pageSize,
+      nextCursor: rows.length > pageSize && last ? encodeCursor({ value: sortValueOf(last, query.sort), id: last.id }) : null,
+    };
+  }
+
+  async queryAccounts(query: StorageListQuery): Promise<ListPage<AccountWithTags>> {
+    await this.ensureSchema();
+    try {
+      const conditions = buildListFilters(accounts, query);
+      if (query.state) conditions.push(eq(accounts.state, query.state));
+      const linksOfAccount = eq(accountTags.accountId, accounts.id);
+      if (query.tags === TAG_FILTER_UNASSIGNED) {
+        conditions.push(notExists(db.select({ tagId: accountTags.tagId }).from(accountTags).where(linksOfAccount)));
+      } else if (query.tags && query.tagMatch === "all") {
+        const matched = db
+          .select({ count: sql<number>`count(distinct ${accountTags.tagId})` })
+          .from(accountTags)
+          .where(and(linksOfAccount, inArray(accountTags.tagId, query.tags)));
+        conditions.push(sql`(${matched}) = ${new Set(query.tags).size}`);
+      } else if (query.tags) {
+        conditions.push(exists(
+          db.select({ tagId: accountTags.tagId }).from(accountTags).where(and(linksOfAccount, inArray(accountTags.tagId, query.tags))),
+        ));
+      }
+      const result = await this.listRows<Account>(accounts, conditions, query);
+      const refs = await this.getAccountTagRefs(result.items.map((account) => account.id));
+      return { ...result, items: result.items.map((account) => ({ ...account, tags: refs.get(account.id) ?? [] })) };
+    } catch (error) {
+      log.error('Error in queryAccounts', { err: error });
+      throw new Error('Failed to query accounts from database');
+    }
+  }
+
+  async getTags(): Promise<TagWithCount[]> {
+    await this.ensureSchema();
+    try {
+      const rows = await db
+        .select({ tag: tags, accountCount: sql<number>`count(${accountTags.accountId})` })
+        .from(tags)
+        .leftJoin(accountTags, eq(accountTags.tagId, tags.id))
+        .groupBy(tags.id)
+        .orderBy(sql`lower(${tags.name})`);
+      return rows.map((row) => ({ ...row.tag, accountCount: Number(row.accountCount) || 0 }));
+    } catch (error) {
+      log.error('Error in getTags', { err: error });
+      throw new Error('Failed to fetch tags from database');
+    }
+  }
+
+  async getTag(id: number): Promise<Tag | undefined> {
+    await this.ensureSchema();
+    try {
+      const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+      return tag || undefined;
+    } catch (error) {
+      log.error('Error in getTag', { err: error });
+      throw new Error('Failed to fetch tag from database');
+    }
+  }
+
+  async getTagByName(name: string): Promise<Tag | undefined> {
+    await this.ensureSchema();
+    try {
+      const [tag] = await db.select().from(tags).where(sql`lower(${tags.name}) = ${name.trim().toLowerCase()}`);
+      return tag || undefined;
+    } catch (error) {
+      log.error('Error in getTagByName', { err: error });
+      throw new Error('Failed to fetch tag from database');
+    }
+  }
+
+  async createTag(insertTag: InsertTag): Promise<Tag> {
+    await this.ensureSchema();
+    try {
+      const now = nowIso();
+      const [tag] = await db
+        .insert(tags)
+        .values({
+          name: insertTag.name,
+          color: insertTag.color ?? DEFAULT_TAG_COLOR,
+          description: insertTag.description ?? null,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+      return tag;
+    } catch (error) {
+      log.error('Error in createTag', { err: error });
+      throw new Error('Failed to create tag in database');
+    }
+  }
+
+  async updateTag(id: number, updates: UpdateTag): Promise<Tag | undefined> {
+    await this.ensureSchema();
+    try {
+      const patch: Partial<Tag> = { updatedAt: nowIso() };
+      if (updates.name !== undefined) patch.name = updates.name;
+      if (updates.color !== undefined) patch.color = updates.color;
+      if (updates.description !== undefined) patch.description = updates.description;
+      const [tag] = await db.update(tags).set(patch).where(eq(tags.id, id)).returning();
+      return tag || undefined;
+    } catch (error) {
+      log.error('Error in updateTag', { err: error });
+      throw new Error('Failed to update tag in database');
+    }
+  }
+
+  async mergeTags(sourceIds: number[], targetId: number): Promise<number> {
+    await this.ensureSchema();
+    try {
+      return await db.transaction(async (tx) => {
+        const [{ count }] = await tx
+          .select({ count: sql<number>`count(distinct ${accountTags.accountId})` })
+          .from(accountTags)
+          .where(inArray(accountTags.tagId, sourceIds));
+        await tx.run(sql`
+          INSERT OR IGNORE INTO account_tags (account_id, tag_id)
+          SELECT account_id, ${targetId} FROM account_tags WHERE tag_id IN ${sourceIds}
+        `);
+        await tx.delete(accountTags).where(inArray(accountTags.tagId, sourceIds));
+        await tx.delete(tags).where(inArray(tags.id, sourceIds));
+        return Number(count) || 0;
+      });
+    } catch (error) {
+      log.error('Error in mergeTags', { err: error });
+      throw new Error('Failed to merge tags in database');
+    }
+  }
+
+  async deleteTag(id: number, reassignToId?: number): Promise<boolean> {
+    await this.ensureSchema();
+    try {
+      if (!(await this.getTag(id))) return false;
+      if (reassignToId !== undefined) {
+        await this.mergeTags([id], reassignToId);
+        return true;
+      }
+      await db.transaction(async (tx) => {
+        await tx.delete(accountTags).where(eq(accountTags.tagId, id));
+        await tx.delete(tags).where(eq(tags.id, id));
+      });
+      return true;
+    } catch (error) {
+      log.error('Error in deleteTag', { err: error });
+      throw new Error('Failed to delete tag from database');
+    }
+  }
+
+  async updateAccountTags(ids: number[], add: number[], remove: number[]): Promise<number> {
+    await this.ensureSchema();
+    try {
+      return await db.transaction(async (tx) => {
+        const existing = await tx.select({ id: accounts.id }).from(accounts).where(inArray(accounts.id, ids));
+        const accountIds = existing.map((row) => row.id);
+        if (accountIds.length === 0) return 0;
+
+        const changed = new Set<number>();
+        if (remove.length > 0) {
+          const removed = await tx
+            .delete(accountTags)
+            .where(and(inArray(accountTags.accountId, accountIds), inArray(accountTags.tagId, remove)))
+            .returning({ accountId: accountTags.accountId });
+          removed.forEach((row) => changed.add(row.accountId));
+        }
+        if (add.length > 0) {
+          const added = await tx
+            .insert(accountTags)
+            .values(accountIds.flatMap((accountId) => add.map((tagId) => ({ accountId, tagId }))))
+            .onConflictDoNothing()
+            .returning({ accountId: accountTags.accountId });
+          added.forEach((row) => changed.add(row.accountId));
+        }
+        if (changed.size > 0) {
+          await tx.update(accounts).set({ updatedAt: nowIso() }).where(inArray(accounts.id, Array.from(changed)));
+        }
+        return changed.size;
+      });
+    } catch (error) {
+      log.error('Error in updateAccountTags', { err: error });
+      throw new Error('Failed to update account tags in database');
+    }
+  }
+
+  async getAccountTagRefs(accountIds: number[]): Promise<Map<number, AccountTagRef[]>> {
+    await this.ensureSchema();
+    const refs = new Map<number, AccountTagRef[]>();
+    if (accountIds.length === 0) return refs;
+    try {
+      for (const chunk of chunked(accountIds, BULK_LOOKUP_CHUNK_SIZE)) {
+        const rows = await db
+          .select({ accountId: accountTags.accountId, id: tags.id, name: tags.name, color: tags.color })
+          .from(accountTags)
+          .innerJoin(tags, eq(tags.id, accountTags.tagId))
+          .where(inArray(accountTags.accountId, chunk))
+          .orderBy(sql`lower(${tags.name})`);
+        rows.forEach(({ accountId, ...tag }) => {
+          const list = refs.get(accountId) ?? [];
+          list.push(tag);
+          refs.set(accountId, list);
+        });
+      }
+      return refs;
+    } catch (error) {
+      log.error('Error in getAccountTagRefs', { err: error });
+      throw new Error('Failed to fetch account tags from database');
+    }
+  }
+
+  async getAllAccLogs(): Promise<AccLog[]> {
+    await this.ensureSchema();
+    try {
+      const rows = await db.select().from(accLogs);
+      return rows.map((row) => this.openRecord(row));
+    } catch (error) {
+      log.error('Error in getAllAccLogs', { err: error });
+      throw new Error('Failed to fetch acc logs from database');
+    }
+  }
+
+  async createAccLog(insertAccLog: InsertAccLog): Promise<AccLog> {
+    await this.ensureSchema();
+    try {
+      return await db.transaction(async (tx) => {
+        const [log] = await tx
+          .insert(accLogs)
+          .values({ ...insertAccLog, password: this.sealPassword(insertAccLog.password), lv: Number(insertAccLog.lv ?? 0), updatedAt: nowIso() })
+          .returning();
+        await tx.insert(accLogLevelHistory).values({
+          accLogId: log.id,
+          username: log.username,
+          fromLv: null,
+          toLv: log.lv,
+          recordedAt: log.updatedAt,
+        });
+        return this.openRecord(log);
+      });
+    } catch (error) {
+      log.error('Error in createAccLog', { err: error });
+      throw new Error('Failed to create acc log in database');
+    }
+  }
+
+  async createAccLogsBulk(records: InsertAccLog[], { mode, onExisting, importBatchId = null }: BulkInsertOptions): Promise<BulkInsertResult<AccLog>> {
+    await this.ensureSchema();
+    try {
+      const existing = await this.findByUsernames(records.map((record) => record.username), (names) =>
+        db.select().from(accLogs).where(inArray(accLogs.username, names)));
+      const { fresh, updates, plan: { conflicts } } = planBulkInsert(records, existing, onExisting);
+      if ((fresh.length === 0 && updates.length === 0) || (mode === "all_or_nothing" && conflicts.length > 0)) {
+        return { created: [], updated: [], conflicts };
+      }
+
+      const updatedAt = nowIso();
+      const chunks = chunked(fresh, BULK_INSERT_CHUNK_SIZE);
+      const inserts = chunks.map((chunk) => db
+        .insert(accLogs)
+        .values(chunk.map((record) => ({ ...record, password: this.sealPassword(record.password), lv: Number(record.lv ?? 0), importBatchId, updatedAt })))
+        .returning());
+      const levelChanges: Array<typeof accLogLevelHistory.$inferInsert> = [];
+      const changes = updates.map(({ record, current }) => {
+        const { password, lv } = accLogImportChanges(record, onExisting);
+        if (lv !== undefined && lv !== current.lv) {
+          levelChanges.push({ accLogId: current.id, username: current.username, fromLv: current.lv, toLv: lv, recordedAt: updatedAt });
+        }
+        return db
+          .update(accLogs)
+          .set({ lv, ...(password !== undefined ? { password: this.sealPassword(password) } : {}), updatedAt })
+          .where(eq(accLogs.id, current.id))
+          .returning();
+      });
+      // The first level of each new log, read back from the rows inserted earlier in the batch
+      const history = [
+        ...chunks.map((chunk) => db
+          .insert(accLogLevelHistory)
+          .select(db
+            .select({ id: sql<number>`NULL`.as('id'), accLogId: accLogs.id, username: accLogs.username, fromLv: sql<null>`NULL`.as('from_lv'), toLv: accLogs.lv, recordedAt: accLogs.updatedAt })
+            .from(accLogs)
+            .where(inArray(accLogs.username, chunk.map((record) => record.username))))),
+        ...(levelChanges.length > 0 ? [db.insert(accLogLevelHistory).values(levelChanges)] : []),
+      ];
+      const statements = [...inserts, ...changes, ...history];
+      const results = await db.batch(statements as [typeof statements[number], ...typeof statements]);
+      const rows = (results.slice(0, inserts.length + changes.length) as AccLog[][]).map((result) => result.map((row) => this.openRecord(row)));
+      return { created: rows.slice(0, inserts.length).flat(), updated: rows.slice(inserts.length).flat(), conflicts };
+    } catch (error) {
+      log.error('Error in createAccLogsBulk', { err: error });
+      throw new Error('Failed to create acc logs in database');
+    }
+  }
+
+  async planAccLogsBulk(records: InsertAccLog[], onExisting: ImportExistingAction): Promise<BulkInsertPlan> {
+    await this.ensureSchema();
+    try {
+      const existing = await this.findByUsernames(records.map((record) => record.username), (names) =>
+        db.select({ username: accLogs.username }).from(accLogs).where(inArray(accLogs.username, names)));
+      return planBulkInsert(records, existing, onExisting).plan;
+    } catch (error) {
+      log.error('Error in planAccLogsBulk', { err: error });
+      throw new Error('Failed to check acc logs in database');
+    }
+  }
+
+  async updateAccLogStatus(id: number, status: boolean): Promise<AccLog | undefined> {
+    await this.ensureSchema();
+    try {
+      const [log] = await db
+        .update(accLogs)
+        .set({ status, updatedAt: nowIso() })
+        .where(eq(accLogs.id, id))
+        .returning();
+      return log ? this.openRecord(log) : undefined;
+    } catch (error) {
+      log.error('Error in updateAccLogStatus', { err: error });
+      throw new Error('Failed to update acc log status in database');
+    }
+  }
+
+  async updateAccLogLevel(id: number, lv: number): Promise<AccLog | undefined> {
+    await this.ensureSchema();
+    try {
+      return await db.transaction(async (tx) => {
+        const [current] = await tx.select().from(accLogs).where(eq(accLogs.id, id));
+        if (!current) return undefined;
+        if (current.lv === lv) return this.openRecord(current);
+        const [log] = await tx
+          .update(accLogs)
+          .set({ lv, updatedAt: nowIso() })
+          .where(eq(accLogs.id, id))
+          .returning();
+        await tx.insert(accLogLevelHistory).values({
+          accLogId: log.id,
+          username: log.username,
+          fromLv: current.lv,
+          toLv: log.lv,
+          recordedAt: log.updatedAt,
+        });
+        return this.openRecord(log);
+      });
+    } catch (error) {
+      log.error('Error in updateAccLogLevel', { err: error });
+      throw new Error('Failed to update acc log level in database');
+    }
+  }
+
+  async getAccLogLevelHistory(since: string): Promise<AccLogLevelChange[]> {
+    await this.ensureSchema();
+    try {
+      return await db
+        .select()
+        .from(accLogLevelHistory)
+        .where(gte(accLogLevelHistory.recordedAt, since))
+        .orderBy(accLogLevelHistory.recordedAt, accLogLevelHistory.id);
+    } catch (error) {
+      log.error('Error in getAccLogLevelHistory', { err: error });
+      throw new Error('Failed to fetch level history from database');
+    }
+  }
+
+  async promoteAccLogs(ids: number[]): Promise<AccLogPromotionResult> {
+    await this.ensureSchema();
+    if (ids.length === 0) return { promoted: [], skipped: [] };
+    try {
+      return await db.transaction(async (tx) => {
+        const result: AccLogPromotionResult = { promoted: [], skipped: [] };
+        const logs = await tx.select().from(accLogs).where(inArray(accLogs.id, ids));
+        const existingUsernames = new Set(
+          logs.length === 0 ? [] : (await tx
+            .select({ username: accounts.username })
+            .from(accounts)
+            .where(inArray(accounts.username, logs.map((log) => log.username))))
+            .map((row) => row.username),
+        );
+
+        for (const id of ids) {
+          const log = logs.find((item) => item.id === id);
+          if (!log) {
+            result.skipped.push({ id, reason: "Không tìm thấy acc log" });
+            continue;
+          }
+          if (existingUsernames.has(log.username)) {
+            result.skipped.push({ id, reason: "Tên tài khoản đã có trong kho" });
+            continue;
+          }
+          // The password is copied over still encrypted
+          const [account] = await tx
+            .insert(accounts)
+            .values({ username: log.username, password: log.password, lv: log.lv, updatedAt: nowIso() })
+            .returning();
+          result.promoted.push({ accLogId: id, account: this.openRecord(account) });
+        }
+
+        if (result.promoted.length > 0) {
+          await tx.delete(accLogs).where(inArray(accLogs.id, result.promoted.map((item) => item.accLogId)));
+        }
+        return result;
+      });
+    } catch (error) {
+      log.error('Error in promoteAccLogs', { err: error });
+      throw new Error('Failed to promote acc logs in database');
+    }
+  }
+
+  async deleteAccLog(id: number): Promise<boolean> {
+    await this.ensureSchema();
+    try {
+      const result = await db.delete(accLogs).where(eq(accLogs.id, id));
+      return ((result as any).rowsAffected ?? 0) > 0;
+    } catch (error) {
+      log.error('Error in deleteAccLog', { err: error });
+      throw new Error('Failed to delete acc log from database');
+    }
+  }
+
+  async deleteMultipleAccLogs(ids: number[]): Promise<number> {
+    await this.ensureSchema();
+    if (ids.length === 0) return 0;
+    try {
+      const result = await db.delete(accLogs).where(inArray(accLogs.id, ids));
+      return (result as any).rowsAffected ?? 0;
+    } catch (error) {
+      log.error('Error in deleteMultipleAccLogs', { err: error });
+      throw new Error('Failed to delete multiple acc logs from database');
+    }
+  }
+
+  async deleteAllAccLogs(): Promise<number> {
+    await this.ensureSchema();
+    try {
+      const result = await db.delete(accLogs);
+      return (result as any).rowsAffected ?? 0;
+    } catch (error) {
+      log.error('Error in deleteAllAccLogs', { err: error });
+      throw new Error('Failed to delete all acc logs from database');
+    }
+  }
+
+  async getAccLogStats(): Promise<{ total: number; active: number; inactive: number; lastUpdatedAt: string | null }> {
+    await this.ensureSchema();
+    try {
+      const [stats] = await db
+        .select({
+          total: sql<number>`count(*)`,
+          active: sql<number>`sum(case when status = 1 then 1 else 0 end)`,
+          inactive: sql<number>`sum(case when status = 0 then 1 else 0 end)`,
+          lastUpdatedAt: sql<string | null>`max(datetime(updated_at))`,
+        })
+        .from(accLogs);
+      return {
+        total: Number(stats?.total) || 0,
+        active: Number(stats?.active) || 0,
+        inactive: Number(stats?.inactive) || 0,
+        lastUpdatedAt: stats?.lastUpdatedAt ? new Date(`${stats.lastUpdatedAt}Z`).toISOString() : null,
+      };
+    } catch (error) {
+      log.error('Error in getAccLogStats', { err: error });
+      return { total: 0, active: 0, inactive: 0, lastUpdatedAt: null };
+    }
+  }
+
+  async queryAccLogs(query: StorageListQuery): Promise<ListPage<AccLog>> {
+    await this.ensureSchema();
+    try {
+      return await this.listRows<AccLog>(accLogs, buildListFilters(accLogs, query), query);
+    } catch (error) {
+      log.error('Error in queryAccLogs', { err: error });
+      throw new Error('Failed to query acc logs from database');
+    }
+  }
+
+  async getAccLogLevels(): Promise<number[]> {
+    await this.ensureSchema();
+    try {
+      const rows = await db.selectDistinct({ lv: accLogs.lv }).from(accLogs).orderBy(accLogs.lv);
+      return rows.map((row) => row.lv);
+    } catch (error) {
+      log.error('Error in getAccLogLevels', { err: error });
+      throw new Error('Failed to fetch acc log levels from database');
+    }
+  }
+
+  async getUpdateActivity(since: string): Promise<ActivityDay[]> {
+    await this.ensureSchema();
+    try {
+      const countByDay = (table: typeof accounts | typeof accLogs) => db
+        .select({ date: sql<string>`date(${table.updatedAt})`, count: sql<number>`count(*)` })
+        .from(table)
+        .where(sql`datetime(${table.updatedAt}) >= datetime(${since})`)
+        .groupBy(sql`date(${table.updatedAt})`);
+      const [accountDays, logDays] = await Promise.all([countByDay(accounts), countByDay(accLogs)]);
+      const normalize = (rows: Array<{ date: string; count: number }>) => rows.map((row) => ({ date: row.date, count: Number(row.count) || 0 }));
+      return mergeActivity(normalize(accountDays), normalize(logDays));
+    } catch (error) {
+      log.error('Error in getUpdateActivity', { err: error });
+      throw new Error('Failed to fetch update activity from database');
+    }
+  }
+
+  async updateAllAccLogStatuses(status: boolean): Promise<number> {
+    await this.ensureSchema();
+    try {
+      await db.update(accLogs).set({ status, updatedAt: nowIso() });
+      const [row] = await db.select({ count: sql<number>`count(*)` }).from(accLogs);
+      return row?.count ?? 0;
+    } catch (error) {
+      log.error('Error in updateAllAccLogStatuses', { err: error });
+      throw new Error('Failed to update all acc log statuses');
+    }
+  }
+
+  async updateSelectedAccLogStatuses(ids: number[], status: boolean): Promise<number> {
+    await this.ensureSchema();
+    if (ids.length === 0) return 0;
+    try {
+      const result = await db
+        .update(accLogs)
+        .set({ status, updatedAt: nowIso() })
+        .where(inArray(accLogs.id, ids));
+      return (result as any).rowsAffected ?? ids.length;
+    } catch (error) {
+      log.error('Error in updateSelectedAccLogStatuses', { err: error });
+      throw new Error('Failed to update selected acc log statuses');
+    }
+  }
+
+  async getAppSetting(key: string): Promise<string | null> {
+    await this.ensureSchema();
+    try {
+      const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+      return setting?.value ?? null;
+    } catch (error) {
+      log.error('Error in getAppSetting', { err: error });
+      throw new Error('Failed to fetch setting from database');
+    }
+  }
+
+  async setAppSetting(key: string, value: string | null): Promise<void> {
+    await this.ensureSchema();
+    try {
+      if (value === null) {
+        await db.delete(appSettings).where(eq(appSettings.key, key));
+        return;
+      }
+      await db
+        .insert(appSettings)
+        .values({ key, value, updatedAt: nowIso() })
+        .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt: nowIso() } });
+    } catch (error) {
+      log.error('Error in setAppSetting', { err: error });
+      throw new Error('Failed to save setting to database');
     }
   }
 
-  async getAccountStats(): Promise<{ total: number; active: number; inactive: number }> {
+  async getUser(id: string): Promise<User | undefined> {
     await this.ensureSchema();
     try {
-      const [stats] = await db
-        .select({
-          total: sql<number>`count(*)`,
-          active: sql<number>`sum(case when status = 1 then 1 else 0 end)`,
-          inactive: sql<number>`sum(case when status = 0 then 1 else 0 end)`
-        })
-        .from(accounts);
-      return {
-        total: Number(stats?.total) || 0,
-        active: Number(stats?.active) || 0,
-        inactive: Number(stats?.inactive) || 0,
-      };
+      const [user] = await db.select().from(users).where(eq(users.id, id));
+      return user ? this.openUser(user) : undefined;
     } catch (error) {
-      console.error('Error in getAccountStats:', error);
-      return { total: 0, active: 0, inactive: 0 };
+      log.error('Error in getUser', { err: error });
+      throw new Error('Failed to fetch user from database');
     }
   }
 
-  async updateAllAccountStatuses(status: boolean): Promise<number> {
+  async getUserByUsername(username: string): Promise<User | undefined> {
     await this.ensureSchema();
     try {
-      await db.update(accounts).set({ status, updatedAt: nowIso() });
-      const [row] = await db.select({ count: sql<number>`count(*)` }).from(accounts);
-      return row?.count ?? 0;
+      const [user] = await db.select().from(users).where(eq(users.username, username));
+      return user ? this.openUser(user) : undefined;
     } catch (error) {
-      console.error('Error in updateAllAccountStatuses:', error);
-      throw new Error('Failed to update all account statuses');
+      log.error('Error in getUserByUsername', { err: error });
+      throw new Error('Failed to fetch user from database');
     }
   }
 
-  async updateSelectedAccountStatuses(ids: number[], status: boolean): Promise<number> {
+  async getUsers(): Promise<User[]> {
     await this.ensureSchema();
-    if (ids.length === 0) return 0;
     try {
-      const result = await db
-        .update(accounts)
-        .set({ status, updatedAt: nowIso() })
-        .where(inArray(accounts.id, ids));
-      return (result as any).rowsAffected ?? ids.length;
+      const rows = await db.select().from(users).orderBy(asc(users.username));
+      return rows.map((row) => this.openUser(row));
     } catch (error) {
-      console.error('Error in updateSelectedAccountStatuses:', error);
-      throw new Error('Failed to update selected account statuses');
+      log.error('Error in getUsers', { err: error });
+      throw new Error('Failed to fetch users from database');
     }
   }
 
-  async getAllAccLogs(): Promise<AccLog[]> {
+  async createUser(user: Pick<User, "username" | "password" | "role">): Promise<User> {
     await this.ensureSchema();
     try {
-      return await db.select().from(accLogs);
+      const [created] = await db.insert(users).values({ id: randomUUID(), ...user }).returning();
+      return this.openUser(created);
     } catch (error) {
-      console.error('Error in getAllAccLogs:', error);
-      throw new Error('Failed to fetch acc logs from database');
+      log.error('Error in createUser', { err: error });
+      throw new Error('Failed to create user in database');
     }
   }
 
-  async createAccLog(insertAccLog: InsertAccLog): Promise<AccLog> {
+  async updateUser(id: string, updates: UserUpdates): Promise<User | undefined> {
     await this.ensureSchema();
     try {
-      const [log] = await db
-        .insert(accLogs)
-        .values({ ...insertAccLog, lv: Number(insertAccLog.lv ?? 0), updatedAt: nowIso() })
-        .returning();
-      return log;
+      const patch = updates.totpSecret ? { ...updates, totpSecret: this.sealPassword(updates.totpSecret) } : updates;
+      const [updated] = await db.update(users).set(patch).where(eq(users.id, id)).returning();
+      return updated ? this.openUser(updated) : undefined;
     } catch (error) {
-      console.error('Error in createAccLog:', error);
-      throw new Error('Failed to create acc log in database');
+      log.error('Error in updateUser', { err: error });
+      throw new Error('Failed to update user in database');
     }
   }
 
-  async updateAccLogStatus(id: number, status: boolean): Promise<AccLog | undefined> {
+  async getLoginAttempt(username: string): Promise<LoginAttempt | undefined> {
     await this.ensureSchema();
     try {
-      const [log] = await db
-        .update(accLogs)
-        .set({ status, updatedAt: nowIso() })
-        .where(eq(accLogs.id, id))
-        .returning();
-      return log || undefined;
+      const [attempt] = await db.select().from(loginAttempts).where(eq(loginAttempts.username, username));
+      return attempt;
     } catch (error) {
-      console.error('Error in updateAccLogStatus:', error);
-      throw new Error('Failed to update acc log status in database');
+      log.error('Error in getLoginAttempt', { err: error });
+      throw new Error('Failed to fetch login attempts from database');
     }
   }
 
-  async deleteAccLog(id: number): Promise<boolean> {
+  async recordLoginFailure(username: string, at: string): Promise<LoginAttempt> {
     await this.ensureSchema();
     try {
-      const result = await db.delete(accLogs).where(eq(accLogs.id, id));
-      return ((result as any).rowsAffected ?? 0) > 0;
+      // Increment in the upsert itself so concurrent failures are all counted
+      const [attempt] = await db
+        .insert(loginAttempts)
+        .values({ username, failedCount: 1, lastFailedAt: at })
+        .onConflictDoUpdate({
+          target: loginAttempts.username,
+          set: { failedCount: sql`${loginAttempts.failedCount} + 1`, lastFailedAt: at },
+        })
+        .returning();
+      return attempt;
     } catch (error) {
-      console.error('Error in deleteAccLog:', error);
-      throw new Error('Failed to delete acc log from database');
+      log.error('Error in recordLoginFailure', { err: error });
+      throw new Error('Failed to record login attempt in database');
     }
   }
 
-  async deleteMultipleAccLogs(ids: number[]): Promise<number> {
+  async clearLoginAttempts(username: string): Promise<void> {
     await this.ensureSchema();
-    if (ids.length === 0) return 0;
     try {
-      const result = await db.delete(accLogs).where(inArray(accLogs.id, ids));
-      return (result as any).rowsAffected ?? 0;
+      await db.delete(loginAttempts).where(eq(loginAttempts.username, username));
     } catch (error) {
-      console.error('Error in deleteMultipleAccLogs:', error);
-      throw new Error('Failed to delete multiple acc logs from database');
+      log.error('Error in clearLoginAttempts', { err: error });
+      throw new Error('Failed to clear login attempts in database');
     }
   }
 
-  async deleteAllAccLogs(): Promise<number> {
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
     await this.ensureSchema();
     try {
-      const result = await db.delete(accLogs);
-      return (result as any).rowsAffected ?? 0;
+      const rows = await db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.id));
+      return rows.map(parseApiToken);
     } catch (error) {
-      console.error('Error in deleteAllAccLogs:', error);
-      throw new Error('Failed to delete all acc logs from database');
+      log.error('Error in getApiTokens', { err: error });
+      throw new Error('Failed to fetch API tokens from database');
     }
   }
 
-  async getAccLogStats(): Promise<{ total: number; active: number; inactive: number }> {
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
     await this.ensureSchema();
     try {
-      const [stats] = await db
-        .select({
-          total: sql<number>`count(*)`,
-          active: sql<number>`sum(case when status = 1 then 1 else 0 end)`,
-          inactive: sql<number>`sum(case when status = 0 then 1 else 0 end)`
-        })
-        .from(accLogs);
-      return {
-        total: Number(stats?.total) || 0,
-        active: Number(stats?.active) || 0,
-        inactive: Number(stats?.inactive) || 0,
-      };
+      const [row] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+      return row ? parseApiToken(row) : undefined;
     } catch (error) {
-      console.error('Error in getAccLogStats:', error);
-      return { total: 0, active: 0, inactive: 0 };
+      log.error('Error in getApiTokenByHash', { err: error });
+      throw new Error('Failed to fetch API token from database');
     }
   }
 
-  async updateAllAccLogStatuses(status: boolean): Promise<number> {
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
     await this.ensureSchema();
     try {
-      await db.update(accLogs).set({ status, updatedAt: nowIso() });
-      const [row] = await db.select({ count: sql<number>`count(*)` }).from(accLogs);
-      return row?.count ?? 0;
+      const [created] = await db
+        .insert(apiTokens)
+        .values({ ...token, scopes: JSON.stringify(token.scopes), createdAt: nowIso() })
+        .returning();
+      return parseApiToken(created);
     } catch (error) {
-      console.error('Error in updateAllAccLogStatuses:', error);
-      throw new Error('Failed to update all acc log statuses');
+      log.error('Error in createApiToken', { err: error });
+      throw new Error('Failed to create API token in database');
     }
   }
 
-  async updateSelectedAccLogStatuses(ids: number[], status: boolean): Promise<number> {
+  async touchApiToken(id: number, at: string): Promise<void> {
     await this.ensureSchema();
-    if (ids.length === 0) return 0;
     try {
-      const result = await db
-        .update(accLogs)
-        .set({ status, updatedAt: nowIso() })
-        .where(inArray(accLogs.id, ids));
-      return (result as any).rowsAffected ?? ids.length;
+      await db.update(apiTokens).set({ lastUsedAt: at }).where(eq(apiTokens.id, id));
     } catch (error) {
-      console.error('Error in updateSelectedAccLogStatuses:', error);
-      throw new Error('Failed to update selected acc log statuses');
+      log.error('Error in touchApiToken', { err: error });
+      throw new Error('Failed to update API token in database');
     }
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
+  async deleteApiToken(id: number, userId: string): Promise<boolean> {
     await this.ensureSchema();
     try {
-      const [user] = await db.select().from(users).where(eq(users.username, username));
-      return user;
+      const result = await db.delete(apiTokens).where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)));
+      return result.rowsAffected > 0;
     } catch (error) {
-      console.error('Error in getUserByUsername:', error);
-      throw new Error('Failed to fetch user from database');
+      log.error('Error in deleteApiToken', { err: error });
+      throw new Error('Failed to delete API token from database');
     }
   }
 
   async getAllCloneRegs(): Promise<CloneReg[]> {
     await this.ensureSchema();
     try {
-      return await db.select().from(cloneRegs);
+      const rows = await db.select().from(cloneRegs);
+      return rows.map((row) => this.openRecord(row));
     } catch (error) {
-      console.error('Error in getAllCloneRegs:', error);
+      log.error('Error in getAllCloneRegs', { err: error });
       throw new Error('Failed to fetch clonereg from database');
     }
   }
@@ -819,15 +2622,15 @@ export class DatabaseStorage implements IStorage {
         : JSON.stringify(insertCloneReg.skins ?? []);
       const [row] = await db.insert(cloneRegs).values({
         username: insertCloneReg.username,
-        password: insertCloneReg.password,
+        password: this.sealPassword(insertCloneReg.password),
         champion: insertCloneReg.champion ?? null,
         champions: championsValue,
         skins: skinsValue,
         updatedAt: nowIso(),
       }).returning();
-      return row;
+      return this.openRecord(row);
     } catch (error) {
-      console.error('Error in createCloneReg:', error);
+      log.error('Error in createCloneReg', { err: error });
       throw new Error('Failed to create clonereg in database');
     }
   }
@@ -837,7 +2640,7 @@ export class DatabaseStorage implements IStorage {
     try {
       const patch: Record<string, unknown> = { updatedAt: nowIso() };
       if (updates.username !== undefined) patch.username = updates.username;
-      if (updates.password !== undefined) patch.password = updates.password;
+      if (updates.password !== undefined) patch.password = this.sealPassword(updates.password);
       if (Object.prototype.hasOwnProperty.call(updates, 'champion')) patch.champion = updates.champion ?? null;
       if (updates.champions !== undefined) {
         patch.champions = typeof updates.champions === 'string' ? updates.champions : JSON.stringify(updates.champions);
@@ -846,9 +2649,9 @@ export class DatabaseStorage implements IStorage {
         patch.skins = typeof updates.skins === 'string' ? updates.skins : JSON.stringify(updates.skins);
       }
       const [row] = await db.update(cloneRegs).set(patch as any).where(eq(cloneRegs.id, id)).returning();
-      return row || undefined;
+      return row ? this.openRecord(row) : undefined;
     } catch (error) {
-      console.error('Error in updateCloneRegDetails:', error);
+      log.error('Error in updateCloneRegDetails', { err: error });
       throw new Error('Failed to update clonereg in database');
     }
   }
@@ -859,7 +2662,7 @@ export class DatabaseStorage implements IStorage {
       const result = await db.delete(cloneRegs).where(eq(cloneRegs.id, id));
       return ((result as any).rowsAffected ?? 0) > 0;
     } catch (error) {
-      console.error('Error in deleteCloneReg:', error);
+      log.error('Error in deleteCloneReg', { err: error });
       throw new Error('Failed to delete clonereg from database');
     }
   }
@@ -867,47 +2670,165 @@ export class DatabaseStorage implements IStorage {
   async createLiveSession(session: InsertLiveSession): Promise<LiveSession> {
     await this.ensureSchema();
     try {
+      // Only one live can run at a time: starting a new one ends the previous
+      await db
+        .update(liveSessions)
+        .set({ status: "ended", endedAt: nowIso(), updatedAt: nowIso() })
+        .where(ne(liveSessions.status, "ended"));
       const [liveSession] = await db
         .insert(liveSessions)
         .values({
           sessionName: session.sessionName,
           pricePerAccount: session.pricePerAccount,
+          status: "active",
+          startedAt: nowIso(),
+          endedAt: null,
           createdAt: nowIso(),
           updatedAt: nowIso(),
         })
         .returning();
       return liveSession;
     } catch (error) {
-      console.error('Error in createLiveSession:', error);
+      log.error('Error in createLiveSession', { err: error });
+      throw new Error(`Failed to create live session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async createLiveSessionWithRules(session: InsertLiveSession, rules: InsertPricingRule[]): Promise<{ session: LiveSession; rules: PricingRule[] }> {
+    await this.ensureSchema();
+    try {
+      const now = nowIso();
+      const endPrevious = db
+        .update(liveSessions)
+        .set({ status: "ended", endedAt: now, updatedAt: now })
+        .where(ne(liveSessions.status, "ended"));
+      const insertSession = db
+        .insert(liveSessions)
+        .values({
+          sessionName: session.sessionName,
+          pricePerAccount: session.pricePerAccount,
+          status: "active",
+          startedAt: now,
+          endedAt: null,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+      // Inside the batch the new session is the only one not ended, which gives the rules its id
+      const newSessionId = sql<number>`(SELECT ${liveSessions.id} FROM ${liveSessions} WHERE ${liveSessions.status} != 'ended')`;
+      const statements = [
+        endPrevious,
+        insertSession,
+        ...rules.map((rule) => db.insert(pricingRules).values({ ...rule, sessionId: newSessionId, createdAt: now })),
+      ];
+      const [, [liveSession]] = await db.batch(statements as [typeof endPrevious, typeof insertSession, ...typeof statements]);
+      return { session: liveSession, rules: await this.getPricingRules(liveSession.id) };
+    } catch (error) {
+      log.error('Error in createLiveSessionWithRules', { err: error });
       throw new Error(`Failed to create live session: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  async getLiveSession(id: number): Promise<LiveSession | undefined> {
+    await this.ensureSchema();
+    try {
+      const [session] = await db.select().from(liveSessions).where(eq(liveSessions.id, id));
+      return session;
+    } catch (error) {
+      log.error('Error in getLiveSession', { err: error });
+      throw new Error('Failed to fetch live session from database');
+    }
+  }
+
   async getActiveLiveSession(): Promise<LiveSession | undefined> {
     await this.ensureSchema();
     try {
       const [session] = await db
         .select()
         .from(liveSessions)
+        .where(eq(liveSessions.status, "active"))
         .orderBy(desc(liveSessions.createdAt))
         .limit(1);
       return session;
     } catch (error) {
-      console.error('Error in getActiveLiveSession:', error);
+      log.error('Error in getActiveLiveSession', { err: error });
       throw new Error('Failed to fetch active live session from database');
     }
   }
 
+  async getOpenLiveSession(): Promise<LiveSession | undefined> {
+    await this.ensureSchema();
+    try {
+      const [session] = await db
+        .select()
+        .from(liveSessions)
+        .where(ne(liveSessions.status, "ended"))
+        .orderBy(desc(liveSessions.createdAt))
+        .limit(1);
+      return session;
+    } catch (error) {
+      log.error('Error in getOpenLiveSession', { err: error });
+      throw new Error('Failed to fetch open live session from database');
+    }
+  }
+
+  async updateLiveSessionStatus(id: number, status: LiveSessionStatus): Promise<LiveSession | undefined> {
+    await this.ensureSchema();
+    try {
+      const [session] = await db
+        .update(liveSessions)
+        .set({ status, endedAt: status === "ended" ? nowIso() : null, updatedAt: nowIso() })
+        .where(eq(liveSessions.id, id))
+        .returning();
+      return session || undefined;
+    } catch (error) {
+      log.error('Error in updateLiveSessionStatus', { err: error });
+      throw new Error('Failed to update live session status in database');
+    }
+  }
+
   async getAllLiveSessions(): Promise<LiveSession[]> {
     await this.ensureSchema();
     try {
       return await db.select().from(liveSessions).orderBy(desc(liveSessions.createdAt));
     } catch (error) {
-      console.error('Error in getAllLiveSessions:', error);
+      log.error('Error in getAllLiveSessions', { err: error });
       throw new Error('Failed to fetch live sessions from database');
     }
   }
 
+  async getPricingRules(sessionId: number): Promise<PricingRule[]> {
+    await this.ensureSchema();
+    try {
+      return await db
+        .select()
+        .from(pricingRules)
+        .where(eq(pricingRules.sessionId, sessionId))
+        .orderBy(desc(pricingRules.priority), pricingRules.id);
+    } catch (error) {
+      log.error('Error in getPricingRules', { err: error });
+      throw new Error('Failed to fetch pricing rules from database');
+    }
+  }
+
+  async replacePricingRules(sessionId: number, rules: InsertPricingRule[]): Promise<PricingRule[]> {
+    await this.ensureSchema();
+    try {
+      // One batch, so a failed insert cannot leave the session without rules
+      const remove = db.delete(pricingRules).where(eq(pricingRules.sessionId, sessionId));
+      if (rules.length > 0) {
+        const now = nowIso();
+        await db.batch([remove, db.insert(pricingRules).values(rules.map((rule) => ({ ...rule, sessionId, createdAt: now })))]);
+      } else {
+        await remove;
+      }
+      return await this.getPricingRules(sessionId);
+    } catch (error) {
+      log.error('Error in replacePricingRules', { err: error });
+      throw new Error('Failed to save pricing rules in database');
+    }
+  }
+
   async createRevenueRecord(record: InsertRevenueRecord): Promise<RevenueRecord> {
     await this.ensureSchema();
     try {
@@ -917,11 +2838,27 @@ export class DatabaseStorage implements IStorage {
         .returning();
       return revenueRecord;
     } catch (error) {
-      console.error('Error in createRevenueRecord:', error);
+      log.error('Error in createRevenueRecord', { err: error });
       throw new Error('Failed to create revenue record in database');
     }
   }
 
+  async createRevenueRecords(records: InsertRevenueRecord[]): Promise<RevenueRecord[]> {
+    await this.ensureSchema();
+    if (records.length === 0) return [];
+    try {
+      const createdAt = nowIso();
+      const statements = chunked(records, BULK_INSERT_CHUNK_SIZE).map((chunk) => db
+        .insert(revenueRecords)
+        .values(chunk.map((record) => ({ ...record, createdAt })))
+        .returning());
+      return (await db.batch(statements as [typeof statements[number], ...typeof statements])).flat();
+    } catch (error) {
+      log.error('Error in createRevenueRecords', { err: error });
+      throw new Error('Failed to create revenue records in database');
+    }
+  }
+
   async getRevenueStatsByDate(startDate: Date, endDate: Date): Promise<Array<{ date: string; revenue: number; accountCount: number }>> {
     await this.ensureSchema();
     try {
@@ -934,6 +2871,7 @@ export class DatabaseStorage implements IStorage {
         .from(revenueRecords)
         .where(
           and(
+            isNull(revenueRecords.voidedAt),
             gte(revenueRecords.createdAt, startDate.toISOString()),
             lte(revenueRecords.createdAt, endDate.toISOString())
           )
@@ -946,7 +2884,7 @@ export class DatabaseStorage implements IStorage {
         accountCount: Number(row.accountCount) || 0,
       }));
     } catch (error) {
-      console.error('Error in getRevenueStatsByDate:', error);
+      log.error('Error in getRevenueStatsByDate', { err: error });
       throw new Error('Failed to fetch revenue stats from database');
     }
   }
@@ -960,16 +2898,335 @@ export class DatabaseStorage implements IStorage {
           accountCount: sql<number>`count(*)`,
         })
         .from(revenueRecords)
-        .where(eq(revenueRecords.sessionId, sessionId));
+        .where(and(eq(revenueRecords.sessionId, sessionId), isNull(revenueRecords.voidedAt)));
       return {
         totalRevenue: Number(result?.totalRevenue) || 0,
         accountCount: Number(result?.accountCount) || 0,
       };
     } catch (error) {
-      console.error('Error in getCurrentSessionRevenue:', error);
+      log.error('Error in getCurrentSessionRevenue', { err: error });
       throw new Error('Failed to fetch current session revenue from database');
     }
   }
+
+  async voidLatestRevenueRecords(sessionId: number | null, accountIds: number[], reason: string): Promise<RevenueRecord[]> {
+    await this.ensureSchema();
+    try {
+      const uniqueIds = Array.from(new Set(accountIds));
+      if (uniqueIds.length === 0) return [];
+
+      // Only the most recent sale per account is reversed. Chunks cover whole accounts, so the
+      // newest-first order within each chunk is enough.
+      const latestIds = new Map<number, number>();
+      for (const chunk of chunked(uniqueIds, BULK_LOOKUP_CHUNK_SIZE)) {
+        const candidates = await db
+          .select({ id: revenueRecords.id, accountId: revenueRecords.accountId })
+          .from(revenueRecords)
+          .where(
+            and(
+              sessionId === null ? undefined : eq(revenueRecords.sessionId, sessionId),
+              inArray(revenueRecords.accountId, chunk),
+              isNull(revenueRecords.voidedAt)
+            )
+          )
+          .orderBy(desc(revenueRecords.id));
+        for (const record of candidates) {
+          if (!latestIds.has(record.accountId)) {
+            latestIds.set(record.accountId, record.id);
+          }
+        }
+      }
+      if (latestIds.size === 0) return [];
+
+      const voidedAt = nowIso();
+      const statements = chunked(Array.from(latestIds.values()), BULK_LOOKUP_CHUNK_SIZE).map((chunk) => db
+        .update(revenueRecords)
+        .set({ voidedAt, voidReason: reason })
+        .where(inArray(revenueRecords.id, chunk))
+        .returning());
+      return (await db.batch(statements as [typeof statements[number], ...typeof statements])).flat();
+    } catch (error) {
+      log.error('Error in voidLatestRevenueRecords', { err: error });
+      throw new Error('Failed to void revenue records in database');
+    }
+  }
+
+  async getVoidedRevenueRecords(sessionId?: number): Promise<RevenueRecord[]> {
+    await this.ensureSchema();
+    try {
+      const conditions = [isNotNull(revenueRecords.voidedAt)];
+      if (sessionId !== undefined) {
+        conditions.push(eq(revenueRecords.sessionId, sessionId));
+      }
+      return await db
+        .select()
+        .from(revenueRecords)
+        .where(and(...conditions))
+        .orderBy(desc(revenueRecords.voidedAt));
+    } catch (error) {
+      log.error('Error in getVoidedRevenueRecords', { err: error });
+      throw new Error('Failed to fetch voided revenue records from database');
+    }
+  }
+
+  async getAllBuyers(): Promise<Buyer[]> {
+    await this.ensureSchema();
+    try {
+      return await db.select().from(buyers).orderBy(desc(buyers.id));
+    } catch (error) {
+      log.error('Error in getAllBuyers', { err: error });
+      throw new Error('Failed to fetch buyers from database');
+    }
+  }
+
+  async getBuyer(id: number): Promise<Buyer | undefined> {
+    await this.ensureSchema();
+    try {
+      const [buyer] = await db.select().from(buyers).where(eq(buyers.id, id));
+      return buyer;
+    } catch (error) {
+      log.error('Error in getBuyer', { err: error });
+      throw new Error('Failed to fetch buyer from database');
+    }
+  }
+
+  async createBuyer(buyer: InsertBuyer): Promise<Buyer> {
+    await this.ensureSchema();
+    try {
+      const [created] = await db
+        .insert(buyers)
+        .values({ ...buyer, createdAt: nowIso() })
+        .returning();
+      return created;
+    } catch (error) {
+      log.error('Error in createBuyer', { err: error });
+      throw new Error('Failed to create buyer in database');
+    }
+  }
+
+  async createOrder(order: InsertOrder): Promise<Order> {
+    await this.ensureSchema();
+    try {
+      const [created] = await db
+        .insert(orders)
+        .values({ ...order, createdAt: nowIso() })
+        .returning();
+      return created;
+    } catch (error) {
+      log.error('Error in createOrder', { err: error });
+      throw new Error('Failed to create order in database');
+    }
+  }
+
+  async getOrdersByBuyer(buyerId: number): Promise<Order[]> {
+    await this.ensureSchema();
+    try {
+      return await db.select().from(orders).where(eq(orders.buyerId, buyerId)).orderBy(desc(orders.id));
+    } catch (error) {
+      log.error('Error in getOrdersByBuyer', { err: error });
+      throw new Error('Failed to fetch orders from database');
+    }
+  }
+
+  async getRevenueRecordsByOrders(orderIds: number[]): Promise<RevenueRecord[]> {
+    await this.ensureSchema();
+    if (orderIds.length === 0) return [];
+    try {
+      return await db.select().from(revenueRecords).where(inArray(revenueRecords.orderId, orderIds));
+    } catch (error) {
+      log.error('Error in getRevenueRecordsByOrders', { err: error });
+      throw new Error('Failed to fetch order items from database');
+    }
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    await this.ensureSchema();
+    try {
+      const [created] = await db.insert(auditEvents).values({
+        actorId: event.actorId,
+        action: event.action,
+        entity: event.entity,
+        entityIds: JSON.stringify(event.entityIds),
+        changes: JSON.stringify(event.changes),
+        metadata: event.metadata ? JSON.stringify(event.metadata) : null,
+        createdAt: nowIso(),
+      }).returning();
+      const actor = event.actorId ? await this.getUser(event.actorId) : undefined;
+      return parseAuditEvent({ ...created, actorUsername: actor?.username ?? null });
+    } catch (error) {
+      log.error('Error in createAuditEvent', { err: error });
+      throw new Error('Failed to create audit event in database');
+    }
+  }
+
+  async queryAuditEvents(query: AuditQuery): Promise<ListPage<AuditEvent>> {
+    await this.ensureSchema();
+    try {
+      const conditions: SQL[] = [];
+      if (query.entity) conditions.push(eq(auditEvents.entity, query.entity));
+      if (query.action) conditions.push(eq(auditEvents.action, query.action));
+      if (query.actorId) conditions.push(eq(auditEvents.actorId, query.actorId));
+      if (query.entityId) {
+        conditions.push(sql`EXISTS (SELECT 1 FROM json_each(${auditEvents.entityIds}) WHERE CAST(json_each.value AS TEXT) = ${query.entityId})`);
+      }
+      if (query.from) conditions.push(sql`datetime(${auditEvents.createdAt}) >= datetime(${query.from})`);
+      if (query.to) conditions.push(sql`datetime(${auditEvents.createdAt}) <= datetime(${query.to})`);
+      const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const [{ total }] = await db.select({ total: sql<number>`count(*)` }).from(auditEvents).where(where);
+      const rows = await db
+        .select({ event: auditEvents, actorUsername: users.username })
+        .from(auditEvents)
+        .leftJoin(users, eq(users.id, auditEvents.actorId))
+        .where(where)
+        .orderBy(desc(auditEvents.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize);
+
+      return {
+        items: rows.map(({ event, actorUsername }) => parseAuditEvent({ ...event, actorUsername })),
+        total: Number(total),
+        page: query.page,
+        pageSize: query.pageSize,
+        nextCursor: null,
+      };
+    } catch (error) {
+      log.error('Error in queryAuditEvents', { err: error });
+      throw new Error('Failed to fetch audit events from database');
+    }
+  }
+
+  async createImportBatch(batch: InsertImportBatch): Promise<ImportBatch> {
+    await this.ensureSchema();
+    try {
+      const [created] = await db.insert(importBatches).values({ ...batch, createdAt: nowIso() }).returning();
+      const creator = await this.getUser(created.createdBy);
+      return parseImportBatch({ ...created, createdByUsername: creator?.username ?? null });
+    } catch (error) {
+      log.error('Error in createImportBatch', { err: error });
+      throw new Error('Failed to create import batch in database');
+    }
+  }
+
+  async finishImportBatch(id: number, result: ImportBatchResult): Promise<ImportBatch | undefined> {
+    await this.ensureSchema();
+    try {
+      await db
+        .update(importBatches)
+        .set({ ...result, createdIds: JSON.stringify(result.createdIds) })
+        .where(eq(importBatches.id, id));
+      return await this.getImportBatch(id);
+    } catch (error) {
+      log.error('Error in finishImportBatch', { err: error });
+      throw new Error('Failed to update import batch in database');
+    }
+  }
+
+  async abortImportBatches(status: Extract<ImportBatchStatus, "failed" | "interrupted">, id?: number): Promise<number> {
+    await this.ensureSchema();
+    try {
+      // Rows the import got to write are stamped with the batch id, so the counts are taken from them
+      const statements = ([["accounts", accounts], ["acclogs", accLogs]] as const).map(([entity, table]) => db
+        .update(importBatches)
+        .set({
+          status,
+          imported: sql<number>`(SELECT count(*) FROM ${table} WHERE ${table.importBatchId} = ${importBatches.id})`,
+          createdIds: sql<string>`(SELECT json_group_array(${table.id}) FROM ${table} WHERE ${table.importBatchId} = ${importBatches.id})`,
+        })
+        .where(and(eq(importBatches.entity, entity), eq(importBatches.status, "running"), id === undefined ? undefined : eq(importBatches.id, id)))
+        .returning({ id: importBatches.id }));
+      const results = await db.batch(statements as [typeof statements[number], ...typeof statements]);
+      return results.flat().length;
+    } catch (error) {
+      log.error('Error in abortImportBatches', { err: error });
+      throw new Error('Failed to close import batches in database');
+    }
+  }
+
+  async getImportBatch(id: number): Promise<ImportBatch | undefined> {
+    await this.ensureSchema();
+    try {
+      const [row] = await db
+        .select({ batch: importBatches, createdByUsername: users.username })
+        .from(importBatches)
+        .leftJoin(users, eq(users.id, importBatches.createdBy))
+        .where(eq(importBatches.id, id));
+      return row ? parseImportBatch({ ...row.batch, createdByUsername: row.createdByUsername }) : undefined;
+    } catch (error) {
+      log.error('Error in getImportBatch', { err: error });
+      throw new Error('Failed to fetch import batch from database');
+    }
+  }
+
+  async queryImportBatches(entity: ImportJobEntity, query: ImportBatchQuery): Promise<ListPage<ImportBatch>> {
+    await this.ensureSchema();
+    try {
+      const where = eq(importBatches.entity, entity);
+      const [{ total }] = await db.select({ total: sql<number>`count(*)` }).from(importBatches).where(where);
+      const rows = await db
+        .select({ batch: importBatches, createdByUsername: users.username })
+        .from(importBatches)
+        .leftJoin(users, eq(users.id, importBatches.createdBy))
+        .where(where)
+        .orderBy(desc(importBatches.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize);
+      return {
+        items: rows.map(({ batch, createdByUsername }) => parseImportBatch({ ...batch, createdByUsername })),
+        total: Number(total),
+        page: query.page,
+        pageSize: query.pageSize,
+        nextCursor: null,
+      };
+    } catch (error) {
+      log.error('Error in queryImportBatches', { err: error });
+      throw new Error('Failed to fetch import batches from database');
+    }
+  }
+
+  async rollbackImportBatch(id: number, rolledBackBy: string): Promise<{ batch: ImportBatch; deleted: Array<Account | AccLog>; kept: number[] } | undefined> {
+    await this.ensureSchema();
+    try {
+      const batch = await this.getImportBatch(id);
+      if (!batch || batch.rolledBackAt) return undefined;
+      const table = batch.entity === "accounts" ? accounts : accLogs;
+      // Same rule as isUntouchedImport: sold, held, returned or booked accounts stay
+      const removable = batch.entity === "accounts"
+        ? and(
+            eq(accounts.importBatchId, id),
+            eq(accounts.state, "available"),
+            notExists(db.select({ id: revenueRecords.id }).from(revenueRecords).where(eq(revenueRecords.accountId, accounts.id))),
+          )!
+        : eq(accLogs.importBatchId, id);
+      // The batch row is claimed first (rolled_back_at IS NULL) so two rollbacks cannot both report the rows
+      const mark = db
+        .update(importBatches)
+        .set({
+          rolledBackAt: nowIso(),
+          rolledBackBy,
+          rolledBackCount: sql<number>`(SELECT count(*) FROM ${table} WHERE ${removable})`,
+        })
+        .where(and(eq(importBatches.id, id), isNull(importBatches.rolledBackAt)))
+        .returning();
+      const untag = db
+        .delete(accountTags)
+        .where(inArray(accountTags.accountId, db.select({ id: accounts.id }).from(accounts).where(removable)));
+      const remove = batch.entity === "accounts"
+        ? db.delete(accounts).where(removable).returning()
+        : db.delete(accLogs).where(removable).returning();
+      const remaining = db.select({ id: table.id }).from(table).where(eq(table.importBatchId, id));
+      const [marked, , deleted, kept] = await db.batch([mark, untag, remove, remaining]);
+      if (marked.length === 0) return undefined;
+      return {
+        batch: parseImportBatch({ ...marked[0], createdByUsername: batch.createdByUsername }),
+        deleted: (deleted as Array<Account | AccLog>).map((row) => this.openRecord(row)),
+        kept: kept.map((row) => row.id),
+      };
+    } catch (error) {
+      log.error('Error in rollbackImportBatch', { err: error });
+      throw new Error('Failed to roll back import batch in database');
+    }
+  }
 }
 
 const useDatabaseStorage = process.env.NODE_ENV === 'production' || process.env.USE_DATABASE_STORAGE === 'true';
@@ -979,7 +3236,7 @@ let storageInstance: IStorage;
 if (useDatabaseStorage) {
   storageInstance = new DatabaseStorage();
 } else {
-  console.warn('Using in-memory storage. Set USE_DATABASE_STORAGE=true to enable Turso-backed storage.');
+  log.warn('Using in-memory storage. Set USE_DATABASE_STORAGE=true to enable Turso-backed storage.');
   storageInstance = new MemoryStorage();
 }
 
@@ -0,0 +1,130 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Time-based one-time passwords (RFC 6238, SHA-1, 6 digits, 30 s steps), as used by
+// Google Authenticator, Authy and similar apps, plus single-use recovery codes.
+const ISSUER = "AccChungSuc";
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const SECRET_BYTES = 20;
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next step too, for clocks that drift a little
+const WINDOW_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_BYTES = 5;
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac("sha1", key).update(message).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const code = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return code.toString().padStart(DIGITS, "0");
+}
+
+function sameString(left: string, right: string): boolean {
+  const a = Buffer.from(left);
+  const b = Buffer.from(right);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+export function totpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+export function generateTotp(secret: string, step = totpStep()): string {
+  return hotp(base32Decode(secret), step);
+}
+
+// The step the code belongs to, or null when it matches none in the window. Steps at or
+// before `lastStep` are refused so an accepted code cannot be replayed.
+export function verifyTotp(secret: string, code: string, lastStep: number | null, now = Date.now()): number | null {
+  const key = base32Decode(secret);
+  const current = totpStep(now);
+  for (let step = current - WINDOW_STEPS; step <= current + WINDOW_STEPS; step++) {
+    if (lastStep !== null && step <= lastStep) continue;
+    if (sameString(hotp(key, step), code)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// otpauth:// link understood by authenticator apps (and what their QR codes contain)
+export function totpUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer: ISSUER, algorithm: "SHA1", digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// Plain codes to show the user once, and the JSON of their hashes to store
+export function generateRecoveryCodes(): { codes: string[]; stored: string } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(RECOVERY_CODE_BYTES)).toLowerCase();
+    return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+  });
+  return { codes, stored: JSON.stringify(codes.map(hashRecoveryCode)) };
+}
+
+export function countRecoveryCodes(stored: string): number {
+  return (JSON.parse(stored) as string[]).length;
+}
+
+// The stored hashes without the used code, or null when the code is not one of them
+export function consumeRecoveryCode(stored: string, code: string): string | null {
+  const hashes = JSON.parse(stored) as string[];
+  const hash = hashRecoveryCode(code);
+  const index = hashes.findIndex((item) => sameString(item, hash));
+  if (index === -1) {
+    return null;
+  }
+  return JSON.stringify(hashes.filter((_, i) => i !== index));
+}
@@ -1,25 +1,54 @@
 import { sql } from "drizzle-orm";
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, primaryKey } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Account lifecycle. The boolean `status` is kept in sync for ON/OFF views: ON only while "available"
+export const ACCOUNT_STATES = ["available", "reserved", "sold", "banned", "returned"] as const;
+export type AccountState = typeof ACCOUNT_STATES[number];
+
+export const ACCOUNT_STATE_TRANSITIONS: Record<AccountState, readonly AccountState[]> = {
+  available: ["reserved", "sold", "banned"],
+  reserved: ["available", "sold", "banned"],
+  // sold → available undoes a misclicked sale, sold → returned is a buyer return
+  sold: ["available", "returned", "banned"],
+  banned: ["available"],
+  returned: ["available", "banned"],
+};
+
+export function canTransitionAccountState(from: AccountState, to: AccountState): boolean {
+  return ACCOUNT_STATE_TRANSITIONS[from].includes(to);
+}
+
+export function accountStatusForState(state: AccountState): boolean {
+  return state === "available";
+}
+
 export const accounts = sqliteTable("accounts", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   lv: integer("lv").notNull().default(0),
   status: integer("status", { mode: "boolean" }).notNull().default(true),
-  tag: text("tag"),
+  state: text("state", { enum: ACCOUNT_STATES }).notNull().default("available"),
+  // The legacy single-tag `tag` column is migrated into account_tags at startup and no longer read
   champion: text("champion"),
   // Store skins as JSON string
   skins: text("skins").notNull().default("[]"),
+  // Manual sale price; takes precedence over the live session's pricing rules
+  priceOverride: integer("price_override"),
+  // Hold while a buyer is paying; set only in the "reserved" state and cleared on any other transition
+  heldBy: text("held_by"),
+  heldForBuyerId: integer("held_for_buyer_id"),
+  heldUntil: text("held_until"),
+  // The import that created the account, so the import can be rolled back; null when added by hand
+  importBatchId: integer("import_batch_id"),
   updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
 });
 
 export const insertAccountSchema = createInsertSchema(accounts).pick({
   username: true,
   password: true,
-  tag: true,
   lv: true,
   champion: true,
   skins: true,
@@ -43,8 +72,67 @@ export const updateAccountSchema = createInsertSchema(accounts).pick({
   status: true,
 });
 
-export const updateAccountTagSchema = z.object({
-  tag: z.union([z.string().trim().max(64), z.null()]),
+export const updateAccountStateSchema = z.object({
+  state: z.enum(ACCOUNT_STATES),
+});
+
+export const HOLD_DEFAULT_MINUTES = 15;
+export const HOLD_MAX_MINUTES = 240;
+
+export const reserveAccountSchema = z.object({
+  minutes: z.coerce.number().int().min(1).max(HOLD_MAX_MINUTES).default(HOLD_DEFAULT_MINUTES),
+  buyerId: z.number().int().positive().optional(),
+});
+
+// Tags are identified by id; names are unique ignoring case
+export const tags = sqliteTable("tags", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  color: text("color").notNull().default("#64748b"),
+  description: text("description"),
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+});
+
+export const accountTags = sqliteTable("account_tags", {
+  accountId: integer("account_id").references(() => accounts.id).notNull(),
+  tagId: integer("tag_id").references(() => tags.id).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.accountId, table.tagId] }),
+}));
+
+export const DEFAULT_TAG_COLOR = "#64748b";
+
+export const insertTagSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  color: z.string().trim().regex(/^#[0-9a-fA-F]{6}$/, "Màu phải có dạng #rrggbb").default(DEFAULT_TAG_COLOR),
+  description: z
+    .union([z.string().trim().max(200), z.null()])
+    .optional()
+    .transform((v) => (typeof v === "string" && v.length > 0 ? v : null)),
+});
+
+// Rename and recolour; omitted fields are left unchanged
+export const updateTagSchema = z.object({
+  name: insertTagSchema.shape.name.optional(),
+  color: z.string().trim().regex(/^#[0-9a-fA-F]{6}$/, "Màu phải có dạng #rrggbb").optional(),
+  description: insertTagSchema.shape.description,
+});
+
+export const mergeTagsSchema = z.object({
+  sourceIds: z.array(z.number().int().positive()).min(1),
+  targetId: z.number().int().positive(),
+}).refine((value) => !value.sourceIds.includes(value.targetId), {
+  message: "Tag đích không được nằm trong danh sách gộp",
+});
+
+// Add and remove tags on many accounts at once
+export const updateAccountTagsSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1),
+  add: z.array(z.number().int().positive()).default([]),
+  remove: z.array(z.number().int().positive()).default([]),
+}).refine((value) => value.add.length > 0 || value.remove.length > 0, {
+  message: "Chọn ít nhất một tag để thêm hoặc gỡ",
 });
 
 // Update details: allow partial updates for editable fields
@@ -59,13 +147,31 @@ export const updateAccountDetailsSchema = z.object({
     .transform((v) => (typeof v === "string" && v.trim().length > 0 ? v.trim() : null)),
   skins: z.array(z.string().trim()).max(200).optional()
     .transform((arr) => arr ? JSON.stringify(arr) : undefined),
+  // null clears the override
+  priceOverride: z.union([z.coerce.number().int().min(0), z.null()]).optional(),
 });
 
 export type InsertAccount = z.infer<typeof insertAccountSchema>;
 export type UpdateAccount = z.infer<typeof updateAccountSchema>;
-export type UpdateAccountTag = z.infer<typeof updateAccountTagSchema>;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type UpdateTag = z.infer<typeof updateTagSchema>;
+export type UpdateAccountTags = z.infer<typeof updateAccountTagsSchema>;
 export type UpdateAccountDetails = z.infer<typeof updateAccountDetailsSchema>;
+export type ReserveAccount = z.infer<typeof reserveAccountSchema>;
 export type Account = typeof accounts.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+export type TagWithCount = Tag & { accountCount: number };
+export type AccountTagRef = Pick<Tag, "id" | "name" | "color">;
+// Accounts as listed: with their tags attached
+export type AccountWithTags = Account & { tags: AccountTagRef[] };
+export type AccountHold = Pick<Account, "heldBy" | "heldForBuyerId" | "heldUntil">;
+
+export interface AccountStateTransitionResult {
+  updated: Array<{ account: Account; from: AccountState }>;
+  // Accounts already in the target state are skipped without counting as rejected.
+  // heldBy is set when the account is rejected because another operator holds it
+  rejected: Array<{ id: number; from: AccountState; heldBy?: string | null }>;
+}
 
 // CloneReg table for manual registry management screen
 export const cloneRegs = sqliteTable("clonereg", {
@@ -124,6 +230,8 @@ export const accLogs = sqliteTable("acclogs", {
   password: text("password").notNull(),
   lv: integer("lv").notNull().default(0),
   status: integer("status", { mode: "boolean" }).notNull().default(true),
+  // Same as accounts.importBatchId
+  importBatchId: integer("import_batch_id"),
   updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
 });
 
@@ -139,14 +247,333 @@ export const updateAccLogSchema = createInsertSchema(accLogs).pick({
   status: true,
 });
 
+export const updateAccLogLevelSchema = z.object({
+  lv: z.coerce.number().int().min(0),
+});
+
+// Logs reaching minLevel are moved into stock automatically; null turns the rule off
+export const autoPromoteSettingSchema = z.object({
+  minLevel: z.union([z.coerce.number().int().min(1), z.null()]),
+});
+
 export type InsertAccLog = z.infer<typeof insertAccLogSchema>;
+
+// Bulk inserts (imports): "all_or_nothing" writes nothing when any row conflicts,
+// "skip_invalid" writes the other rows and reports the conflicting ones
+export const BULK_INSERT_MODES = ["all_or_nothing", "skip_invalid"] as const;
+export type BulkInsertMode = typeof BULK_INSERT_MODES[number];
+export const bulkInsertModeSchema = z.enum(BULK_INSERT_MODES).default("skip_invalid");
+
+// What an import does with a username that is already stored: leave it (reported as a
+// conflict), replace its password, replace its level, or take every field from the file
+export const IMPORT_EXISTING_ACTIONS = ["skip", "overwrite_password", "update_level", "merge"] as const;
+export type ImportExistingAction = typeof IMPORT_EXISTING_ACTIONS[number];
+export const importExistingActionSchema = z.enum(IMPORT_EXISTING_ACTIONS).default("skip");
+
+export interface BulkInsertOptions {
+  mode: BulkInsertMode;
+  onExisting: ImportExistingAction;
+  // Stamped on the created rows; updated rows keep the batch that created them
+  importBatchId?: number | null;
+}
+
+export interface BulkInsertConflict {
+  // Position in the records passed in
+  index: number;
+  username: string;
+  reason: "duplicate_in_batch" | "already_exists";
+}
+
+// What a bulk insert would do, by position of the records passed in
+export interface BulkInsertPlan {
+  create: number[];
+  update: number[];
+  conflicts: BulkInsertConflict[];
+}
+
+export interface BulkInsertResult<T> {
+  created: T[];
+  // Stored records changed because of onExisting
+  updated: T[];
+  conflicts: BulkInsertConflict[];
+}
 export type UpdateAccLog = z.infer<typeof updateAccLogSchema>;
+export type AutoPromoteSetting = z.infer<typeof autoPromoteSettingSchema>;
 export type AccLog = typeof accLogs.$inferSelect;
 
+// One row per lv change of an acc log, including the level it was created with (fromLv = null).
+// No FK so the history outlives logs that get promoted or deleted
+export const accLogLevelHistory = sqliteTable("acclog_level_history", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  accLogId: integer("acclog_id").notNull(),
+  username: text("username").notNull(),
+  fromLv: integer("from_lv"),
+  toLv: integer("to_lv").notNull(),
+  recordedAt: text("recorded_at").notNull().default(sql`(datetime('now'))`),
+});
+
+export type AccLogLevelChange = typeof accLogLevelHistory.$inferSelect;
+
+export interface AccLogPromotionResult {
+  promoted: Array<{ accLogId: number; account: Account }>;
+  skipped: Array<{ id: number; reason: string }>;
+}
+
+// Server-side listing of accounts and acc logs
+export const LIST_SORT_FIELDS = ["updatedAt", "username", "lv"] as const;
+export type ListSortField = typeof LIST_SORT_FIELDS[number];
+
+// Tag filter value matching accounts without any tag
+export const TAG_FILTER_UNASSIGNED = "__unassigned__";
+
+// "any": at least one of the filtered tags (OR), "all": every filtered tag (AND)
+export const TAG_MATCH_MODES = ["any", "all"] as const;
+export type TagMatchMode = typeof TAG_MATCH_MODES[number];
+
+const listDateSchema = z
+  .string()
+  .trim()
+  .refine((value) => !isNaN(Date.parse(value)), { message: "Ngày không hợp lệ" })
+  .transform((value) => new Date(value).toISOString());
+
+export const listQuerySchema = z.object({
+  search: z.string().trim().max(160).optional(),
+  status: z.enum(["on", "off"]).optional(),
+  // Accounts only
+  state: z.enum(ACCOUNT_STATES).optional(),
+  // Comma separated tag ids, or TAG_FILTER_UNASSIGNED
+  tags: z
+    .union([
+      z.literal(TAG_FILTER_UNASSIGNED),
+      z.string().regex(/^\d+(,\d+)*$/).transform((value) => value.split(",").map(Number)),
+    ])
+    .optional(),
+  tagMatch: z.enum(TAG_MATCH_MODES).default("any"),
+  minLv: z.coerce.number().int().min(0).optional(),
+  maxLv: z.coerce.number().int().min(0).optional(),
+  updatedFrom: listDateSchema.optional(),
+  updatedTo: listDateSchema.optional(),
+  // Comma separated ids, e.g. to load a selection spanning several pages
+  ids: z
+    .string()
+    .regex(/^\d+(,\d+)*$/)
+    .transform((value) => value.split(",").map(Number))
+    .optional(),
+  sort: z.enum(LIST_SORT_FIELDS).default("updatedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  // Either page (offset) or cursor (keyset) paging; without page, cursor and pageSize every match is returned
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(1000).optional(),
+  cursor: z.string().max(512).optional(),
+});
+
+export type ListQuery = z.infer<typeof listQuerySchema>;
+
+export interface ListPage<T> {
+  items: T[];
+  total: number;
+  // null when paging by cursor
+  page: number | null;
+  pageSize: number;
+  nextCursor: string | null;
+}
+
+// Account and acc log lists send this instead of the password; the real one is fetched
+// through the reveal endpoints, which write an audit entry
+export const MASKED_PASSWORD = "••••••••";
+export const MAX_REVEAL_IDS = 1000;
+
+export const revealPasswordsSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(MAX_REVEAL_IDS),
+});
+
+export interface RevealedPassword {
+  id: number;
+  username: string;
+  password: string;
+}
+
+// Imports run as background jobs; progress and failed rows are pushed over Socket.IO
+// ("import-job-updated") and the job can be read back from /api/import-jobs/:id
+export const MAX_IMPORT_JOB_RECORDS = 20000;
+export const IMPORT_JOB_ENTITIES = ["accounts", "acclogs"] as const;
+export type ImportJobEntity = typeof IMPORT_JOB_ENTITIES[number];
+export const IMPORT_JOB_STATUSES = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export type ImportJobStatus = typeof IMPORT_JOB_STATUSES[number];
+
+// Rows are checked one by one inside the job, so a bad row fails alone instead of the request
+export const createImportJobSchema = z.object({
+  records: z.array(z.unknown()).min(1).max(MAX_IMPORT_JOB_RECORDS),
+  sourceName: z.string().min(1).max(160).optional(),
+  mode: bulkInsertModeSchema,
+  onExisting: importExistingActionSchema,
+});
+
+// Dry run of an import: the same records and options, nothing written
+export const validateImportSchema = createImportJobSchema.omit({ sourceName: true });
+export type ValidateImport = z.infer<typeof validateImportSchema>;
+
+// "skip" covers invalid rows and conflicts; `error` says why
+export const IMPORT_ROW_ACTIONS = ["new", "update", "skip"] as const;
+export type ImportRowAction = typeof IMPORT_ROW_ACTIONS[number];
+
+export interface ImportValidationRow {
+  // Position in the records sent
+  index: number;
+  username: string | null;
+  action: ImportRowAction;
+  error: string | null;
+}
+
+export interface ImportValidationResult {
+  rows: ImportValidationRow[];
+  counts: Record<ImportRowAction, number>;
+  // False when mode is "all_or_nothing" and some row would be skipped, so nothing would be written
+  committable: boolean;
+}
+
+export interface ImportRowError {
+  // 1-based position in the submitted records
+  row: number;
+  username: string | null;
+  error: string;
+}
+
+export interface ImportJob {
+  id: string;
+  entity: ImportJobEntity;
+  sourceName: string | null;
+  status: ImportJobStatus;
+  total: number;
+  processed: number;
+  imported: number;
+  // Stored records changed because of the job's onExisting action
+  updated: number;
+  errorCount: number;
+  createdBy: string;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  // Why a job failed
+  message: string | null;
+}
+
+// Only the first errors are kept; errorCount has the full number
+export type ImportJobDetail = ImportJob & { errors: ImportRowError[] };
+
+// Payload of the "import-job-updated" socket event: the job and the rows that failed since the last one
+export interface ImportJobUpdate {
+  job: ImportJob;
+  errors: ImportRowError[];
+}
+
+export function isImportJobFinished(job: Pick<ImportJob, "status">): boolean {
+  return job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+}
+
+// Import history: one row per import request, file, text paste or background job, with the
+// ids it created. Rolling a batch back deletes the rows still tagged with its id.
+export const IMPORT_BATCH_SOURCES = ["batch", "job", "file", "text"] as const;
+export type ImportBatchSource = typeof IMPORT_BATCH_SOURCES[number];
+// "interrupted": the server stopped before the import finished
+export const IMPORT_BATCH_STATUSES = ["running", "completed", "cancelled", "failed", "interrupted"] as const;
+export type ImportBatchStatus = typeof IMPORT_BATCH_STATUSES[number];
+
+export const importBatches = sqliteTable("import_batches", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  entity: text("entity", { enum: IMPORT_JOB_ENTITIES }).notNull(),
+  source: text("source", { enum: IMPORT_BATCH_SOURCES }).notNull(),
+  // Supplier file name or label given by the client
+  sourceName: text("source_name"),
+  createdBy: text("created_by").notNull(),
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  imported: integer("imported").notNull().default(0),
+  updated: integer("updated").notNull().default(0),
+  errors: integer("errors").notNull().default(0),
+  status: text("status", { enum: IMPORT_BATCH_STATUSES }).notNull().default("running"),
+  // JSON array of the ids created
+  createdIds: text("created_ids").notNull().default("[]"),
+  rolledBackAt: text("rolled_back_at"),
+  rolledBackBy: text("rolled_back_by"),
+  // Rows deleted by the rollback; created rows deleted or promoted since then are not counted
+  rolledBackCount: integer("rolled_back_count"),
+});
+
+export type ImportBatch = Omit<typeof importBatches.$inferSelect, "createdIds"> & {
+  createdIds: number[];
+  createdByUsername: string | null;
+};
+export type InsertImportBatch = Pick<ImportBatch, "entity" | "source" | "sourceName" | "createdBy">;
+export type ImportBatchResult = Pick<ImportBatch, "status" | "imported" | "updated" | "errors" | "createdIds">;
+
+export interface ImportBatchRollbackResult {
+  batch: ImportBatch;
+  deleted: number;
+  // Accounts left in place because they were sold, held, returned or have revenue since the import
+  kept: number[];
+}
+
+export const importBatchQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+export type ImportBatchQuery = z.infer<typeof importBatchQuerySchema>;
+
+// Key/value settings that can be changed from the dashboard
+export const appSettings = sqliteTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+});
+
+export type AppSetting = typeof appSettings.$inferSelect;
+
+// Operator roles; what each role may do is fixed in ROLE_PERMISSIONS
+export const USER_ROLES = ["owner", "moderator", "leveller"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const PERMISSIONS = [
+  "accounts:read",
+  "accounts:status",
+  "accounts:write",
+  "accounts:delete",
+  "acclogs:read",
+  "acclogs:write",
+  "acclogs:delete",
+  "revenue:read",
+  "revenue:manage",
+  "settings:manage",
+  "users:manage",
+  "audit:read",
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+// Moderators sell and hold accounts during lives; levellers only work on acc logs
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  moderator: ["accounts:read", "accounts:status", "revenue:read"],
+  leveller: ["acclogs:read", "acclogs:write", "acclogs:delete"],
+};
+
+export function roleHasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
 export const users = sqliteTable("users", {
   id: text("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Users created before roles existed keep full access
+  role: text("role", { enum: USER_ROLES }).notNull().default("owner"),
+  // Disabled users cannot log in and their open sessions stop working
+  disabled: integer("disabled", { mode: "boolean" }).notNull().default(false),
+  // Base32 TOTP secret; set while enrolling and kept once totpEnabled is on
+  totpSecret: text("totp_secret"),
+  totpEnabled: integer("totp_enabled", { mode: "boolean" }).notNull().default(false),
+  // JSON array of SHA-256 hashes of the unused recovery codes
+  totpRecoveryCodes: text("totp_recovery_codes").notNull().default("[]"),
+  // Time step of the last accepted code, so a code cannot be used twice
+  totpLastStep: integer("totp_last_step"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -156,11 +583,131 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password" | "totpSecret" | "totpRecoveryCodes" | "totpLastStep">;
+
+const userPasswordSchema = z.string().min(8, "Mật khẩu tối thiểu 8 ký tự").max(128);
+
+export const createUserSchema = z.object({
+  username: z.string().trim().min(3).max(64),
+  password: userPasswordSchema,
+  role: z.enum(USER_ROLES),
+});
+
+export const updateUserSchema = z
+  .object({
+    role: z.enum(USER_ROLES).optional(),
+    disabled: z.boolean().optional(),
+  })
+  .refine((value) => value.role !== undefined || value.disabled !== undefined, {
+    message: "Nothing to update",
+  });
+
+export const resetUserPasswordSchema = z.object({
+  password: userPasswordSchema,
+});
+
+export const changeOwnPasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: userPasswordSchema,
+});
+
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, "Mã xác thực gồm 6 chữ số");
+// A code from the authenticator app or one of the recovery codes
+const totpOrRecoveryCodeSchema = z.string().trim().min(6).max(32);
+
+export const totpLoginSchema = z.object({
+  code: totpOrRecoveryCodeSchema,
+});
+
+export const totpSetupSchema = z.object({
+  currentPassword: z.string().min(1),
+});
+
+export const totpEnableSchema = z.object({
+  code: totpCodeSchema,
+});
+
+// Turning 2FA off or replacing the recovery codes needs both factors
+export const totpConfirmSchema = z.object({
+  currentPassword: z.string().min(1),
+  code: totpOrRecoveryCodeSchema,
+});
+
+// /api/login answers with this instead of the user when a TOTP code is still needed
+export interface TotpChallenge {
+  totpRequired: true;
+}
+
+export interface TotpStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TotpSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// Failed logins per lower-cased username, kept in the database so a restart does not clear a lockout
+export const loginAttempts = sqliteTable("login_attempts", {
+  username: text("username").primaryKey(),
+  failedCount: integer("failed_count").notNull().default(0),
+  lastFailedAt: text("last_failed_at").notNull(),
+});
+
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+
+// Personal API tokens for scripts and bots, sent as "Authorization: Bearer <token>". Only a
+// SHA-256 hash is stored. A request made with a token may do what both its scopes and the
+// owner's role allow.
+export const apiTokens = sqliteTable("api_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  // Start of the token, so its owner can tell tokens apart
+  tokenPrefix: text("token_prefix").notNull(),
+  // JSON array of permissions
+  scopes: text("scopes").notNull().default("[]"),
+  expiresAt: text("expires_at").notNull(),
+  lastUsedAt: text("last_used_at"),
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+});
+
+export type ApiToken = Omit<typeof apiTokens.$inferSelect, "scopes"> & { scopes: Permission[] };
+export type InsertApiToken = Omit<ApiToken, "id" | "lastUsedAt" | "createdAt">;
+// As listed to its owner; the hash stays on the server
+export type ApiTokenInfo = Omit<ApiToken, "tokenHash">;
+// The token itself is only returned once, when it is created
+export type CreatedApiToken = ApiTokenInfo & { token: string };
+
+export const API_TOKEN_MAX_DAYS = 365;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  scopes: z.array(z.enum(PERMISSIONS)).min(1).max(PERMISSIONS.length),
+  expiresInDays: z.number().int().min(1).max(API_TOKEN_MAX_DAYS).default(90),
+});
+
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+
+export type CreateUser = z.infer<typeof createUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
+// The signed-in operator as reported by GET /api/auth/status
+export type AuthUser = Pick<User, "id" | "username" | "role"> & { permissions: Permission[] };
+
+// Live session lifecycle: revenue is only booked while a session is "active"
+export const LIVE_SESSION_STATUSES = ["active", "paused", "ended"] as const;
+export type LiveSessionStatus = typeof LIVE_SESSION_STATUSES[number];
 
 export const liveSessions = sqliteTable("live_sessions", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   sessionName: text("session_name").notNull(),
   pricePerAccount: integer("price_per_account").notNull(),
+  status: text("status", { enum: LIVE_SESSION_STATUSES }).notNull().default("active"),
+  startedAt: text("started_at").notNull().default(sql`(datetime('now'))`),
+  endedAt: text("ended_at"),
   createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
   updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
 });
@@ -175,12 +722,125 @@ export const insertLiveSessionSchema = createInsertSchema(liveSessions).pick({
 export type InsertLiveSession = z.infer<typeof insertLiveSessionSchema>;
 export type LiveSession = typeof liveSessions.$inferSelect;
 
+// Pricing rules attached to a live session. Every criterion set on a rule must match;
+// the matching rule with the highest priority wins, otherwise the session flat price applies.
+export const pricingRules = sqliteTable("pricing_rules", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  sessionId: integer("session_id").references(() => liveSessions.id).notNull(),
+  name: text("name").notNull(),
+  minLevel: integer("min_level"),
+  maxLevel: integer("max_level"),
+  tag: text("tag"),
+  minSkins: integer("min_skins"),
+  maxSkins: integer("max_skins"),
+  price: integer("price").notNull(),
+  priority: integer("priority").notNull().default(0),
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+});
+
+const optionalBound = z.union([z.coerce.number().int().min(0), z.null()]).optional()
+  .transform((v) => (typeof v === "number" ? v : null));
+
+export const insertPricingRuleSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  minLevel: optionalBound,
+  maxLevel: optionalBound,
+  tag: z.union([z.string().trim().max(64), z.null()]).optional()
+    .transform((v) => (typeof v === "string" && v.length > 0 ? v : null)),
+  minSkins: optionalBound,
+  maxSkins: optionalBound,
+  price: z.coerce.number().int().min(0),
+  priority: z.coerce.number().int().default(0),
+}).refine(
+  (rule) => rule.minLevel !== null || rule.maxLevel !== null || rule.tag !== null || rule.minSkins !== null || rule.maxSkins !== null,
+  { message: "Rule cần ít nhất một điều kiện (cấp độ, tag hoặc số skin)" },
+).refine(
+  (rule) => rule.minLevel === null || rule.maxLevel === null || rule.minLevel <= rule.maxLevel,
+  { message: "Cấp độ tối thiểu phải nhỏ hơn hoặc bằng cấp độ tối đa", path: ["maxLevel"] },
+).refine(
+  (rule) => rule.minSkins === null || rule.maxSkins === null || rule.minSkins <= rule.maxSkins,
+  { message: "Số skin tối thiểu phải nhỏ hơn hoặc bằng số skin tối đa", path: ["maxSkins"] },
+);
+
+export type InsertPricingRule = z.infer<typeof insertPricingRuleSchema>;
+export type PricingRule = typeof pricingRules.$inferSelect;
+
+export const PRICE_SOURCES = ["override", "rule", "session"] as const;
+export type PriceSource = typeof PRICE_SOURCES[number];
+
+// Buyers and their orders; each sold account of an order is a revenue record carrying the order id
+export const buyers = sqliteTable("buyers", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  // Phone / Zalo / Facebook link used to deliver credentials
+  contact: text("contact"),
+  note: text("note"),
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+});
+
+export const insertBuyerSchema = createInsertSchema(buyers).pick({
+  name: true,
+  contact: true,
+  note: true,
+}).extend({
+  name: z.string().trim().min(1).max(120),
+  contact: z.union([z.string().trim().max(160), z.null()]).optional()
+    .transform((v) => (typeof v === "string" && v.length > 0 ? v : null)),
+  note: z.union([z.string().trim().max(500), z.null()]).optional()
+    .transform((v) => (typeof v === "string" && v.length > 0 ? v : null)),
+});
+
+export type InsertBuyer = z.infer<typeof insertBuyerSchema>;
+export type Buyer = typeof buyers.$inferSelect;
+
+export const orders = sqliteTable("orders", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  buyerId: integer("buyer_id").references(() => buyers.id).notNull(),
+  sessionId: integer("session_id").references(() => liveSessions.id),
+  note: text("note"),
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+});
+
+export const insertOrderSchema = createInsertSchema(orders).pick({
+  buyerId: true,
+  sessionId: true,
+  note: true,
+}).extend({
+  buyerId: z.number().int().positive(),
+  sessionId: z.number().int().positive().nullable(),
+  note: z.string().trim().max(500).nullable().default(null),
+});
+
+export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type Order = typeof orders.$inferSelect;
+
+// Buyer attached to an ON→OFF status toggle: an existing buyer id, or name/contact of a new buyer
+export const orderBuyerSchema = z.object({
+  buyerId: z.number().int().positive().optional(),
+  name: z.string().trim().min(1).max(120).optional(),
+  contact: z.string().trim().max(160).optional(),
+  // Note stored on the order
+  note: z.string().trim().max(500).optional(),
+}).refine((value) => value.buyerId !== undefined || value.name !== undefined, {
+  message: "Cần chọn người mua hoặc nhập tên người mua",
+});
+
+export type OrderBuyerInput = z.infer<typeof orderBuyerSchema>;
+
 export const revenueRecords = sqliteTable("revenue_records", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   sessionId: integer("session_id").references(() => liveSessions.id),
   accountId: integer("account_id").references(() => accounts.id).notNull(),
   pricePerAccount: integer("price_per_account").notNull(),
   revenue: integer("revenue").notNull(),
+  // How the price was resolved. Rule id/name are a snapshot since rules can be replaced later
+  priceSource: text("price_source", { enum: PRICE_SOURCES }).notNull().default("session"),
+  pricingRuleId: integer("pricing_rule_id"),
+  pricingRuleName: text("pricing_rule_name"),
+  orderId: integer("order_id").references(() => orders.id),
+  // Set when the account is toggled back ON within the session; voided rows are excluded from totals
+  voidedAt: text("voided_at"),
+  voidReason: text("void_reason"),
   createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
 });
 
@@ -189,21 +849,102 @@ export const insertRevenueRecordSchema = createInsertSchema(revenueRecords).pick
   accountId: true,
   pricePerAccount: true,
   revenue: true,
+  priceSource: true,
+  pricingRuleId: true,
+  pricingRuleName: true,
+  orderId: true,
 }).extend({
   sessionId: z.number().int().positive().nullable(),
   accountId: z.number().int().positive(),
   pricePerAccount: z.coerce.number().int().min(0),
   revenue: z.coerce.number().int().min(0),
+  priceSource: z.enum(PRICE_SOURCES).default("session"),
+  pricingRuleId: z.number().int().positive().nullable().default(null),
+  pricingRuleName: z.string().nullable().default(null),
+  orderId: z.number().int().positive().nullable().default(null),
 });
 
 export type InsertRevenueRecord = z.infer<typeof insertRevenueRecordSchema>;
 export type RevenueRecord = typeof revenueRecords.$inferSelect;
 
+// Audit trail of every mutation: who did what to which records, with the changed fields before and after
+export const AUDIT_ENTITIES = [
+  "account",
+  "acclog",
+  "tag",
+  "clonereg",
+  "buyer",
+  "live_session",
+  "pricing_rule",
+  "setting",
+  "user",
+] as const;
+export type AuditEntity = typeof AUDIT_ENTITIES[number];
+
+// Only fields that changed; before is null for created records, after is null for deleted ones
+export interface AuditRecordChange {
+  id: number | string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export const auditEvents = sqliteTable("audit_events", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  // null for changes made by the server itself (e.g. expired holds)
+  actorId: text("actor_id"),
+  // "<entity>.<verb>", e.g. "account.state"
+  action: text("action").notNull(),
+  entity: text("entity", { enum: AUDIT_ENTITIES }).notNull(),
+  // JSON arrays / object
+  entityIds: text("entity_ids").notNull().default("[]"),
+  changes: text("changes").notNull().default("[]"),
+  metadata: text("metadata"),
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+});
+
+export type AuditEvent = Omit<typeof auditEvents.$inferSelect, "entityIds" | "changes" | "metadata"> & {
+  entityIds: Array<number | string>;
+  changes: AuditRecordChange[];
+  metadata: Record<string, unknown> | null;
+  actorUsername: string | null;
+};
+export type InsertAuditEvent = Omit<AuditEvent, "id" | "createdAt" | "actorUsername">;
+
+export const auditQuerySchema = z.object({
+  entity: z.enum(AUDIT_ENTITIES).optional(),
+  action: z.string().trim().min(1).max(64).optional(),
+  actorId: z.string().trim().min(1).max(64).optional(),
+  entityId: z.string().trim().min(1).max(64).optional(),
+  from: listDateSchema.optional(),
+  to: listDateSchema.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
 // Sessions table for persistent session storage
 export const sessions = sqliteTable("sessions", {
   sid: text("sid").primaryKey(),
   sess: text("sess").notNull(),
   expire: integer("expire").notNull(),
+  // Copied out of `sess` so a user's logins can be listed and revoked
+  userId: text("user_id"),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  createdAt: text("created_at"),
+  lastSeenAt: text("last_seen_at"),
 });
 
 export type Session = typeof sessions.$inferSelect;
+
+// One login as shown to its user. `id` is derived from the session id, which itself is
+// never sent to the browser outside the cookie.
+export interface SessionInfo {
+  id: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  current: boolean;
+}